@@ -0,0 +1,36 @@
+#!/bin/sh
+# Writes the runtime configuration for loadEnv() in src/config/env.ts from
+# every VITE_* variable of the container, like server.js does. Copy it into
+# the nginx image's /docker-entrypoint.d so it runs before nginx starts:
+#
+#   COPY nginx-config-json.sh /docker-entrypoint.d/40-config-json.sh
+set -eu
+
+CONFIG_JSON_PATH="${CONFIG_JSON_PATH:-/usr/share/nginx/html/config.json}"
+
+awk '
+function json_string(value,    out, i, c) {
+  out = ""
+  for (i = 1; i <= length(value); i++) {
+    c = substr(value, i, 1)
+    if (c == "\\" || c == "\"") out = out "\\" c
+    else if (c in control) out = out control[c]
+    else out = out c
+  }
+  return "\"" out "\""
+}
+
+BEGIN {
+  for (i = 1; i < 32; i++) control[sprintf("%c", i)] = sprintf("\\u%04x", i)
+
+  printf "{"
+  separator = ""
+  for (name in ENVIRON) {
+    if (name !~ /^VITE_[A-Za-z0-9_]+$/) continue
+    printf "%s\n  %s: %s", separator, json_string(name), json_string(ENVIRON[name])
+    separator = ","
+  }
+  printf "\n}\n"
+}' > "$CONFIG_JSON_PATH"
+
+echo "$0: wrote $CONFIG_JSON_PATH"
@@ -17,6 +17,16 @@ if (fs.existsSync(BUILD_DIR)) {
   console.log('BUILD_DIR contents:', fs.readdirSync(BUILD_DIR));
 }
 
+// Runtime configuration: VITE_* variables for loadEnv() in src/config/env.ts,
+// so one image can be deployed to any environment
+app.get('/config.json', (req, res) => {
+  const config = Object.fromEntries(
+    Object.entries(process.env).filter(([name]) => name.startsWith('VITE_'))
+  );
+  res.setHeader('Cache-Control', 'no-store');
+  res.json(config);
+});
+
 // Serve static files
 app.use(express.static(BUILD_DIR));
 
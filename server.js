@@ -1,7 +1,8 @@
 import express from 'express';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { existsSync, readdirSync } from 'fs';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { randomUUID } from 'crypto';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -9,6 +10,16 @@ const __dirname = dirname(__filename);
 const app = express();
 const PORT = process.env.PORT || 3000;
 const BUILD_DIR = join(__dirname, 'build');
+const MOCK_API_ENABLED = process.env.MOCK_API === 'true';
+const MOCK_API_PREFIX = process.env.MOCK_API_PREFIX || '/api';
+const MOCK_API_DATA_FILE =
+  process.env.MOCK_API_DATA_FILE || join(__dirname, '.mock-api', 'db.json');
+const LOG_INGEST_ENABLED = process.env.LOG_INGEST_ENABLED === 'true';
+const LOG_INGEST_PATH = process.env.LOG_INGEST_PATH || '/logs';
+const LOG_INGEST_ORIGINS = (process.env.LOG_INGEST_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
 
 console.log('Starting server...');
 console.log('PORT:', PORT);
@@ -19,6 +30,381 @@ if (existsSync(BUILD_DIR)) {
   console.log('BUILD_DIR contents:', readdirSync(BUILD_DIR));
 }
 
+// ---------------------------------------------------------------------------
+// Mock REST backend (MOCK_API=true)
+//
+// Mirrors the endpoints used by the BaseApi clients in src/infrastructure/api
+// so the app can run end-to-end against a JSON file instead of the real T4S
+// backend. Lists return PaginatedResponse, failures return ApiError.
+// ---------------------------------------------------------------------------
+
+const MOCK_COLLECTIONS = ['products', 'materials', 'suppliers', 'orders', 'approvals'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_IDEMPOTENCY_KEYS = 500;
+const MAX_PAGE_SIZE = 100;
+
+function createEmptyDatabase() {
+  return Object.fromEntries(MOCK_COLLECTIONS.map((collection) => [collection, []]));
+}
+
+function loadDatabase() {
+  if (!existsSync(MOCK_API_DATA_FILE)) return createEmptyDatabase();
+  try {
+    const parsed = JSON.parse(readFileSync(MOCK_API_DATA_FILE, 'utf8'));
+    const db = createEmptyDatabase();
+    for (const collection of MOCK_COLLECTIONS) {
+      if (Array.isArray(parsed?.[collection])) db[collection] = parsed[collection];
+    }
+    return db;
+  } catch (err) {
+    console.error('Failed to read mock API data file, starting empty:', err);
+    return createEmptyDatabase();
+  }
+}
+
+function saveDatabase(db) {
+  mkdirSync(dirname(MOCK_API_DATA_FILE), { recursive: true });
+  const tmpFile = `${MOCK_API_DATA_FILE}.tmp`;
+  writeFileSync(tmpFile, JSON.stringify(db, null, 2));
+  renameSync(tmpFile, MOCK_API_DATA_FILE);
+}
+
+function sendError(res, status, code, message, details) {
+  res.status(status).json({ message, status, code, ...(details ? { details } : {}) });
+}
+
+function parsePositiveInt(value, fallback) {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function matchesSearch(entity, search) {
+  const needle = search.toLowerCase();
+  return Object.values(entity).some(
+    (value) => typeof value === 'string' && value.toLowerCase().includes(needle)
+  );
+}
+
+function matchesWorkspace(collection, entity, workspaceId) {
+  if (collection === 'orders') return entity.workspaceId === workspaceId;
+  if (collection === 'approvals') {
+    return entity.requesterId === workspaceId || entity.approverId === workspaceId;
+  }
+  return true;
+}
+
+function paginate(items, query) {
+  const page = parsePositiveInt(query.page, 1);
+  const limit = Math.min(parsePositiveInt(query.limit, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const start = (page - 1) * limit;
+  return {
+    data: items.slice(start, start + limit),
+    meta: {
+      total: items.length,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(items.length / limit)),
+    },
+  };
+}
+
+function isPlainObject(value) {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function createMockApiRouter() {
+  const db = loadDatabase();
+  const router = express.Router();
+  // Replayed POSTs (client retries) return the entity created the first time
+  const createdByIdempotencyKey = new Map();
+
+  router.use((req, res, next) => {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET,POST,PUT,PATCH,DELETE,OPTIONS');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      req.headers['access-control-request-headers'] || 'Content-Type, Authorization, X-T4S-OWI'
+    );
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+
+  router.use(express.json({ limit: '25mb' }));
+
+  // Test helper: wipe (or seed) the whole store between Playwright specs
+  router.post('/__reset', (req, res) => {
+    const seed = isPlainObject(req.body) ? req.body : {};
+    for (const collection of MOCK_COLLECTIONS) {
+      db[collection] = Array.isArray(seed[collection]) ? seed[collection] : [];
+    }
+    saveDatabase(db);
+    res.status(204).end();
+  });
+
+  router.param('collection', (req, res, next, collection) => {
+    if (!MOCK_COLLECTIONS.includes(collection)) {
+      sendError(res, 404, 'NOT_FOUND', `Unknown resource: ${collection}`);
+      return;
+    }
+    next();
+  });
+
+  // Writes carrying If-Match must name the stored version (ETag "<version>")
+  function isStale(req, res, entity) {
+    const ifMatch = req.get('If-Match');
+    if (!ifMatch || ifMatch === '*' || ifMatch === `"${entity.version ?? 1}"`) {
+      return false;
+    }
+    sendError(res, 412, 'VERSION_CONFLICT', `${req.params.collection} ${req.params.id} has changed`);
+    return true;
+  }
+
+  function findIndexOr404(req, res) {
+    const index = db[req.params.collection].findIndex((entity) => entity.id === req.params.id);
+    if (index === -1) {
+      sendError(res, 404, 'NOT_FOUND', `${req.params.collection} ${req.params.id} not found`);
+    }
+    return index;
+  }
+
+  router.get('/:collection', (req, res) => {
+    const { collection } = req.params;
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : '';
+    const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : '';
+
+    const items = db[collection]
+      .filter((entity) => !search || matchesSearch(entity, search))
+      .filter((entity) => !workspaceId || matchesWorkspace(collection, entity, workspaceId))
+      .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+
+    res.json(paginate(items, req.query));
+  });
+
+  router.get('/:collection/:id', (req, res) => {
+    const index = findIndexOr404(req, res);
+    if (index === -1) return;
+    res.json(db[req.params.collection][index]);
+  });
+
+  router.post('/:collection', (req, res) => {
+    if (!isPlainObject(req.body)) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Request body must be a JSON object');
+      return;
+    }
+    const idempotencyKey = req.get('Idempotency-Key');
+    const replayKey = idempotencyKey && `${req.params.collection}:${idempotencyKey}`;
+    if (replayKey && createdByIdempotencyKey.has(replayKey)) {
+      res.status(201).json(createdByIdempotencyKey.get(replayKey));
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const entity = { ...req.body, id: randomUUID(), createdAt: now, updatedAt: now, version: 1 };
+    db[req.params.collection].unshift(entity);
+    saveDatabase(db);
+
+    if (replayKey) {
+      createdByIdempotencyKey.set(replayKey, entity);
+      if (createdByIdempotencyKey.size > MAX_IDEMPOTENCY_KEYS) {
+        createdByIdempotencyKey.delete(createdByIdempotencyKey.keys().next().value);
+      }
+    }
+    res.status(201).json(entity);
+  });
+
+  router.patch('/:collection/:id', (req, res) => {
+    if (!isPlainObject(req.body)) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Request body must be a JSON object');
+      return;
+    }
+    const index = findIndexOr404(req, res);
+    if (index === -1) return;
+
+    const items = db[req.params.collection];
+    if (isStale(req, res, items[index])) return;
+    const { id: _id, createdAt: _createdAt, version: _version, ...updates } = req.body;
+    items[index] = {
+      ...items[index],
+      ...updates,
+      updatedAt: new Date().toISOString(),
+      version: (items[index].version ?? 1) + 1,
+    };
+    saveDatabase(db);
+    res.json(items[index]);
+  });
+
+  router.put('/:collection/:id/bom', (req, res) => {
+    if (req.params.collection !== 'products') {
+      sendError(res, 404, 'NOT_FOUND', `Unknown resource: ${req.params.collection}/bom`);
+      return;
+    }
+    if (!isPlainObject(req.body) || !Array.isArray(req.body.items)) {
+      sendError(res, 400, 'VALIDATION_ERROR', 'Request body must contain an items array');
+      return;
+    }
+    const index = findIndexOr404(req, res);
+    if (index === -1) return;
+    if (isStale(req, res, db.products[index])) return;
+
+    const now = new Date().toISOString();
+    db.products[index] = {
+      ...db.products[index],
+      bom: { items: req.body.items, updatedAt: now },
+      updatedAt: now,
+      version: (db.products[index].version ?? 1) + 1,
+    };
+    saveDatabase(db);
+    res.json(db.products[index]);
+  });
+
+  router.delete('/:collection/:id', (req, res) => {
+    const index = findIndexOr404(req, res);
+    if (index === -1) return;
+    if (isStale(req, res, db[req.params.collection][index])) return;
+    db[req.params.collection].splice(index, 1);
+    saveDatabase(db);
+    res.status(204).end();
+  });
+
+  router.use((req, res) => {
+    sendError(res, 404, 'NOT_FOUND', `No mock route for ${req.method} ${req.originalUrl}`);
+  });
+
+  router.use((err, req, res, next) => {
+    if (err.type === 'entity.parse.failed') {
+      sendError(res, 400, 'INVALID_JSON', 'Request body is not valid JSON');
+      return;
+    }
+    console.error('Mock API error:', err);
+    sendError(res, 500, 'INTERNAL_ERROR', err.message || 'Internal server error');
+  });
+
+  return router;
+}
+
+if (MOCK_API_ENABLED) {
+  console.log('Mock API enabled at', MOCK_API_PREFIX);
+  console.log('Mock API data file:', MOCK_API_DATA_FILE);
+  app.use(MOCK_API_PREFIX, createMockApiRouter());
+}
+
+// ---------------------------------------------------------------------------
+// Client log ingest (LOG_INGEST_ENABLED=true, VITE_LOG_ENDPOINT)
+//
+// Receives the batches posted by src/infrastructure/logging/http-log-sink.ts
+// and prints one JSON line per record, so they end up in the host's logs.
+// Off unless enabled, since anyone who can reach the server could write to
+// those logs. Only the app's own origin and LOG_INGEST_ORIGINS may post, and
+// batches and records are capped.
+// ---------------------------------------------------------------------------
+
+const LOG_LEVELS = new Set(['debug', 'info', 'warn', 'error']);
+const MAX_LOG_BATCH_BYTES = '64kb';
+const MAX_LOG_RECORDS = 50;
+const MAX_LOG_RECORD_CHARS = 4000;
+
+function isAllowedLogOrigin(req) {
+  const { origin } = req.headers;
+  if (!origin) return true;
+  if (LOG_INGEST_ORIGINS.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.get('host');
+  } catch {
+    return false;
+  }
+}
+
+function allowLogOrigin(req, res) {
+  if (!isAllowedLogOrigin(req)) {
+    res.status(403).json({ message: 'Origin not allowed', status: 403, code: 'FORBIDDEN_ORIGIN' });
+    return false;
+  }
+  if (req.headers.origin && LOG_INGEST_ORIGINS.includes(req.headers.origin)) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  return true;
+}
+
+// Only the LogRecord fields, so a record cannot pose as a server line
+function toLogLine(record) {
+  const line = JSON.stringify({
+    id: String(record.id ?? ''),
+    timestamp: String(record.timestamp ?? ''),
+    level: record.level,
+    message: String(record.message ?? ''),
+    context: record.context === undefined ? undefined : String(record.context),
+    correlationId: record.correlationId === undefined ? undefined : String(record.correlationId),
+    data: record.data,
+    source: 'client',
+    receivedAt: new Date().toISOString(),
+  });
+  if (line.length <= MAX_LOG_RECORD_CHARS) return line;
+  return JSON.stringify({
+    id: String(record.id ?? ''),
+    timestamp: String(record.timestamp ?? ''),
+    level: record.level,
+    message: String(record.message ?? '').slice(0, MAX_LOG_RECORD_CHARS / 2),
+    truncated: true,
+    source: 'client',
+    receivedAt: new Date().toISOString(),
+  });
+}
+
+if (LOG_INGEST_ENABLED) {
+  console.log('Client log ingest at', LOG_INGEST_PATH);
+
+  app.options(LOG_INGEST_PATH, (req, res) => {
+    if (!allowLogOrigin(req, res)) return;
+    res.setHeader('Access-Control-Allow-Methods', 'POST,OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.sendStatus(204);
+  });
+
+  app.post(LOG_INGEST_PATH, express.json({ limit: MAX_LOG_BATCH_BYTES }), (req, res) => {
+    if (!allowLogOrigin(req, res)) return;
+    const records = Array.isArray(req.body?.records) ? req.body.records : null;
+    if (!records) {
+      res.status(400).json({ message: 'Expected { records: [] }', status: 400, code: 'INVALID_LOGS' });
+      return;
+    }
+    if (records.length > MAX_LOG_RECORDS) {
+      res.status(413).json({
+        message: `At most ${MAX_LOG_RECORDS} records per request`,
+        status: 413,
+        code: 'TOO_MANY_LOGS',
+      });
+      return;
+    }
+    for (const record of records) {
+      if (!isPlainObject(record) || !LOG_LEVELS.has(record.level)) continue;
+      console.log(toLogLine(record));
+    }
+    res.status(204).end();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Runtime configuration
+//
+// Serves every VITE_* process environment variable as /config.json, which
+// loadEnv() in src/config/env.ts applies over the values built into the
+// bundle. One image can then be deployed to any environment. VITE_* values
+// are public by convention: Vite would inline them into the bundle anyway.
+// ---------------------------------------------------------------------------
+
+app.get('/config.json', (req, res) => {
+  const config = Object.fromEntries(
+    Object.entries(process.env).filter(([name]) => name.startsWith('VITE_'))
+  );
+  res.setHeader('Cache-Control', 'no-store');
+  res.json(config);
+});
+
 // Serve static files
 app.use(express.static(BUILD_DIR));
 
@@ -3,8 +3,14 @@ import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import { StrictMode } from 'react'
 import { toast } from 'sonner'
 
+import { useOutboxSync } from '@/app/hooks/use-outbox'
+import { useQueryCacheSync } from '@/app/hooks/use-query-cache-sync'
 import { AppRouter } from '@/app/router/app-router'
+import { DiagnosticsPanel } from '@/app/components/diagnostics-panel'
+import { StorageRecoveryDialog } from '@/app/components/storage-recovery-dialog'
+import { ApiRequestError } from '@/infrastructure/api/errors'
 import { Toaster } from '@/components/ui/sonner'
+import { logger } from '@/lib/logger'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -13,21 +19,40 @@ const queryClient = new QueryClient({
       gcTime: 5 * 60 * 1000,
       retry: false,
       refetchOnWindowFocus: true,
+      // The catalog repository serves reads and queues writes while offline,
+      // so queries and mutations must not be paused by React Query.
+      networkMode: 'always',
+    },
+    mutations: {
+      networkMode: 'always',
     },
   },
   queryCache: new QueryCache({
     onError: (error) => {
+      // API failures are already logged by apiClient
+      if (!(error instanceof ApiRequestError)) {
+        logger.error('Query failed', error, { context: 'Query' })
+      }
       toast.error(`Something went wrong: ${error.message}`)
     },
   }),
 })
 
+function QueryCacheSync() {
+  useQueryCacheSync()
+  useOutboxSync()
+  return null
+}
+
 function App() {
   return (
     <StrictMode>
       <QueryClientProvider client={queryClient}>
+        <QueryCacheSync />
         <AppRouter />
         <Toaster duration={3000} />
+        <DiagnosticsPanel />
+        <StorageRecoveryDialog />
         {import.meta.env.DEV && <ReactQueryDevtools />}
       </QueryClientProvider>
     </StrictMode>
@@ -1,15 +1,27 @@
+import { useState } from 'react'
 import { Link, useLocation } from 'react-router-dom'
 import {
+  ArchiveRestore,
   Boxes,
   Building2,
   LayoutDashboard,
+  LogOut,
   Settings,
   CheckCircle2,
   ChevronDown,
+  ShieldAlert,
+  ShieldCheck,
   ShoppingCart,
+  Shuffle,
+  Trash2,
 } from 'lucide-react'
 
+import { BackupRestoreDialog } from '@/app/components/backup-restore-dialog'
+import { IntegrityReportDialog } from '@/app/components/integrity-report-dialog'
+import { OutboxMenu } from '@/app/components/outbox-menu'
+import { useAuth } from '@/app/hooks/use-auth'
 import { useWorkspace } from '@/app/contexts/workspace-context'
+import { appPaths } from '@/app/router/paths'
 
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Badge } from '@/components/ui/badge'
@@ -24,25 +36,25 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { cn } from '@/lib/utils'
 
-// Hook to get the current variant prefix (v1, v2, v3, v4, or empty)
-function useVariantPrefix() {
-  const location = useLocation()
-  const match = location.pathname.match(/^\/(v[1-4])/)
-  return match ? match[1] : ''
-}
-
 export function AppNavigation() {
   const location = useLocation()
-  const variantPrefix = useVariantPrefix()
-  const basePath = variantPrefix ? `/${variantPrefix}` : ''
   const { activeWorkspace, setActiveWorkspace, workspaces } = useWorkspace()
+  const [isBackupDialogOpen, setIsBackupDialogOpen] = useState(false)
+  const [isIntegrityDialogOpen, setIsIntegrityDialogOpen] = useState(false)
+  const { user, isEnabled: isAuthEnabled, signOut } = useAuth()
+
+  const userName = user?.profile.name || user?.profile.given_name || 'Demo User'
+  const userEmail =
+    (user?.profile.emails as string[] | undefined)?.[0] ||
+    user?.profile.email ||
+    'demo@example.com'
 
   const navItems = [
-    { href: `${basePath}/`, label: 'Dashboard', icon: LayoutDashboard },
-    { href: `${basePath}/catalog`, label: 'Catalog', icon: Boxes },
-    { href: `${basePath}/suppliers`, label: 'Suppliers', icon: Building2 },
-    { href: `${basePath}/approvals`, label: 'Approvals', icon: CheckCircle2 },
-    { href: `${basePath}/orders`, label: 'Orders', icon: ShoppingCart },
+    { href: appPaths.dashboard(), label: 'Dashboard', icon: LayoutDashboard },
+    { href: appPaths.catalog(), label: 'Catalog', icon: Boxes },
+    { href: appPaths.suppliers(), label: 'Suppliers', icon: Building2 },
+    { href: appPaths.approvals(), label: 'Approvals', icon: CheckCircle2 },
+    { href: appPaths.orders(), label: 'Orders', icon: ShoppingCart },
   ]
 
   return (
@@ -50,7 +62,7 @@ export function AppNavigation() {
       <div className="mx-auto max-w-7xl px-4 py-3 sm:px-6 lg:px-8">
         <div className="flex items-center justify-between gap-3">
           <div className="flex items-center gap-4">
-            <Link to={basePath || '/'} className="flex items-center gap-3">
+            <Link to={appPaths.dashboard()} className="flex items-center gap-3">
               <div className="grid h-11 w-11 place-items-center rounded-2xl bg-primary text-sm font-bold text-primary-foreground shadow-[0_18px_28px_-18px_hsl(var(--primary)/0.9)]">
                 T4S
               </div>
@@ -108,10 +120,9 @@ export function AppNavigation() {
           <nav className="hidden flex-1 items-center justify-center gap-2 md:flex">
             {navItems.map((item) => {
               const Icon = item.icon
-              const isDashboard = item.href === `${basePath}/`
+              const isDashboard = item.href === appPaths.dashboard()
               const isActive = isDashboard
-                ? location.pathname === item.href ||
-                  location.pathname === basePath
+                ? location.pathname === item.href
                 : location.pathname.startsWith(item.href)
 
               return (
@@ -133,30 +144,34 @@ export function AppNavigation() {
           </nav>
 
           <div className="flex items-center gap-2">
-            <Badge
-              variant="secondary"
-              className="hidden rounded-full px-3 py-1 text-[11px] font-semibold md:inline-flex"
-            >
-              Demo Mode
-            </Badge>
+            <OutboxMenu />
+
+            {!isAuthEnabled && (
+              <Badge
+                variant="secondary"
+                className="hidden rounded-full px-3 py-1 text-[11px] font-semibold md:inline-flex"
+              >
+                Demo Mode
+              </Badge>
+            )}
 
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="outline" className="h-11 rounded-xl px-2.5">
                   <Avatar className="h-8 w-8 ring-2 ring-background">
                     <AvatarFallback className="bg-secondary text-xs font-semibold">
-                      U
+                      {userName.charAt(0).toUpperCase()}
                     </AvatarFallback>
                   </Avatar>
-                  <span className="hidden text-sm md:inline">Demo User</span>
+                  <span className="hidden text-sm md:inline">{userName}</span>
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-60">
                 <DropdownMenuLabel>
                   <div className="flex flex-col">
-                    <span className="text-sm font-semibold">Demo User</span>
+                    <span className="text-sm font-semibold">{userName}</span>
                     <span className="text-xs font-normal text-muted-foreground">
-                      demo@example.com
+                      {userEmail}
                     </span>
                   </div>
                 </DropdownMenuLabel>
@@ -165,6 +180,43 @@ export function AppNavigation() {
                   <Settings className="mr-2 h-4 w-4" />
                   Settings
                 </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => setIsBackupDialogOpen(true)}>
+                  <ArchiveRestore className="mr-2 h-4 w-4" />
+                  Backup & Restore
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => setIsIntegrityDialogOpen(true)}
+                >
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  Integrity Report
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to={appPaths.trash()}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Trash
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to={appPaths.flows()}>
+                    <Shuffle className="mr-2 h-4 w-4" />
+                    Creation Flow
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link to={appPaths.svhcScreening()}>
+                    <ShieldAlert className="mr-2 h-4 w-4" />
+                    SVHC Screening
+                  </Link>
+                </DropdownMenuItem>
+                {isAuthEnabled && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => void signOut()}>
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Sign out
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -174,10 +226,9 @@ export function AppNavigation() {
         <nav className="hide-scrollbar mt-4 flex items-center gap-2 overflow-x-auto pb-2 md:hidden">
           {navItems.map((item) => {
             const Icon = item.icon
-            const isDashboard = item.href === `${basePath}/`
+            const isDashboard = item.href === appPaths.dashboard()
             const isActive = isDashboard
-              ? location.pathname === item.href ||
-                location.pathname === basePath
+              ? location.pathname === item.href
               : location.pathname.startsWith(item.href)
 
             return (
@@ -198,6 +249,19 @@ export function AppNavigation() {
           })}
         </nav>
       </div>
+
+      <BackupRestoreDialog
+        open={isBackupDialogOpen}
+        onOpenChange={setIsBackupDialogOpen}
+      />
+      {/* Mounted only while open so the report does not load the whole
+          catalog on every page. */}
+      {isIntegrityDialogOpen && (
+        <IntegrityReportDialog
+          open={isIntegrityDialogOpen}
+          onOpenChange={setIsIntegrityDialogOpen}
+        />
+      )}
     </header>
   )
 }
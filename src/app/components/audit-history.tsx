@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { ArrowRight, History } from 'lucide-react'
+
+import { WORKSPACES } from '@/app/contexts/workspace-context'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { AuditAction, AuditEntry } from '@/infrastructure/cache/audit-log'
+import { cn } from '@/lib/utils'
+
+const COLLAPSED_CHANGE_COUNT = 6
+
+interface ActionStyle {
+  label: string
+  className: string
+}
+
+const ACTION_STYLES: Record<AuditAction, ActionStyle> = {
+  create: { label: 'Created', className: 'bg-emerald-500/10 text-emerald-600' },
+  update: { label: 'Updated', className: 'bg-blue-500/10 text-blue-600' },
+  delete: { label: 'Deleted', className: 'bg-red-500/10 text-red-600' },
+  restore: {
+    label: 'Restored',
+    className: 'bg-emerald-500/10 text-emerald-600',
+  },
+  purge: {
+    label: 'Deleted permanently',
+    className: 'bg-red-500/10 text-red-600',
+  },
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function getWorkspaceName(workspaceId: string | undefined) {
+  if (!workspaceId) return 'Unknown workspace'
+  return WORKSPACES.find((ws) => ws.id === workspaceId)?.name ?? workspaceId
+}
+
+function AuditEntryCard({ entry }: { entry: AuditEntry }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const action = ACTION_STYLES[entry.action]
+  // Creates and deletes carry every field, so only updates list their diff.
+  const changes = entry.action === 'update' ? entry.changes : []
+  const visibleChanges = isExpanded
+    ? changes
+    : changes.slice(0, COLLAPSED_CHANGE_COUNT)
+  const hiddenCount = changes.length - visibleChanges.length
+
+  return (
+    <div className="rounded-2xl border border-border/60 bg-card/40 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary" className={action.className}>
+            {action.label}
+          </Badge>
+          <span className="text-sm font-medium">
+            {getWorkspaceName(entry.workspaceId)}
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {new Date(entry.timestamp).toLocaleString()}
+        </span>
+      </div>
+
+      {visibleChanges.length > 0 && (
+        <div className="mt-3 divide-y divide-border/50 rounded-xl border border-border/50 bg-background/50 text-sm">
+          {visibleChanges.map((change) => (
+            <div
+              key={change.field}
+              className="grid gap-1 px-3 py-2 sm:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] sm:gap-4"
+            >
+              <span className="truncate font-mono text-xs text-muted-foreground">
+                {change.field}
+              </span>
+              <span className="flex min-w-0 items-center gap-2">
+                <span className="truncate text-muted-foreground line-through">
+                  {formatValue(change.before)}
+                </span>
+                <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="truncate font-medium">
+                  {formatValue(change.after)}
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hiddenCount > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-7 text-xs"
+          onClick={() => setIsExpanded(true)}
+        >
+          Show {hiddenCount} more change{hiddenCount === 1 ? '' : 's'}
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/** Timeline of the audit entries recorded for one entity, newest first. */
+export function AuditHistory({
+  entries,
+  className,
+}: {
+  entries: AuditEntry[]
+  className?: string
+}) {
+  if (entries.length === 0) {
+    return (
+      <div
+        className={cn(
+          'rounded-2xl border border-dashed border-border/60 p-12 text-center',
+          className
+        )}
+      >
+        <History className="mx-auto h-10 w-10 text-muted-foreground/40" />
+        <h3 className="mt-4 font-semibold">No history yet</h3>
+        <p className="mt-1 text-sm text-muted-foreground">
+          Changes made from now on will be listed here.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {entries.map((entry) => (
+        <AuditEntryCard key={entry.id} entry={entry} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,257 @@
+import { useRef, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { toast } from 'sonner'
+import { AlertTriangle, Download, Upload } from 'lucide-react'
+
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  BackupValidationError,
+  createWorkspaceBackup,
+  getBackupFileName,
+  parseWorkspaceBackup,
+  restoreWorkspaceBackup,
+  summarizeWorkspaceBackup,
+  type BackupSummary,
+  type RestoreMode,
+  type WorkspaceBackup,
+} from '@/infrastructure/backup/workspace-backup'
+import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
+
+interface BackupRestoreDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function BackupRestoreDialog({
+  open,
+  onOpenChange,
+}: BackupRestoreDialogProps) {
+  const { setActiveWorkspace } = useWorkspace()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [backup, setBackup] = useState<WorkspaceBackup | null>(null)
+  const [summary, setSummary] = useState<BackupSummary | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [issues, setIssues] = useState<string[]>([])
+
+  const reset = () => {
+    setBackup(null)
+    setSummary(null)
+    setMode('merge')
+    setIssues([])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const created = await createWorkspaceBackup()
+      saveAs(
+        new Blob([JSON.stringify(created)], { type: 'application/json' }),
+        getBackupFileName(created)
+      )
+      toast.success('Backup exported')
+    } catch (error) {
+      logger.error('Failed to export backup', error)
+      toast.error('Failed to export backup')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    reset()
+    try {
+      const parsed = parseWorkspaceBackup(await file.text())
+      setBackup(parsed)
+      setSummary(summarizeWorkspaceBackup(parsed))
+    } catch (error) {
+      if (error instanceof BackupValidationError) {
+        setIssues([error.message, ...error.issues])
+      } else {
+        setIssues(['The backup file could not be read'])
+      }
+    }
+  }
+
+  const handleRestore = () => {
+    if (!backup) return
+    try {
+      const result = restoreWorkspaceBackup(backup, mode)
+      if (mode === 'replace' && backup.data.activeWorkspaceId) {
+        setActiveWorkspace(backup.data.activeWorkspaceId)
+      }
+      toast.success('Backup restored', {
+        description:
+          result.conflicts.length > 0
+            ? `${result.conflicts.length} conflicting record(s) resolved`
+            : undefined,
+      })
+      handleOpenChange(false)
+    } catch (error) {
+      logger.error('Failed to restore backup', error)
+      toast.error('Failed to restore backup')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backup & Restore</DialogTitle>
+          <DialogDescription>
+            Export the catalog, orders, approvals and drafts stored in this
+            browser, or restore them from a backup file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <Button
+            variant="outline"
+            className="justify-start gap-2"
+            onClick={handleExport}
+            disabled={isExporting}
+          >
+            <Download className="h-4 w-4" />
+            {isExporting ? 'Exporting…' : 'Export backup'}
+          </Button>
+
+          <Button
+            variant="outline"
+            className="justify-start gap-2"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Choose backup file…
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileSelect}
+          />
+
+          {issues.length > 0 && (
+            <div className="rounded-xl border border-destructive/30 bg-destructive/5 p-3 text-sm">
+              <p className="flex items-center gap-2 font-semibold text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {issues[0]}
+              </p>
+              {issues.length > 1 && (
+                <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+                  {issues.slice(1, 11).map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {summary && (
+            <div className="space-y-3 rounded-xl border border-border/60 p-3 text-sm">
+              <p className="text-muted-foreground">
+                Exported {new Date(summary.exportedAt).toLocaleString()}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(summary.counts).map(([collection, count]) => (
+                  <Badge key={collection} variant="secondary">
+                    {count} {collection}
+                  </Badge>
+                ))}
+                <Badge variant="secondary">
+                  {summary.attachments} attachments
+                </Badge>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {(['merge', 'replace'] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setMode(option)}
+                    className={cn(
+                      'rounded-lg border p-2 text-left transition-colors',
+                      mode === option
+                        ? 'border-primary bg-primary/5'
+                        : 'border-border/60 hover:bg-secondary/60'
+                    )}
+                  >
+                    <p className="font-semibold capitalize">{option}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {option === 'merge'
+                        ? 'Keep current data; newer records win'
+                        : 'Discard current data and use the backup'}
+                    </p>
+                  </button>
+                ))}
+              </div>
+
+              {summary.conflicts.length > 0 && (
+                <div>
+                  <p className="font-semibold">
+                    {summary.conflicts.length} conflicting record(s)
+                  </p>
+                  <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto text-xs">
+                    {summary.conflicts.map((conflict) => (
+                      <li
+                        key={`${conflict.collection}:${conflict.id}`}
+                        className="flex items-center justify-between gap-2"
+                      >
+                        <span className="truncate">
+                          <span className="text-muted-foreground">
+                            {conflict.collection}
+                          </span>{' '}
+                          {conflict.label}{' '}
+                          <span className="font-mono text-muted-foreground">
+                            {conflict.id}
+                          </span>
+                        </span>
+                        <span className="shrink-0 text-muted-foreground">
+                          {mode === 'replace' ||
+                          conflict.resolution === 'use-backup'
+                            ? 'use backup'
+                            : 'keep current'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleRestore} disabled={!backup}>
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge'
+import type {
+  CertificateExpiry,
+  CertificateStatus,
+} from '@/infrastructure/compliance/certificate-expiry'
+
+const STATUS_VARIANTS: Record<
+  CertificateStatus,
+  'success' | 'warning' | 'destructive' | 'secondary'
+> = {
+  valid: 'success',
+  expiring: 'warning',
+  expired: 'destructive',
+  unknown: 'secondary',
+}
+
+function getLabel({ status, daysRemaining }: CertificateExpiry) {
+  if (status === 'unknown' || daysRemaining === null) return 'No expiry date'
+  if (status === 'valid') return 'Valid'
+  if (status === 'expired') {
+    const days = -daysRemaining
+    return `Expired ${days} day${days === 1 ? '' : 's'} ago`
+  }
+  if (daysRemaining === 0) return 'Expires today'
+  return `Expires in ${daysRemaining} day${daysRemaining === 1 ? '' : 's'}`
+}
+
+export function CertificateExpiryBadge({
+  expiry,
+  className,
+}: {
+  expiry: CertificateExpiry
+  className?: string
+}) {
+  return (
+    <Badge variant={STATUS_VARIANTS[expiry.status]} className={className}>
+      {getLabel(expiry)}
+    </Badge>
+  )
+}
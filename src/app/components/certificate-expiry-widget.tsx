@@ -0,0 +1,90 @@
+import { Link } from 'react-router-dom'
+import { FileCheck } from 'lucide-react'
+
+import { CertificateExpiryBadge } from '@/app/components/certificate-expiry-badge'
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import { useCertificateAlerts } from '@/app/hooks/use-certificate-alerts'
+import { appPaths } from '@/app/router/paths'
+import { env } from '@/config/env'
+
+const MAX_ALERTS = 5
+
+/** Dashboard list of the workspace's expired and soon-to-expire certificates. */
+export function CertificateExpiryWidget() {
+  const { activeWorkspace } = useWorkspace()
+  const { alerts: allAlerts, isLoading } = useCertificateAlerts()
+
+  const alerts = allAlerts.filter(
+    ({ material }) =>
+      !material.workspaceId || material.workspaceId === activeWorkspace.id
+  )
+
+  return (
+    <article className="animate-fade-up rounded-3xl border border-border/60 bg-secondary/20 p-6 backdrop-blur-xl">
+      <h2 className="flex items-center gap-2 text-lg font-semibold tracking-tight">
+        <FileCheck className="h-5 w-5 text-muted-foreground" />
+        Certificate Expiry
+      </h2>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Expired certificates and those expiring within{' '}
+        {env.certificates.expiryWindowDays} days.
+      </p>
+
+      {isLoading ? null : alerts.length === 0 ? (
+        <p className="mt-5 rounded-xl border border-border/85 bg-card/75 px-4 py-3 text-sm text-muted-foreground">
+          No certificates need attention.
+        </p>
+      ) : (
+        <ul className="mt-5 space-y-3">
+          {alerts
+            .slice(0, MAX_ALERTS)
+            .map(({ certificate, material, expiry, affectedProducts }) => (
+              <li
+                key={`${material.id}:${certificate.id}`}
+                className="rounded-xl border border-border/85 bg-card/75 px-4 py-3"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <Link
+                      to={appPaths.component(material.id)}
+                      className="block truncate text-sm font-medium hover:underline"
+                    >
+                      {material.name}
+                    </Link>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {certificate.type} · #{certificate.number}
+                    </p>
+                  </div>
+                  <CertificateExpiryBadge
+                    expiry={expiry}
+                    className="shrink-0"
+                  />
+                </div>
+                {affectedProducts.length > 0 && (
+                  <p className="mt-2 text-xs text-muted-foreground">
+                    Affects{' '}
+                    {affectedProducts.map((product, index) => (
+                      <span key={product.id}>
+                        {index > 0 && ', '}
+                        <Link
+                          to={appPaths.product(product.id)}
+                          className="text-foreground hover:underline"
+                        >
+                          {product.name}
+                        </Link>
+                      </span>
+                    ))}
+                  </p>
+                )}
+              </li>
+            ))}
+          {alerts.length > MAX_ALERTS && (
+            <li className="text-center text-xs text-muted-foreground">
+              and {alerts.length - MAX_ALERTS} more
+            </li>
+          )}
+        </ul>
+      )}
+    </article>
+  )
+}
@@ -0,0 +1,52 @@
+import { Settings2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import type { EnvLoadResult } from '@/config/env'
+
+type ConfigErrorScreenProps = Extract<EnvLoadResult, { success: false }>
+
+/**
+ * Shown instead of the app when the environment fails validation, so a bad
+ * deployment is obvious rather than a blank page.
+ */
+export function ConfigErrorScreen({
+  source,
+  fieldErrors,
+}: ConfigErrorScreenProps) {
+  return (
+    <div className="flex min-h-screen items-center justify-center px-4">
+      <div className="surface-panel w-full max-w-lg rounded-3xl p-8">
+        <Settings2 className="h-12 w-12 text-muted-foreground/40" />
+        <h2 className="mt-4 text-xl font-semibold">
+          This deployment is misconfigured
+        </h2>
+        <p className="mt-2 text-muted-foreground">
+          {source === 'runtime'
+            ? 'The runtime configuration served at /config.json is invalid.'
+            : 'No runtime configuration was found and the values built into the app are invalid.'}{' '}
+          Fix these environment variables and restart the server:
+        </p>
+
+        <ul className="mt-4 space-y-2 text-sm">
+          {Object.entries(fieldErrors).map(([name, messages]) => (
+            <li key={name} className="rounded-xl bg-secondary/60 px-3 py-2">
+              <code className="font-semibold">{name}</code>
+              <span className="text-muted-foreground">
+                {' '}
+                — {messages?.join(', ')}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <Button
+          variant="outline"
+          className="mt-6"
+          onClick={() => window.location.reload()}
+        >
+          Reload
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { AlertTriangle } from 'lucide-react'
+
+import { isTrashEnabled } from '@/app/hooks/use-trash'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { env } from '@/config/env'
+import type { ReferenceResolution } from '@/infrastructure/integrity/catalog-integrity'
+import { cn } from '@/lib/utils'
+
+export interface ReferenceListItem {
+  id: string
+  name: string
+  detail: string
+  href: string
+}
+
+interface DeleteWithReferencesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** e.g. "Component" or "Supplier". */
+  entityLabel: string
+  entityName: string
+  /** Extra sentence about what the delete removes along with the entity. */
+  description?: string
+  references: ReferenceListItem[]
+  /** e.g. "product" for a component used in BOMs. */
+  referenceLabel: string
+  cascadeDescription: string
+  /** Entities the references can be moved to; the deleted one is excluded. */
+  replacementOptions: Array<{ id: string; name: string }>
+  onConfirm: (resolution: ReferenceResolution | undefined) => void
+}
+
+/**
+ * Delete confirmation that lists where the entity is still used and makes the
+ * user decide whether those references are dropped or moved elsewhere.
+ */
+export function DeleteWithReferencesDialog({
+  open,
+  onOpenChange,
+  entityLabel,
+  entityName,
+  description,
+  references,
+  referenceLabel,
+  cascadeDescription,
+  replacementOptions,
+  onConfirm,
+}: DeleteWithReferencesDialogProps) {
+  const [mode, setMode] = useState<ReferenceResolution['mode']>('cascade')
+  const [targetId, setTargetId] = useState('')
+  const isReferenced = references.length > 0
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setMode('cascade')
+      setTargetId('')
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleConfirm = () => {
+    if (!isReferenced) {
+      onConfirm(undefined)
+    } else if (mode === 'reassign') {
+      onConfirm({ mode, targetId })
+    } else {
+      onConfirm({ mode })
+    }
+    handleOpenChange(false)
+  }
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Delete {entityLabel}
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Are you sure you want to delete "{entityName}"?
+            {description ? ` ${description}` : ''}{' '}
+            {isTrashEnabled
+              ? `It can be restored from the trash for ${env.trash.retentionDays} days.`
+              : 'This action cannot be undone.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {isReferenced && (
+          <div className="space-y-3 text-sm">
+            <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-3">
+              <p className="font-semibold text-amber-700">
+                Used by {references.length} {referenceLabel}
+                {references.length === 1 ? '' : 's'}
+              </p>
+              <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto text-xs">
+                {references.map((reference) => (
+                  <li
+                    key={reference.id}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <Link
+                      to={reference.href}
+                      className="truncate font-medium hover:underline"
+                    >
+                      {reference.name}
+                    </Link>
+                    <span className="shrink-0 text-muted-foreground">
+                      {reference.detail}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {(['cascade', 'reassign'] as const).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMode(option)}
+                  disabled={
+                    option === 'reassign' && replacementOptions.length === 0
+                  }
+                  className={cn(
+                    'rounded-lg border p-2 text-left transition-colors disabled:opacity-50',
+                    mode === option
+                      ? 'border-primary bg-primary/5'
+                      : 'border-border/60 hover:bg-secondary/60'
+                  )}
+                >
+                  <p className="font-semibold">
+                    {option === 'cascade' ? 'Remove references' : 'Reassign'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {option === 'cascade'
+                      ? cascadeDescription
+                      : `Point them at another ${entityLabel.toLowerCase()}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {mode === 'reassign' && (
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue
+                    placeholder={`Choose a ${entityLabel.toLowerCase()}`}
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {replacementOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={isReferenced && mode === 'reassign' && !targetId}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Delete {entityLabel}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
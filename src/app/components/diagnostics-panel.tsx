@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from 'react'
+import { saveAs } from 'file-saver'
+import { Download, Send, Trash2 } from 'lucide-react'
+
+import { useLogRecords } from '@/app/hooks/use-log-records'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { env } from '@/config/env'
+import {
+  clearLogRecords,
+  flushLogSinks,
+  isLevelEnabled,
+  LOG_LEVELS,
+  type LogLevel,
+} from '@/lib/logger'
+import { cn } from '@/lib/utils'
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-muted-foreground',
+  info: 'text-sky-700',
+  warn: 'text-amber-700',
+  error: 'text-destructive',
+}
+
+function isToggleShortcut(event: KeyboardEvent) {
+  return (
+    (event.ctrlKey || event.metaKey) &&
+    event.shiftKey &&
+    event.key.toLowerCase() === 'l'
+  )
+}
+
+/**
+ * Recent log records, newest first. Not linked anywhere: Ctrl+Shift+L (⌘⇧L
+ * on macOS) toggles it so support can ask a user for what went wrong.
+ */
+export function DiagnosticsPanel() {
+  const [open, setOpen] = useState(false)
+  const [minLevel, setMinLevel] = useState<LogLevel>('debug')
+  const [search, setSearch] = useState('')
+  const records = useLogRecords()
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!isToggleShortcut(event)) return
+      event.preventDefault()
+      setOpen((current) => !current)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const visibleRecords = useMemo(() => {
+    const needle = search.trim().toLowerCase()
+    return records
+      .filter(
+        (record) =>
+          isLevelEnabled(record.level, minLevel) &&
+          (!needle ||
+            [record.message, record.context, record.correlationId].some(
+              (value) => value?.toLowerCase().includes(needle)
+            ))
+      )
+      .reverse()
+  }, [records, minLevel, search])
+
+  const handleDownload = () => {
+    saveAs(
+      new Blob([JSON.stringify(records, null, 2)], {
+        type: 'application/json',
+      }),
+      `logs-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="flex max-h-[90vh] max-w-4xl flex-col">
+        <DialogHeader>
+          <DialogTitle>Diagnostics</DialogTitle>
+          <DialogDescription>
+            The last {records.length} log records from this tab.
+            {env.logging.endpoint
+              ? ` Records at ${env.logging.level} level and above are also sent to ${env.logging.endpoint}.`
+              : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {LOG_LEVELS.map((level) => (
+            <Button
+              key={level}
+              size="sm"
+              variant={minLevel === level ? 'default' : 'outline'}
+              onClick={() => setMinLevel(level)}
+            >
+              {level === 'debug' ? 'All' : `${level}+`}
+            </Button>
+          ))}
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Filter by message, context or correlation id"
+            className="h-9 min-w-48 flex-1"
+          />
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto rounded-xl border border-border/60 font-mono text-xs">
+          {visibleRecords.length === 0 ? (
+            <p className="p-4 text-muted-foreground">No log records</p>
+          ) : (
+            <ul className="divide-y divide-border/50">
+              {visibleRecords.map((record) => (
+                <li key={record.id} className="space-y-1 px-3 py-2">
+                  <div className="flex flex-wrap items-baseline gap-2">
+                    <span className="text-muted-foreground">
+                      {new Date(record.timestamp).toLocaleTimeString()}
+                    </span>
+                    <span
+                      className={cn(
+                        'font-semibold uppercase',
+                        LEVEL_STYLES[record.level]
+                      )}
+                    >
+                      {record.level}
+                    </span>
+                    {record.context && (
+                      <Badge variant="secondary">{record.context}</Badge>
+                    )}
+                    <span className="break-all">{record.message}</span>
+                    {record.correlationId && (
+                      <button
+                        type="button"
+                        onClick={() => setSearch(record.correlationId!)}
+                        className="text-muted-foreground hover:underline"
+                        title="Show records of this operation"
+                      >
+                        {record.correlationId.slice(0, 8)}
+                      </button>
+                    )}
+                  </div>
+                  {record.data !== undefined && (
+                    <details>
+                      <summary className="cursor-pointer text-muted-foreground">
+                        Data
+                      </summary>
+                      <pre className="mt-1 overflow-x-auto whitespace-pre-wrap break-all rounded bg-secondary/40 p-2">
+                        {JSON.stringify(record.data, null, 2)}
+                      </pre>
+                    </details>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" className="gap-2" onClick={clearLogRecords}>
+            <Trash2 className="h-4 w-4" />
+            Clear
+          </Button>
+          {env.logging.endpoint && (
+            <Button variant="outline" className="gap-2" onClick={flushLogSinks}>
+              <Send className="h-4 w-4" />
+              Send now
+            </Button>
+          )}
+          <Button className="gap-2" onClick={handleDownload}>
+            <Download className="h-4 w-4" />
+            Download JSON
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
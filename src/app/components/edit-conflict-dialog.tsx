@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { GitCompareArrows } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { getConflictingFields } from '@/infrastructure/cache/catalog-cache'
+import { cn } from '@/lib/utils'
+
+type FieldChoice = 'mine' | 'theirs'
+
+interface EditConflictDialogProps<T extends { updatedAt: string }> {
+  /** e.g. "component". */
+  entityLabel: string
+  /**
+   * The rejected save, with the entity as the edit started from it; `null`
+   * closes the dialog.
+   */
+  conflict: { base: T; updates: Partial<T>; current: T } | null
+  /**
+   * Receives only the fields the user kept, to save against `current`. The
+   * other fields of `updates` did not conflict and are saved along with them.
+   */
+  onResolve: (updates: Partial<T>) => void
+  onDiscard: () => void
+}
+
+function formatFieldName(field: string) {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (Array.isArray(value)) {
+    if (value.length === 0) return 'None'
+    const names = value.map((item) =>
+      typeof item === 'object' && item !== null
+        ? String(
+            (item as Record<string, unknown>).name ??
+              (item as Record<string, unknown>).substanceName ??
+              (item as Record<string, unknown>).number ??
+              '…'
+          )
+        : String(item)
+    )
+    return `${value.length}: ${names.join(', ')}`
+  }
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Shown when a save lost against someone else's: lists each field both of
+ * them changed, next to each other, and lets the user pick a side.
+ */
+export function EditConflictDialog<T extends { updatedAt: string }>({
+  entityLabel,
+  conflict,
+  onResolve,
+  onDiscard,
+}: EditConflictDialogProps<T>) {
+  const [choices, setChoices] = useState<Record<string, FieldChoice>>({})
+  const fields = conflict
+    ? getConflictingFields(conflict.base, conflict.updates, conflict.current)
+    : []
+
+  const getChoice = (field: string) => choices[field] ?? 'mine'
+
+  const handleResolve = () => {
+    if (!conflict) return
+    const kept = (
+      Object.keys(conflict.updates) as Array<keyof T & string>
+    ).filter((field) => !fields.includes(field) || getChoice(field) === 'mine')
+    setChoices({})
+    if (kept.length === 0) {
+      onDiscard()
+      return
+    }
+    onResolve(
+      Object.fromEntries(
+        kept.map((field) => [field, conflict.updates[field]])
+      ) as Partial<T>
+    )
+  }
+
+  const handleDiscard = () => {
+    setChoices({})
+    onDiscard()
+  }
+
+  return (
+    <Dialog
+      open={Boolean(conflict)}
+      onOpenChange={(open) => !open && handleDiscard()}
+    >
+      <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompareArrows className="h-5 w-5 text-amber-600" />
+            Someone else saved this {entityLabel}
+          </DialogTitle>
+          <DialogDescription>
+            It was changed
+            {conflict
+              ? ` at ${new Date(conflict.current.updatedAt).toLocaleString()}`
+              : ''}{' '}
+            while you were editing. Your other changes are kept; choose which
+            value to keep for each field you both changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="divide-y divide-border/50 rounded-xl border border-border/60 text-sm">
+          <div className="grid grid-cols-[8rem_minmax(0,1fr)_minmax(0,1fr)] gap-3 bg-secondary/40 px-3 py-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            <span>Field</span>
+            <span>Saved now</span>
+            <span>Your change</span>
+          </div>
+          {conflict &&
+            fields.map((field) => (
+              <div
+                key={field}
+                className="grid grid-cols-[8rem_minmax(0,1fr)_minmax(0,1fr)] items-start gap-3 px-3 py-2"
+              >
+                <span className="font-medium">{formatFieldName(field)}</span>
+                {(['theirs', 'mine'] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() =>
+                      setChoices((prev) => ({ ...prev, [field]: side }))
+                    }
+                    className={cn(
+                      'min-w-0 break-words rounded-lg border p-2 text-left transition-colors',
+                      getChoice(field) === side
+                        ? 'border-primary bg-primary/5'
+                        : 'border-border/60 text-muted-foreground hover:bg-secondary/60'
+                    )}
+                  >
+                    {formatValue(
+                      side === 'theirs'
+                        ? conflict.current[field]
+                        : conflict.updates[field]
+                    )}
+                  </button>
+                ))}
+              </div>
+            ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleDiscard}>
+            Discard my changes
+          </Button>
+          <Button onClick={handleResolve}>Save selection</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,62 @@
+import { saveAs } from 'file-saver'
+import { toast } from 'sonner'
+import { FileCode2 } from 'lucide-react'
+
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import { Button, type ButtonProps } from '@/components/ui/button'
+import {
+  getIpc1752FileName,
+  Ipc1752Error,
+  toIpc1752Xml,
+} from '@/infrastructure/compliance/ipc-1752a'
+import type { MaterialDeclaration } from '@/infrastructure/compliance/material-declaration'
+import { logger } from '@/lib/logger'
+
+interface ExportDeclarationButtonProps extends Omit<ButtonProps, 'onClick'> {
+  /** Disabled while null, e.g. until the materials load. */
+  declaration: MaterialDeclaration | null
+}
+
+/** Downloads the product's material declaration as IPC-1752A XML. */
+export function ExportDeclarationButton({
+  declaration,
+  disabled,
+  children,
+  ...props
+}: ExportDeclarationButtonProps) {
+  const { activeWorkspace } = useWorkspace()
+
+  const handleExport = () => {
+    if (!declaration) return
+    try {
+      const xml = toIpc1752Xml(declaration, {
+        supplierName: activeWorkspace.name,
+      })
+      saveAs(
+        new Blob([xml], { type: 'application/xml' }),
+        getIpc1752FileName(declaration.product)
+      )
+      toast.success('IPC-1752A declaration exported')
+    } catch (error) {
+      if (error instanceof Ipc1752Error) {
+        toast.error(error.message, {
+          description: error.issues.slice(0, 3).join('; ') || undefined,
+        })
+      } else {
+        logger.error('Failed to export IPC-1752A declaration', error)
+        toast.error('Failed to export declaration')
+      }
+    }
+  }
+
+  return (
+    <Button
+      {...props}
+      disabled={disabled || !declaration}
+      onClick={handleExport}
+    >
+      <FileCode2 className="h-3.5 w-3.5" />
+      {children ?? 'Export declaration'}
+    </Button>
+  )
+}
@@ -0,0 +1,146 @@
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { CheckCircle2, Wrench } from 'lucide-react'
+
+import {
+  useIntegrityReport,
+  useRepairIntegrityIssues,
+} from '@/app/hooks/use-catalog-integrity'
+import { appPaths } from '@/app/router/paths'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { IntegrityIssue } from '@/infrastructure/integrity/catalog-integrity'
+import { logger } from '@/lib/logger'
+
+interface IntegrityReportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const ISSUE_LABELS: Record<IntegrityIssue['kind'], string> = {
+  'missing-material': 'Missing component',
+  'stale-material-name': 'Renamed component',
+  'missing-supplier': 'Missing supplier',
+}
+
+function describeIssue(issue: IntegrityIssue) {
+  switch (issue.kind) {
+    case 'missing-material':
+      return {
+        key: `${issue.kind}:${issue.product.id}:${issue.item.id}`,
+        name: issue.product.name,
+        href: appPaths.product(issue.product.id),
+        detail: `BOM lists "${issue.item.materialName}", which no longer exists`,
+      }
+    case 'stale-material-name':
+      return {
+        key: `${issue.kind}:${issue.product.id}:${issue.item.id}`,
+        name: issue.product.name,
+        href: appPaths.product(issue.product.id),
+        detail: `BOM lists "${issue.item.materialName}", now "${issue.material.name}"`,
+      }
+    case 'missing-supplier':
+      return {
+        key: `${issue.kind}:${issue.material.id}:${issue.substanceName}:${issue.supplierId}`,
+        name: issue.material.name,
+        href: appPaths.component(issue.material.id),
+        detail: `${issue.substanceName} is linked to "${issue.supplierName || issue.supplierId}", which no longer exists`,
+      }
+  }
+}
+
+/** Finds references left dangling by earlier deletes and offers to fix them. */
+export function IntegrityReportDialog({
+  open,
+  onOpenChange,
+}: IntegrityReportDialogProps) {
+  const { issues, isLoading } = useIntegrityReport()
+  const repairIssues = useRepairIntegrityIssues()
+
+  const handleRepair = async () => {
+    try {
+      const count = await repairIssues.mutateAsync(issues)
+      toast.success(`Repaired ${count} record${count === 1 ? '' : 's'}`)
+    } catch (error) {
+      logger.error('Failed to repair catalog references', error)
+      toast.error('Failed to repair catalog references')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Integrity Report</DialogTitle>
+          <DialogDescription>
+            BOM rows and substance links that point at components or suppliers
+            which were deleted or renamed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Checking catalog…</p>
+          ) : issues.length === 0 ? (
+            <p className="flex items-center gap-2 text-sm text-emerald-600">
+              <CheckCircle2 className="h-4 w-4" />
+              No orphaned references found
+            </p>
+          ) : (
+            <ul className="max-h-80 space-y-2 overflow-y-auto text-sm">
+              {issues.map((issue, index) => {
+                const { key, name, href, detail } = describeIssue(issue)
+                return (
+                  <li
+                    key={`${key}:${index}`}
+                    className="rounded-lg border border-border/60 p-2"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <Link
+                        to={href}
+                        onClick={() => onOpenChange(false)}
+                        className="truncate font-medium hover:underline"
+                      >
+                        {name}
+                      </Link>
+                      <Badge variant="secondary" className="shrink-0">
+                        {ISSUE_LABELS[issue.kind]}
+                      </Badge>
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {detail}
+                    </p>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button
+            className="gap-2"
+            onClick={handleRepair}
+            disabled={
+              isLoading || issues.length === 0 || repairIssues.isPending
+            }
+          >
+            <Wrench className="h-4 w-4" />
+            Repair all
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
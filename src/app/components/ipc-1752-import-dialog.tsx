@@ -0,0 +1,207 @@
+import { useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { toast } from 'sonner'
+import { AlertTriangle, Upload } from 'lucide-react'
+
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { useSuppliers } from '@/app/hooks/use-suppliers'
+import { appPaths } from '@/app/router/paths'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { CreateCachedMaterialInput } from '@/infrastructure/cache/catalog-cache'
+import {
+  Ipc1752Error,
+  parseIpc1752Xml,
+  toCachedMaterialInput,
+} from '@/infrastructure/compliance/ipc-1752a'
+import { logger } from '@/lib/logger'
+
+interface Ipc1752ImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Creates a component from a supplier's IPC-1752A declaration, linking its
+ * substances to the catalog supplier with the same name when there is one.
+ */
+export function Ipc1752ImportDialog({
+  open,
+  onOpenChange,
+}: Ipc1752ImportDialogProps) {
+  const navigate = useNavigate()
+  const { activeWorkspace } = useWorkspace()
+  const { data: suppliers = [] } = useSuppliers()
+  const { mutateAsync: createMaterial, isPending } = useCreateMaterial()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [input, setInput] = useState<CreateCachedMaterialInput | null>(null)
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [issues, setIssues] = useState<string[]>([])
+
+  const reset = () => {
+    setInput(null)
+    setWarnings([])
+    setIssues([])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    reset()
+    try {
+      const declaration = parseIpc1752Xml(await file.text())
+      const supplierName = declaration.supplierName.toLowerCase()
+      const result = toCachedMaterialInput(declaration, {
+        workspaceId: activeWorkspace.id,
+        supplier: supplierName
+          ? suppliers.find(
+              (supplier) => supplier.name.toLowerCase() === supplierName
+            )
+          : undefined,
+        fallbackName: file.name.replace(/\.xml$/i, ''),
+      })
+      setInput(result.input)
+      setWarnings(result.warnings)
+    } catch (error) {
+      if (error instanceof Ipc1752Error) {
+        setIssues([error.message, ...error.issues])
+      } else {
+        setIssues(['The declaration could not be read'])
+      }
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!input) return
+    try {
+      const created = await createMaterial(input)
+      toast.success(`"${created.name}" created from the declaration`)
+      handleOpenChange(false)
+      navigate(appPaths.component(created.id))
+    } catch (error) {
+      logger.error('Failed to create component from IPC-1752A', error)
+      toast.error('Unable to save component. Please try again.')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import IPC-1752A declaration</DialogTitle>
+          <DialogDescription>
+            Create a component from a supplier's material declaration. Its
+            homogeneous materials are merged into one substance list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <Button
+            variant="outline"
+            className="justify-start gap-2"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Choose XML file…
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/xml,text/xml,.xml"
+            className="hidden"
+            onChange={handleFileSelect}
+          />
+
+          {issues.length > 0 && (
+            <div className="rounded-xl border border-destructive/30 bg-destructive/5 p-3 text-sm">
+              <p className="flex items-center gap-2 font-semibold text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {issues[0]}
+              </p>
+              {issues.length > 1 && (
+                <ul className="mt-2 list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+                  {issues.slice(1, 11).map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {input && (
+            <div className="space-y-3 rounded-xl border border-border/60 p-3 text-sm">
+              <div>
+                <p className="font-semibold">{input.name}</p>
+                <p className="text-muted-foreground">{input.description}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{input.weight} g</Badge>
+                <Badge variant="secondary">
+                  {input.substances.length} substance
+                  {input.substances.length === 1 ? '' : 's'}
+                </Badge>
+              </div>
+
+              <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+                {input.substances.map((substance) => (
+                  <li
+                    key={substance.id}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="truncate">
+                      {substance.substanceName || '—'}{' '}
+                      <span className="font-mono text-muted-foreground">
+                        {substance.substanceCode}
+                      </span>
+                    </span>
+                    <span className="shrink-0 font-mono tabular-nums">
+                      {substance.percentage}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {warnings.length > 0 && (
+                <ul className="space-y-1 text-xs text-amber-700 dark:text-amber-400">
+                  {warnings.map((warning) => (
+                    <li key={warning} className="flex items-start gap-2">
+                      <AlertTriangle className="mt-0.5 h-3 w-3 shrink-0" />
+                      {warning}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!input || isPending}>
+            {isPending ? 'Creating…' : 'Create component'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
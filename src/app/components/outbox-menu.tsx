@@ -0,0 +1,146 @@
+import { AlertTriangle, CloudOff, RefreshCw, Trash2 } from 'lucide-react'
+
+import { useOutboxEntries } from '@/app/hooks/use-outbox'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  discardOutboxEntry,
+  retryOutboxEntry,
+  type OutboxEntry,
+} from '@/infrastructure/sync/outbox'
+import { replayOutbox } from '@/infrastructure/sync/outbox-replay'
+import { cn } from '@/lib/utils'
+
+const OPERATION_LABELS: Record<OutboxEntry['operation'], string> = {
+  create: 'Create',
+  update: 'Edit',
+  saveBom: 'BOM update',
+  remove: 'Delete',
+}
+
+const COLLECTION_LABELS: Record<OutboxEntry['collection'], string> = {
+  products: 'product',
+  materials: 'component',
+  suppliers: 'supplier',
+}
+
+function OutboxEntryRow({ entry }: { entry: OutboxEntry }) {
+  const isPending = entry.status === 'pending'
+
+  return (
+    <div className="flex flex-col gap-1 rounded-lg px-2 py-2 text-sm">
+      <div className="flex items-center gap-2">
+        {isPending ? (
+          <CloudOff className="h-3.5 w-3.5 shrink-0 text-amber-600" />
+        ) : (
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 text-red-500" />
+        )}
+        <span className="truncate font-medium">
+          {OPERATION_LABELS[entry.operation]}{' '}
+          {COLLECTION_LABELS[entry.collection]}
+          {entry.entityName ? ` "${entry.entityName}"` : ''}
+        </span>
+      </div>
+      <span className="pl-5 text-xs text-muted-foreground">
+        {isPending
+          ? `Queued ${new Date(entry.enqueuedAt).toLocaleString()}`
+          : entry.error}
+      </span>
+      {!isPending && (
+        <div className="flex gap-2 pl-5 pt-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 gap-1 text-xs"
+            onClick={() => {
+              // Only a conflict has server changes to overwrite
+              retryOutboxEntry(entry.id, {
+                force: entry.status === 'conflict',
+              })
+              void replayOutbox()
+            }}
+          >
+            <RefreshCw className="h-3 w-3" />
+            {entry.status === 'conflict' ? 'Keep mine' : 'Retry'}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7 gap-1 text-xs text-red-500 hover:text-red-600"
+            onClick={() => discardOutboxEntry(entry.id)}
+          >
+            <Trash2 className="h-3 w-3" />
+            Discard
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Lists changes waiting in the offline outbox and lets the user settle the
+ * ones that conflicted with changes made on the server.
+ */
+export function OutboxMenu() {
+  const entries = useOutboxEntries()
+  if (entries.length === 0) return null
+
+  const problemCount = entries.filter(
+    (entry) => entry.status !== 'pending'
+  ).length
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn(
+            'h-11 gap-2 rounded-xl px-3 text-sm font-semibold',
+            problemCount > 0
+              ? 'border-red-500/30 text-red-600'
+              : 'border-amber-500/30 text-amber-700'
+          )}
+        >
+          {problemCount > 0 ? (
+            <AlertTriangle className="h-4 w-4" />
+          ) : (
+            <CloudOff className="h-4 w-4" />
+          )}
+          <span className="hidden md:inline">
+            {problemCount > 0
+              ? `${problemCount} to resolve`
+              : `${entries.length} pending`}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-2">
+        <DropdownMenuLabel className="px-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Unsynced Changes
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="my-2" />
+        <div className="max-h-80 overflow-y-auto">
+          {entries.map((entry) => (
+            <OutboxEntryRow key={entry.id} entry={entry} />
+          ))}
+        </div>
+        <DropdownMenuSeparator className="my-2" />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full gap-2"
+          onClick={() => void replayOutbox()}
+        >
+          <RefreshCw className="h-3.5 w-3.5" />
+          Sync now
+        </Button>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
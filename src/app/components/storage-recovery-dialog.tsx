@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { AlertTriangle } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  discardStoreBackup,
+  listStoreBackups,
+  restoreStoreBackup,
+} from '@/infrastructure/cache/migration-registry'
+
+/**
+ * Opens on load while a failed storage upgrade has parked data in a backup.
+ * Restoring puts the data back and reloads so the upgrade runs again.
+ */
+export function StorageRecoveryDialog() {
+  const [backups, setBackups] = useState(listStoreBackups)
+  const [open, setOpen] = useState(backups.length > 0)
+
+  const handleRestore = (key: string) => {
+    if (!restoreStoreBackup(key)) {
+      toast.error('Failed to restore the saved data')
+      return
+    }
+    window.location.reload()
+  }
+
+  const handleDiscard = async (key: string) => {
+    if (!(await discardStoreBackup(key))) {
+      toast.error('Failed to discard the saved data')
+      return
+    }
+    const remaining = listStoreBackups()
+    setBackups(remaining)
+    if (remaining.length === 0) setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-h-[90vh] max-w-lg overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Saved data could not be upgraded</DialogTitle>
+          <DialogDescription>
+            The app started without the data below so it would not read it in
+            the wrong shape. Restore it to retry the upgrade, or discard it for
+            good.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="grid gap-3 py-4">
+          {backups.map((backup) => (
+            <li
+              key={backup.key}
+              className="space-y-3 rounded-xl border border-destructive/30 bg-destructive/5 p-3 text-sm"
+            >
+              <div>
+                <p className="flex items-center gap-2 font-semibold">
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                  <span className="font-mono">{backup.key}</span>
+                </p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  v{backup.fromVersion}
+                  {backup.failedVersion !== undefined &&
+                    ` → v${backup.failedVersion}`}{' '}
+                  · {new Date(backup.failedAt).toLocaleString()}
+                </p>
+                {backup.message && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {backup.message}
+                  </p>
+                )}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void handleDiscard(backup.key)}
+                >
+                  Discard
+                </Button>
+                <Button size="sm" onClick={() => handleRestore(backup.key)}>
+                  Restore
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Decide later
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,201 @@
+import { Link } from 'react-router-dom'
+import {
+  AlertTriangle,
+  ArrowUpRight,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldQuestion,
+} from 'lucide-react'
+
+import { appPaths } from '@/app/router/paths'
+import { Badge } from '@/components/ui/badge'
+import {
+  SVHC_CONCENTRATION_LIMIT,
+  type SvhcFinding,
+  type SvhcScreeningReport,
+  type SvhcScreeningStatus,
+} from '@/infrastructure/compliance/svhc-screening'
+import { cn } from '@/lib/utils'
+
+const STATUS_STYLES: Record<
+  SvhcScreeningStatus,
+  { label: string; variant: 'success' | 'destructive' | 'warning' }
+> = {
+  clear: { label: 'Clear', variant: 'success' },
+  flagged: { label: 'Above 0.1%', variant: 'destructive' },
+  incomplete: { label: 'Incomplete', variant: 'warning' },
+}
+
+function formatConcentration(value: number | null) {
+  if (value === null) return '—'
+  return `${(value * 100).toFixed(3)}%`
+}
+
+function formatMass(grams: number | null) {
+  if (grams === null) return '—'
+  return grams < 1 ? `${(grams * 1000).toFixed(1)} mg` : `${grams.toFixed(2)} g`
+}
+
+export function SvhcStatusBadge({ status }: { status: SvhcScreeningStatus }) {
+  const style = STATUS_STYLES[status]
+  return <Badge variant={style.variant}>{style.label}</Badge>
+}
+
+function FindingCard({ finding }: { finding: SvhcFinding }) {
+  return (
+    <div
+      className={cn(
+        'rounded-2xl border bg-card/60 p-4',
+        finding.exceedsLimit ? 'border-destructive/40' : 'border-border/60'
+      )}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="font-semibold">{finding.entry.name}</h4>
+          <div className="mt-1 flex flex-wrap gap-1.5">
+            {finding.entry.casNumber && (
+              <Badge variant="secondary" className="font-mono text-[10px]">
+                CAS {finding.entry.casNumber}
+              </Badge>
+            )}
+            {finding.entry.ecNumber && (
+              <Badge variant="secondary" className="font-mono text-[10px]">
+                EC {finding.entry.ecNumber}
+              </Badge>
+            )}
+          </div>
+          {finding.entry.reason && (
+            <p className="mt-2 text-xs text-muted-foreground">
+              {finding.entry.reason}
+            </p>
+          )}
+        </div>
+
+        <div className="text-right">
+          <p
+            className={cn(
+              'font-mono text-lg font-semibold tabular-nums',
+              finding.exceedsLimit && 'text-destructive'
+            )}
+          >
+            {formatConcentration(finding.concentrationInProduct)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatMass(finding.mass)} in the product
+          </p>
+        </div>
+      </div>
+
+      <table className="mt-4 w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground">
+            <th className="pb-2 font-medium">Material</th>
+            <th className="pb-2 text-right font-medium">In material</th>
+            <th className="pb-2 text-right font-medium">Mass</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border/50">
+          {finding.occurrences.map(({ substance, exceedsLimit }, index) => (
+            <tr key={`${substance.material.bomItem.id}-${index}`}>
+              <td className="py-2">
+                <Link
+                  to={appPaths.component(substance.material.material.id)}
+                  className="font-medium hover:underline"
+                >
+                  {substance.material.material.name}
+                </Link>
+                {substance.parentSubstanceName && (
+                  <span className="text-muted-foreground">
+                    {' '}
+                    · in {substance.parentSubstanceName}
+                  </span>
+                )}
+              </td>
+              <td
+                className={cn(
+                  'py-2 text-right font-mono tabular-nums',
+                  exceedsLimit && 'font-semibold text-destructive'
+                )}
+              >
+                {formatConcentration(substance.concentrationInMaterial)}
+              </td>
+              <td className="py-2 text-right font-mono tabular-nums text-muted-foreground">
+                {formatMass(substance.mass)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * A product's screening against the REACH Candidate List: each SVHC found in
+ * its BOM, with its share of the product and of every material it occurs in.
+ */
+export function SvhcReport({ report }: { report: SvhcScreeningReport }) {
+  const flaggedCount = report.findings.filter(
+    (finding) => finding.exceedsLimit
+  ).length
+  const StatusIcon =
+    report.status === 'flagged'
+      ? ShieldAlert
+      : report.status === 'clear'
+        ? ShieldCheck
+        : ShieldQuestion
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-2xl border border-border/60 bg-card/40 p-4">
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="flex items-start gap-3">
+            <StatusIcon
+              className={cn(
+                'mt-0.5 h-5 w-5 shrink-0',
+                report.status === 'flagged' && 'text-destructive',
+                report.status === 'clear' && 'text-emerald-600',
+                report.status === 'incomplete' && 'text-amber-600'
+              )}
+            />
+            <div>
+              <p className="font-semibold">
+                {report.status === 'flagged'
+                  ? `${flaggedCount} SVHC${flaggedCount === 1 ? '' : 's'} above ${SVHC_CONCENTRATION_LIMIT * 100}% w/w`
+                  : report.status === 'clear'
+                    ? `No SVHCs above ${SVHC_CONCENTRATION_LIMIT * 100}% w/w`
+                    : 'Screening incomplete'}
+              </p>
+              <p className="mt-0.5 text-sm text-muted-foreground">
+                Against {report.listVersion} · article mass{' '}
+                {formatMass(report.articleMass)}
+              </p>
+            </div>
+          </div>
+          <Link
+            to={appPaths.svhcScreening()}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            Catalog screening
+            <ArrowUpRight className="h-3.5 w-3.5" />
+          </Link>
+        </div>
+
+        {report.gaps.length > 0 && (
+          <ul className="mt-3 space-y-1 text-sm text-amber-700 dark:text-amber-400">
+            {report.gaps.map((gap) => (
+              <li key={gap} className="flex items-start gap-2">
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                {gap}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {report.findings.map((finding) => (
+        <FindingCard key={finding.entry.name} finding={finding} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { AlertTriangle, CloudOff } from 'lucide-react'
+
+import { useEntitySyncStatus } from '@/app/hooks/use-outbox'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+interface SyncStatusBadgeProps {
+  entityId: string | undefined
+  className?: string
+}
+
+/** Flags an entity whose offline changes have not reached the server yet. */
+export function SyncStatusBadge({ entityId, className }: SyncStatusBadgeProps) {
+  const status = useEntitySyncStatus(entityId)
+  if (!status) return null
+
+  const isPending = status === 'pending'
+  const Icon = isPending ? CloudOff : AlertTriangle
+
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        'shrink-0 gap-1 text-[10px]',
+        isPending
+          ? 'border-amber-500/30 bg-amber-500/10 text-amber-700'
+          : 'border-red-500/30 bg-red-500/10 text-red-600',
+        className
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {isPending ? 'Pending sync' : 'Sync conflict'}
+    </Badge>
+  )
+}
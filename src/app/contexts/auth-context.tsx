@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import { AuthContext, type AuthContextType } from '@/app/hooks/use-auth'
+import {
+  completeSignIn,
+  completeSilentSignIn,
+  getCurrentUser,
+  getUserManager,
+  isAuthCallback,
+  isAuthEnabled,
+  renewSession,
+  signIn,
+  signOut,
+  type AuthUser,
+} from '@/infrastructure/auth/auth-client'
+import { logger } from '@/lib/logger'
+
+function isInFrame() {
+  return window.self !== window.top
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const navigate = useNavigate()
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isLoading, setIsLoading] = useState(isAuthEnabled)
+  const [error, setError] = useState<Error | null>(null)
+  const [isRenewing, setIsRenewing] = useState(false)
+
+  useEffect(() => {
+    if (!isAuthEnabled) return
+
+    let cancelled = false
+    const manager = getUserManager()
+
+    const handleUserLoaded = (loaded: AuthUser) => setUser(loaded)
+    const handleUserUnloaded = () => setUser(null)
+    manager.events.addUserLoaded(handleUserLoaded)
+    manager.events.addUserUnloaded(handleUserUnloaded)
+    manager.events.addUserSignedOut(handleUserUnloaded)
+
+    // The access token lapsed without automatic renewal catching it: keep
+    // the user signed in while the refresh token is tried
+    const handleTokenExpired = () => {
+      setIsRenewing(true)
+      void renewSession().then((renewed) => {
+        if (cancelled) return
+        setUser(renewed)
+        setIsRenewing(false)
+      })
+    }
+    manager.events.addAccessTokenExpired(handleTokenExpired)
+
+    async function initialize() {
+      try {
+        if (isAuthCallback()) {
+          // Hidden iframe used by silent renewal: hand the response back
+          if (isInFrame()) {
+            await completeSilentSignIn()
+            return
+          }
+          const returnTo = await completeSignIn()
+          if (!cancelled) navigate(returnTo, { replace: true })
+        }
+
+        const current = await getCurrentUser()
+        // A stored session whose access token expired is renewed first
+        const signedIn = current?.expired ? await renewSession() : current
+        if (!cancelled) setUser(signedIn)
+      } catch (err) {
+        logger.error('Sign-in failed', err, { context: 'Auth' })
+        if (!cancelled) {
+          setError(err instanceof Error ? err : new Error('Sign-in failed'))
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false)
+      }
+    }
+
+    void initialize()
+
+    return () => {
+      cancelled = true
+      manager.events.removeUserLoaded(handleUserLoaded)
+      manager.events.removeUserUnloaded(handleUserUnloaded)
+      manager.events.removeUserSignedOut(handleUserUnloaded)
+      manager.events.removeAccessTokenExpired(handleTokenExpired)
+    }
+  }, [navigate])
+
+  const handleSignIn = useCallback(
+    (returnTo = window.location.pathname + window.location.search) =>
+      signIn(returnTo),
+    []
+  )
+
+  const handleSignOut = useCallback(async () => {
+    if (!isAuthEnabled) return
+    await signOut()
+  }, [])
+
+  const value: AuthContextType = {
+    user,
+    isEnabled: isAuthEnabled,
+    isLoading,
+    isAuthenticated:
+      !isAuthEnabled || (user !== null && (!user.expired || isRenewing)),
+    error,
+    signIn: handleSignIn,
+    signOut: handleSignOut,
+  }
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
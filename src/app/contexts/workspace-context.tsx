@@ -1,5 +1,10 @@
 import React, { createContext, useContext, useState } from 'react'
 
+import {
+  getStoredActiveWorkspaceId,
+  setStoredActiveWorkspaceId,
+} from '@/infrastructure/cache/workspace-cache'
+
 export type Workspace = {
   id: string
   name: string
@@ -32,12 +37,10 @@ const WorkspaceContext = createContext<WorkspaceContextType | undefined>(
   undefined
 )
 
-const WORKSPACE_STORAGE_KEY = 't4s-demo-active-workspace'
-
 export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
   const [activeWorkspace, setActiveWorkspaceState] = useState<Workspace>(() => {
     try {
-      const storedId = localStorage.getItem(WORKSPACE_STORAGE_KEY)
+      const storedId = getStoredActiveWorkspaceId()
       const found = WORKSPACES.find((w) => w.id === storedId)
       return found || WORKSPACES[0]
     } catch {
@@ -49,7 +52,7 @@ export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
     const ws = WORKSPACES.find((w) => w.id === wsId)
     if (ws) {
       setActiveWorkspaceState(ws)
-      localStorage.setItem(WORKSPACE_STORAGE_KEY, ws.id)
+      setStoredActiveWorkspaceId(ws.id)
     }
   }
 
@@ -0,0 +1,43 @@
+import type { ApprovalWorkspaceRole } from '@/infrastructure/cache/approvals-cache'
+import type { AuditEntityType } from '@/infrastructure/cache/audit-log'
+import type { CacheCollection } from '@/infrastructure/cache/change-bus'
+
+// The first segment of every key is the cache collection it reads, so a change
+// to a collection can invalidate all of its queries with a single prefix. The
+// trash spans every catalog collection and is invalidated with each of them.
+export const queryKeys = {
+  products: {
+    all: ['products'] as const,
+    detail: (productId: string) => ['products', 'detail', productId] as const,
+  },
+  materials: {
+    all: ['materials'] as const,
+    detail: (materialId: string) =>
+      ['materials', 'detail', materialId] as const,
+  },
+  suppliers: {
+    all: ['suppliers'] as const,
+    detail: (supplierId: string) =>
+      ['suppliers', 'detail', supplierId] as const,
+  },
+  orders: {
+    all: ['orders'] as const,
+    byWorkspace: (workspaceId: string) =>
+      ['orders', 'workspace', workspaceId] as const,
+  },
+  approvals: {
+    all: ['approvals'] as const,
+    byWorkspace: (workspaceId: string, role: ApprovalWorkspaceRole) =>
+      ['approvals', 'workspace', workspaceId, role] as const,
+    detail: (approvalId: string) =>
+      ['approvals', 'detail', approvalId] as const,
+  },
+  audit: {
+    all: ['audit'] as const,
+    byEntity: (entityType: AuditEntityType, entityId: string) =>
+      ['audit', entityType, entityId] as const,
+  },
+  trash: {
+    all: ['trash'] as const,
+  },
+} satisfies Record<CacheCollection | 'trash', unknown>
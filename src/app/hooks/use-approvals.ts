@@ -0,0 +1,57 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import {
+  createCachedApproval,
+  getCachedApprovalById,
+  getCachedApprovalsForWorkspace,
+  transitionCachedApproval,
+  type ApprovalWorkspaceRole,
+  type CachedApprovalStatus,
+  type CreateCachedApprovalInput,
+} from '@/infrastructure/cache/approvals-cache'
+
+import { queryKeys } from './query-keys'
+
+export function useApprovals(workspaceId: string, role: ApprovalWorkspaceRole) {
+  return useQuery({
+    queryKey: queryKeys.approvals.byWorkspace(workspaceId, role),
+    queryFn: async () => getCachedApprovalsForWorkspace(workspaceId, role),
+  })
+}
+
+export function useApproval(approvalId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.approvals.detail(approvalId ?? ''),
+    queryFn: async () => getCachedApprovalById(approvalId!),
+    enabled: Boolean(approvalId),
+  })
+}
+
+/** Rejects with DuplicateApprovalError when the order line already has one. */
+export function useCreateApproval() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (input: CreateCachedApprovalInput) =>
+      createCachedApproval(input),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.approvals.all }),
+  })
+}
+
+/** Rejects with ApprovalTransitionError when the request was already decided. */
+export function useTransitionApproval() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      approvalId,
+      status,
+    }: {
+      approvalId: string
+      status: CachedApprovalStatus
+    }) => transitionCachedApproval(approvalId, status),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.approvals.all }),
+  })
+}
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query'
+
+import {
+  getAuditEntries,
+  type AuditEntityType,
+} from '@/infrastructure/cache/audit-log'
+
+import { queryKeys } from './query-keys'
+
+export function useAuditHistory(
+  entityType: AuditEntityType,
+  entityId: string | undefined
+) {
+  return useQuery({
+    queryKey: queryKeys.audit.byEntity(entityType, entityId ?? ''),
+    queryFn: async () => getAuditEntries(entityType, entityId!),
+    enabled: Boolean(entityId),
+  })
+}
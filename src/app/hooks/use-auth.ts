@@ -0,0 +1,24 @@
+import { createContext, useContext } from 'react'
+
+import type { AuthUser } from '@/infrastructure/auth/auth-client'
+
+export type AuthContextType = {
+  user: AuthUser | null
+  isEnabled: boolean
+  isLoading: boolean
+  isAuthenticated: boolean
+  error: Error | null
+  signIn: (returnTo?: string) => Promise<void>
+  signOut: () => Promise<void>
+}
+
+/** Provided by AuthProvider in src/app/contexts/auth-context.tsx. */
+export const AuthContext = createContext<AuthContextType | undefined>(undefined)
+
+export function useAuth() {
+  const context = useContext(AuthContext)
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider')
+  }
+  return context
+}
@@ -0,0 +1,256 @@
+import { useMemo } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+
+import {
+  deleteCachedMaterialWithReferences,
+  deleteCachedSupplierWithReferences,
+  getCatalogSnapshot,
+  type CachedMaterialSubstance,
+  type CachedProductBomItem,
+} from '@/infrastructure/cache/catalog-cache'
+import {
+  findIntegrityIssues,
+  findMaterialReferences,
+  findSupplierReferences,
+  ReferencedEntityError,
+  repairIntegrityIssues,
+  resolveBomItems,
+  resolveSupplierLinks,
+  type IntegrityIssue,
+  type ReferenceResolution,
+} from '@/infrastructure/integrity/catalog-integrity'
+import { catalogRepository } from '@/infrastructure/repositories/catalog-repository'
+import { logger } from '@/lib/logger'
+
+import { useMaterials } from './use-materials'
+import { useProducts } from './use-products'
+import { useSuppliers } from './use-suppliers'
+import { isTrashEnabled, useTrash } from './use-trash'
+import { queryKeys } from './query-keys'
+
+interface DeleteWithReferencesInput {
+  entityId: string
+  /** Required when the entity is still referenced. */
+  resolution?: ReferenceResolution
+}
+
+interface ReferenceOptions {
+  /** Also search the trash, whose entities are rewritten by a delete too. */
+  includeTrashed?: boolean
+}
+
+export function useMaterialReferences(
+  materialId: string | undefined,
+  { includeTrashed = false }: ReferenceOptions = {}
+) {
+  const { data: products = [] } = useProducts()
+  const { data: trash = [] } = useTrash()
+  return useMemo(() => {
+    if (!materialId) return []
+    const trashed = includeTrashed
+      ? trash.flatMap((item) => (item.type === 'product' ? [item.entity] : []))
+      : []
+    return findMaterialReferences([...products, ...trashed], materialId)
+  }, [products, trash, materialId, includeTrashed])
+}
+
+export function useSupplierReferences(
+  supplierId: string | undefined,
+  { includeTrashed = false }: ReferenceOptions = {}
+) {
+  const { data: materials = [] } = useMaterials()
+  const { data: trash = [] } = useTrash()
+  return useMemo(() => {
+    if (!supplierId) return []
+    const trashed = includeTrashed
+      ? trash.flatMap((item) => (item.type === 'material' ? [item.entity] : []))
+      : []
+    return findSupplierReferences([...materials, ...trashed], supplierId)
+  }, [materials, trash, supplierId, includeTrashed])
+}
+
+interface ReferenceRewrite {
+  apply: () => Promise<unknown>
+  undo: () => Promise<unknown>
+}
+
+/**
+ * Rewrites the references one at a time, then deletes the entity. The API
+ * has no transactions, so when a step fails the rewrites already made are
+ * put back before the error is rethrown.
+ */
+async function rewriteThenRemove(
+  rewrites: ReferenceRewrite[],
+  remove: () => Promise<boolean>
+): Promise<boolean> {
+  const applied: ReferenceRewrite[] = []
+  try {
+    for (const rewrite of rewrites) {
+      await rewrite.apply()
+      applied.push(rewrite)
+    }
+    return await remove()
+  } catch (error) {
+    for (const rewrite of applied.reverse()) {
+      await rewrite.undo().catch((undoError) => {
+        logger.error('Failed to undo reference rewrite', undoError, {
+          context: 'CatalogIntegrity',
+        })
+      })
+    }
+    throw error
+  }
+}
+
+/**
+ * Deletes a material after removing it from, or swapping it out of, every
+ * product BOM that lists it, trashed products included. References are
+ * re-read so a stale list cannot leave orphans behind, and the rewrites and
+ * the delete succeed or fail together.
+ */
+export function useDeleteMaterialWithReferences() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ entityId, resolution }: DeleteWithReferencesInput) => {
+      const { products, materials } = catalogRepository
+      const references = findMaterialReferences(
+        isTrashEnabled ? getCatalogSnapshot().products : await products.list(),
+        entityId
+      )
+      if (references.length > 0 && !resolution) {
+        throw new ReferencedEntityError(references.length)
+      }
+
+      const replacement =
+        resolution?.mode === 'reassign'
+          ? await materials.getById(resolution.targetId)
+          : null
+      if (resolution?.mode === 'reassign' && !replacement) {
+        throw new Error('Replacement component not found')
+      }
+      const resolveItems = (items: CachedProductBomItem[]) =>
+        resolveBomItems(items, entityId, replacement)
+
+      if (isTrashEnabled) {
+        return deleteCachedMaterialWithReferences(entityId, resolveItems)
+      }
+      return rewriteThenRemove(
+        references.map(({ product }) => ({
+          apply: () =>
+            products.saveBom(
+              product.id,
+              resolveItems(product.bom?.items ?? [])
+            ),
+          undo: () => products.saveBom(product.id, product.bom?.items ?? []),
+        })),
+        () => materials.remove(entityId)
+      )
+    },
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.materials.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash.all }),
+      ]),
+  })
+}
+
+/**
+ * Deletes a supplier after unlinking it from, or relinking to another
+ * supplier, every substance and sub-composition that names it, trashed
+ * materials included. The rewrites and the delete succeed or fail together.
+ */
+export function useDeleteSupplierWithReferences() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ entityId, resolution }: DeleteWithReferencesInput) => {
+      const { materials, suppliers } = catalogRepository
+      const references = findSupplierReferences(
+        isTrashEnabled
+          ? getCatalogSnapshot().materials
+          : await materials.list(),
+        entityId
+      )
+      if (references.length > 0 && !resolution) {
+        throw new ReferencedEntityError(references.length)
+      }
+
+      const replacement =
+        resolution?.mode === 'reassign'
+          ? await suppliers.getById(resolution.targetId)
+          : null
+      if (resolution?.mode === 'reassign' && !replacement) {
+        throw new Error('Replacement supplier not found')
+      }
+      const resolveSubstances = (substances: CachedMaterialSubstance[]) =>
+        resolveSupplierLinks(substances, entityId, replacement)
+
+      if (isTrashEnabled) {
+        return deleteCachedSupplierWithReferences(entityId, resolveSubstances)
+      }
+      return rewriteThenRemove(
+        references.map(({ material }) => ({
+          apply: () =>
+            materials.update(material.id, {
+              substances: resolveSubstances(material.substances),
+            }),
+          undo: () =>
+            materials.update(material.id, { substances: material.substances }),
+        })),
+        () => suppliers.remove(entityId)
+      )
+    },
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.materials.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash.all }),
+      ]),
+  })
+}
+
+/** Orphaned references across the loaded catalog; see findIntegrityIssues(). */
+export function useIntegrityReport() {
+  const products = useProducts()
+  const materials = useMaterials()
+  const suppliers = useSuppliers()
+
+  const issues = useMemo(
+    () =>
+      findIntegrityIssues({
+        products: products.data ?? [],
+        materials: materials.data ?? [],
+        suppliers: suppliers.data ?? [],
+      }),
+    [products.data, materials.data, suppliers.data]
+  )
+
+  return {
+    issues,
+    isLoading: products.isLoading || materials.isLoading || suppliers.isLoading,
+  }
+}
+
+export function useRepairIntegrityIssues() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (issues: IntegrityIssue[]) => {
+      const repairs = repairIntegrityIssues(issues)
+      for (const { product, items } of repairs.products) {
+        await catalogRepository.products.saveBom(product.id, items)
+      }
+      for (const { material, substances } of repairs.materials) {
+        await catalogRepository.materials.update(material.id, { substances })
+      }
+      return repairs.products.length + repairs.materials.length
+    },
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+        queryClient.invalidateQueries({ queryKey: queryKeys.materials.all }),
+      ]),
+  })
+}
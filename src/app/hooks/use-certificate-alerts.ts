@@ -0,0 +1,22 @@
+import { useMemo } from 'react'
+
+import { findCertificateAlerts } from '@/infrastructure/compliance/certificate-expiry'
+
+import { useMaterials } from './use-materials'
+import { useProducts } from './use-products'
+
+/** Expired and expiring certificates; see findCertificateAlerts(). */
+export function useCertificateAlerts() {
+  const products = useProducts()
+  const materials = useMaterials()
+
+  const alerts = useMemo(
+    () => findCertificateAlerts(materials.data ?? [], products.data ?? []),
+    [materials.data, products.data]
+  )
+
+  return {
+    alerts,
+    isLoading: products.isLoading || materials.isLoading,
+  }
+}
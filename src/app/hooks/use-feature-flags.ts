@@ -0,0 +1,63 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import {
+  getFeatureFlagState,
+  getFlagSource,
+  resolveFeatureFlags,
+  setLocalFlag,
+  subscribeToFeatureFlags,
+  type FeatureFlags,
+  type FlagContext,
+  type FlagScope,
+} from '@/infrastructure/flags/feature-flags'
+
+import { useAuth } from './use-auth'
+
+// Without sign-in every visitor shares one local profile
+const ANONYMOUS_USER_ID = 'local-user'
+
+/** Flags for the signed-in user in the active workspace. */
+export function useFeatureFlags() {
+  const { activeWorkspace } = useWorkspace()
+  const { user } = useAuth()
+  const state = useSyncExternalStore(
+    subscribeToFeatureFlags,
+    getFeatureFlagState
+  )
+
+  const context: FlagContext = useMemo(
+    () => ({
+      workspaceId: activeWorkspace.id,
+      userId: user?.profile.sub ?? ANONYMOUS_USER_ID,
+    }),
+    [activeWorkspace.id, user?.profile.sub]
+  )
+
+  const flags = useMemo(
+    () => resolveFeatureFlags(context, state),
+    [state, context]
+  )
+
+  const setFlag = useCallback(
+    <K extends keyof FeatureFlags>(
+      scope: FlagScope,
+      flag: K,
+      value: FeatureFlags[K] | undefined
+    ) =>
+      setLocalFlag(
+        scope,
+        scope === 'workspace' ? context.workspaceId : context.userId,
+        flag,
+        value
+      ),
+    [context]
+  )
+
+  const getSource = useCallback(
+    (flag: keyof FeatureFlags) => getFlagSource(flag, context, state),
+    [context, state]
+  )
+
+  return { flags, setFlag, getSource }
+}
@@ -0,0 +1,68 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+} from 'react'
+
+import {
+  endFlowSession,
+  getFlowSessions,
+  recordFlowStep,
+  recordFlowValidationError,
+  startFlowSession,
+  subscribeToFlowSessions,
+  type FlowEntity,
+  type FlowVariant,
+} from '@/infrastructure/analytics/flow-analytics'
+
+export interface FlowAnalytics {
+  trackStep: (stepId: string) => void
+  trackValidationErrors: (stepId: string, fields: string[]) => void
+  trackCompleted: () => void
+}
+
+export function useFlowSessions() {
+  return useSyncExternalStore(subscribeToFlowSessions, getFlowSessions)
+}
+
+/**
+ * Records one visit to a creation flow: opened on mount, abandoned when the
+ * page is left (or the tab closed) before trackCompleted() is called.
+ */
+export function useFlowAnalytics(
+  variant: FlowVariant,
+  entity: FlowEntity
+): FlowAnalytics {
+  const [sessionId] = useState(() => crypto.randomUUID())
+
+  useEffect(() => {
+    startFlowSession(sessionId, variant, entity)
+    const handlePageHide = () => endFlowSession(sessionId, 'abandoned')
+    window.addEventListener('pagehide', handlePageHide)
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide)
+      endFlowSession(sessionId, 'abandoned')
+    }
+  }, [sessionId, variant, entity])
+
+  const trackStep = useCallback(
+    (stepId: string) => recordFlowStep(sessionId, stepId),
+    [sessionId]
+  )
+  const trackValidationErrors = useCallback(
+    (stepId: string, fields: string[]) =>
+      recordFlowValidationError(sessionId, stepId, fields),
+    [sessionId]
+  )
+  const trackCompleted = useCallback(
+    () => endFlowSession(sessionId, 'completed'),
+    [sessionId]
+  )
+
+  return useMemo(
+    () => ({ trackStep, trackValidationErrors, trackCompleted }),
+    [trackStep, trackValidationErrors, trackCompleted]
+  )
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react'
+
+import { getLogRecords, subscribeToLogs } from '@/lib/logger'
+
+export function useLogRecords() {
+  return useSyncExternalStore(subscribeToLogs, getLogRecords)
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react'
+
+import { buildMaterialDeclaration } from '@/infrastructure/compliance/material-declaration'
+
+import { useMaterials } from './use-materials'
+import { useProduct } from './use-products'
+
+/** A product's full material declaration; see buildMaterialDeclaration(). */
+export function useMaterialDeclaration(productId: string | undefined) {
+  const product = useProduct(productId)
+  const materials = useMaterials()
+
+  const declaration = useMemo(() => {
+    if (!product.data || !materials.data) return null
+    const materialsById = new Map(
+      materials.data.map((material) => [material.id, material])
+    )
+    return buildMaterialDeclaration(product.data, (id) => materialsById.get(id))
+  }, [product.data, materials.data])
+
+  return {
+    declaration,
+    isLoading: (Boolean(productId) && product.isPending) || materials.isLoading,
+  }
+}
@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import type {
+  CreateCachedMaterialInput,
+  UpdateCachedMaterialInput,
+} from '@/infrastructure/cache/catalog-cache'
+import { catalogRepository } from '@/infrastructure/repositories/catalog-repository'
+
+import { queryKeys } from './query-keys'
+
+export function useMaterials() {
+  return useQuery({
+    queryKey: queryKeys.materials.all,
+    queryFn: ({ signal }) => catalogRepository.materials.list({ signal }),
+  })
+}
+
+export function useMaterial(materialId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.materials.detail(materialId ?? ''),
+    queryFn: ({ signal }) =>
+      catalogRepository.materials.getById(materialId!, { signal }),
+    enabled: Boolean(materialId),
+  })
+}
+
+export function useCreateMaterial() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateCachedMaterialInput) =>
+      catalogRepository.materials.create(input),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all }),
+  })
+}
+
+export function useUpdateMaterial() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      materialId,
+      updates,
+      expectedVersion,
+    }: {
+      materialId: string
+      updates: UpdateCachedMaterialInput
+      /** Version the edit started from; see VersionConflictError. */
+      expectedVersion: number | undefined
+    }) =>
+      catalogRepository.materials.update(materialId, updates, {
+        expectedVersion,
+      }),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.materials.all }),
+  })
+}
@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import {
+  addCachedOrders,
+  getCachedOrders,
+  linkProductToOrderItem,
+  type CachedOrder,
+} from '@/infrastructure/cache/orders-cache'
+
+import { queryKeys } from './query-keys'
+
+/** Orders owned by a workspace, or every order when no workspace is given. */
+export function useOrders(workspaceId?: string) {
+  return useQuery({
+    queryKey: workspaceId
+      ? queryKeys.orders.byWorkspace(workspaceId)
+      : queryKeys.orders.all,
+    queryFn: async () => {
+      const orders = getCachedOrders()
+      return workspaceId
+        ? orders.filter((order) => order.workspaceId === workspaceId)
+        : orders
+    },
+  })
+}
+
+/** Creates a purchase order together with its counterpart sales order. */
+export function useCreateOrders() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (orders: CachedOrder[]) => addCachedOrders(orders),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+  })
+}
+
+export function useLinkProductToOrderItem() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      orderId,
+      itemId,
+      productId,
+    }: {
+      orderId: string
+      itemId: string
+      productId: string
+    }) => linkProductToOrderItem(orderId, itemId, productId),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders.all }),
+  })
+}
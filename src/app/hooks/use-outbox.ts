@@ -0,0 +1,37 @@
+import { useEffect, useSyncExternalStore } from 'react'
+
+import { catalogRepository } from '@/infrastructure/repositories/catalog-repository'
+import {
+  getOutboxEntries,
+  subscribeToOutbox,
+  type OutboxEntryStatus,
+} from '@/infrastructure/sync/outbox'
+import { startOutboxSync } from '@/infrastructure/sync/outbox-replay'
+
+export function useOutboxEntries() {
+  return useSyncExternalStore(subscribeToOutbox, getOutboxEntries)
+}
+
+/**
+ * Sync state of one entity: a conflict or failure outranks changes that are
+ * simply waiting, and `null` means everything has reached the server.
+ */
+export function useEntitySyncStatus(
+  entityId: string | undefined
+): OutboxEntryStatus | null {
+  const entries = useOutboxEntries().filter(
+    (entry) => entry.entityId === entityId
+  )
+  if (entries.length === 0) return null
+  return (
+    entries.find((entry) => entry.status !== 'pending')?.status ?? 'pending'
+  )
+}
+
+/** Replays the outbox while the app runs against the HTTP backend. */
+export function useOutboxSync() {
+  useEffect(() => {
+    if (catalogRepository.source !== 'api') return
+    return startOutboxSync()
+  }, [])
+}
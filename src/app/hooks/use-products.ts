@@ -0,0 +1,92 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import type {
+  CachedProductBomItem,
+  CreateCachedProductInput,
+  UpdateCachedProductInput,
+} from '@/infrastructure/cache/catalog-cache'
+import { catalogRepository } from '@/infrastructure/repositories/catalog-repository'
+
+import { queryKeys } from './query-keys'
+
+export function useProducts() {
+  return useQuery({
+    queryKey: queryKeys.products.all,
+    queryFn: ({ signal }) => catalogRepository.products.list({ signal }),
+  })
+}
+
+export function useProduct(productId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.products.detail(productId ?? ''),
+    queryFn: ({ signal }) =>
+      catalogRepository.products.getById(productId!, { signal }),
+    enabled: Boolean(productId),
+  })
+}
+
+export function useCreateProduct() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateCachedProductInput) =>
+      catalogRepository.products.create(input),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  })
+}
+
+export function useUpdateProduct() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      productId,
+      updates,
+      expectedVersion,
+    }: {
+      productId: string
+      updates: UpdateCachedProductInput
+      /** Version the edit started from; see VersionConflictError. */
+      expectedVersion: number | undefined
+    }) =>
+      catalogRepository.products.update(productId, updates, {
+        expectedVersion,
+      }),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  })
+}
+
+export function useSaveProductBom() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      productId,
+      items,
+      expectedVersion,
+    }: {
+      productId: string
+      items: CachedProductBomItem[]
+      /** Version the edit started from; see VersionConflictError. */
+      expectedVersion: number | undefined
+    }) =>
+      catalogRepository.products.saveBom(productId, items, {
+        expectedVersion,
+      }),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  })
+}
+
+export function useDeleteProduct() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (productId: string) =>
+      catalogRepository.products.remove(productId),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.products.all }),
+  })
+}
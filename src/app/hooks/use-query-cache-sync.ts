@@ -0,0 +1,40 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useEffect } from 'react'
+
+import {
+  CATALOG_COLLECTIONS,
+  type CacheCollection,
+  subscribeToCollections,
+} from '@/infrastructure/cache/change-bus'
+
+import { queryKeys } from './query-keys'
+
+const SYNCED_COLLECTIONS: CacheCollection[] = [
+  ...CATALOG_COLLECTIONS,
+  'orders',
+  'approvals',
+  'audit',
+]
+
+/**
+ * Invalidates the queries of a collection whenever the browser cache reports
+ * a change to it, whether it came from this tab or another one.
+ */
+export function useQueryCacheSync() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    const unsubscribers = SYNCED_COLLECTIONS.map((collection) =>
+      subscribeToCollections([collection], () => {
+        void queryClient.invalidateQueries({ queryKey: [collection] })
+        if (CATALOG_COLLECTIONS.includes(collection)) {
+          void queryClient.invalidateQueries({ queryKey: queryKeys.trash.all })
+        }
+      })
+    )
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+    }
+  }, [queryClient])
+}
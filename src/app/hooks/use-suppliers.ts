@@ -0,0 +1,58 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import type {
+  CreateCachedSupplierInput,
+  UpdateCachedSupplierInput,
+} from '@/infrastructure/cache/catalog-cache'
+import { catalogRepository } from '@/infrastructure/repositories/catalog-repository'
+
+import { queryKeys } from './query-keys'
+
+export function useSuppliers() {
+  return useQuery({
+    queryKey: queryKeys.suppliers.all,
+    queryFn: ({ signal }) => catalogRepository.suppliers.list({ signal }),
+  })
+}
+
+export function useSupplier(supplierId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.suppliers.detail(supplierId ?? ''),
+    queryFn: ({ signal }) =>
+      catalogRepository.suppliers.getById(supplierId!, { signal }),
+    enabled: Boolean(supplierId),
+  })
+}
+
+export function useCreateSupplier() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateCachedSupplierInput) =>
+      catalogRepository.suppliers.create(input),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all }),
+  })
+}
+
+export function useUpdateSupplier() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({
+      supplierId,
+      updates,
+      expectedVersion,
+    }: {
+      supplierId: string
+      updates: UpdateCachedSupplierInput
+      /** Version the edit started from; see VersionConflictError. */
+      expectedVersion: number | undefined
+    }) =>
+      catalogRepository.suppliers.update(supplierId, updates, {
+        expectedVersion,
+      }),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.suppliers.all }),
+  })
+}
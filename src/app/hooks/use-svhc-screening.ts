@@ -0,0 +1,55 @@
+import { useMemo, useSyncExternalStore } from 'react'
+
+import {
+  screenCatalogForSvhc,
+  screenProductForSvhc,
+} from '@/infrastructure/compliance/svhc-screening'
+import type { CachedProduct } from '@/infrastructure/cache/catalog-cache'
+import {
+  getSvhcList,
+  subscribeToSvhcList,
+} from '@/infrastructure/substances/svhc-list'
+
+import { useMaterials } from './use-materials'
+import { useProducts } from './use-products'
+
+/** The Candidate List in use: the bundled excerpt or the last import. */
+export function useSvhcList() {
+  return useSyncExternalStore(subscribeToSvhcList, getSvhcList)
+}
+
+/** One product's SVHC report, or null until it and the materials load. */
+export function useProductSvhcReport(
+  product: CachedProduct | null | undefined
+) {
+  const list = useSvhcList()
+  const materials = useMaterials()
+
+  const report = useMemo(() => {
+    if (!product || !materials.data) return null
+    const materialsById = new Map(
+      materials.data.map((material) => [material.id, material])
+    )
+    return screenProductForSvhc(product, (id) => materialsById.get(id), list)
+  }, [product, materials.data, list])
+
+  return { report, isLoading: materials.isLoading }
+}
+
+/** Every product screened against the Candidate List; see screenCatalogForSvhc(). */
+export function useCatalogSvhcReports() {
+  const list = useSvhcList()
+  const products = useProducts()
+  const materials = useMaterials()
+
+  const reports = useMemo(
+    () => screenCatalogForSvhc(products.data ?? [], materials.data ?? [], list),
+    [products.data, materials.data, list]
+  )
+
+  return {
+    reports,
+    list,
+    isLoading: products.isLoading || materials.isLoading,
+  }
+}
@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import {
+  getTrashedCatalogEntities,
+  purgeTrash,
+  purgeTrashedEntity,
+  restoreTrashedEntity,
+  type TrashedEntityType,
+} from '@/infrastructure/cache/catalog-cache'
+import { catalogRepository } from '@/infrastructure/repositories/catalog-repository'
+
+import { queryKeys } from './query-keys'
+
+// Deletes through the HTTP backend are final; only the browser cache keeps a
+// trash to restore from.
+export const isTrashEnabled = catalogRepository.source === 'local'
+
+interface TrashedEntityRef {
+  type: TrashedEntityType
+  entityId: string
+}
+
+// Each prefix also covers the collection's detail queries
+const COLLECTION_KEYS = {
+  product: queryKeys.products.all,
+  material: queryKeys.materials.all,
+  supplier: queryKeys.suppliers.all,
+} satisfies Record<TrashedEntityType, readonly unknown[]>
+
+export function useTrash() {
+  return useQuery({
+    queryKey: queryKeys.trash.all,
+    queryFn: async () => getTrashedCatalogEntities(),
+  })
+}
+
+export function useRestoreTrashedEntity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ type, entityId }: TrashedEntityRef) =>
+      restoreTrashedEntity(type, entityId),
+    onSuccess: (_restored, { type }) =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: queryKeys.trash.all }),
+        queryClient.invalidateQueries({ queryKey: COLLECTION_KEYS[type] }),
+      ]),
+  })
+}
+
+export function usePurgeTrashedEntity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ type, entityId }: TrashedEntityRef) =>
+      purgeTrashedEntity(type, entityId),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all }),
+  })
+}
+
+export function useEmptyTrash() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async () => purgeTrash(),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.trash.all }),
+  })
+}
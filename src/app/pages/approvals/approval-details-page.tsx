@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react'
+import { useMemo } from 'react'
 import { useParams, Link, useNavigate } from 'react-router-dom'
 import {
   ArrowLeft,
@@ -12,61 +12,51 @@ import {
   FileText,
   ShieldCheck,
 } from 'lucide-react'
+import { appPaths } from '@/app/router/paths'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
 import { useWorkspace } from '@/app/contexts/workspace-context'
-import {
-  getCachedProductById,
-  getCachedMaterialById,
-  type CachedMaterial,
-} from '@/infrastructure/cache/catalog-cache'
-import {
-  linkProductToOrderItem,
-  getCachedOrders,
-} from '@/infrastructure/cache/orders-cache'
-import type { ApprovalRequest } from './approvals-page'
-
-const APPROVALS_STORAGE_KEY = 't4s-demo-approvals'
+import { Spinner } from '@/components/ui/spinner'
+import { useApproval, useTransitionApproval } from '@/app/hooks/use-approvals'
+import { useMaterials } from '@/app/hooks/use-materials'
+import { useLinkProductToOrderItem, useOrders } from '@/app/hooks/use-orders'
+import { useProduct } from '@/app/hooks/use-products'
+import type { CachedMaterial } from '@/infrastructure/cache/catalog-cache'
+import { ApprovalTransitionError } from '@/infrastructure/cache/approvals-cache'
 
 export function ApprovalDetailsPage() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
   const { activeWorkspace } = useWorkspace()
-  const [request, setRequest] = useState<ApprovalRequest | null>(null)
-
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(APPROVALS_STORAGE_KEY)
-      if (stored) {
-        const approvals = JSON.parse(stored)
-        const found = approvals.find((a: ApprovalRequest) => a.id === id)
-        if (found) setRequest(found)
-      }
-    } catch (e) {
-      console.error(e)
-    }
-  }, [id])
-
-  const product = useMemo(() => {
-    if (!request?.productId) return null
-    return getCachedProductById(request.productId)
-  }, [request?.productId])
+  const { data: request, isPending } = useApproval(id)
+  const { data: product } = useProduct(request?.productId)
+  const { data: allMaterials } = useMaterials()
+  const { data: orders } = useOrders()
+  const transitionApproval = useTransitionApproval()
+  const linkProduct = useLinkProductToOrderItem()
 
   const materials = useMemo(() => {
     if (!product?.bom?.items) return []
     return product.bom.items
-      .map((item) => getCachedMaterialById(item.materialId))
+      .map((item) => allMaterials?.find((m) => m.id === item.materialId))
       .filter(Boolean) as CachedMaterial[]
-  }, [product])
+  }, [product, allMaterials])
 
   const orderInfo = useMemo(() => {
     if (!request?.soId) return null
-    const orders = getCachedOrders()
-    const order = orders.find((o) => o.id === request.soId)
+    const order = orders?.find((o) => o.id === request.soId)
     const item = order?.items.find((i) => i.id === request.poItemId)
     return { order, item }
-  }, [request])
+  }, [request, orders])
+
+  if (id && isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner size="lg" className="text-muted-foreground" />
+      </div>
+    )
+  }
 
   if (!request) {
     return (
@@ -75,7 +65,7 @@ export function ApprovalDetailsPage() {
           <ShieldCheck className="mx-auto h-12 w-12 text-muted-foreground/40" />
           <h2 className="mt-4 text-xl font-semibold">Approval Not Found</h2>
           <Button asChild variant="outline" className="mt-6">
-            <Link to="/catalog/approvals">Back to Approvals</Link>
+            <Link to={appPaths.approvals()}>Back to Approvals</Link>
           </Button>
         </div>
       </div>
@@ -84,56 +74,52 @@ export function ApprovalDetailsPage() {
 
   const isApprover = request.approverId === activeWorkspace.id
 
-  const handleApprove = () => {
+  const handleApprove = async () => {
     if (!request) return
     try {
-      // 1. Link product to PO item
-      if (request.soId && request.poItemId && request.productId) {
-        linkProductToOrderItem(
-          request.soId,
-          request.poItemId,
-          request.productId
-        )
-      }
+      // 1. Update approval status; throws if the request was already decided
+      await transitionApproval.mutateAsync({
+        approvalId: request.id,
+        status: 'APPROVED',
+      })
 
-      // 2. Update approval status
-      const stored = localStorage.getItem(APPROVALS_STORAGE_KEY)
-      if (stored) {
-        const approvals = JSON.parse(stored)
-        const updated = approvals.map((a: ApprovalRequest) =>
-          a.id === request.id ? { ...a, status: 'APPROVED' } : a
-        )
-        localStorage.setItem(APPROVALS_STORAGE_KEY, JSON.stringify(updated))
-        setRequest({ ...request, status: 'APPROVED' })
-
-        toast.success('Product Approved', {
-          description:
-            'The product has been approved and linked to your purchase order item.',
+      // 2. Link product to PO item
+      if (request.soId && request.poItemId && request.productId) {
+        await linkProduct.mutateAsync({
+          orderId: request.soId,
+          itemId: request.poItemId,
+          productId: request.productId,
         })
       }
-    } catch {
-      toast.error('Failed to approve request')
+
+      toast.success('Product Approved', {
+        description:
+          'The product has been approved and linked to your purchase order item.',
+      })
+    } catch (error) {
+      toast.error('Failed to approve request', {
+        description:
+          error instanceof ApprovalTransitionError ? error.message : undefined,
+      })
     }
   }
 
-  const handleReject = () => {
+  const handleReject = async () => {
     if (!request) return
     try {
-      const stored = localStorage.getItem(APPROVALS_STORAGE_KEY)
-      if (stored) {
-        const approvals = JSON.parse(stored)
-        const updated = approvals.map((a: ApprovalRequest) =>
-          a.id === request.id ? { ...a, status: 'REJECTED' } : a
-        )
-        localStorage.setItem(APPROVALS_STORAGE_KEY, JSON.stringify(updated))
-        setRequest({ ...request, status: 'REJECTED' })
+      await transitionApproval.mutateAsync({
+        approvalId: request.id,
+        status: 'REJECTED',
+      })
 
-        toast.error('Product Rejected', {
-          description: 'The product definition was rejected.',
-        })
-      }
-    } catch {
-      toast.error('Failed to reject request')
+      toast.error('Product Rejected', {
+        description: 'The product definition was rejected.',
+      })
+    } catch (error) {
+      toast.error('Failed to reject request', {
+        description:
+          error instanceof ApprovalTransitionError ? error.message : undefined,
+      })
     }
   }
 
@@ -153,7 +139,7 @@ export function ApprovalDetailsPage() {
             <Button
               variant="ghost"
               size="icon"
-              onClick={() => navigate('/catalog/approvals')}
+              onClick={() => navigate(appPaths.approvals())}
               className="h-8 w-8"
             >
               <ArrowLeft className="h-4 w-4" />
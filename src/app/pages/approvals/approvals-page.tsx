@@ -1,4 +1,3 @@
-import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import {
   CheckCircle2,
@@ -8,56 +7,35 @@ import {
   Eye,
   ShieldCheck,
 } from 'lucide-react'
+import { toast } from 'sonner'
+import { appPaths } from '@/app/router/paths'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { useWorkspace } from '@/app/contexts/workspace-context'
-
-export type ApprovalRequest = {
-  id: string
-  productId?: string
-  productName: string
-  sku: string
-  requesterName: string
-  requesterId: string
-  approverId: string
-  soId?: string
-  poItemId?: string
-  status: 'PENDING' | 'APPROVED' | 'REJECTED'
-  createdAt: string
-}
-
-const APPROVALS_STORAGE_KEY = 't4s-demo-approvals'
+import { useApprovals, useTransitionApproval } from '@/app/hooks/use-approvals'
 
 export function ApprovalsPage() {
   const { activeWorkspace } = useWorkspace()
-  const [approvals, setApprovals] = useState<ApprovalRequest[]>([])
-
-  useEffect(() => {
-    try {
-      const stored = localStorage.getItem(APPROVALS_STORAGE_KEY)
-      if (stored) {
-        setApprovals(JSON.parse(stored))
-      }
-    } catch (e) {
-      console.error(e)
-    }
-  }, [activeWorkspace])
+  const transitionApproval = useTransitionApproval()
 
   const updateStatus = (id: string, newStatus: 'APPROVED' | 'REJECTED') => {
-    const updated = approvals.map((a) =>
-      a.id === id ? { ...a, status: newStatus } : a
+    transitionApproval.mutate(
+      { approvalId: id, status: newStatus },
+      {
+        onError: (error) => {
+          toast.error(
+            error instanceof Error ? error.message : 'Failed to update approval'
+          )
+        },
+      }
     )
-    setApprovals(updated)
-    localStorage.setItem(APPROVALS_STORAGE_KEY, JSON.stringify(updated))
   }
 
-  // Filter approvals based on current workspace
   const isBrand = activeWorkspace.type === 'BRAND'
   // If Brand, show requests they RECEIVED. If Mfg, show requests they SENT.
-  const relevantApprovals = approvals.filter((a) =>
-    isBrand
-      ? a.approverId === activeWorkspace.id
-      : a.requesterId === activeWorkspace.id
+  const { data: relevantApprovals = [] } = useApprovals(
+    activeWorkspace.id,
+    isBrand ? 'approver' : 'requester'
   )
 
   const pendingCount = relevantApprovals.filter(
@@ -172,7 +150,7 @@ export function ApprovalsPage() {
                         size="sm"
                         className="gap-2"
                       >
-                        <Link to={`/catalog/approvals/${req.id}`}>
+                        <Link to={appPaths.approval(req.id)}>
                           <Eye className="h-4 w-4" /> View Details
                         </Link>
                       </Button>
@@ -10,22 +10,26 @@ import {
   Search,
   Sparkles,
   TrendingUp,
+  Upload,
   Workflow,
   X,
 } from 'lucide-react'
 
+import { Ipc1752ImportDialog } from '@/app/components/ipc-1752-import-dialog'
+import { SyncStatusBadge } from '@/app/components/sync-status-badge'
+import { appPaths } from '@/app/router/paths'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent } from '@/components/ui/dialog'
-import {
-  getCachedMaterials,
-  getCachedProducts,
+import type {
+  CachedMaterial,
+  CachedProduct,
 } from '@/infrastructure/cache/catalog-cache'
 import { cn } from '@/lib/utils'
 
 type CatalogItem =
-  | { type: 'product'; data: ReturnType<typeof getCachedProducts>[number] }
-  | { type: 'component'; data: ReturnType<typeof getCachedMaterials>[number] }
+  | { type: 'product'; data: CachedProduct }
+  | { type: 'component'; data: CachedMaterial }
 
 function formatRelativeTime(isoString?: string): string {
   if (!isoString) return ''
@@ -86,14 +90,14 @@ function CommandPalette({
       label: 'Create Product',
       icon: Package,
       shortcut: 'P',
-      action: () => navigate('/catalog/products/builder'),
+      action: () => navigate(appPaths.productBuilder()),
     },
     {
       id: 'new-component',
       label: 'Create Component',
       icon: Layers,
       shortcut: 'C',
-      action: () => navigate('/catalog/components/create'),
+      action: () => navigate(appPaths.componentCreate()),
     },
   ]
 
@@ -325,6 +329,7 @@ function ItemRow({
       <div className="min-w-0 flex-1">
         <div className="flex items-center gap-2">
           <span className="truncate font-medium">{name}</span>
+          <SyncStatusBadge entityId={data.id} />
           {isProduct && (data as any).isActive && (
             <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
           )}
@@ -368,13 +373,13 @@ function EmptyState({ onOpenPalette }: { onOpenPalette: () => void }) {
 
       <div className="mt-8 flex gap-3">
         <Button asChild variant="outline" className="gap-2">
-          <Link to="/catalog/components/create">
+          <Link to={appPaths.componentCreate()}>
             <Layers className="h-4 w-4" />
             New Component
           </Link>
         </Button>
         <Button asChild variant="accent" className="gap-2">
-          <Link to="/catalog/products/builder">
+          <Link to={appPaths.productBuilder()}>
             <Plus className="h-4 w-4" />
             New Product
           </Link>
@@ -397,24 +402,33 @@ function EmptyState({ onOpenPalette }: { onOpenPalette: () => void }) {
 }
 
 import { useWorkspace } from '@/app/contexts/workspace-context'
+import { useMaterials } from '@/app/hooks/use-materials'
+import { useProducts } from '@/app/hooks/use-products'
 
 export function CatalogPage() {
   const navigate = useNavigate()
   const { activeWorkspace } = useWorkspace()
   const [paletteOpen, setPaletteOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const [filter, setFilter] = useState<'all' | 'products' | 'components'>('all')
 
-  const products = useMemo(() => {
-    return getCachedProducts().filter(
-      (p) => !p.workspaceId || p.workspaceId === activeWorkspace.id
-    )
-  }, [activeWorkspace.id])
+  const { data: allProducts } = useProducts()
+  const { data: allMaterials } = useMaterials()
 
-  const materials = useMemo(() => {
-    return getCachedMaterials().filter(
-      (m) => !m.workspaceId || m.workspaceId === activeWorkspace.id
-    )
-  }, [activeWorkspace.id])
+  const products = useMemo(
+    () =>
+      (allProducts ?? []).filter(
+        (p) => !p.workspaceId || p.workspaceId === activeWorkspace.id
+      ),
+    [allProducts, activeWorkspace.id]
+  )
+  const materials = useMemo(
+    () =>
+      (allMaterials ?? []).filter(
+        (m) => !m.workspaceId || m.workspaceId === activeWorkspace.id
+      ),
+    [allMaterials, activeWorkspace.id]
+  )
 
   const allItems: CatalogItem[] = useMemo(() => {
     const productItems: CatalogItem[] = products.map((p) => ({
@@ -448,9 +462,9 @@ export function CatalogPage() {
   const handleNavigate = useCallback(
     (item: CatalogItem) => {
       if (item.type === 'product') {
-        navigate(`/catalog/products/${item.data.id}`)
+        navigate(appPaths.product(item.data.id))
       } else {
-        navigate(`/catalog/components/${item.data.id}`)
+        navigate(appPaths.component(item.data.id))
       }
     },
     [navigate]
@@ -467,11 +481,11 @@ export function CatalogPage() {
       if (!paletteOpen) {
         if (e.key === 'p' && (e.metaKey || e.ctrlKey) && e.shiftKey) {
           e.preventDefault()
-          navigate('/catalog/products/builder')
+          navigate(appPaths.productBuilder())
         }
         if (e.key === 'c' && (e.metaKey || e.ctrlKey) && e.shiftKey) {
           e.preventDefault()
-          navigate('/catalog/components/create')
+          navigate(appPaths.componentCreate())
         }
       }
     }
@@ -489,6 +503,7 @@ export function CatalogPage() {
         items={allItems}
         onSelect={handleNavigate}
       />
+      <Ipc1752ImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
 
       {/* Header */}
       <header className="border-b border-border/40">
@@ -514,8 +529,18 @@ export function CatalogPage() {
                 </kbd>
               </button>
 
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-1.5"
+                onClick={() => setIsImportOpen(true)}
+              >
+                <Upload className="h-3.5 w-3.5" />
+                <span className="hidden sm:inline">Import IPC-1752A</span>
+              </Button>
+
               <Button asChild variant="accent" size="sm" className="gap-1.5">
-                <Link to="/catalog/products/builder">
+                <Link to={appPaths.productBuilder()}>
                   <Plus className="h-3.5 w-3.5" />
                   <span className="hidden sm:inline">New</span>
                 </Link>
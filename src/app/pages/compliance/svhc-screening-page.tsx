@@ -0,0 +1,244 @@
+import { useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { toast } from 'sonner'
+import { RotateCcw, ShieldAlert, Upload } from 'lucide-react'
+
+import { SvhcStatusBadge } from '@/app/components/svhc-report'
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import { useCatalogSvhcReports } from '@/app/hooks/use-svhc-screening'
+import { appPaths } from '@/app/router/paths'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import type {
+  SvhcScreeningReport,
+  SvhcScreeningStatus,
+} from '@/infrastructure/compliance/svhc-screening'
+import {
+  importSvhcList,
+  parseSvhcList,
+  resetSvhcList,
+  SvhcListValidationError,
+} from '@/infrastructure/substances/svhc-list'
+
+type StatusFilter = SvhcScreeningStatus | 'all'
+
+const FILTER_LABELS: Record<StatusFilter, string> = {
+  flagged: 'Affected',
+  incomplete: 'Incomplete',
+  clear: 'Clear',
+  all: 'All',
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${(value * 100).toFixed(3)}%`
+}
+
+function getHighestConcentration(report: SvhcScreeningReport) {
+  const known = report.findings
+    .map((finding) => finding.concentrationInProduct)
+    .filter((value): value is number => value !== null)
+  return known.length > 0 ? Math.max(...known) : null
+}
+
+/**
+ * Every product in the active workspace screened against the REACH
+ * Candidate List, with controls to replace the bundled list by an import.
+ */
+export function SvhcScreeningPage() {
+  const { activeWorkspace } = useWorkspace()
+  const { reports: allReports, list, isLoading } = useCatalogSvhcReports()
+  const [filter, setFilter] = useState<StatusFilter>('flagged')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const reports = useMemo(
+    () =>
+      allReports.filter(
+        ({ product }) =>
+          !product.workspaceId || product.workspaceId === activeWorkspace.id
+      ),
+    [allReports, activeWorkspace.id]
+  )
+  const counts = useMemo(() => {
+    const result: Record<StatusFilter, number> = {
+      flagged: 0,
+      incomplete: 0,
+      clear: 0,
+      all: reports.length,
+    }
+    for (const report of reports) result[report.status] += 1
+    return result
+  }, [reports])
+  const visibleReports =
+    filter === 'all'
+      ? reports
+      : reports.filter((report) => report.status === filter)
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    try {
+      const imported = parseSvhcList(await file.text(), file.name)
+      importSvhcList(imported)
+      toast.success(`Imported ${imported.entries.length} SVHC entries`)
+    } catch (error) {
+      if (error instanceof SvhcListValidationError) {
+        toast.error(error.message, {
+          description: error.issues.slice(0, 3).join('; ') || undefined,
+        })
+      } else {
+        toast.error('The SVHC list could not be read')
+      }
+    }
+  }
+
+  const handleReset = () => {
+    resetSvhcList()
+    toast.success('Using the bundled SVHC list')
+  }
+
+  return (
+    <div className="min-h-screen pb-16">
+      {/* Page Header */}
+      <div className="border-b border-border/50 bg-background/60 backdrop-blur-xl">
+        <div className="mx-auto max-w-6xl px-4 py-5 sm:px-6 lg:px-8">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <Badge
+                variant="secondary"
+                className="text-[10px] font-semibold uppercase tracking-wider"
+              >
+                Compliance
+              </Badge>
+              <h1 className="mt-1 text-2xl font-semibold tracking-tight sm:text-3xl">
+                REACH SVHC Screening
+              </h1>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {list.version} · {list.entries.length} substances
+                {list.importedAt &&
+                  ` · imported ${new Date(list.importedAt).toLocaleString()}`}
+              </p>
+            </div>
+
+            <div className="flex gap-2">
+              {list.source === 'imported' && (
+                <Button variant="ghost" className="gap-2" onClick={handleReset}>
+                  <RotateCcw className="h-4 w-4" />
+                  Use bundled list
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="h-4 w-4" />
+                Import Candidate List…
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={handleFileSelect}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <main className="mx-auto max-w-6xl space-y-4 px-4 py-6 sm:px-6 lg:px-8 lg:py-8">
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(FILTER_LABELS) as StatusFilter[]).map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={filter === option ? 'default' : 'outline'}
+              onClick={() => setFilter(option)}
+            >
+              {FILTER_LABELS[option]} ({counts[option]})
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Spinner size="lg" className="text-muted-foreground" />
+          </div>
+        ) : visibleReports.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-2xl border-2 border-dashed border-border/60 py-16">
+            <ShieldAlert className="h-12 w-12 text-muted-foreground/40" />
+            <h2 className="mt-4 text-xl font-semibold">No products here</h2>
+            <p className="mt-2 text-muted-foreground">
+              {filter === 'flagged'
+                ? 'No product contains an SVHC above 0.1% w/w'
+                : 'Try another filter'}
+            </p>
+          </div>
+        ) : (
+          <div className="surface-panel overflow-x-auto rounded-3xl">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border/60 text-left text-muted-foreground">
+                  <th className="px-4 py-3 font-semibold">Product</th>
+                  <th className="px-4 py-3 font-semibold">SKU</th>
+                  <th className="px-4 py-3 font-semibold">Status</th>
+                  <th className="px-4 py-3 font-semibold">SVHCs</th>
+                  <th className="px-4 py-3 text-right font-semibold">
+                    Highest in product
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {visibleReports.map((report) => {
+                  const flagged = report.findings.filter(
+                    (finding) => finding.exceedsLimit
+                  )
+                  const shown = flagged.length > 0 ? flagged : report.findings
+                  return (
+                    <tr key={report.product.id} className="align-top">
+                      <td className="px-4 py-3">
+                        <Link
+                          to={appPaths.product(report.product.id)}
+                          className="font-medium hover:underline"
+                        >
+                          {report.product.name}
+                        </Link>
+                        {report.status === 'incomplete' && (
+                          <p className="mt-0.5 text-xs text-muted-foreground">
+                            {report.gaps[0]}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 font-mono text-xs">
+                        {report.product.sku || report.product.upc || '—'}
+                      </td>
+                      <td className="px-4 py-3">
+                        <SvhcStatusBadge status={report.status} />
+                      </td>
+                      <td className="px-4 py-3">
+                        {shown.length === 0
+                          ? '—'
+                          : shown
+                              .map((finding) => finding.entry.name)
+                              .join(', ')}
+                      </td>
+                      <td className="px-4 py-3 text-right font-mono tabular-nums">
+                        {formatPercent(getHighestConcentration(report))}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -14,6 +14,7 @@ import {
   FileCheck,
   FileText,
   FlaskConical,
+  History,
   Layers,
   MoreHorizontal,
   Percent,
@@ -25,6 +26,9 @@ import {
   X,
 } from 'lucide-react'
 
+import { AuditHistory } from '@/app/components/audit-history'
+import { CertificateExpiryBadge } from '@/app/components/certificate-expiry-badge'
+import { SubstanceLookupInput } from '@/components/shared/substance-lookup-input'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -64,18 +68,33 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import {
-  getCachedMaterialById,
-  updateCachedMaterial,
-  deleteCachedMaterial,
-  getCachedSuppliers,
-  type CachedMaterial,
   type CachedMaterialSubstance,
   type CachedMaterialSubstanceInputType,
   type CachedMaterialSubstanceSourceType,
   type CachedUploadedFile,
-  type CachedSupplier,
+  type UpdateCachedMaterialInput,
+  type CachedMaterial,
+  VersionConflictError,
+  getChangedFields,
+  getConflictingFields,
 } from '@/infrastructure/cache/catalog-cache'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { cn } from '@/lib/utils'
+import { useAuditHistory } from '@/app/hooks/use-audit-log'
+import { isTrashEnabled, useRestoreTrashedEntity } from '@/app/hooks/use-trash'
+import {
+  useDeleteMaterialWithReferences,
+  useMaterialReferences,
+} from '@/app/hooks/use-catalog-integrity'
+import { useMaterial, useMaterials, useUpdateMaterial } from '@/app/hooks/use-materials'
+import { DeleteWithReferencesDialog } from '@/app/components/delete-with-references-dialog'
+import { EditConflictDialog } from '@/app/components/edit-conflict-dialog'
+import type { ReferenceResolution } from '@/infrastructure/integrity/catalog-integrity'
+import { getCertificateExpiry } from '@/infrastructure/compliance/certificate-expiry'
+import { isValidCasNumber } from '@/infrastructure/substances/cas-number'
+import { useSuppliers } from '@/app/hooks/use-suppliers'
+import { appPaths } from '@/app/router/paths'
+import { logger } from '@/lib/logger'
 
 // Constants
 const UNITS_OF_MEASURE = [
@@ -341,18 +360,14 @@ function SupplierSelector({
   onChange: (supplierId: string, supplierName: string, countryOfOrigin?: string) => void
   className?: string
 }) {
-  const [suppliers, setSuppliers] = useState<CachedSupplier[]>([])
-
-  useEffect(() => {
-    setSuppliers(getCachedSuppliers())
-  }, [])
+  const { data: suppliers = [] } = useSuppliers()
 
   if (suppliers.length === 0) {
     return (
       <div className={cn('flex items-center gap-2 rounded-md border border-border/60 bg-secondary/30 px-3 py-2 text-sm text-muted-foreground', className)}>
         <Building2 className="h-3.5 w-3.5" />
         <span>No suppliers available</span>
-        <a href="/suppliers" className="ml-auto text-xs text-primary hover:underline">
+        <a href={appPaths.suppliers()} className="ml-auto text-xs text-primary hover:underline">
           Add suppliers
         </a>
       </div>
@@ -515,6 +530,11 @@ function SubstanceDialog({
       return
     }
 
+    if (!isValidCasNumber(substanceCode)) {
+      toast.error(`Child CAS number ${substanceCode} is invalid`)
+      return
+    }
+
     if (!newSubComposition.supplierId || !newSubComposition.supplierName) {
       toast.error('Supplier is required for child composition')
       return
@@ -582,6 +602,7 @@ function SubstanceDialog({
       name: file.name,
       size: file.size,
       type: file.type,
+      file,
     }
     setFormData((prev) => ({
       ...prev,
@@ -602,6 +623,7 @@ function SubstanceDialog({
       name: file.name,
       size: file.size,
       type: file.type,
+      file,
     }
     setNewSubComposition((prev) => ({
       ...prev,
@@ -622,6 +644,11 @@ function SubstanceDialog({
       return
     }
 
+    if (!isValidCasNumber(formData.substanceCode)) {
+      toast.error(`CAS number ${formData.substanceCode.trim()} is invalid`)
+      return
+    }
+
     if (!formData.supplierId || !formData.supplierName) {
       toast.error('Supplier is required')
       return
@@ -744,9 +771,14 @@ function SubstanceDialog({
 
           <div className="space-y-2">
             <label className="text-sm font-medium">Substance Name *</label>
-            <Input
+            <SubstanceLookupInput
+              lookup="name"
               value={formData.substanceName || ''}
-              onChange={(e) => setFormData((prev) => ({ ...prev, substanceName: e.target.value }))}
+              counterpartValue={formData.substanceCode}
+              onValueChange={(substanceName) => setFormData((prev) => ({ ...prev, substanceName }))}
+              onSubstanceSelect={(entry) =>
+                setFormData((prev) => ({ ...prev, substanceName: entry.name, substanceCode: entry.casNumber }))
+              }
               placeholder="Enter substance name"
             />
           </div>
@@ -754,9 +786,14 @@ function SubstanceDialog({
           <div className="grid gap-4 sm:grid-cols-2">
             <div className="space-y-2">
               <label className="text-sm font-medium">CAS Number *</label>
-              <Input
+              <SubstanceLookupInput
+                lookup="casNumber"
                 value={formData.substanceCode || ''}
-                onChange={(e) => setFormData((prev) => ({ ...prev, substanceCode: e.target.value }))}
+                counterpartValue={formData.substanceName}
+                onValueChange={(substanceCode) => setFormData((prev) => ({ ...prev, substanceCode }))}
+                onSubstanceSelect={(entry) =>
+                  setFormData((prev) => ({ ...prev, substanceName: entry.name, substanceCode: entry.casNumber }))
+                }
                 placeholder="e.g., 50-00-0"
               />
             </div>
@@ -901,11 +938,20 @@ function SubstanceDialog({
 
                   <div className="space-y-2">
                     <label className="text-xs font-medium text-muted-foreground">Child Name *</label>
-                    <Input
+                    <SubstanceLookupInput
+                      lookup="name"
                       className="h-9"
                       value={newSubComposition.substanceName || ''}
-                      onChange={(e) =>
-                        setNewSubComposition((prev) => ({ ...prev, substanceName: e.target.value }))
+                      counterpartValue={newSubComposition.substanceCode}
+                      onValueChange={(substanceName) =>
+                        setNewSubComposition((prev) => ({ ...prev, substanceName }))
+                      }
+                      onSubstanceSelect={(entry) =>
+                        setNewSubComposition((prev) => ({
+                          ...prev,
+                          substanceName: entry.name,
+                          substanceCode: entry.casNumber,
+                        }))
                       }
                       placeholder="Enter child substance name"
                     />
@@ -913,11 +959,20 @@ function SubstanceDialog({
 
                   <div className="space-y-2">
                     <label className="text-xs font-medium text-muted-foreground">Child CAS *</label>
-                    <Input
+                    <SubstanceLookupInput
+                      lookup="casNumber"
                       className="h-9"
                       value={newSubComposition.substanceCode || ''}
-                      onChange={(e) =>
-                        setNewSubComposition((prev) => ({ ...prev, substanceCode: e.target.value }))
+                      counterpartValue={newSubComposition.substanceName}
+                      onValueChange={(substanceCode) =>
+                        setNewSubComposition((prev) => ({ ...prev, substanceCode }))
+                      }
+                      onSubstanceSelect={(entry) =>
+                        setNewSubComposition((prev) => ({
+                          ...prev,
+                          substanceName: entry.name,
+                          substanceCode: entry.casNumber,
+                        }))
                       }
                       placeholder="Enter child CAS"
                     />
@@ -1049,13 +1104,44 @@ function SubstanceDialog({
   )
 }
 
+interface PendingConflict {
+  base: CachedMaterial
+  updates: UpdateCachedMaterialInput
+  current: CachedMaterial
+  onSaved: () => void
+}
+
+function toComponentFormData(component: CachedMaterial): ComponentFormData {
+  return {
+    name: component.name,
+    description: component.description || '',
+    unitOfMeasurement: component.unitOfMeasurement,
+    unitCost: component.unitCost,
+    unitCostCurrency: component.unitCostCurrency,
+    weight: component.weight,
+    length: component.length,
+    width: component.width,
+    height: component.height,
+  }
+}
+
 // Main Component Detail Page
 export function ComponentDetailPage() {
   const navigate = useNavigate()
   const { componentId } = useParams<{ componentId: string }>()
 
-  const [component, setComponent] = useState<CachedMaterial | null>(null)
+  const { data: component = null, isPending } = useMaterial(componentId)
+  const { data: history = [] } = useAuditHistory('material', componentId)
+  const updateMaterial = useUpdateMaterial()
+  const { data: materials = [] } = useMaterials()
+  const materialReferences = useMaterialReferences(componentId)
+  const deleteReferences = useMaterialReferences(componentId, { includeTrashed: true })
+  const deleteMaterial = useDeleteMaterialWithReferences()
+  const restoreMaterial = useRestoreTrashedEntity()
   const [isEditing, setIsEditing] = useState(false)
+  // The component as the form was opened on, so a save after someone else's is caught
+  const [editBase, setEditBase] = useState<CachedMaterial | null>(null)
+  const [conflict, setConflict] = useState<PendingConflict | null>(null)
   const [isSaving, setIsSaving] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [substanceDialogOpen, setSubstanceDialogOpen] = useState(false)
@@ -1074,69 +1160,122 @@ export function ComponentDetailPage() {
     },
   })
 
-  // Load component data
+  // Sync the form with the component; changes from other tabs are picked up outside edit mode
   useEffect(() => {
-    if (!componentId) return
-    const data = getCachedMaterialById(componentId)
-    if (data) {
-      setComponent(data)
-      form.reset({
-        name: data.name,
-        description: data.description || '',
-        unitOfMeasurement: data.unitOfMeasurement,
-        unitCost: data.unitCost,
-        unitCostCurrency: data.unitCostCurrency,
-        weight: data.weight,
-        length: data.length,
-        width: data.width,
-        height: data.height,
-      })
-    }
-  }, [componentId, form])
+    if (!component || isEditing) return
+    form.reset(toComponentFormData(component))
+  }, [component, form, isEditing])
 
   const substances = component?.substances || []
   const totalSubstancePercentage = substances.reduce((sum, s) => sum + s.percentage, 0)
 
+  const startEditing = () => {
+    setEditBase(component)
+    setIsEditing(true)
+  }
+
+  /**
+   * Saves `updates` against the version of `base`. When someone else saved
+   * first and also changed one of those fields, the edit is parked in the
+   * conflict dialog instead.
+   */
+  const saveComponent = async (
+    updates: UpdateCachedMaterialInput,
+    base: CachedMaterial,
+    onSaved: () => void
+  ): Promise<CachedMaterial | 'conflict' | null> => {
+    if (!componentId) return null
+
+    try {
+      const updated = await updateMaterial.mutateAsync({
+        materialId: componentId,
+        updates,
+        expectedVersion: base.version,
+      })
+      if (updated) onSaved()
+      return updated
+    } catch (error) {
+      if (!(error instanceof VersionConflictError)) throw error
+      const current = error.current as CachedMaterial
+      if (getConflictingFields(base, updates, current).length === 0) {
+        return saveComponent(updates, current, onSaved)
+      }
+      setConflict({ base, updates, current, onSaved })
+      return 'conflict'
+    }
+  }
+
+  const handleResolveConflict = async (updates: UpdateCachedMaterialInput) => {
+    if (!conflict) return
+    setConflict(null)
+    const result = await saveComponent(updates, conflict.current, conflict.onSaved).catch(
+      () => null
+    )
+    if (result === null) toast.error('Failed to save changes')
+  }
+
+  const handleDiscardConflict = () => {
+    setConflict(null)
+    setIsEditing(false)
+    toast.info('Your changes were discarded')
+  }
+
   const handleSaveComponent = async (data: ComponentFormData) => {
-    if (!componentId || !component) return
+    if (!componentId || !editBase) return
+
+    // Only what the form changed, so fields edited elsewhere meanwhile are kept
+    const updates = getChangedFields(toComponentFormData(editBase), data)
+    if (Object.keys(updates).length === 0) {
+      setIsEditing(false)
+      return
+    }
 
     setIsSaving(true)
     try {
-      const updated = updateCachedMaterial(componentId, {
-        ...data,
-        photos: component.photos,
-        certificates: component.certificates,
-        substances: component.substances,
-      })
+      const updated = await saveComponent(
+        updates,
+        editBase,
+        () => {
+          setIsEditing(false)
+          toast.success('Component updated')
+        }
+      )
 
-      if (updated) {
-        setComponent(updated)
-        setIsEditing(false)
-        toast.success('Component updated')
-      } else {
+      if (!updated) {
         toast.error('Failed to update component')
       }
     } catch (error) {
-      console.error('Save error:', error)
+      logger.error('Save error', error)
       toast.error('Failed to save changes')
     } finally {
       setIsSaving(false)
     }
   }
 
-  const handleDeleteComponent = () => {
+  const handleDeleteComponent = async (resolution: ReferenceResolution | undefined) => {
     if (!componentId) return
 
-    const deleted = deleteCachedMaterial(componentId)
-    if (deleted) {
+    const deleted = await deleteMaterial
+      .mutateAsync({ entityId: componentId, resolution })
+      .catch(() => false)
+    if (deleted && isTrashEnabled) {
+      toast.success('Component moved to trash', {
+        action: {
+          label: 'Undo',
+          onClick: () =>
+            restoreMaterial.mutate({ type: 'material', entityId: componentId }),
+        },
+      })
+      navigate(appPaths.catalog())
+    } else if (deleted) {
       toast.success('Component deleted')
-      navigate('/catalog')
+      navigate(appPaths.catalog())
     } else {
       toast.error('Failed to delete component')
     }
   }
 
-  const handleSaveSubstance = (substanceData: CachedMaterialSubstance) => {
+  const handleSaveSubstance = async (substanceData: CachedMaterialSubstance) => {
     if (!componentId || !component) return
 
     let updatedSubstances: CachedMaterialSubstance[]
@@ -1149,22 +1288,25 @@ export function ComponentDetailPage() {
       updatedSubstances = [...component.substances, substanceData]
     }
 
-    const updated = updateCachedMaterial(componentId, { substances: updatedSubstances })
-    if (updated) {
-      setComponent(updated)
-      toast.success(editingSubstance ? 'Substance updated' : 'Substance added')
+    const successMessage = editingSubstance ? 'Substance updated' : 'Substance added'
+    const updated = await saveComponent({ substances: updatedSubstances }, component, () =>
+      toast.success(successMessage)
+    ).catch(() => null)
+    if (!updated) {
+      toast.error('Failed to save substance')
     }
     setEditingSubstance(null)
   }
 
-  const handleDeleteSubstance = () => {
+  const handleDeleteSubstance = async () => {
     if (!componentId || !component || !deleteSubstanceId) return
 
     const updatedSubstances = component.substances.filter((s) => s.id !== deleteSubstanceId)
-    const updated = updateCachedMaterial(componentId, { substances: updatedSubstances })
-    if (updated) {
-      setComponent(updated)
+    const updated = await saveComponent({ substances: updatedSubstances }, component, () =>
       toast.success('Substance deleted')
+    ).catch(() => null)
+    if (!updated) {
+      toast.error('Failed to delete substance')
     }
     setDeleteSubstanceId(null)
   }
@@ -1179,6 +1321,14 @@ export function ComponentDetailPage() {
     setSubstanceDialogOpen(true)
   }
 
+  if (componentId && isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner size="lg" className="text-muted-foreground" />
+      </div>
+    )
+  }
+
   if (!component) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -1189,7 +1339,7 @@ export function ComponentDetailPage() {
             This component may have been deleted or doesn't exist.
           </p>
           <Button asChild variant="outline" className="mt-6">
-            <Link to="/catalog">Back to Catalog</Link>
+            <Link to={appPaths.catalog()}>Back to Catalog</Link>
           </Button>
         </div>
       </div>
@@ -1217,7 +1367,7 @@ export function ComponentDetailPage() {
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => navigate('/catalog')}
+                onClick={() => navigate(appPaths.catalog())}
                 className="mt-1 h-9 w-9 shrink-0 rounded-lg"
               >
                 <ArrowLeft className="h-4 w-4" />
@@ -1264,7 +1414,7 @@ export function ComponentDetailPage() {
                 </>
               ) : (
                 <>
-                  <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} className="gap-2">
+                  <Button variant="outline" size="sm" onClick={startEditing} className="gap-2">
                     <Edit3 className="h-3.5 w-3.5" />
                     Edit
                   </Button>
@@ -1275,7 +1425,7 @@ export function ComponentDetailPage() {
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end">
-                      <DropdownMenuItem onClick={() => setIsEditing(true)}>
+                      <DropdownMenuItem onClick={startEditing}>
                         <Edit3 className="mr-2 h-4 w-4" />
                         Edit Component
                       </DropdownMenuItem>
@@ -1353,232 +1503,273 @@ export function ComponentDetailPage() {
 
       {/* Main content */}
       <main className="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 lg:py-8">
-        <div className="space-y-6">
-          {/* Component Details Section */}
-          {isEditing ? (
-            <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
-              <h2 className="mb-4 text-lg font-semibold">Component Details</h2>
-              <form className="space-y-6">
-                <div className="grid gap-4 sm:grid-cols-2">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Name *</label>
-                    <Input {...form.register('name')} placeholder="Component name" />
-                    {form.formState.errors.name && (
-                      <p className="text-xs text-destructive">{form.formState.errors.name.message}</p>
-                    )}
-                  </div>
+        <Tabs defaultValue="details">
+          <TabsList className="mb-6">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history" className="gap-1.5">
+              <History className="h-3.5 w-3.5" />
+              History ({history.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details" className="mt-0">
+            <div className="space-y-6">
+              {/* Component Details Section */}
+              {isEditing ? (
+                <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
+                  <h2 className="mb-4 text-lg font-semibold">Component Details</h2>
+                  <form className="space-y-6">
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Name *</label>
+                        <Input {...form.register('name')} placeholder="Component name" />
+                        {form.formState.errors.name && (
+                          <p className="text-xs text-destructive">{form.formState.errors.name.message}</p>
+                        )}
+                      </div>
 
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Weight (g) *</label>
-                    <Input type="number" {...form.register('weight')} placeholder="0" />
-                  </div>
-                </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Weight (g) *</label>
+                        <Input type="number" {...form.register('weight')} placeholder="0" />
+                      </div>
+                    </div>
 
-                <div className="space-y-2">
-                  <label className="text-sm font-medium">Description</label>
-                  <Textarea {...form.register('description')} placeholder="Description" />
-                </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Description</label>
+                      <Textarea {...form.register('description')} placeholder="Description" />
+                    </div>
 
-                <div className="grid gap-4 sm:grid-cols-3">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Unit of Measurement *</label>
-                    <Select
-                      value={form.watch('unitOfMeasurement')}
-                      onValueChange={(v) => form.setValue('unitOfMeasurement', v)}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select unit" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {UNITS_OF_MEASURE.map((u) => (
-                          <SelectItem key={u.value} value={u.value}>
-                            {u.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Unit of Measurement *</label>
+                        <Select
+                          value={form.watch('unitOfMeasurement')}
+                          onValueChange={(v) => form.setValue('unitOfMeasurement', v)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select unit" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {UNITS_OF_MEASURE.map((u) => (
+                              <SelectItem key={u.value} value={u.value}>
+                                {u.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Currency *</label>
-                    <Select
-                      value={form.watch('unitCostCurrency')}
-                      onValueChange={(v) => form.setValue('unitCostCurrency', v)}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select currency" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {CURRENCIES.map((c) => (
-                          <SelectItem key={c.value} value={c.value}>
-                            {c.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Currency *</label>
+                        <Select
+                          value={form.watch('unitCostCurrency')}
+                          onValueChange={(v) => form.setValue('unitCostCurrency', v)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select currency" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CURRENCIES.map((c) => (
+                              <SelectItem key={c.value} value={c.value}>
+                                {c.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Unit Cost *</label>
-                    <Input type="number" step="0.01" {...form.register('unitCost')} placeholder="0.00" />
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Unit Cost *</label>
+                        <Input type="number" step="0.01" {...form.register('unitCost')} placeholder="0.00" />
+                      </div>
+                    </div>
+
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Length (cm)</label>
+                        <Input type="number" {...form.register('length')} placeholder="0" />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Width (cm)</label>
+                        <Input type="number" {...form.register('width')} placeholder="0" />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Height (cm)</label>
+                        <Input type="number" {...form.register('height')} placeholder="0" />
+                      </div>
+                    </div>
+                  </form>
+                </section>
+              ) : (
+                <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
+                  <h2 className="mb-4 text-lg font-semibold">Component Details</h2>
+                  <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                    <div>
+                      <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                        Name
+                      </dt>
+                      <dd className="mt-1 font-medium">{component.name}</dd>
+                    </div>
+                    {component.description && (
+                      <div className="sm:col-span-2 lg:col-span-3">
+                        <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                          Description
+                        </dt>
+                        <dd className="mt-1 text-muted-foreground">{component.description}</dd>
+                      </div>
+                    )}
+                    <div>
+                      <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                        Unit Cost
+                      </dt>
+                      <dd className="mt-1 font-medium">
+                        {component.unitCostCurrency} {component.unitCost.toFixed(2)} / {component.unitOfMeasurement}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                        Weight
+                      </dt>
+                      <dd className="mt-1 font-medium">{component.weight}g</dd>
+                    </div>
+                    {(component.length || component.width || component.height) && (
+                      <div>
+                        <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                          Dimensions
+                        </dt>
+                        <dd className="mt-1 font-medium">
+                          {[component.length, component.width, component.height].filter(Boolean).join(' × ')} cm
+                        </dd>
+                      </div>
+                    )}
+                    <div>
+                      <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                        Created
+                      </dt>
+                      <dd className="mt-1 text-muted-foreground">{formatDate(component.createdAt)}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
+                        Last Updated
+                      </dt>
+                      <dd className="mt-1 text-muted-foreground">{formatDate(component.updatedAt)}</dd>
+                    </div>
+                  </dl>
+                </section>
+              )}
+
+              {/* Substances Section */}
+              <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold">Bill of Substances</h2>
+                    <p className="text-sm text-muted-foreground">
+                      {substances.length} substance{substances.length !== 1 ? 's' : ''} ·{' '}
+                      {totalSubstancePercentage.toFixed(1)}% total composition
+                    </p>
                   </div>
+                  <Button onClick={openAddSubstance} size="sm" className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add Substance
+                  </Button>
                 </div>
 
-                <div className="grid gap-4 sm:grid-cols-3">
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Length (cm)</label>
-                    <Input type="number" {...form.register('length')} placeholder="0" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Width (cm)</label>
-                    <Input type="number" {...form.register('width')} placeholder="0" />
-                  </div>
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Height (cm)</label>
-                    <Input type="number" {...form.register('height')} placeholder="0" />
+                {/* Composition progress */}
+                <div className="mb-4 rounded-xl bg-secondary/40 p-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">Total Composition</span>
+                    <span
+                      className={cn(
+                        'font-mono font-semibold',
+                        totalSubstancePercentage > 100 && 'text-destructive'
+                      )}
+                    >
+                      {totalSubstancePercentage.toFixed(2)}%
+                    </span>
                   </div>
+                  <Progress
+                    value={Math.min(totalSubstancePercentage, 100)}
+                    className={cn('mt-2 h-2', totalSubstancePercentage > 100 && '[&>div]:!bg-destructive')}
+                  />
                 </div>
-              </form>
-            </section>
-          ) : (
-            <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
-              <h2 className="mb-4 text-lg font-semibold">Component Details</h2>
-              <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-                <div>
-                  <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                    Name
-                  </dt>
-                  <dd className="mt-1 font-medium">{component.name}</dd>
-                </div>
-                {component.description && (
-                  <div className="sm:col-span-2 lg:col-span-3">
-                    <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                      Description
-                    </dt>
-                    <dd className="mt-1 text-muted-foreground">{component.description}</dd>
+
+                {substances.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border/60 py-12">
+                    <FlaskConical className="h-10 w-10 text-muted-foreground/40" />
+                    <p className="mt-4 text-muted-foreground">No substances added yet</p>
+                    <Button variant="outline" onClick={openAddSubstance} className="mt-4 gap-2">
+                      <Plus className="h-4 w-4" />
+                      Add First Substance
+                    </Button>
                   </div>
-                )}
-                <div>
-                  <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                    Unit Cost
-                  </dt>
-                  <dd className="mt-1 font-medium">
-                    {component.unitCostCurrency} {component.unitCost.toFixed(2)} / {component.unitOfMeasurement}
-                  </dd>
-                </div>
-                <div>
-                  <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                    Weight
-                  </dt>
-                  <dd className="mt-1 font-medium">{component.weight}g</dd>
-                </div>
-                {(component.length || component.width || component.height) && (
-                  <div>
-                    <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                      Dimensions
-                    </dt>
-                    <dd className="mt-1 font-medium">
-                      {[component.length, component.width, component.height].filter(Boolean).join(' × ')} cm
-                    </dd>
+                ) : (
+                  <div className="space-y-3">
+                    {substances.map((substance) => (
+                      <SubstanceCard
+                        key={substance.id}
+                        substance={substance}
+                        onEdit={() => openEditSubstance(substance)}
+                        onDelete={() => setDeleteSubstanceId(substance.id)}
+                      />
+                    ))}
                   </div>
                 )}
-                <div>
-                  <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                    Created
-                  </dt>
-                  <dd className="mt-1 text-muted-foreground">{formatDate(component.createdAt)}</dd>
-                </div>
-                <div>
-                  <dt className="text-xs font-medium uppercase tracking-wider text-muted-foreground">
-                    Last Updated
-                  </dt>
-                  <dd className="mt-1 text-muted-foreground">{formatDate(component.updatedAt)}</dd>
-                </div>
-              </dl>
-            </section>
-          )}
+              </section>
 
-          {/* Substances Section */}
-          <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
-            <div className="mb-4 flex items-center justify-between">
-              <div>
-                <h2 className="text-lg font-semibold">Bill of Substances</h2>
-                <p className="text-sm text-muted-foreground">
-                  {substances.length} substance{substances.length !== 1 ? 's' : ''} ·{' '}
-                  {totalSubstancePercentage.toFixed(1)}% total composition
-                </p>
-              </div>
-              <Button onClick={openAddSubstance} size="sm" className="gap-2">
-                <Plus className="h-4 w-4" />
-                Add Substance
-              </Button>
-            </div>
-
-            {/* Composition progress */}
-            <div className="mb-4 rounded-xl bg-secondary/40 p-3">
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Total Composition</span>
-                <span
-                  className={cn(
-                    'font-mono font-semibold',
-                    totalSubstancePercentage > 100 && 'text-destructive'
-                  )}
-                >
-                  {totalSubstancePercentage.toFixed(2)}%
-                </span>
-              </div>
-              <Progress
-                value={Math.min(totalSubstancePercentage, 100)}
-                className={cn('mt-2 h-2', totalSubstancePercentage > 100 && '[&>div]:!bg-destructive')}
-              />
+              {/* Certificates Section */}
+              {component.certificates && component.certificates.length > 0 && (
+                <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
+                  <h2 className="mb-4 text-lg font-semibold">Certificates</h2>
+                  <div className="space-y-2">
+                    {component.certificates.map((cert) => (
+                      <div
+                        key={cert.id}
+                        className="flex items-center gap-4 rounded-xl bg-secondary/40 p-3"
+                      >
+                        <FileCheck className="h-5 w-5 text-muted-foreground" />
+                        <div className="flex-1">
+                          <p className="font-medium">{cert.type}</p>
+                          <p className="text-sm text-muted-foreground">
+                            #{cert.number} · Expires {formatDate(cert.expiryDate)}
+                          </p>
+                        </div>
+                        <CertificateExpiryBadge expiry={getCertificateExpiry(cert)} />
+                      </div>
+                    ))}
+                  </div>
+                  {materialReferences.length > 0 &&
+                    component.certificates.some((cert) =>
+                      ['expired', 'expiring'].includes(getCertificateExpiry(cert).status)
+                    ) && (
+                      <div className="mt-4 rounded-xl border border-amber-500/30 bg-amber-500/5 p-3 text-sm">
+                        <p className="flex items-center gap-2 font-medium text-amber-700 dark:text-amber-400">
+                          <AlertTriangle className="h-4 w-4" />
+                          Used in {materialReferences.length} product
+                          {materialReferences.length === 1 ? '' : 's'}
+                        </p>
+                        <ul className="mt-2 flex flex-wrap gap-2">
+                          {materialReferences.map(({ product }) => (
+                            <li key={product.id}>
+                              <Link
+                                to={appPaths.product(product.id)}
+                                className="text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+                              >
+                                {product.name}
+                              </Link>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                </section>
+              )}
             </div>
+          </TabsContent>
 
-            {substances.length === 0 ? (
-              <div className="flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-border/60 py-12">
-                <FlaskConical className="h-10 w-10 text-muted-foreground/40" />
-                <p className="mt-4 text-muted-foreground">No substances added yet</p>
-                <Button variant="outline" onClick={openAddSubstance} className="mt-4 gap-2">
-                  <Plus className="h-4 w-4" />
-                  Add First Substance
-                </Button>
-              </div>
-            ) : (
-              <div className="space-y-3">
-                {substances.map((substance) => (
-                  <SubstanceCard
-                    key={substance.id}
-                    substance={substance}
-                    onEdit={() => openEditSubstance(substance)}
-                    onDelete={() => setDeleteSubstanceId(substance.id)}
-                  />
-                ))}
-              </div>
-            )}
-          </section>
-
-          {/* Certificates Section */}
-          {component.certificates && component.certificates.length > 0 && (
-            <section className="rounded-2xl border border-border/60 bg-card/40 p-6">
-              <h2 className="mb-4 text-lg font-semibold">Certificates</h2>
-              <div className="space-y-2">
-                {component.certificates.map((cert) => (
-                  <div
-                    key={cert.id}
-                    className="flex items-center gap-4 rounded-xl bg-secondary/40 p-3"
-                  >
-                    <FileCheck className="h-5 w-5 text-muted-foreground" />
-                    <div className="flex-1">
-                      <p className="font-medium">{cert.type}</p>
-                      <p className="text-sm text-muted-foreground">
-                        #{cert.number} · Expires {formatDate(cert.expiryDate)}
-                      </p>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
-        </div>
+          <TabsContent value="history" className="mt-0">
+            <AuditHistory entries={history} />
+          </TabsContent>
+        </Tabs>
       </main>
 
       {/* Substance Dialog */}
@@ -1611,30 +1802,33 @@ export function ComponentDetailPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <EditConflictDialog<CachedMaterial>
+        entityLabel="component"
+        conflict={conflict}
+        onResolve={handleResolveConflict}
+        onDiscard={handleDiscardConflict}
+      />
+
       {/* Delete Component Confirmation */}
-      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5 text-destructive" />
-              Delete Component
-            </AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to delete "{component.name}"? This will permanently remove the
-              component and all its substances. This action cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleDeleteComponent}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Delete Component
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <DeleteWithReferencesDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        entityLabel="Component"
+        entityName={component.name}
+        description="Its substances are deleted with it."
+        references={deleteReferences.map(({ product, items }) => ({
+          id: product.id,
+          name: product.name,
+          detail: `${items.length} BOM row${items.length === 1 ? '' : 's'}${
+            product.deletedAt ? ' · in the trash' : ''
+          }`,
+          href: product.deletedAt ? appPaths.trash() : appPaths.product(product.id),
+        }))}
+        referenceLabel="product"
+        cascadeDescription="Remove this component from their BOMs"
+        replacementOptions={materials.filter((m) => m.id !== componentId)}
+        onConfirm={handleDeleteComponent}
+      />
     </div>
   )
 }
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useMemo, useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
@@ -55,12 +55,15 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import {
-  getCachedMaterials,
-  getCachedProductById,
-  saveProductBomToCache,
-  createCachedMaterial,
+  type CachedProduct,
+  VersionConflictError,
 } from '@/infrastructure/cache/catalog-cache'
 import { cn } from '@/lib/utils'
+import { SyncStatusBadge } from '@/app/components/sync-status-badge'
+import { useCreateMaterial, useMaterials } from '@/app/hooks/use-materials'
+import { useProduct, useSaveProductBom } from '@/app/hooks/use-products'
+import { appPaths } from '@/app/router/paths'
+import { logger } from '@/lib/logger'
 
 // Quick component schema for inline creation
 const quickComponentSchema = z.object({
@@ -251,6 +254,23 @@ function BOMItemRow({
   )
 }
 
+function toBomItems(product: CachedProduct, materials: Material[]): BOMItem[] {
+  const materialMap = new Map(materials.map((material) => [material.id, material]))
+  return (product.bom?.items || []).map((item) => ({
+    id: item.id,
+    material:
+      materialMap.get(item.materialId) || {
+        id: item.materialId,
+        name: item.materialName,
+        unitOfMeasurement: item.unitOfMeasurement,
+        unitCost: item.unitCost,
+        unitCostCurrency: item.unitCostCurrency,
+      },
+    quantity: item.quantity,
+    percentage: item.percentage,
+  }))
+}
+
 // Inline component creation panel
 function InlineComponentCreation({
   isOpen,
@@ -263,6 +283,7 @@ function InlineComponentCreation({
   onSuccess: (material: Material) => void
   onNavigateToSubstances: (componentId: string) => void
 }) {
+  const createMaterial = useCreateMaterial()
   const form = useForm<QuickComponentFormData>({
     resolver: zodResolver(quickComponentSchema),
     defaultValues: {
@@ -277,7 +298,7 @@ function InlineComponentCreation({
   const handleSubmit = useCallback(
     async (data: QuickComponentFormData) => {
       try {
-        const created = createCachedMaterial({
+        const created = await createMaterial.mutateAsync({
           ...data,
           weight: 0,
           length: undefined,
@@ -308,11 +329,11 @@ function InlineComponentCreation({
           },
         })
       } catch (error) {
-        console.error('Failed to create component:', error)
+        logger.error('Failed to create component', error)
         toast.error('Unable to create component. Please try again.')
       }
     },
-    [form, onClose, onSuccess, onNavigateToSubstances]
+    [createMaterial, form, onClose, onSuccess, onNavigateToSubstances]
   )
 
   const isSubmitting = form.formState.isSubmitting
@@ -513,60 +534,36 @@ export function ManageBOMPage() {
   const { productId } = useParams()
 
   const [bomItems, setBomItems] = useState<BOMItem[]>([])
-  const [availableMaterials, setAvailableMaterials] = useState<Material[]>([])
-  const [productName, setProductName] = useState('Product')
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isInlineCreateOpen, setIsInlineCreateOpen] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [isSaving, setIsSaving] = useState(false)
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
 
-  const loadAvailableMaterials = useCallback(() => {
-    const materials = getCachedMaterials().map((material) => ({
-      id: material.id,
-      name: material.name,
-      unitOfMeasurement: material.unitOfMeasurement,
-      unitCost: material.unitCost,
-      unitCostCurrency: material.unitCostCurrency,
-    }))
-    setAvailableMaterials(materials)
-    return materials
-  }, [])
-
-  useEffect(() => {
-    const materials = loadAvailableMaterials()
-
-    if (!productId) {
-      setBomItems([])
-      setProductName('Product')
-      return
-    }
-
-    const product = getCachedProductById(productId)
-    if (!product) {
-      setBomItems([])
-      setProductName('Product')
-      return
-    }
-
-    setProductName(product.name)
+  const { data: product } = useProduct(productId)
+  const { data: materialsData } = useMaterials()
+  const saveProductBom = useSaveProductBom()
+  const productName = product?.name ?? 'Product'
+
+  const availableMaterials = useMemo<Material[]>(
+    () =>
+      (materialsData ?? []).map((material) => ({
+        id: material.id,
+        name: material.name,
+        unitOfMeasurement: material.unitOfMeasurement,
+        unitCost: material.unitCost,
+        unitCostCurrency: material.unitCostCurrency,
+      })),
+    [materialsData]
+  )
 
-    const materialMap = new Map(materials.map((material) => [material.id, material]))
-    const existingBomItems: BOMItem[] = (product.bom?.items || []).map((item) => ({
-      id: item.id,
-      material:
-        materialMap.get(item.materialId) || {
-          id: item.materialId,
-          name: item.materialName,
-          unitOfMeasurement: item.unitOfMeasurement,
-          unitCost: item.unitCost,
-          unitCostCurrency: item.unitCostCurrency,
-        },
-      quantity: item.quantity,
-      percentage: item.percentage,
-    }))
-    setBomItems(existingBomItems)
-  }, [loadAvailableMaterials, productId])
+  // Seed the editable BOM once per product; later refetches must not
+  // overwrite unsaved edits. The save is checked against this version.
+  const [editBase, setEditBase] = useState<CachedProduct | null>(null)
+  if (product && editBase?.id !== product.id) {
+    setEditBase(product)
+    setBomItems(toBomItems(product, availableMaterials))
+  }
 
   // Filter materials based on search
   const filteredMaterials = useMemo(() => {
@@ -605,14 +602,11 @@ export function ManageBOMPage() {
 
   // Handle inline component creation success
   const handleInlineCreateSuccess = useCallback((material: Material) => {
-    // Refresh available materials list
-    loadAvailableMaterials()
     // Add the newly created material to BOM
     handleAddMaterial(material)
-  }, [loadAvailableMaterials, handleAddMaterial])
+  }, [handleAddMaterial])
 
   const openMaterialPicker = () => {
-    loadAvailableMaterials()
     setIsDialogOpen(true)
   }
 
@@ -660,31 +654,46 @@ export function ManageBOMPage() {
       return
     }
 
+    const items = bomItems.map((item) => ({
+      id: item.id,
+      materialId: item.material.id,
+      materialName: item.material.name,
+      unitOfMeasurement: item.material.unitOfMeasurement,
+      unitCost: item.material.unitCost,
+      unitCostCurrency: item.material.unitCostCurrency,
+      quantity: item.quantity,
+      percentage: item.percentage,
+    }))
+    const save = (expectedVersion: number | undefined) =>
+      saveProductBom.mutateAsync({ productId, items, expectedVersion })
+
     setIsSaving(true)
     try {
-      const savedProduct = saveProductBomToCache(
-        productId,
-        bomItems.map((item) => ({
-          id: item.id,
-          materialId: item.material.id,
-          materialName: item.material.name,
-          unitOfMeasurement: item.material.unitOfMeasurement,
-          unitCost: item.material.unitCost,
-          unitCostCurrency: item.material.unitCostCurrency,
-          quantity: item.quantity,
-          percentage: item.percentage,
-        }))
-      )
+      let savedProduct: CachedProduct | null
+      try {
+        savedProduct = await save(editBase?.version)
+      } catch (error) {
+        if (!(error instanceof VersionConflictError)) throw error
+        const current = error.current as CachedProduct
+        if (current.bom?.updatedAt !== editBase?.bom?.updatedAt) {
+          toast.error(
+            'Someone else changed this BOM while you were editing. Reload to see their changes.'
+          )
+          return
+        }
+        // Someone else saved the product but left its BOM alone
+        savedProduct = await save(current.version)
+      }
 
       if (!savedProduct) {
-        toast.error('Unable to find product in local cache')
+        toast.error('Unable to find product')
         return
       }
 
       toast.success(`BOM saved for "${savedProduct.name}"`)
-      navigate('/products')
+      navigate(appPaths.product(savedProduct.id))
     } catch (error) {
-      console.error('Failed to save BOM:', error)
+      logger.error('Failed to save BOM', error)
       toast.error('Failed to save. Please try again.')
     } finally {
       setIsSaving(false)
@@ -717,7 +726,10 @@ export function ManageBOMPage() {
               </Button>
 
               <div>
-                <h1 className="text-xl">Bill of Materials</h1>
+                <div className="flex items-center gap-2">
+                  <h1 className="text-xl">Bill of Materials</h1>
+                  <SyncStatusBadge entityId={productId} />
+                </div>
                 <p className="text-sm text-muted-foreground">
                   Compose materials for {productName}
                 </p>
@@ -1010,7 +1022,7 @@ export function ManageBOMPage() {
         onClose={() => setIsInlineCreateOpen(false)}
         onSuccess={handleInlineCreateSuccess}
         onNavigateToSubstances={(componentId) =>
-          navigate(`/catalog/components/${componentId}?tab=substances`)
+          navigate(`${appPaths.component(componentId)}?tab=substances`)
         }
       />
     </div>
@@ -1,11 +1,10 @@
-import { useMemo } from 'react'
-import { useLocation, Link } from 'react-router-dom'
+import { Link } from 'react-router-dom'
 import { CheckCircle2, Layers, Package, Workflow } from 'lucide-react'
-import {
-  getCachedProducts,
-  getCachedMaterials,
-} from '@/infrastructure/cache/catalog-cache'
+import { CertificateExpiryWidget } from '@/app/components/certificate-expiry-widget'
 import { useWorkspace } from '@/app/contexts/workspace-context'
+import { useMaterials } from '@/app/hooks/use-materials'
+import { useProducts } from '@/app/hooks/use-products'
+import { appPaths } from '@/app/router/paths'
 import { cn } from '@/lib/utils'
 
 function ShellBackdrop() {
@@ -22,28 +21,18 @@ function ShellBackdrop() {
   )
 }
 
-function useVariantPrefix() {
-  const location = useLocation()
-  const match = location.pathname.match(/^\/(v[1-4])/)
-  return match ? match[1] : ''
-}
-
 export function DashboardPage() {
-  const variantPrefix = useVariantPrefix()
-  const basePath = variantPrefix ? `/${variantPrefix}` : ''
   const { activeWorkspace } = useWorkspace()
 
-  const products = useMemo(() => {
-    return getCachedProducts().filter(
-      (p) => !p.workspaceId || p.workspaceId === activeWorkspace.id
-    )
-  }, [activeWorkspace.id])
+  const { data: allProducts = [] } = useProducts()
+  const { data: allMaterials = [] } = useMaterials()
 
-  const materials = useMemo(() => {
-    return getCachedMaterials().filter(
-      (m) => !m.workspaceId || m.workspaceId === activeWorkspace.id
-    )
-  }, [activeWorkspace.id])
+  const products = allProducts.filter(
+    (p) => !p.workspaceId || p.workspaceId === activeWorkspace.id
+  )
+  const materials = allMaterials.filter(
+    (m) => !m.workspaceId || m.workspaceId === activeWorkspace.id
+  )
 
   const mappedBomCount = products.filter(
     (product) => (product.bom?.items.length || 0) > 0
@@ -53,19 +42,19 @@ export function DashboardPage() {
     {
       title: 'Create Product',
       description: 'Capture identity, category, and product media quickly.',
-      href: `${basePath}/catalog/products/builder`,
+      href: appPaths.productCreate(),
       icon: Package,
     },
     {
       title: 'Product Builder',
       description: 'Unified builder for complex product definitions.',
-      href: `${basePath}/catalog/products/builder`,
+      href: appPaths.productBuilder(),
       icon: Workflow,
     },
     {
       title: 'Create Component',
       description: 'Add costed materials and reusable certificates.',
-      href: `${basePath}/catalog/components/create`,
+      href: appPaths.componentCreate(),
       icon: Layers,
     },
   ]
@@ -114,6 +103,7 @@ export function DashboardPage() {
                 )
               })}
             </div>
+            <CertificateExpiryWidget />
           </div>
 
           <article className="animate-fade-up rounded-3xl border border-border/60 bg-secondary/20 p-6 backdrop-blur-xl">
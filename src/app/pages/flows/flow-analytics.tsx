@@ -0,0 +1,308 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ArrowLeft, BarChart3, Trash2 } from 'lucide-react'
+
+import { useFlowSessions } from '@/app/hooks/use-flow-analytics'
+import { FLOW_VARIANTS } from '@/app/pages/flows/flow-variants'
+import { appPaths } from '@/app/router/paths'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  clearFlowSessions,
+  summarizeFlowSessions,
+  type FlowEntity,
+  type FlowVariant,
+  type FlowVariantStats,
+} from '@/infrastructure/analytics/flow-analytics'
+import { cn } from '@/lib/utils'
+
+const VARIANTS: readonly FlowVariant[] = ['v1', 'v2', 'v3', 'v4']
+
+const ENTITY_LABELS: Record<FlowEntity, string> = {
+  product: 'Products',
+  component: 'Components',
+}
+
+function getVariantName(variant: FlowVariant) {
+  return FLOW_VARIANTS.find((entry) => entry.id === variant)?.name ?? variant
+}
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '—'
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 100)}%`
+}
+
+function formatStepId(stepId: string) {
+  const words = stepId.replace(/[-_]/g, ' ').replace(/([A-Z])/g, ' $1')
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase()
+}
+
+const METRICS: Array<{
+  label: string
+  value: (stats: FlowVariantStats) => string
+  /** Picks the best column to highlight; omitted for plain counts. */
+  best?: 'high' | 'low'
+  score?: (stats: FlowVariantStats) => number | null
+}> = [
+  { label: 'Sessions', value: (stats) => String(stats.sessions) },
+  {
+    label: 'Completed',
+    value: (stats) => String(stats.completed),
+  },
+  {
+    label: 'Abandoned',
+    value: (stats) => String(stats.abandoned),
+  },
+  {
+    label: 'Completion rate',
+    value: (stats) => formatPercent(stats.completionRate),
+    best: 'high',
+    score: (stats) => stats.completionRate,
+  },
+  {
+    label: 'Median time to complete',
+    value: (stats) => formatDuration(stats.medianTimeToCompleteMs),
+    best: 'low',
+    score: (stats) => stats.medianTimeToCompleteMs,
+  },
+  {
+    label: 'Average time to complete',
+    value: (stats) => formatDuration(stats.averageTimeToCompleteMs),
+    best: 'low',
+    score: (stats) => stats.averageTimeToCompleteMs,
+  },
+  {
+    label: 'Validation errors per session',
+    value: (stats) =>
+      stats.validationErrorsPerSession === null
+        ? '—'
+        : stats.validationErrorsPerSession.toFixed(1),
+    best: 'low',
+    score: (stats) => stats.validationErrorsPerSession,
+  },
+]
+
+function getBestVariant(
+  stats: FlowVariantStats[],
+  metric: (typeof METRICS)[number]
+) {
+  if (!metric.best || !metric.score) return null
+  const scored = stats
+    .map((entry) => ({ variant: entry.variant, score: metric.score!(entry) }))
+    .filter(
+      (entry): entry is { variant: FlowVariant; score: number } =>
+        entry.score !== null
+    )
+  if (scored.length < 2) return null
+  return scored.reduce((best, entry) =>
+    (
+      metric.best === 'high'
+        ? entry.score > best.score
+        : entry.score < best.score
+    )
+      ? entry
+      : best
+  ).variant
+}
+
+function StepFunnel({ stats }: { stats: FlowVariantStats }) {
+  return (
+    <div className="surface-panel rounded-3xl p-5">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">
+          {getVariantName(stats.variant)}
+        </h2>
+        <Badge variant="secondary">{stats.variant}</Badge>
+      </div>
+
+      {stats.steps.length === 0 ? (
+        <p className="mt-4 text-sm text-muted-foreground">No sessions yet</p>
+      ) : (
+        <ul className="mt-4 space-y-3">
+          {stats.steps.map((step) => (
+            <li key={step.stepId} className="space-y-1 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{formatStepId(step.stepId)}</span>
+                <span className="text-xs text-muted-foreground">
+                  {step.reached} reached · {step.droppedOff} left here
+                  {step.validationErrors > 0 &&
+                    ` · ${step.validationErrors} error${step.validationErrors === 1 ? '' : 's'}`}
+                </span>
+              </div>
+              <div className="h-2 overflow-hidden rounded-full bg-secondary">
+                <div
+                  className="h-full rounded-full bg-accent"
+                  style={{
+                    width: `${(step.reached / Math.max(stats.sessions, 1)) * 100}%`,
+                  }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {stats.topInvalidFields.length > 0 && (
+        <p className="mt-4 text-xs text-muted-foreground">
+          Most failed fields:{' '}
+          {stats.topInvalidFields
+            .map(({ field, count }) => `${field} (${count})`)
+            .join(', ')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Compares the creation flow variants using the sessions recorded in this
+ * browser; see useFlowAnalytics().
+ */
+export function FlowAnalyticsPage() {
+  const sessions = useFlowSessions()
+  const [entity, setEntity] = useState<FlowEntity>('product')
+  const stats = useMemo(
+    () => summarizeFlowSessions(sessions, entity, VARIANTS),
+    [sessions, entity]
+  )
+
+  return (
+    <div className="relative min-h-screen pb-16">
+      <div
+        aria-hidden="true"
+        className="pointer-events-none fixed inset-0 -z-10 overflow-hidden"
+      >
+        <div className="absolute -left-36 top-[-12rem] h-[30rem] w-[30rem] rounded-full bg-[hsl(16_96%_58%/.14)] blur-3xl" />
+        <div className="absolute -right-40 top-[18%] h-[28rem] w-[28rem] rounded-full bg-[hsl(222_88%_54%/.12)] blur-3xl" />
+        <div className="page-grain absolute inset-0 opacity-[0.3]" />
+      </div>
+
+      <main className="mx-auto max-w-6xl space-y-8 px-4 py-12 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <Link
+              to={appPaths.flows()}
+              className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Flow variants
+            </Link>
+            <h1 className="mt-3 flex items-center gap-3 text-3xl sm:text-4xl">
+              <BarChart3 className="h-8 w-8 text-accent" />
+              Flow Analytics
+            </h1>
+            <p className="mt-2 text-muted-foreground">
+              Recorded locally in this browser from {sessions.length} session
+              {sessions.length === 1 ? '' : 's'}.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            {(Object.keys(ENTITY_LABELS) as FlowEntity[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={entity === option ? 'default' : 'outline'}
+                onClick={() => setEntity(option)}
+              >
+                {ENTITY_LABELS[option]}
+              </Button>
+            ))}
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  disabled={sessions.length === 0}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Reset
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset flow analytics?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All recorded sessions for every variant are deleted from
+                    this browser.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={clearFlowSessions}>
+                    Reset
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <div className="surface-panel overflow-x-auto rounded-3xl">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border/60 text-left">
+                <th className="px-4 py-3 font-semibold text-muted-foreground">
+                  Metric
+                </th>
+                {stats.map((entry) => (
+                  <th key={entry.variant} className="px-4 py-3 font-semibold">
+                    {getVariantName(entry.variant)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {METRICS.map((metric) => {
+                const best = getBestVariant(stats, metric)
+                return (
+                  <tr key={metric.label}>
+                    <td className="px-4 py-3 text-muted-foreground">
+                      {metric.label}
+                    </td>
+                    {stats.map((entry) => (
+                      <td
+                        key={entry.variant}
+                        className={cn(
+                          'px-4 py-3 tabular-nums',
+                          best === entry.variant &&
+                            'font-semibold text-emerald-600'
+                        )}
+                      >
+                        {metric.value(entry)}
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {stats.map((entry) => (
+            <StepFunnel key={entry.variant} stats={entry} />
+          ))}
+        </div>
+      </main>
+    </div>
+  )
+}
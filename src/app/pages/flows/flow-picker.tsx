@@ -1,50 +1,47 @@
-import { Link } from 'react-router-dom'
-import {
-  Sparkles,
-  ListChecks,
-  MessageCircle,
-  LayoutTemplate,
-  ArrowRight,
-  Zap,
-} from 'lucide-react'
+import { Link, useNavigate } from 'react-router-dom'
+import { ArrowRight, BarChart3, Sparkles } from 'lucide-react'
+import { toast } from 'sonner'
+import { useWorkspace } from '@/app/contexts/workspace-context'
+import { useFeatureFlags } from '@/app/hooks/use-feature-flags'
+import { appPaths } from '@/app/router/paths'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { FlowVariant } from '@/infrastructure/analytics/flow-analytics'
+import type { FlagScope } from '@/infrastructure/flags/feature-flags'
+import { cn } from '@/lib/utils'
 
-const FLOW_VARIANTS = [
-  {
-    id: 'v1',
-    name: 'Mode Picker Flow',
-    description: 'Choose between Quick Add (essentials only) or Full Details (complete wizard). Best for users who know what level of detail they need.',
-    icon: ListChecks,
-    badge: 'Current',
-    features: ['Quick Add option', 'Full wizard option', 'Post-creation prompts'],
-  },
-  {
-    id: 'v2',
-    name: 'Single Page Flow',
-    description: 'All fields on one scrollable page with smart sections. No steps, no navigation - just fill what you need and submit.',
-    icon: Zap,
-    badge: 'Fastest',
-    features: ['No wizard steps', 'Collapsible sections', 'Inline validation'],
-  },
-  {
-    id: 'v3',
-    name: 'Conversational Flow',
-    description: 'One question at a time, typeform-style. Guided experience with context and tips at each step. Best for new users.',
-    icon: MessageCircle,
-    badge: 'Guided',
-    features: ['One field at a time', 'Contextual help', 'Progress indicator'],
-  },
-  {
-    id: 'v4',
-    name: 'Template Flow',
-    description: 'Start from pre-built templates for common product types. Customize only what differs. Best for repetitive entries.',
-    icon: LayoutTemplate,
-    badge: 'Smart',
-    features: ['Pre-filled templates', 'Clone & modify', 'Batch creation'],
-  },
-]
+import { FLOW_VARIANTS } from './flow-variants'
+
+const SOURCE_LABELS = {
+  default: 'Default',
+  'local-workspace': 'Workspace',
+  'local-user': 'Your choice',
+  remote: 'Set remotely',
+} as const
 
 export function FlowPickerPage() {
+  const navigate = useNavigate()
+  const { activeWorkspace } = useWorkspace()
+  const { flags, setFlag, getSource } = useFeatureFlags()
+  const source = getSource('creationFlow')
+  // A remote override would win over anything chosen here
+  const isPinned = source === 'remote'
+
+  const choose = (scope: FlagScope, variant: FlowVariant) => {
+    if (scope === 'workspace') {
+      // Let the workspace choice apply to this user too
+      setFlag('user', 'creationFlow', undefined)
+    }
+    setFlag(scope, 'creationFlow', variant)
+    const name = FLOW_VARIANTS.find((entry) => entry.id === variant)?.name
+    toast.success(
+      scope === 'workspace'
+        ? `${name} is now used in ${activeWorkspace.name}`
+        : `You are now using ${name}`
+    )
+    navigate(appPaths.dashboard())
+  }
+
   return (
     <div className="relative min-h-screen pb-16">
       <div
@@ -64,26 +61,37 @@ export function FlowPickerPage() {
           <h1 className="mt-6 text-3xl sm:text-4xl">UX Flow Variants</h1>
           <p className="mx-auto mt-4 max-w-2xl text-lg text-muted-foreground">
             Explore different approaches to product and component creation.
-            Each variant offers a unique user experience while maintaining the same design.
+            The chosen variant opens from every create link in the app, for you
+            or for everyone in the workspace.
           </p>
         </div>
 
         <div className="mt-12 grid gap-6 md:grid-cols-2">
           {FLOW_VARIANTS.map((variant) => {
             const Icon = variant.icon
+            const isActive = flags.creationFlow === variant.id
             return (
-              <Link
+              <div
                 key={variant.id}
-                to={`/${variant.id}`}
-                className="group surface-panel flex flex-col rounded-3xl p-6 transition-all hover:shadow-lg"
+                className={cn(
+                  'group surface-panel flex flex-col rounded-3xl p-6 transition-all hover:shadow-lg',
+                  isActive && 'ring-2 ring-accent'
+                )}
               >
                 <div className="flex items-start justify-between">
                   <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-accent/10">
                     <Icon className="h-6 w-6 text-accent" />
                   </div>
-                  <Badge variant="secondary" className="font-semibold">
-                    {variant.badge}
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {isActive && (
+                      <Badge className="font-semibold">
+                        {SOURCE_LABELS[source]}
+                      </Badge>
+                    )}
+                    <Badge variant="secondary" className="font-semibold">
+                      {variant.badge}
+                    </Badge>
+                  </div>
                 </div>
 
                 <h2 className="mt-4 text-xl font-semibold">{variant.name}</h2>
@@ -100,15 +108,59 @@ export function FlowPickerPage() {
                   ))}
                 </ul>
 
-                <div className="mt-6 flex items-center gap-2 text-sm font-semibold text-accent">
-                  Try this flow
-                  <ArrowRight className="h-4 w-4 transition-transform group-hover:translate-x-1" />
+                <div className="mt-6 flex flex-wrap items-center gap-2">
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    disabled={isPinned}
+                    onClick={() => choose('user', variant.id)}
+                  >
+                    Try this flow
+                    <ArrowRight className="h-4 w-4 transition-transform group-hover:translate-x-1" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isPinned}
+                    onClick={() => choose('workspace', variant.id)}
+                  >
+                    Use for {activeWorkspace.name}
+                  </Button>
                 </div>
-              </Link>
+              </div>
             )
           })}
         </div>
 
+        {isPinned ? (
+          <p className="mt-6 text-center text-sm text-muted-foreground">
+            The creation flow is set remotely for this workspace and can&apos;t
+            be changed here.
+          </p>
+        ) : (
+          source === 'local-user' && (
+            <div className="mt-6 text-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setFlag('user', 'creationFlow', undefined)}
+              >
+                Reset my choice to the workspace flow
+              </Button>
+            </div>
+          )
+        )}
+
+        <div className="mt-8 text-center">
+          <Link
+            to={appPaths.flowAnalytics()}
+            className="inline-flex items-center gap-2 text-sm font-semibold text-accent hover:underline"
+          >
+            <BarChart3 className="h-4 w-4" />
+            Compare how each flow performs
+          </Link>
+        </div>
+
         <div className="mt-12 rounded-xl border border-border/60 bg-card/50 p-4 text-center">
           <p className="text-sm text-muted-foreground">
             <span className="font-medium text-foreground">Note:</span> All variants use the same
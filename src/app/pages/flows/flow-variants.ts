@@ -0,0 +1,53 @@
+import { LayoutTemplate, ListChecks, MessageCircle, Zap } from 'lucide-react'
+
+import type { FlowVariant } from '@/infrastructure/analytics/flow-analytics'
+
+export const FLOW_VARIANTS: Array<{
+  id: FlowVariant
+  name: string
+  description: string
+  icon: typeof Zap
+  badge: string
+  features: string[]
+}> = [
+  {
+    id: 'v1',
+    name: 'Mode Picker Flow',
+    description:
+      'Choose between Quick Add (essentials only) or Full Details (complete wizard). Best for users who know what level of detail they need.',
+    icon: ListChecks,
+    badge: 'Current',
+    features: [
+      'Quick Add option',
+      'Full wizard option',
+      'Post-creation prompts',
+    ],
+  },
+  {
+    id: 'v2',
+    name: 'Single Page Flow',
+    description:
+      'All fields on one scrollable page with smart sections. No steps, no navigation - just fill what you need and submit.',
+    icon: Zap,
+    badge: 'Fastest',
+    features: ['No wizard steps', 'Collapsible sections', 'Inline validation'],
+  },
+  {
+    id: 'v3',
+    name: 'Conversational Flow',
+    description:
+      'One question at a time, typeform-style. Guided experience with context and tips at each step. Best for new users.',
+    icon: MessageCircle,
+    badge: 'Guided',
+    features: ['One field at a time', 'Contextual help', 'Progress indicator'],
+  },
+  {
+    id: 'v4',
+    name: 'Template Flow',
+    description:
+      'Start from pre-built templates for common product types. Customize only what differs. Best for repetitive entries.',
+    icon: LayoutTemplate,
+    badge: 'Smart',
+    features: ['Pre-filled templates', 'Clone & modify', 'Batch creation'],
+  },
+]
@@ -16,7 +16,9 @@ import {
   Plus,
 } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
+import { SubstanceLookupInput } from '@/components/shared/substance-lookup-input'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Spinner } from '@/components/ui/spinner'
@@ -41,8 +43,11 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
-import { createCachedMaterial } from '@/infrastructure/cache/catalog-cache'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { isValidCasNumber } from '@/infrastructure/substances/cas-number'
+import type { SubstanceEntry } from '@/infrastructure/substances/substance-dictionary'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 const substanceSchema = z.object({
   name: z.string().min(1, 'Substance name is required'),
@@ -124,6 +129,7 @@ function Section({ title, icon: Icon, children, defaultOpen = false, badge }: Se
 }
 
 export function CreateComponentV2Page() {
+  const { mutateAsync: createMaterial } = useCreateMaterial()
   const navigate = useNavigate()
   const [substances, setSubstances] = useState<SubstanceData[]>([])
 
@@ -152,14 +158,28 @@ export function CreateComponentV2Page() {
     setSubstances(updated)
   }
 
+  const selectSubstance = (index: number, entry: SubstanceEntry) => {
+    setSubstances((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, name: entry.name, casNumber: entry.casNumber } : s))
+    )
+  }
+
   const removeSubstance = (index: number) => {
     setSubstances(substances.filter((_, i) => i !== index))
   }
 
   const handleSubmit = useCallback(
     async (data: ComponentFormData) => {
+      const invalidSubstance = substances.find(
+        (s) => s.name.trim() && s.casNumber && !isValidCasNumber(s.casNumber)
+      )
+      if (invalidSubstance) {
+        toast.error(`CAS number ${invalidSubstance.casNumber} is invalid`)
+        return
+      }
+
       try {
-        const created = createCachedMaterial({
+        const created = await createMaterial({
           name: data.name,
           description: data.description || '',
           unitOfMeasurement: data.unitOfMeasurement,
@@ -186,13 +206,13 @@ export function CreateComponentV2Page() {
         })
 
         toast.success(`"${created.name}" created successfully`)
-        navigate('/v2/catalog')
+        navigate(appPaths.catalog())
       } catch (error) {
-        console.error('Failed to create component:', error)
+        logger.error('Failed to create component', error)
         toast.error('Unable to create component. Please try again.')
       }
     },
-    [navigate, substances]
+    [createMaterial, navigate, substances]
   )
 
   const isSubmitting = form.formState.isSubmitting
@@ -215,7 +235,7 @@ export function CreateComponentV2Page() {
               type="button"
               variant="ghost"
               size="icon"
-              onClick={() => navigate('/v2')}
+              onClick={() => navigate(appPaths.dashboard())}
               className="h-9 w-9"
             >
               <ArrowLeft className="h-4 w-4" />
@@ -439,9 +459,12 @@ export function CreateComponentV2Page() {
                               <label className="mb-1 block text-xs font-medium text-muted-foreground">
                                 Substance Name *
                               </label>
-                              <Input
+                              <SubstanceLookupInput
+                                lookup="name"
                                 value={substance.name}
-                                onChange={(e) => updateSubstance(index, 'name', e.target.value)}
+                                counterpartValue={substance.casNumber}
+                                onValueChange={(value) => updateSubstance(index, 'name', value)}
+                                onSubstanceSelect={(entry) => selectSubstance(index, entry)}
                                 placeholder="e.g., Cotton"
                               />
                             </div>
@@ -449,9 +472,12 @@ export function CreateComponentV2Page() {
                               <label className="mb-1 block text-xs font-medium text-muted-foreground">
                                 CAS Number
                               </label>
-                              <Input
+                              <SubstanceLookupInput
+                                lookup="casNumber"
                                 value={substance.casNumber || ''}
-                                onChange={(e) => updateSubstance(index, 'casNumber', e.target.value)}
+                                counterpartValue={substance.name}
+                                onValueChange={(value) => updateSubstance(index, 'casNumber', value)}
+                                onSubstanceSelect={(entry) => selectSubstance(index, entry)}
                                 placeholder="e.g., 9004-34-6"
                               />
                             </div>
@@ -509,7 +535,7 @@ export function CreateComponentV2Page() {
             <Button
               type="button"
               variant="outline"
-              onClick={() => navigate('/v2')}
+              onClick={() => navigate(appPaths.dashboard())}
               disabled={isSubmitting}
             >
               Cancel
@@ -1,6 +1,6 @@
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { useForm } from 'react-hook-form'
+import { useForm, type FieldErrors } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
 import { toast } from 'sonner'
@@ -15,6 +15,7 @@ import {
   Tag,
 } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
@@ -40,8 +41,10 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from '@/components/ui/collapsible'
-import { createCachedProduct } from '@/infrastructure/cache/catalog-cache'
+import { useCreateProduct } from '@/app/hooks/use-products'
+import { useFlowAnalytics } from '@/app/hooks/use-flow-analytics'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 const productSchema = z.object({
   // Required
@@ -109,7 +112,14 @@ function Section({ title, icon: Icon, children, defaultOpen = false }: SectionPr
 }
 
 export function CreateProductV2Page() {
+  const { mutateAsync: createProduct } = useCreateProduct()
   const navigate = useNavigate()
+  const analytics = useFlowAnalytics('v2', 'product')
+
+  // The whole form is one step
+  useEffect(() => {
+    analytics.trackStep('form')
+  }, [analytics])
 
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -136,7 +146,7 @@ export function CreateProductV2Page() {
   const handleSubmit = useCallback(
     async (data: ProductFormData) => {
       try {
-        const created = createCachedProduct({
+        const created = await createProduct({
           name: data.name,
           upc: data.upc,
           categoryType: data.categoryType,
@@ -154,19 +164,26 @@ export function CreateProductV2Page() {
           photos: [],
         })
 
+        analytics.trackCompleted()
         toast.success(`"${created.name}" created successfully`, {
           action: {
             label: 'Add BOM',
-            onClick: () => navigate(`/v2/catalog/products/${created.id}/bom`),
+            onClick: () => navigate(appPaths.productBom(created.id)),
           },
         })
-        navigate('/v2/catalog')
+        navigate(appPaths.catalog())
       } catch (error) {
-        console.error('Failed to create product:', error)
+        logger.error('Failed to create product', error)
         toast.error('Unable to create product. Please try again.')
       }
     },
-    [navigate]
+    [analytics, createProduct, navigate]
+  )
+
+  const handleInvalid = useCallback(
+    (errors: FieldErrors<ProductFormData>) =>
+      analytics.trackValidationErrors('form', Object.keys(errors)),
+    [analytics]
   )
 
   const isSubmitting = form.formState.isSubmitting
@@ -189,7 +206,7 @@ export function CreateProductV2Page() {
               type="button"
               variant="ghost"
               size="icon"
-              onClick={() => navigate('/v2')}
+              onClick={() => navigate(appPaths.dashboard())}
               className="h-9 w-9"
             >
               <ArrowLeft className="h-4 w-4" />
@@ -204,7 +221,7 @@ export function CreateProductV2Page() {
 
       <main className="mx-auto max-w-3xl px-4 py-8 sm:px-6">
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)} className="space-y-6">
             {/* Required Fields - Always Visible */}
             <div className="surface-panel rounded-3xl p-6">
               <div className="mb-5 flex items-center gap-3">
@@ -485,7 +502,7 @@ export function CreateProductV2Page() {
             <Button
               type="button"
               variant="outline"
-              onClick={() => navigate('/v2')}
+              onClick={() => navigate(appPaths.dashboard())}
               disabled={isSubmitting}
             >
               Cancel
@@ -493,7 +510,7 @@ export function CreateProductV2Page() {
             <Button
               type="button"
               variant="accent"
-              onClick={form.handleSubmit(handleSubmit)}
+              onClick={form.handleSubmit(handleSubmit, handleInvalid)}
               disabled={isSubmitting}
               className="gap-2"
             >
@@ -12,7 +12,9 @@ import {
   FlaskConical,
 } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
+import { SubstanceLookupInput } from '@/components/shared/substance-lookup-input'
 import { Input } from '@/components/ui/input'
 import {
   Select,
@@ -22,8 +24,11 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Progress } from '@/components/ui/progress'
-import { createCachedMaterial } from '@/infrastructure/cache/catalog-cache'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { isValidCasNumber } from '@/infrastructure/substances/cas-number'
+import type { SubstanceEntry } from '@/infrastructure/substances/substance-dictionary'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 const UNITS = [
   { value: 'kg', label: 'Kilogram (kg)' },
@@ -107,6 +112,7 @@ interface FormData {
 }
 
 export function CreateComponentV3Page() {
+  const { mutateAsync: createMaterial } = useCreateMaterial()
   const navigate = useNavigate()
   const [currentStep, setCurrentStep] = useState(0)
   const [formData, setFormData] = useState<FormData>({
@@ -161,14 +167,28 @@ export function CreateComponentV3Page() {
     setSubstances(updated)
   }
 
+  const selectSubstance = (index: number, entry: SubstanceEntry) => {
+    setSubstances((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, name: entry.name, casNumber: entry.casNumber } : s))
+    )
+  }
+
   const removeSubstance = (index: number) => {
     setSubstances(substances.filter((_, i) => i !== index))
   }
 
   const handleSubmit = async () => {
+    const invalidSubstance = substances.find(
+      (s) => s.name.trim() && s.casNumber && !isValidCasNumber(s.casNumber)
+    )
+    if (invalidSubstance) {
+      toast.error(`CAS number ${invalidSubstance.casNumber} is invalid`)
+      return
+    }
+
     setIsSubmitting(true)
     try {
-      const created = createCachedMaterial({
+      const created = await createMaterial({
         name: formData.name,
         description: '',
         unitOfMeasurement: formData.unitOfMeasurement,
@@ -192,9 +212,9 @@ export function CreateComponentV3Page() {
       })
 
       toast.success(`"${created.name}" created!`)
-      navigate('/v3/catalog')
+      navigate(appPaths.catalog())
     } catch (error) {
-      console.error('Failed to create component:', error)
+      logger.error('Failed to create component', error)
       toast.error('Unable to create component. Please try again.')
     } finally {
       setIsSubmitting(false)
@@ -292,9 +312,12 @@ export function CreateComponentV3Page() {
                       <label className="mb-1 block text-xs font-medium text-muted-foreground">
                         Name *
                       </label>
-                      <Input
+                      <SubstanceLookupInput
+                        lookup="name"
                         value={substance.name}
-                        onChange={(e) => updateSubstance(index, 'name', e.target.value)}
+                        counterpartValue={substance.casNumber}
+                        onValueChange={(value) => updateSubstance(index, 'name', value)}
+                        onSubstanceSelect={(entry) => selectSubstance(index, entry)}
                         placeholder="e.g., Cotton"
                       />
                     </div>
@@ -302,9 +325,12 @@ export function CreateComponentV3Page() {
                       <label className="mb-1 block text-xs font-medium text-muted-foreground">
                         CAS Number
                       </label>
-                      <Input
+                      <SubstanceLookupInput
+                        lookup="casNumber"
                         value={substance.casNumber || ''}
-                        onChange={(e) => updateSubstance(index, 'casNumber', e.target.value)}
+                        counterpartValue={substance.name}
+                        onValueChange={(value) => updateSubstance(index, 'casNumber', value)}
+                        onSubstanceSelect={(entry) => selectSubstance(index, entry)}
                         placeholder="e.g., 9004-34-6"
                       />
                     </div>
@@ -371,7 +397,7 @@ export function CreateComponentV3Page() {
             type="button"
             variant="ghost"
             size="icon"
-            onClick={() => navigate('/v3')}
+            onClick={() => navigate(appPaths.dashboard())}
             className="h-9 w-9"
           >
             <ArrowLeft className="h-4 w-4" />
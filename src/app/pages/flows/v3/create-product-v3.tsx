@@ -1,4 +1,4 @@
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
 import {
@@ -9,6 +9,7 @@ import {
   ChevronUp,
 } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -19,8 +20,10 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Progress } from '@/components/ui/progress'
-import { createCachedProduct } from '@/infrastructure/cache/catalog-cache'
+import { useCreateProduct } from '@/app/hooks/use-products'
+import { useFlowAnalytics } from '@/app/hooks/use-flow-analytics'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 const CATEGORY_TYPES = ['Apparel', 'Footwear', 'Accessories', 'Custom']
 const SUB_CATEGORIES: Record<string, string[]> = {
@@ -84,6 +87,7 @@ interface FormData {
 }
 
 export function CreateProductV3Page() {
+  const { mutateAsync: createProduct } = useCreateProduct()
   const navigate = useNavigate()
   const [currentStep, setCurrentStep] = useState(0)
   const [formData, setFormData] = useState<FormData>({
@@ -93,6 +97,7 @@ export function CreateProductV3Page() {
     subCategory: '',
   })
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const analytics = useFlowAnalytics('v3', 'product')
 
   const step = STEPS[currentStep]
   const progress = ((currentStep + 1) / STEPS.length) * 100
@@ -101,6 +106,10 @@ export function CreateProductV3Page() {
   const currentValue = formData[step.field]
   const isCurrentValid = currentValue.trim().length > 0
 
+  useEffect(() => {
+    analytics.trackStep(step.id)
+  }, [analytics, step.id])
+
   const getOptions = useMemo(() => {
     if (step.dependsOn === 'categoryType') {
       return SUB_CATEGORIES[formData.categoryType] || []
@@ -126,18 +135,22 @@ export function CreateProductV3Page() {
 
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent) => {
-      if (e.key === 'Enter' && isCurrentValid) {
-        e.preventDefault()
+      if (e.key !== 'Enter') return
+      e.preventDefault()
+      if (isCurrentValid) {
         handleNext()
+      } else {
+        // The Continue button is disabled, so Enter is the only way to try
+        analytics.trackValidationErrors(step.id, [step.field])
       }
     },
-    [isCurrentValid, handleNext]
+    [analytics, isCurrentValid, handleNext, step]
   )
 
   const handleSubmit = async () => {
     setIsSubmitting(true)
     try {
-      const created = createCachedProduct({
+      const created = await createProduct({
         name: formData.name,
         upc: formData.upc,
         categoryType: formData.categoryType,
@@ -155,15 +168,16 @@ export function CreateProductV3Page() {
         photos: [],
       })
 
+      analytics.trackCompleted()
       toast.success(`"${created.name}" created!`, {
         action: {
           label: 'Add BOM',
-          onClick: () => navigate(`/v3/catalog/products/${created.id}/bom`),
+          onClick: () => navigate(appPaths.productBom(created.id)),
         },
       })
-      navigate('/v3/catalog')
+      navigate(appPaths.catalog())
     } catch (error) {
-      console.error('Failed to create product:', error)
+      logger.error('Failed to create product', error)
       toast.error('Unable to create product. Please try again.')
     } finally {
       setIsSubmitting(false)
@@ -188,7 +202,7 @@ export function CreateProductV3Page() {
             type="button"
             variant="ghost"
             size="icon"
-            onClick={() => navigate('/v3')}
+            onClick={() => navigate(appPaths.dashboard())}
             className="h-9 w-9"
           >
             <ArrowLeft className="h-4 w-4" />
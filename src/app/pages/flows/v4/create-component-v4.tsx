@@ -13,7 +13,9 @@ import {
   Trash2,
 } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
+import { SubstanceLookupInput } from '@/components/shared/substance-lookup-input'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Spinner } from '@/components/ui/spinner'
@@ -33,8 +35,11 @@ import {
   FormMessage,
   FormDescription,
 } from '@/components/ui/form'
-import { createCachedMaterial } from '@/infrastructure/cache/catalog-cache'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { isValidCasNumber } from '@/infrastructure/substances/cas-number'
+import type { SubstanceEntry } from '@/infrastructure/substances/substance-dictionary'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 const componentSchema = z.object({
   name: z.string().min(1, 'Component name is required'),
@@ -183,6 +188,7 @@ const CURRENCIES = [
 ]
 
 export function CreateComponentV4Page() {
+  const { mutateAsync: createMaterial } = useCreateMaterial()
   const navigate = useNavigate()
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null)
   const [substances, setSubstances] = useState<SubstanceData[]>([])
@@ -224,7 +230,7 @@ export function CreateComponentV4Page() {
       setSubstances([])
       form.reset()
     } else {
-      navigate('/v4')
+      navigate(appPaths.dashboard())
     }
   }
 
@@ -238,14 +244,28 @@ export function CreateComponentV4Page() {
     setSubstances(updated)
   }
 
+  const selectSubstance = (index: number, entry: SubstanceEntry) => {
+    setSubstances((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, name: entry.name, casNumber: entry.casNumber } : s))
+    )
+  }
+
   const removeSubstance = (index: number) => {
     setSubstances(substances.filter((_, i) => i !== index))
   }
 
   const handleSubmit = useCallback(
     async (data: ComponentFormData) => {
+      const invalidSubstance = substances.find(
+        (s) => s.name.trim() && s.casNumber && !isValidCasNumber(s.casNumber)
+      )
+      if (invalidSubstance) {
+        toast.error(`CAS number ${invalidSubstance.casNumber} is invalid`)
+        return
+      }
+
       try {
-        const created = createCachedMaterial({
+        const created = await createMaterial({
           name: data.name,
           description: data.description || '',
           unitOfMeasurement: data.unitOfMeasurement,
@@ -269,13 +289,13 @@ export function CreateComponentV4Page() {
         })
 
         toast.success(`"${created.name}" created successfully`)
-        navigate('/v4/catalog')
+        navigate(appPaths.catalog())
       } catch (error) {
-        console.error('Failed to create component:', error)
+        logger.error('Failed to create component', error)
         toast.error('Unable to create component. Please try again.')
       }
     },
-    [navigate, substances]
+    [createMaterial, navigate, substances]
   )
 
   const isSubmitting = form.formState.isSubmitting
@@ -530,9 +550,12 @@ export function CreateComponentV4Page() {
                             <label className="mb-1 block text-xs font-medium text-muted-foreground">
                               Substance Name *
                             </label>
-                            <Input
+                            <SubstanceLookupInput
+                              lookup="name"
                               value={substance.name}
-                              onChange={(e) => updateSubstance(index, 'name', e.target.value)}
+                              counterpartValue={substance.casNumber}
+                              onValueChange={(value) => updateSubstance(index, 'name', value)}
+                              onSubstanceSelect={(entry) => selectSubstance(index, entry)}
                               placeholder="e.g., Cotton"
                             />
                           </div>
@@ -540,9 +563,12 @@ export function CreateComponentV4Page() {
                             <label className="mb-1 block text-xs font-medium text-muted-foreground">
                               CAS Number
                             </label>
-                            <Input
+                            <SubstanceLookupInput
+                              lookup="casNumber"
                               value={substance.casNumber || ''}
-                              onChange={(e) => updateSubstance(index, 'casNumber', e.target.value)}
+                              counterpartValue={substance.name}
+                              onValueChange={(value) => updateSubstance(index, 'casNumber', value)}
+                              onSubstanceSelect={(entry) => selectSubstance(index, entry)}
                               placeholder="e.g., 9004-34-6"
                             />
                           </div>
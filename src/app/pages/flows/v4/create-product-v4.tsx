@@ -1,4 +1,4 @@
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { toast } from 'sonner'
 import {
@@ -13,12 +13,15 @@ import {
   Edit3,
 } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Spinner } from '@/components/ui/spinner'
-import { createCachedProduct } from '@/infrastructure/cache/catalog-cache'
+import { useCreateProduct } from '@/app/hooks/use-products'
+import { useFlowAnalytics } from '@/app/hooks/use-flow-analytics'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 interface Template {
   id: string
@@ -90,12 +93,18 @@ const TEMPLATES: Template[] = [
 type Step = 'template' | 'customize'
 
 export function CreateProductV4Page() {
+  const { mutateAsync: createProduct } = useCreateProduct()
   const navigate = useNavigate()
   const [step, setStep] = useState<Step>('template')
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null)
   const [name, setName] = useState('')
   const [upc, setUpc] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const analytics = useFlowAnalytics('v4', 'product')
+
+  useEffect(() => {
+    analytics.trackStep(step)
+  }, [analytics, step])
 
   const handleSelectTemplate = (template: Template) => {
     setSelectedTemplate(template)
@@ -109,7 +118,7 @@ export function CreateProductV4Page() {
 
     setIsSubmitting(true)
     try {
-      const created = createCachedProduct({
+      const created = await createProduct({
         name: name.trim(),
         upc: upc.trim(),
         categoryType: selectedTemplate.categoryType,
@@ -127,24 +136,32 @@ export function CreateProductV4Page() {
         photos: [],
       })
 
+      analytics.trackCompleted()
       toast.success(`"${created.name}" created from template!`, {
         action: {
           label: 'Add BOM',
-          onClick: () => navigate(`/v4/catalog/products/${created.id}/bom`),
+          onClick: () => navigate(appPaths.productBom(created.id)),
         },
       })
-      navigate('/v4/catalog')
+      navigate(appPaths.catalog())
     } catch (error) {
-      console.error('Failed to create product:', error)
+      logger.error('Failed to create product', error)
       toast.error('Unable to create product. Please try again.')
     } finally {
       setIsSubmitting(false)
     }
-  }, [selectedTemplate, name, upc, navigate])
+  }, [analytics, createProduct, selectedTemplate, name, upc, navigate])
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && name.trim() && upc.trim()) {
+    if (e.key !== 'Enter') return
+    if (name.trim() && upc.trim()) {
       handleSubmit()
+    } else {
+      // The Create button is disabled, so Enter is the only way to try
+      analytics.trackValidationErrors('customize', [
+        ...(name.trim() ? [] : ['name']),
+        ...(upc.trim() ? [] : ['upc']),
+      ])
     }
   }
 
@@ -166,7 +183,7 @@ export function CreateProductV4Page() {
               type="button"
               variant="ghost"
               size="icon"
-              onClick={() => (step === 'customize' ? setStep('template') : navigate('/v4'))}
+              onClick={() => (step === 'customize' ? setStep('template') : navigate(appPaths.dashboard()))}
               className="h-9 w-9"
             >
               <ArrowLeft className="h-4 w-4" />
@@ -240,7 +257,7 @@ export function CreateProductV4Page() {
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => navigate('/v4/catalog/products/create/custom')}
+                onClick={() => navigate(appPaths.productCreateCustom())}
                 className="gap-2"
               >
                 <Edit3 className="h-4 w-4" />
@@ -24,6 +24,7 @@ import { QuickAddComponent } from '@/components/shared/quick-add-component'
 import { ImageUploader } from '@/components/shared/image-uploader'
 import type { ImageFile } from '@/components/shared/image-uploader'
 import { FileUploader } from '@/components/shared/file-uploader'
+import { SubstanceLookupInput } from '@/components/shared/substance-lookup-input'
 import type { UploadedFile } from '@/components/shared/file-uploader'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
@@ -56,15 +57,19 @@ import {
 import {
   MATERIAL_CREATION_DRAFT_KEY,
   clearCachedDraft,
-  createCachedMaterial,
   getCachedDraft,
   setCachedDraft,
 } from '@/infrastructure/cache/catalog-cache'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { useFlowAnalytics } from '@/app/hooks/use-flow-analytics'
+import { appPaths } from '@/app/router/paths'
+import { isValidCasNumber } from '@/infrastructure/substances/cas-number'
 import type {
   CachedMaterialSubstanceInputType,
   CachedMaterialSubstanceSourceType,
 } from '@/infrastructure/cache/catalog-cache'
 import { cn } from '@/lib/utils'
+import { logger } from '@/lib/logger'
 
 // Schema
 const certificateSchema = z.object({
@@ -85,7 +90,10 @@ const subCompositionSchema = z.object({
     required_error: 'Subcomposition type is required',
   }),
   substanceName: z.string().min(1, 'Subcomposition name is required'),
-  substanceCode: z.string().min(1, 'Subcomposition CAS number is required'),
+  substanceCode: z
+    .string()
+    .min(1, 'Subcomposition CAS number is required')
+    .refine(isValidCasNumber, 'Subcomposition CAS number is invalid'),
   percentage: z.coerce
     .number()
     .min(0.000001, 'Subcomposition percentage must be greater than 0')
@@ -102,7 +110,10 @@ const substanceSchema = z
       required_error: 'Substance type is required',
     }),
     substanceName: z.string().min(1, 'Substance name is required'),
-    substanceCode: z.string().min(1, 'CAS number is required'),
+    substanceCode: z
+      .string()
+      .min(1, 'CAS number is required')
+      .refine(isValidCasNumber, 'CAS number is invalid'),
     percentage: z.coerce
       .number()
       .min(0.000001, 'Percentage must be greater than 0')
@@ -619,6 +630,11 @@ function MaterialSubstancesStep() {
       return
     }
 
+    if (!isValidCasNumber(substanceCode)) {
+      toast.error(`Child CAS number ${substanceCode} is invalid`)
+      return
+    }
+
     if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
       toast.error('Child subcomposition percentage must be between 0 and 100')
       return
@@ -676,6 +692,11 @@ function MaterialSubstancesStep() {
       return
     }
 
+    if (!isValidCasNumber(substanceCode)) {
+      toast.error(`CAS number ${substanceCode} is invalid`)
+      return
+    }
+
     if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
       toast.error('Substance percentage must be between 0 and 100')
       return
@@ -950,12 +971,18 @@ function MaterialSubstancesStep() {
 
             <div className="space-y-2 sm:col-span-2">
               <Label>Substance Name *</Label>
-              <Input
+              <SubstanceLookupInput
+                lookup="name"
                 value={newSubstance.substanceName || ''}
-                onChange={(e) =>
+                counterpartValue={newSubstance.substanceCode}
+                onValueChange={(substanceName) =>
+                  setNewSubstance((prev) => ({ ...prev, substanceName }))
+                }
+                onSubstanceSelect={(entry) =>
                   setNewSubstance((prev) => ({
                     ...prev,
-                    substanceName: e.target.value,
+                    substanceName: entry.name,
+                    substanceCode: entry.casNumber,
                   }))
                 }
                 placeholder={
@@ -968,12 +995,18 @@ function MaterialSubstancesStep() {
 
             <div className="space-y-2">
               <Label>CAS Number *</Label>
-              <Input
+              <SubstanceLookupInput
+                lookup="casNumber"
                 value={newSubstance.substanceCode || ''}
-                onChange={(e) =>
+                counterpartValue={newSubstance.substanceName}
+                onValueChange={(substanceCode) =>
+                  setNewSubstance((prev) => ({ ...prev, substanceCode }))
+                }
+                onSubstanceSelect={(entry) =>
                   setNewSubstance((prev) => ({
                     ...prev,
-                    substanceCode: e.target.value,
+                    substanceName: entry.name,
+                    substanceCode: entry.casNumber,
                   }))
                 }
                 placeholder="e.g., 50-00-0"
@@ -1085,12 +1118,18 @@ function MaterialSubstancesStep() {
 
                   <div className="space-y-2">
                     <Label>Child Name</Label>
-                    <Input
+                    <SubstanceLookupInput
+                      lookup="name"
                       value={newSubComposition.substanceName || ''}
-                      onChange={(e) =>
+                      counterpartValue={newSubComposition.substanceCode}
+                      onValueChange={(substanceName) =>
+                        setNewSubComposition((prev) => ({ ...prev, substanceName }))
+                      }
+                      onSubstanceSelect={(entry) =>
                         setNewSubComposition((prev) => ({
                           ...prev,
-                          substanceName: e.target.value,
+                          substanceName: entry.name,
+                          substanceCode: entry.casNumber,
                         }))
                       }
                       placeholder="Enter child substance name"
@@ -1099,12 +1138,18 @@ function MaterialSubstancesStep() {
 
                   <div className="space-y-2">
                     <Label>Child CAS</Label>
-                    <Input
+                    <SubstanceLookupInput
+                      lookup="casNumber"
                       value={newSubComposition.substanceCode || ''}
-                      onChange={(e) =>
+                      counterpartValue={newSubComposition.substanceName}
+                      onValueChange={(substanceCode) =>
+                        setNewSubComposition((prev) => ({ ...prev, substanceCode }))
+                      }
+                      onSubstanceSelect={(entry) =>
                         setNewSubComposition((prev) => ({
                           ...prev,
-                          substanceCode: e.target.value,
+                          substanceName: entry.name,
+                          substanceCode: entry.casNumber,
                         }))
                       }
                       placeholder="Enter child CAS"
@@ -1548,7 +1593,7 @@ function ModeSelectionScreen({
         )}
 
         <div className="animate-fade-up stagger-3 mt-8 flex justify-center gap-3">
-          <Button variant="outline" onClick={() => navigate('/catalog')}>
+          <Button variant="outline" onClick={() => navigate(appPaths.catalog())}>
             Cancel
           </Button>
           <Button variant="accent" onClick={() => onSelectMode(selectedMode)}>
@@ -1598,9 +1643,9 @@ export function CreateMaterialPage() {
   const handleQuickAddSuccess = useCallback(
     (componentId: string, continueToDetails: boolean) => {
       if (continueToDetails) {
-        navigate(`/catalog/components/${componentId}`)
+        navigate(appPaths.component(componentId))
       } else {
-        navigate('/catalog')
+        navigate(appPaths.catalog())
       }
     },
     [navigate]
@@ -1642,6 +1687,8 @@ export function CreateMaterialPage() {
 
 // Full creation flow (extracted from original CreateMaterialPage)
 function FullMaterialCreationFlow() {
+  const { mutateAsync: createMaterial } = useCreateMaterial()
+  const analytics = useFlowAnalytics('v1', 'component')
   const navigate = useNavigate()
   const [hasDraft, setHasDraft] = useState(false)
 
@@ -1861,7 +1908,7 @@ function FullMaterialCreationFlow() {
   const handleSubmit = useCallback(
     async (data: MaterialFormData) => {
       try {
-        const created = createCachedMaterial({
+        const created = await createMaterial({
           ...data,
           photos: data.photos.map((photo) => ({
             id: photo.id,
@@ -1869,6 +1916,7 @@ function FullMaterialCreationFlow() {
             name: photo.name,
             size: photo.size,
             contentType: photo.contentType,
+            file: photo.file,
           })),
           certificates: data.certificates.map((certificate) => ({
             ...certificate,
@@ -1878,6 +1926,7 @@ function FullMaterialCreationFlow() {
               size: file.size,
               type: file.type,
               url: file.url,
+              file: file.file,
             })),
           })),
           substances: data.substances.map((substance) => ({
@@ -1913,14 +1962,15 @@ function FullMaterialCreationFlow() {
 
         clearCachedDraft(MATERIAL_CREATION_DRAFT_KEY)
         setHasDraft(false)
+        analytics.trackCompleted()
         toast.success(`"${created.name}" saved to local cache`)
-        navigate('/materials')
+        navigate(appPaths.component(created.id))
       } catch (error) {
-        console.error('Failed to create material:', error)
+        logger.error('Failed to create material', error)
         toast.error('Unable to save component. Please try again.')
       }
     },
-    [navigate]
+    [analytics, createMaterial, navigate]
   )
 
   return (
@@ -1931,11 +1981,12 @@ function FullMaterialCreationFlow() {
       form={form}
       onSubmit={handleSubmit}
       submitLabel="Create Component"
-      backPath="/materials"
+      backPath={appPaths.catalog()}
       sidebarPanel={sidebarPanel}
       hasDraft={hasDraft}
       onSaveDraft={handleSaveDraft}
       onDiscardDraft={handleDiscardDraft}
+      analytics={analytics}
     />
   )
 }
@@ -1,23 +1,22 @@
-import { useEffect, useState } from 'react'
 import { useParams, useNavigate, Link } from 'react-router-dom'
 import {
   ArrowLeft,
   Building2,
   CheckCircle2,
+  History,
   Package,
   AlertCircle,
 } from 'lucide-react'
+import { AuditHistory } from '@/app/components/audit-history'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useWorkspace } from '@/app/contexts/workspace-context'
-import {
-  getCachedOrders,
-  type CachedOrder,
-} from '@/infrastructure/cache/orders-cache'
-import {
-  getCachedProducts,
-  type CachedProduct,
-} from '@/infrastructure/cache/catalog-cache'
+import { Spinner } from '@/components/ui/spinner'
+import { useAuditHistory } from '@/app/hooks/use-audit-log'
+import { useOrders } from '@/app/hooks/use-orders'
+import { useProducts } from '@/app/hooks/use-products'
+import { appPaths } from '@/app/router/paths'
 
 function formatDate(isoString: string): string {
   return new Date(isoString).toLocaleDateString(undefined, {
@@ -31,17 +30,19 @@ export function OrderDetailsPage() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
   const { activeWorkspace } = useWorkspace()
-  const [order, setOrder] = useState<CachedOrder | null>(null)
-  const [products, setProducts] = useState<CachedProduct[]>([])
+  const { data: orders, isPending } = useOrders(activeWorkspace.id)
+  const { data: products = [] } = useProducts()
+  const { data: history = [] } = useAuditHistory('order', id)
 
-  useEffect(() => {
-    const allOrders = getCachedOrders()
-    const foundOrder = allOrders.find(
-      (o) => o.id === id && o.workspaceId === activeWorkspace.id
+  const order = orders?.find((o) => o.id === id) ?? null
+
+  if (isPending) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <Spinner size="lg" className="text-muted-foreground" />
+      </div>
     )
-    setOrder(foundOrder || null)
-    setProducts(getCachedProducts())
-  }, [id, activeWorkspace.id])
+  }
 
   if (!order) {
     return (
@@ -56,7 +57,7 @@ export function OrderDetailsPage() {
             access to it.
           </p>
         </div>
-        <Button variant="outline" onClick={() => navigate('/orders')}>
+        <Button variant="outline" onClick={() => navigate(appPaths.orders())}>
           Back to Orders
         </Button>
       </div>
@@ -71,7 +72,7 @@ export function OrderDetailsPage() {
           variant="ghost"
           size="sm"
           className="-ml-2 mb-4 text-muted-foreground"
-          onClick={() => navigate('/orders')}
+          onClick={() => navigate(appPaths.orders())}
         >
           <ArrowLeft className="mr-2 h-4 w-4" />
           Back to Orders
@@ -149,113 +150,130 @@ export function OrderDetailsPage() {
       </div>
 
       {/* Line Items */}
-      <div className="space-y-4">
-        <h3 className="text-lg font-semibold">Line Items</h3>
-        <div className="rounded-2xl border border-border/60 bg-card shadow-sm">
-          <div className="divide-y divide-border/50">
-            {order.items.map((item) => {
-              const linkedProduct = item.productId
-                ? products.find((p) => p.id === item.productId)
-                : null
+      <Tabs defaultValue="items">
+        <TabsList>
+          <TabsTrigger value="items">
+            Line Items ({order.items.length})
+          </TabsTrigger>
+          <TabsTrigger value="history" className="gap-1.5">
+            <History className="h-3.5 w-3.5" />
+            History ({history.length})
+          </TabsTrigger>
+        </TabsList>
 
-              return (
-                <div
-                  key={item.id}
-                  className="flex flex-col gap-4 p-6 sm:flex-row sm:items-center sm:justify-between"
-                >
-                  <div className="flex items-start gap-4">
-                    <div className="mt-1">
-                      {item.status === 'LINKED' ? (
-                        <CheckCircle2 className="h-5 w-5 text-emerald-500" />
-                      ) : (
-                        <Package className="h-5 w-5 text-muted-foreground/40" />
-                      )}
-                    </div>
-                    <div>
-                      <div className="flex items-center gap-2">
-                        <h4 className="font-semibold">{item.name}</h4>
-                        <Badge
-                          variant={
-                            item.status === 'LINKED' ? 'default' : 'secondary'
-                          }
-                          className={
-                            item.status === 'LINKED'
-                              ? 'bg-emerald-500/10 text-emerald-600 hover:bg-emerald-500/20'
-                              : ''
-                          }
-                        >
-                          {item.status}
-                        </Badge>
+        <TabsContent value="items" className="mt-4">
+          <div className="rounded-2xl border border-border/60 bg-card shadow-sm">
+            <div className="divide-y divide-border/50">
+              {order.items.map((item) => {
+                const linkedProduct = item.productId
+                  ? products.find((p) => p.id === item.productId)
+                  : null
+
+                return (
+                  <div
+                    key={item.id}
+                    className="flex flex-col gap-4 p-6 sm:flex-row sm:items-center sm:justify-between"
+                  >
+                    <div className="flex items-start gap-4">
+                      <div className="mt-1">
+                        {item.status === 'LINKED' ? (
+                          <CheckCircle2 className="h-5 w-5 text-emerald-500" />
+                        ) : (
+                          <Package className="h-5 w-5 text-muted-foreground/40" />
+                        )}
                       </div>
-                      <div className="mt-1 flex items-center gap-3 text-sm text-muted-foreground">
-                        <span>Qty: {item.quantity.toLocaleString()}</span>
-                        <span>•</span>
-                        <span>
-                          Unit Price:{' '}
-                          {order.currency === 'USD'
-                            ? '$'
-                            : order.currency === 'EUR'
-                              ? '€'
-                              : order.currency === 'GBP'
-                                ? '£'
-                                : '¥'}
-                          {item.unitPrice.toFixed(2)}
-                        </span>
-                        <span>•</span>
-                        <span className="font-medium text-foreground">
-                          Total:{' '}
-                          {order.currency === 'USD'
-                            ? '$'
-                            : order.currency === 'EUR'
-                              ? '€'
-                              : order.currency === 'GBP'
-                                ? '£'
-                                : '¥'}
-                          {(item.quantity * item.unitPrice).toFixed(2)}
-                        </span>
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <h4 className="font-semibold">{item.name}</h4>
+                          <Badge
+                            variant={
+                              item.status === 'LINKED' ? 'default' : 'secondary'
+                            }
+                            className={
+                              item.status === 'LINKED'
+                                ? 'bg-emerald-500/10 text-emerald-600 hover:bg-emerald-500/20'
+                                : ''
+                            }
+                          >
+                            {item.status}
+                          </Badge>
+                        </div>
+                        <div className="mt-1 flex items-center gap-3 text-sm text-muted-foreground">
+                          <span>Qty: {item.quantity.toLocaleString()}</span>
+                          <span>•</span>
+                          <span>
+                            Unit Price:{' '}
+                            {order.currency === 'USD'
+                              ? '$'
+                              : order.currency === 'EUR'
+                                ? '€'
+                                : order.currency === 'GBP'
+                                  ? '£'
+                                  : '¥'}
+                            {item.unitPrice.toFixed(2)}
+                          </span>
+                          <span>•</span>
+                          <span className="font-medium text-foreground">
+                            Total:{' '}
+                            {order.currency === 'USD'
+                              ? '$'
+                              : order.currency === 'EUR'
+                                ? '€'
+                                : order.currency === 'GBP'
+                                  ? '£'
+                                  : '¥'}
+                            {(item.quantity * item.unitPrice).toFixed(2)}
+                          </span>
+                        </div>
+
+                        {/* Product Link Information */}
+                        {linkedProduct && (
+                          <div className="mt-3 flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm">
+                            <span className="text-muted-foreground">
+                              Linked Product:
+                            </span>
+                            <Link
+                              to={appPaths.product(linkedProduct.id)}
+                              className="font-medium text-primary hover:underline"
+                            >
+                              {linkedProduct.name}{' '}
+                              {linkedProduct.upc
+                                ? `(${linkedProduct.upc})`
+                                : ''}
+                            </Link>
+                          </div>
+                        )}
+                        {!linkedProduct && item.productId && (
+                          <div className="mt-3 text-sm text-muted-foreground">
+                            Linked to product ID: {item.productId} (Product not
+                            found in current workspace)
+                          </div>
+                        )}
                       </div>
+                    </div>
 
-                      {/* Product Link Information */}
-                      {linkedProduct && (
-                        <div className="mt-3 flex items-center gap-2 rounded-md bg-muted/50 p-2 text-sm">
-                          <span className="text-muted-foreground">
-                            Linked Product:
-                          </span>
+                    {order.type === 'SO' && item.status === 'PENDING' && (
+                      <div className="mt-4 sm:mt-0">
+                        <Button asChild size="sm">
                           <Link
-                            to={`/catalog/products/${linkedProduct.id}`}
-                            className="font-medium text-primary hover:underline"
+                            to={`${appPaths.productBuilder()}?soId=${order.id}&poItemId=${item.id}&itemName=${encodeURIComponent(item.name)}`}
                           >
-                            {linkedProduct.name}{' '}
-                            {linkedProduct.upc ? `(${linkedProduct.upc})` : ''}
+                            Create Product & Request Approval
                           </Link>
-                        </div>
-                      )}
-                      {!linkedProduct && item.productId && (
-                        <div className="mt-3 text-sm text-muted-foreground">
-                          Linked to product ID: {item.productId} (Product not
-                          found in current workspace)
-                        </div>
-                      )}
-                    </div>
+                        </Button>
+                      </div>
+                    )}
                   </div>
-
-                  {order.type === 'SO' && item.status === 'PENDING' && (
-                    <div className="mt-4 sm:mt-0">
-                      <Button asChild size="sm">
-                        <Link
-                          to={`/catalog/products/builder?soId=${order.id}&poItemId=${item.id}&itemName=${encodeURIComponent(item.name)}`}
-                        >
-                          Create Product & Request Approval
-                        </Link>
-                      </Button>
-                    </div>
-                  )}
-                </div>
-              )
-            })}
+                )
+              })}
+            </div>
           </div>
-        </div>
-      </div>
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-4">
+          <AuditHistory entries={history} />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
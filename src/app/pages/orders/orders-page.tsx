@@ -1,4 +1,4 @@
-import { useMemo, useState, useEffect } from 'react'
+import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { toast } from 'sonner'
 import {
@@ -33,19 +33,15 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { useWorkspace, WORKSPACES } from '@/app/contexts/workspace-context'
-import {
-  getCachedOrders,
-  saveCachedOrders,
-  type CachedOrder,
-  type CachedOrderItem,
+import { useCreateOrders, useOrders } from '@/app/hooks/use-orders'
+import { useProducts } from '@/app/hooks/use-products'
+import { useCreateSupplier, useSuppliers } from '@/app/hooks/use-suppliers'
+import { appPaths } from '@/app/router/paths'
+import type {
+  CachedOrder,
+  CachedOrderItem,
 } from '@/infrastructure/cache/orders-cache'
-import {
-  getCachedSuppliers,
-  createCachedSupplier,
-  getCachedProducts,
-  type CachedSupplier,
-  type CachedProduct,
-} from '@/infrastructure/cache/catalog-cache'
+import type { CachedSupplier } from '@/infrastructure/cache/catalog-cache'
 
 function generateId() {
   return Math.random().toString(36).substring(2, 11)
@@ -69,6 +65,7 @@ function AddSupplierDialog({
   onOpenChange: (open: boolean) => void
   onSuccess: (supplier: CachedSupplier) => void
 }) {
+  const createSupplier = useCreateSupplier()
   const [formData, setFormData] = useState<{
     name: string
     countryOfOrigin: string
@@ -87,7 +84,7 @@ function AddSupplierDialog({
     linkedWorkspaceId: 'none',
   })
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!formData.name.trim()) {
       toast.error('Supplier name is required')
       return
@@ -102,7 +99,13 @@ function AddSupplierDialog({
       dataToSave.linkedWorkspaceId = undefined
     }
 
-    const newSupplier = createCachedSupplier(dataToSave)
+    let newSupplier: CachedSupplier
+    try {
+      newSupplier = await createSupplier.mutateAsync(dataToSave)
+    } catch {
+      toast.error('Failed to add supplier')
+      return
+    }
     toast.success('Supplier added successfully')
     onSuccess(newSupplier)
     onOpenChange(false)
@@ -253,15 +256,14 @@ function CreateOrderDialog({
   open,
   onOpenChange,
   activeWorkspaceId,
-  onOrderCreated,
 }: {
   open: boolean
   onOpenChange: (open: boolean) => void
   activeWorkspaceId: string
-  onOrderCreated: () => void
 }) {
-  const [suppliers, setSuppliers] = useState<CachedSupplier[]>([])
-  const [products, setProducts] = useState<CachedProduct[]>([])
+  const { data: suppliers = [] } = useSuppliers()
+  const { data: products = [] } = useProducts()
+  const createOrders = useCreateOrders()
   const [selectedTarget, setSelectedTarget] = useState<string>('')
   const [orderNumber, setOrderNumber] = useState('')
   const [currency, setCurrency] = useState('USD')
@@ -275,8 +277,6 @@ function CreateOrderDialog({
 
   useEffect(() => {
     if (open) {
-      setSuppliers(getCachedSuppliers())
-      setProducts(getCachedProducts())
       setOrderNumber(
         `PO-${new Date().getFullYear()}-${Math.floor(Math.random() * 10000)
           .toString()
@@ -291,7 +291,7 @@ function CreateOrderDialog({
     }
   }, [open])
 
-  const handleCreateOrder = () => {
+  const handleCreateOrder = async () => {
     if (!selectedTarget) {
       toast.error('Please select a supplier or target brand')
       return
@@ -355,10 +355,13 @@ function CreateOrderDialog({
       items: newOrder.items.map((item) => ({ ...item })),
     }
 
-    const allOrders = getCachedOrders()
-    saveCachedOrders([...allOrders, newOrder, counterpartOrder])
+    try {
+      await createOrders.mutateAsync([newOrder, counterpartOrder])
+    } catch {
+      toast.error('Failed to create purchase order')
+      return
+    }
     toast.success('Purchase Order created successfully')
-    onOrderCreated()
     onOpenChange(false)
   }
 
@@ -615,7 +618,6 @@ function CreateOrderDialog({
         open={isAddSupplierOpen}
         onOpenChange={setIsAddSupplierOpen}
         onSuccess={(newSupplier) => {
-          setSuppliers((prev) => [...prev, newSupplier])
           setSelectedTarget(newSupplier.id)
         }}
       />
@@ -626,12 +628,8 @@ function CreateOrderDialog({
 export function OrdersPage() {
   const { activeWorkspace } = useWorkspace()
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
-  const [refreshTrigger, setRefreshTrigger] = useState(0)
   const [activeTab, setActiveTab] = useState<'PO' | 'SO'>('PO')
-
-  const orders = useMemo(() => {
-    return getCachedOrders().filter((o) => o.workspaceId === activeWorkspace.id)
-  }, [activeWorkspace.id, refreshTrigger])
+  const { data: orders = [] } = useOrders(activeWorkspace.id)
 
   const filteredOrders = orders.filter((o) => o.type === activeTab)
 
@@ -784,7 +782,7 @@ export function OrdersPage() {
                     </div>
                   </div>
                   <Button variant="outline" size="sm" asChild>
-                    <Link to={`/orders/${order.id}`}>View Details</Link>
+                    <Link to={appPaths.order(order.id)}>View Details</Link>
                   </Button>
                 </div>
 
@@ -856,7 +854,7 @@ export function OrdersPage() {
                             size="sm"
                             className="shrink-0 gap-2"
                           >
-                            <Link to={`/catalog/products/${item.productId}`}>
+                            <Link to={appPaths.product(item.productId)}>
                               <FileCheck2 className="h-4 w-4 text-emerald-600" />
                               View Linked Product
                             </Link>
@@ -876,7 +874,6 @@ export function OrdersPage() {
         open={isCreateModalOpen}
         onOpenChange={setIsCreateModalOpen}
         activeWorkspaceId={activeWorkspace.id}
-        onOrderCreated={() => setRefreshTrigger((prev) => prev + 1)}
       />
     </div>
   )
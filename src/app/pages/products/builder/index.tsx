@@ -15,11 +15,15 @@ import {
   Download,
   Upload,
   ShieldCheck,
+  Undo2,
+  Redo2,
 } from 'lucide-react'
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
+import { SubstanceLookupInput } from '@/components/shared/substance-lookup-input'
 import {
   Select,
   SelectContent,
@@ -45,16 +49,28 @@ import {
 import { toast } from 'sonner'
 import { useWorkspace, WORKSPACES } from '@/app/contexts/workspace-context'
 import { useProductBuilder, type Substance } from './use-product-builder'
+import type { CachedProductBomItem } from '@/infrastructure/cache/catalog-cache'
+import { findActiveApproval } from '@/infrastructure/cache/approvals-cache'
 import {
-  createCachedProduct,
-  createCachedMaterial,
-  saveProductBomToCache,
-  getCachedSuppliers,
-  type CachedProductBomItem,
-} from '@/infrastructure/cache/catalog-cache'
+  isValidCasNumber,
+  normalizeCasNumber,
+} from '@/infrastructure/substances/cas-number'
+import {
+  findSubstanceByName,
+  type SubstanceEntry,
+} from '@/infrastructure/substances/substance-dictionary'
+import { useCreateApproval } from '@/app/hooks/use-approvals'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { useCreateProduct, useSaveProductBom } from '@/app/hooks/use-products'
+import { useSuppliers } from '@/app/hooks/use-suppliers'
+import { createCorrelationId, logger } from '@/lib/logger'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useEffect } from 'react'
 
+function toSubstanceFields(entry: SubstanceEntry): Partial<Substance> {
+  return { name: entry.name, casNumber: entry.casNumber }
+}
+
 export function ProductBuilderPage() {
   const { activeWorkspace } = useWorkspace()
   const {
@@ -70,9 +86,19 @@ export function ProductBuilderPage() {
     removeSubstance,
     importSubstancesFromExcel,
     clearDraft,
+    discardDraft,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   } = useProductBuilder()
 
   const navigate = useNavigate()
+  const { data: suppliers = [] } = useSuppliers()
+  const { mutateAsync: createMaterial } = useCreateMaterial()
+  const { mutateAsync: createProduct } = useCreateProduct()
+  const { mutateAsync: saveProductBom } = useSaveProductBom()
+  const { mutateAsync: createApproval } = useCreateApproval()
 
   // Sheet states
   const [activeSubstance, setActiveSubstance] = useState<{
@@ -80,6 +106,21 @@ export function ProductBuilderPage() {
     sub: Substance
   } | null>(null)
 
+  const updateActiveSubstance = (updates: Partial<Substance>) => {
+    if (!activeSubstance) return
+    updateSubstance(activeSubstance.compId, activeSubstance.sub.id, updates)
+    setActiveSubstance((prev) =>
+      prev ? { ...prev, sub: { ...prev.sub, ...updates } } : null
+    )
+  }
+
+  const invalidCasCount = draft.components
+    .flatMap((component) => component.substances)
+    .filter(
+      (substance) =>
+        substance.casNumber && !isValidCasNumber(substance.casNumber)
+    ).length
+
   // File input refs for CSV import
   const fileInputRefs = useRef<{ [key: string]: HTMLInputElement | null }>({})
 
@@ -105,12 +146,12 @@ export function ProductBuilderPage() {
     }
   }, [searchParams])
 
-  const saveProductToCatalog = () => {
+  const saveProductToCatalog = async () => {
     // 1. Create all components as Materials in cache
     const bomItems: CachedProductBomItem[] = []
 
     for (const comp of draft.components) {
-      const material = createCachedMaterial({
+      const material = await createMaterial({
         name: comp.name || 'Unnamed Component',
         unitOfMeasurement: 'piece',
         unitCost: 0,
@@ -147,7 +188,7 @@ export function ProductBuilderPage() {
     }
 
     // 2. Create Product
-    const product = createCachedProduct({
+    const product = await createProduct({
       name: draft.name,
       upc: draft.upc,
       sku: draft.sku,
@@ -162,31 +203,43 @@ export function ProductBuilderPage() {
 
     // 3. Link BOM
     if (bomItems.length > 0) {
-      saveProductBomToCache(product.id, bomItems)
+      await saveProductBom({
+        productId: product.id,
+        items: bomItems,
+        expectedVersion: product.version,
+      })
     }
 
     return product
   }
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (!draft.name || !draft.upc) {
       toast.error('Missing Required Fields', {
         description: 'Please provide a Product Name and UPC before saving.',
       })
       return
     }
+    if (invalidCasCount > 0) {
+      toast.error('Invalid CAS Numbers', {
+        description: `Fix the ${invalidCasCount} highlighted CAS number${invalidCasCount === 1 ? '' : 's'} before saving.`,
+      })
+      return
+    }
 
     try {
-      const product = saveProductToCatalog()
+      const product = await saveProductToCatalog()
 
       toast.success('Product saved successfully!', {
         description: `"${product.name}" has been added to your catalog.`,
       })
 
-      clearDraft()
-      navigate(`/catalog/products/${product.id}`)
+      discardDraft()
+      navigate(appPaths.product(product.id))
     } catch (err) {
-      console.error(err)
+      logger.error('Failed to save product to catalog', err, {
+        context: 'ProductBuilder',
+      })
       toast.error('Failed to save product to catalog.')
     }
   }
@@ -199,10 +252,16 @@ export function ProductBuilderPage() {
       })
       return
     }
+    if (invalidCasCount > 0) {
+      toast.error('Invalid CAS Numbers', {
+        description: `Fix the ${invalidCasCount} highlighted CAS number${invalidCasCount === 1 ? '' : 's'} before requesting approval.`,
+      })
+      return
+    }
     setIsApprovalModalOpen(true)
   }
 
-  const submitApprovalRequest = () => {
+  const submitApprovalRequest = async () => {
     if (!selectedSO || !selectedPOItem || !eanQuantity) {
       toast.error('Missing Required Fields', {
         description:
@@ -215,19 +274,8 @@ export function ProductBuilderPage() {
     const targetWorkspace = WORKSPACES.find((w) => w.id === selectedSO)
 
     try {
-      const existing = JSON.parse(
-        localStorage.getItem('t4s-demo-approvals') || '[]'
-      )
-
       // Check for existing pending or approved requests for this SO/PO
-      const hasExisting = existing.some(
-        (a: any) =>
-          a.soId === selectedSO &&
-          a.poItemId === selectedPOItem &&
-          a.status !== 'REJECTED'
-      )
-
-      if (hasExisting) {
+      if (findActiveApproval(selectedSO, selectedPOItem)) {
         toast.error('Duplicate Request', {
           description:
             'An active approval request already exists for this Sales Order and Purchase Item.',
@@ -236,10 +284,9 @@ export function ProductBuilderPage() {
       }
 
       // Actually save the product to catalog as well
-      const product = saveProductToCatalog()
+      const product = await saveProductToCatalog()
 
-      const newApproval = {
-        id: Math.random().toString(36).substring(2, 9),
+      await createApproval({
         productId: product.id,
         productName: draft.name,
         sku: draft.sku || draft.upc,
@@ -248,14 +295,7 @@ export function ProductBuilderPage() {
         approverId: targetWorkspace?.id || 'ws-brand-1',
         soId: selectedSO,
         poItemId: selectedPOItem,
-        status: 'PENDING',
-        createdAt: new Date().toISOString(),
-      }
-
-      localStorage.setItem(
-        't4s-demo-approvals',
-        JSON.stringify([newApproval, ...existing])
-      )
+      })
 
       setIsApprovalModalOpen(false)
       // Reset fields
@@ -267,8 +307,8 @@ export function ProductBuilderPage() {
         description: `Your product has been saved and submitted to ${targetWorkspace?.name || 'the brand'} for review.`,
       })
 
-      clearDraft()
-      navigate('/catalog/approvals')
+      discardDraft()
+      navigate(appPaths.approvals())
     } catch {
       toast.error('Failed to submit approval request')
     }
@@ -276,12 +316,11 @@ export function ProductBuilderPage() {
 
   const handleClear = () => {
     clearDraft()
-    toast.info('Draft cleared.')
+    toast.info('Draft cleared.', { action: { label: 'Undo', onClick: undo } })
   }
 
   const downloadTemplate = async () => {
-    const suppliersList = getCachedSuppliers()
-    const supplierNames = suppliersList.map((s) => s.name)
+    const supplierNames = suppliers.map((s) => s.name)
 
     const workbook = new ExcelJS.Workbook()
     const worksheet = workbook.addWorksheet('Substances Import')
@@ -321,7 +360,7 @@ export function ProductBuilderPage() {
       'Example Substance',
       '9009-54-5',
       50,
-      suppliersList.length > 0 ? suppliersList[0].name : '',
+      suppliers.length > 0 ? suppliers[0].name : '',
     ])
 
     // Add data validation for the Supplier column (Column D, from row 3 to 1000)
@@ -359,12 +398,25 @@ export function ProductBuilderPage() {
     const file = event.target.files?.[0]
     if (!file) return
 
+    const log = logger.scope({
+      context: 'ExcelImport',
+      correlationId: createCorrelationId(),
+    })
+    log.info('Importing substances', {
+      fileName: file.name,
+      size: file.size,
+      componentId: compId,
+    })
+
     try {
       const workbook = new ExcelJS.Workbook()
       await workbook.xlsx.load(await file.arrayBuffer())
 
       const worksheet = workbook.getWorksheet('Substances Import')
       if (!worksheet) {
+        log.warn('Template sheet not found', {
+          sheets: workbook.worksheets.map((sheet) => sheet.name),
+        })
         toast.error(
           'Invalid template. Could not find "Substances Import" sheet.'
         )
@@ -383,9 +435,12 @@ export function ProductBuilderPage() {
         if (rowNumber > 2) {
           const name = row.getCell(1).text?.trim()
           if (name) {
+            // Rows without a CAS number take it from the dictionary
+            const casNumber = normalizeCasNumber(row.getCell(2).text || '')
             newSubstances.push({
               name,
-              casNumber: row.getCell(2).text?.trim() || '',
+              casNumber:
+                casNumber || findSubstanceByName(name)?.casNumber || '',
               percentage: parseFloat(row.getCell(3).text) || 0,
               supplier: row.getCell(4).text?.trim() || '',
             })
@@ -393,18 +448,34 @@ export function ProductBuilderPage() {
         }
       })
 
+      const invalidCasNumbers = newSubstances
+        .map((substance) => substance.casNumber)
+        .filter((casNumber) => casNumber && !isValidCasNumber(casNumber))
+
+      log.info('Parsed substances', {
+        count: newSubstances.length,
+        invalidCasNumbers,
+      })
       if (newSubstances.length > 0) {
         importSubstancesFromExcel(compId, newSubstances)
         toast.success(
-          `Successfully imported ${newSubstances.length} substances`
+          `Successfully imported ${newSubstances.length} substances`,
+          { action: { label: 'Undo', onClick: undo } }
         )
+        if (invalidCasNumbers.length > 0) {
+          toast.warning(
+            `${invalidCasNumbers.length} imported CAS number${invalidCasNumbers.length === 1 ? ' is' : 's are'} invalid`,
+            { description: invalidCasNumbers.join(', ') }
+          )
+        }
       } else {
         toast.info('No substances found in the file')
       }
     } catch (err) {
-      console.error(err)
+      log.error('Failed to parse Excel file', err)
       toast.error(
-        'Failed to parse Excel file. Please ensure you are using the downloaded template.'
+        'Failed to parse Excel file. Please ensure you are using the downloaded template.',
+        { description: `Reference: ${log.correlationId}` }
       )
     }
 
@@ -442,6 +513,26 @@ export function ProductBuilderPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={undo}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={redo}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </div>
             <Button variant="outline" onClick={handleClear} className="gap-2">
               <X className="h-4 w-4" /> Clear
             </Button>
@@ -755,29 +846,48 @@ export function ProductBuilderPage() {
                             className="group flex flex-wrap items-center gap-3 rounded-xl border border-border/60 bg-background p-2 pl-3 shadow-sm transition-colors hover:border-border sm:flex-nowrap"
                           >
                             <div className="min-w-[150px] flex-1">
-                              <Input
+                              <SubstanceLookupInput
+                                lookup="name"
                                 placeholder="e.g. Polyurethane"
                                 value={substance.name}
-                                onChange={(e) =>
+                                counterpartValue={substance.casNumber}
+                                onValueChange={(name) =>
                                   updateSubstance(component.id, substance.id, {
-                                    name: e.target.value,
+                                    name,
                                   })
                                 }
+                                onSubstanceSelect={(entry) =>
+                                  updateSubstance(
+                                    component.id,
+                                    substance.id,
+                                    toSubstanceFields(entry)
+                                  )
+                                }
                                 title="Substance Name"
                                 className="h-8 border-transparent bg-secondary/30 text-sm transition-colors hover:border-border focus:border-ring"
                               />
                             </div>
                             <div className="w-[120px] shrink-0">
-                              <Input
+                              <SubstanceLookupInput
+                                lookup="casNumber"
+                                errorDisplay="border"
                                 placeholder="CAS No."
                                 value={substance.casNumber}
-                                onChange={(e) =>
+                                counterpartValue={substance.name}
+                                onValueChange={(casNumber) =>
                                   updateSubstance(component.id, substance.id, {
-                                    casNumber: e.target.value,
+                                    casNumber,
                                   })
                                 }
+                                onSubstanceSelect={(entry) =>
+                                  updateSubstance(
+                                    component.id,
+                                    substance.id,
+                                    toSubstanceFields(entry)
+                                  )
+                                }
                                 title="CAS Number"
-                                className="h-8 border-transparent bg-secondary/30 font-mono text-sm transition-colors hover:border-border focus:border-ring"
+                                className="h-8 border-transparent bg-secondary/30 text-sm transition-colors hover:border-border focus:border-ring"
                               />
                             </div>
                             <div className="flex w-[80px] shrink-0 items-center gap-2">
@@ -874,45 +984,29 @@ export function ProductBuilderPage() {
               <div className="grid gap-4 rounded-xl bg-secondary/30 p-4">
                 <div className="space-y-2">
                   <Label>Substance Name</Label>
-                  <Input
+                  <SubstanceLookupInput
+                    lookup="name"
                     value={activeSubstance.sub.name}
-                    onChange={(e) => {
-                      updateSubstance(
-                        activeSubstance.compId,
-                        activeSubstance.sub.id,
-                        { name: e.target.value }
-                      )
-                      setActiveSubstance((prev) =>
-                        prev
-                          ? {
-                              ...prev,
-                              sub: { ...prev.sub, name: e.target.value },
-                            }
-                          : null
-                      )
-                    }}
+                    counterpartValue={activeSubstance.sub.casNumber}
+                    onValueChange={(name) => updateActiveSubstance({ name })}
+                    onSubstanceSelect={(entry) =>
+                      updateActiveSubstance(toSubstanceFields(entry))
+                    }
                   />
                 </div>
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label>CAS Number</Label>
-                    <Input
+                    <SubstanceLookupInput
+                      lookup="casNumber"
                       value={activeSubstance.sub.casNumber}
-                      onChange={(e) => {
-                        updateSubstance(
-                          activeSubstance.compId,
-                          activeSubstance.sub.id,
-                          { casNumber: e.target.value }
-                        )
-                        setActiveSubstance((prev) =>
-                          prev
-                            ? {
-                                ...prev,
-                                sub: { ...prev.sub, casNumber: e.target.value },
-                              }
-                            : null
-                        )
-                      }}
+                      counterpartValue={activeSubstance.sub.name}
+                      onValueChange={(casNumber) =>
+                        updateActiveSubstance({ casNumber })
+                      }
+                      onSubstanceSelect={(entry) =>
+                        updateActiveSubstance(toSubstanceFields(entry))
+                      }
                     />
                   </div>
                   <div className="space-y-2">
@@ -1,4 +1,9 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
+
+import {
+  PRODUCT_BUILDER_DRAFT_STORAGE_KEY,
+  PRODUCT_BUILDER_HISTORY_STORAGE_KEY,
+} from '@/infrastructure/cache/catalog-cache'
 
 export type Substance = {
   id: string
@@ -29,7 +34,21 @@ export type ProductDraft = {
   components: ProductComponent[]
 }
 
-const STORAGE_KEY = 'product-builder-draft-v1'
+const STORAGE_KEY = PRODUCT_BUILDER_DRAFT_STORAGE_KEY
+const HISTORY_STORAGE_KEY = PRODUCT_BUILDER_HISTORY_STORAGE_KEY
+
+// Each snapshot is a full draft, so the stack is kept short enough to fit in
+// localStorage next to it.
+const MAX_HISTORY = 50
+
+// Keystrokes in the same field within this window become a single undo step.
+const COALESCE_WINDOW_MS = 1000
+
+type DraftHistory = {
+  past: ProductDraft[]
+  present: ProductDraft
+  future: ProductDraft[]
+}
 
 const defaultDraft: ProductDraft = {
   name: '',
@@ -46,23 +65,136 @@ function generateId() {
   return Math.random().toString(36).substring(2, 9)
 }
 
+function loadHistory(): DraftHistory {
+  let present = defaultDraft
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    if (stored) present = JSON.parse(stored)
+  } catch {
+    return { past: [], present, future: [] }
+  }
+
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY)
+    const history = stored ? (JSON.parse(stored) as DraftHistory) : null
+    // The draft can be replaced without the history (a backup restore, a save
+    // in another tab); stacks that no longer lead to it are dropped.
+    if (
+      history &&
+      JSON.stringify(history.present) === JSON.stringify(present)
+    ) {
+      return { past: history.past, present, future: history.future }
+    }
+  } catch {
+    // Fall through to an empty history
+  }
+  return { past: [], present, future: [] }
+}
+
+function isEditableTarget(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  )
+}
+
 export function useProductBuilder() {
-  const [draft, setDraft] = useState<ProductDraft>(() => {
+  const [history, setHistory] = useState<DraftHistory>(loadHistory)
+  const lastChange = useRef<{ key: string; at: number } | null>(null)
+  const draft = history.present
+
+  // Sync to local storage
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history.present))
     try {
-      const stored = localStorage.getItem(STORAGE_KEY)
-      return stored ? JSON.parse(stored) : defaultDraft
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
     } catch {
-      return defaultDraft
+      // Out of quota: the draft itself is saved, only undo is lost on reload
+      localStorage.removeItem(HISTORY_STORAGE_KEY)
     }
-  })
+  }, [history])
 
-  // Sync to local storage
+  /**
+   * Applies a change as one undo step. Changes sharing a `coalesceKey` (the
+   * same field being typed into) merge with the step before them.
+   */
+  const setDraft = (
+    update: (prev: ProductDraft) => ProductDraft,
+    coalesceKey?: string
+  ) => {
+    const now = Date.now()
+    const previous = lastChange.current
+    const coalesce =
+      coalesceKey !== undefined &&
+      previous?.key === coalesceKey &&
+      now - previous.at < COALESCE_WINDOW_MS
+    lastChange.current = coalesceKey ? { key: coalesceKey, at: now } : null
+
+    setHistory((prev) => {
+      const next = update(prev.present)
+      if (next === prev.present) return prev
+      return {
+        past: coalesce
+          ? prev.past
+          : [...prev.past, prev.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      }
+    })
+  }
+
+  const undo = useCallback(() => {
+    lastChange.current = null
+    setHistory((prev) =>
+      prev.past.length === 0
+        ? prev
+        : {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future],
+          }
+    )
+  }, [])
+
+  const redo = useCallback(() => {
+    lastChange.current = null
+    setHistory((prev) =>
+      prev.future.length === 0
+        ? prev
+        : {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1),
+          }
+    )
+  }, [])
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their native undo
+  // while they have focus.
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(draft))
-  }, [draft])
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      if (event.key.toLowerCase() !== 'z' || isEditableTarget(event.target)) {
+        return
+      }
+      event.preventDefault()
+      if (event.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
 
   const updateProduct = (updates: Partial<ProductDraft>) => {
-    setDraft((prev) => ({ ...prev, ...updates }))
+    setDraft(
+      (prev) => ({ ...prev, ...updates }),
+      `product:${Object.keys(updates).join(',')}`
+    )
   }
 
   const addComponent = () => {
@@ -107,12 +239,15 @@ export function useProductBuilder() {
     componentId: string,
     updates: Partial<ProductComponent>
   ) => {
-    setDraft((prev) => ({
-      ...prev,
-      components: prev.components.map((c) =>
-        c.id === componentId ? { ...c, ...updates } : c
-      ),
-    }))
+    setDraft(
+      (prev) => ({
+        ...prev,
+        components: prev.components.map((c) =>
+          c.id === componentId ? { ...c, ...updates } : c
+        ),
+      }),
+      `component:${componentId}:${Object.keys(updates).join(',')}`
+    )
   }
 
   const removeComponent = (componentId: string) => {
@@ -169,20 +304,23 @@ export function useProductBuilder() {
     substanceId: string,
     updates: Partial<Substance>
   ) => {
-    setDraft((prev) => ({
-      ...prev,
-      components: prev.components.map((c) => {
-        if (c.id === componentId) {
-          return {
-            ...c,
-            substances: c.substances.map((s) =>
-              s.id === substanceId ? { ...s, ...updates } : s
-            ),
+    setDraft(
+      (prev) => ({
+        ...prev,
+        components: prev.components.map((c) => {
+          if (c.id === componentId) {
+            return {
+              ...c,
+              substances: c.substances.map((s) =>
+                s.id === substanceId ? { ...s, ...updates } : s
+              ),
+            }
           }
-        }
-        return c
+          return c
+        }),
       }),
-    }))
+      `substance:${substanceId}:${Object.keys(updates).join(',')}`
+    )
   }
 
   const removeSubstance = (componentId: string, substanceId: string) => {
@@ -234,9 +372,15 @@ export function useProductBuilder() {
     }
   }
 
+  // Undoable, unlike discardDraft()
   const clearDraft = () => {
-    setDraft(defaultDraft)
-    localStorage.removeItem(STORAGE_KEY)
+    setDraft(() => defaultDraft)
+  }
+
+  /** Starts over with an empty draft and no history, e.g. after saving. */
+  const discardDraft = () => {
+    lastChange.current = null
+    setHistory({ past: [], present: defaultDraft, future: [] })
   }
 
   return {
@@ -252,5 +396,10 @@ export function useProductBuilder() {
     removeSubstance,
     importSubstancesFromExcel,
     clearDraft,
+    discardDraft,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
   }
 }
@@ -37,10 +37,13 @@ import {
 import {
   PRODUCT_CREATION_DRAFT_KEY,
   clearCachedDraft,
-  createCachedProduct,
   getCachedDraft,
   setCachedDraft,
 } from '@/infrastructure/cache/catalog-cache'
+import { useCreateProduct } from '@/app/hooks/use-products'
+import { useFlowAnalytics } from '@/app/hooks/use-flow-analytics'
+import { appPaths } from '@/app/router/paths'
+import { logger } from '@/lib/logger'
 
 // Schema
 const productSchema = z.object({
@@ -579,7 +582,7 @@ function ModeSelectionScreen({
         )}
 
         <div className="animate-fade-up stagger-3 mt-8 flex justify-center gap-3">
-          <Button variant="outline" onClick={() => navigate('/catalog')}>
+          <Button variant="outline" onClick={() => navigate(appPaths.catalog())}>
             Cancel
           </Button>
           <Button variant="accent" onClick={() => onSelectMode(selectedMode)}>
@@ -629,9 +632,9 @@ export function CreateProductPage() {
   const handleQuickAddSuccess = useCallback(
     (productId: string, continueToDetails: boolean) => {
       if (continueToDetails) {
-        navigate(`/catalog/products/${productId}`)
+        navigate(appPaths.product(productId))
       } else {
-        navigate('/catalog')
+        navigate(appPaths.catalog())
       }
     },
     [navigate]
@@ -673,6 +676,8 @@ export function CreateProductPage() {
 
 // Full creation flow (extracted from original CreateProductPage)
 function FullProductCreationFlow() {
+  const { mutateAsync: createProduct } = useCreateProduct()
+  const analytics = useFlowAnalytics('v1', 'product')
   const navigate = useNavigate()
   const [hasDraft, setHasDraft] = useState(false)
 
@@ -856,7 +861,7 @@ function FullProductCreationFlow() {
   const handleSubmit = useCallback(
     async (data: ProductFormData) => {
       try {
-        const created = createCachedProduct({
+        const created = await createProduct({
           ...data,
           photos: data.photos.map((photo) => ({
             id: photo.id,
@@ -864,19 +869,21 @@ function FullProductCreationFlow() {
             name: photo.name,
             size: photo.size,
             contentType: photo.contentType,
+            file: photo.file,
           })),
         })
 
         clearCachedDraft(PRODUCT_CREATION_DRAFT_KEY)
         setHasDraft(false)
+        analytics.trackCompleted()
         toast.success(`"${created.name}" saved to local cache`)
-        navigate('/products')
+        navigate(appPaths.product(created.id))
       } catch (error) {
-        console.error('Failed to create product:', error)
+        logger.error('Failed to create product', error)
         toast.error('Unable to save product. Please try again.')
       }
     },
-    [navigate]
+    [analytics, createProduct, navigate]
   )
 
   return (
@@ -887,11 +894,12 @@ function FullProductCreationFlow() {
       form={form}
       onSubmit={handleSubmit}
       submitLabel="Create Product"
-      backPath="/products"
+      backPath={appPaths.catalog()}
       sidebarPanel={sidebarPanel}
       hasDraft={hasDraft}
       onSaveDraft={handleSaveDraft}
       onDiscardDraft={handleDiscardDraft}
+      analytics={analytics}
     />
   )
 }
@@ -0,0 +1,346 @@
+import { Link, useParams } from 'react-router-dom'
+import { saveAs } from 'file-saver'
+import { toast } from 'sonner'
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CircleSlash,
+  Download,
+  FileSpreadsheet,
+  Layers,
+} from 'lucide-react'
+
+import { ExportDeclarationButton } from '@/app/components/export-declaration-button'
+import { useMaterialDeclaration } from '@/app/hooks/use-material-declaration'
+import { appPaths } from '@/app/router/paths'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import {
+  getMaterialDeclarationFileName,
+  toMaterialDeclarationDocument,
+  type DeclarationIssue,
+  type DeclarationMaterial,
+  type MaterialDeclaration,
+} from '@/infrastructure/compliance/material-declaration'
+import { cn } from '@/lib/utils'
+
+function formatMass(grams: number | null) {
+  if (grams === null) return '—'
+  return grams < 1 ? `${(grams * 1000).toFixed(1)} mg` : `${grams.toFixed(2)} g`
+}
+
+function formatShare(value: number | null) {
+  return value === null ? '—' : `${(value * 100).toFixed(3)}%`
+}
+
+function IssueList({ issues }: { issues: DeclarationIssue[] }) {
+  if (issues.length === 0) return null
+  return (
+    <ul className="space-y-1 text-sm">
+      {issues.map((issue, index) => (
+        <li
+          key={`${issue.message}-${index}`}
+          className={cn(
+            'flex items-start gap-2',
+            issue.kind === 'inconsistent'
+              ? 'text-destructive'
+              : 'text-amber-700 dark:text-amber-400'
+          )}
+        >
+          {issue.kind === 'inconsistent' ? (
+            <CircleSlash className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          ) : (
+            <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          )}
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function MaterialSection({
+  entry,
+  issues,
+}: {
+  entry: DeclarationMaterial
+  issues: DeclarationIssue[]
+}) {
+  const flaggedSubstanceIds = new Set(
+    issues.map((issue) => issue.substanceId).filter(Boolean)
+  )
+
+  return (
+    <section className="rounded-2xl border border-border/60 bg-card/60 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <div className="grid h-10 w-10 shrink-0 place-items-center rounded-xl bg-secondary/60">
+            <Layers className="h-4 w-4 text-muted-foreground" />
+          </div>
+          <div>
+            {entry.material ? (
+              <Link
+                to={appPaths.component(entry.material.id)}
+                className="font-semibold hover:underline"
+              >
+                {entry.material.name}
+              </Link>
+            ) : (
+              <span className="font-semibold">
+                {entry.bomItem.materialName}
+              </span>
+            )}
+            <p className="mt-0.5 text-sm text-muted-foreground">
+              Qty {entry.bomItem.quantity} ·{' '}
+              {entry.material ? `${entry.material.weight} g each` : 'deleted'}
+            </p>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="font-mono font-semibold tabular-nums">
+            {formatMass(entry.mass)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {formatShare(entry.shareOfProduct)} of the product
+          </p>
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mt-3">
+          <IssueList issues={issues} />
+        </div>
+      )}
+
+      {entry.substances.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground">
+                <th className="pb-2 font-medium">Substance</th>
+                <th className="pb-2 font-medium">CAS</th>
+                <th className="pb-2 text-right font-medium">Declared</th>
+                <th className="pb-2 text-right font-medium">In material</th>
+                <th className="pb-2 text-right font-medium">Mass</th>
+                <th className="pb-2 text-right font-medium">In product</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {entry.substances.map((row) => (
+                <tr
+                  key={row.id}
+                  className={cn(
+                    flaggedSubstanceIds.has(row.id) && 'bg-amber-500/5'
+                  )}
+                >
+                  <td
+                    className={cn(
+                      'py-2',
+                      row.level === 'sub-composition' &&
+                        'pl-6 text-muted-foreground'
+                    )}
+                  >
+                    {row.name || '—'}
+                    {row.reachRegistrationNumber && (
+                      <span className="block font-mono text-[10px] text-muted-foreground">
+                        REACH {row.reachRegistrationNumber}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 font-mono text-xs">
+                    {row.casNumber || '—'}
+                  </td>
+                  <td className="py-2 text-right font-mono tabular-nums">
+                    {row.percentage}%
+                    {row.level === 'sub-composition' && (
+                      <span className="text-muted-foreground"> of parent</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right font-mono tabular-nums">
+                    {formatShare(row.concentrationInMaterial)}
+                  </td>
+                  <td className="py-2 text-right font-mono tabular-nums text-muted-foreground">
+                    {formatMass(row.mass)}
+                  </td>
+                  <td className="py-2 text-right font-mono tabular-nums">
+                    {formatShare(row.shareOfProduct)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  )
+}
+
+function TotalsTable({ declaration }: { declaration: MaterialDeclaration }) {
+  return (
+    <div className="surface-panel overflow-x-auto rounded-3xl">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border/60 text-left text-muted-foreground">
+            <th className="px-4 py-3 font-semibold">Substance</th>
+            <th className="px-4 py-3 font-semibold">CAS</th>
+            <th className="px-4 py-3 text-right font-semibold">Materials</th>
+            <th className="px-4 py-3 text-right font-semibold">Mass</th>
+            <th className="px-4 py-3 text-right font-semibold">In product</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border/50">
+          {declaration.totals.map((total) => (
+            <tr key={`${total.casNumber}-${total.name}`}>
+              <td className="px-4 py-3 font-medium">{total.name || '—'}</td>
+              <td className="px-4 py-3 font-mono text-xs">
+                {total.casNumber || '—'}
+              </td>
+              <td className="px-4 py-3 text-right tabular-nums">
+                {total.materialCount}
+              </td>
+              <td className="px-4 py-3 text-right font-mono tabular-nums">
+                {formatMass(total.mass)}
+              </td>
+              <td className="px-4 py-3 text-right font-mono tabular-nums">
+                {formatShare(total.shareOfProduct)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * The product's full material declaration: every homogeneous material in
+ * its BOM down to sub-compositions, with the data that is missing or
+ * contradicts itself called out where it occurs.
+ */
+export function MaterialDeclarationPage() {
+  const { productId } = useParams<{ productId: string }>()
+  const { declaration, isLoading } = useMaterialDeclaration(productId)
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner size="lg" className="text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!declaration) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center">
+        <h2 className="text-xl font-semibold">Product not found</h2>
+        <Button asChild variant="outline" className="mt-6">
+          <Link to={appPaths.catalog()}>Back to Catalog</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const { product, issues } = declaration
+  const productIssues = issues.filter((issue) => !issue.bomItemId)
+  const missingCount = issues.filter((issue) => issue.kind === 'missing').length
+  const inconsistentCount = issues.length - missingCount
+
+  const handleDownload = () => {
+    saveAs(
+      new Blob(
+        [JSON.stringify(toMaterialDeclarationDocument(declaration), null, 2)],
+        { type: 'application/json' }
+      ),
+      getMaterialDeclarationFileName(product)
+    )
+    toast.success('Material declaration downloaded')
+  }
+
+  return (
+    <div className="min-h-screen pb-16">
+      {/* Page Header */}
+      <div className="border-b border-border/50 bg-background/60 backdrop-blur-xl">
+        <div className="mx-auto max-w-6xl px-4 py-5 sm:px-6 lg:px-8">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <Link
+                to={appPaths.product(product.id)}
+                className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                {product.name}
+              </Link>
+              <h1 className="mt-1 flex items-center gap-3 text-2xl font-semibold tracking-tight sm:text-3xl">
+                <FileSpreadsheet className="h-7 w-7 text-accent" />
+                Material Declaration
+              </h1>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {product.sku || product.upc} ·{' '}
+                {formatMass(declaration.productMass)} ·{' '}
+                {declaration.materials.length} material
+                {declaration.materials.length === 1 ? '' : 's'} ·{' '}
+                {declaration.totals.length} substance
+                {declaration.totals.length === 1 ? '' : 's'}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {missingCount > 0 && (
+                <Badge variant="warning">{missingCount} missing</Badge>
+              )}
+              {inconsistentCount > 0 && (
+                <Badge variant="destructive">
+                  {inconsistentCount} inconsistent
+                </Badge>
+              )}
+              <ExportDeclarationButton
+                declaration={declaration}
+                variant="outline"
+                className="gap-2"
+              >
+                Export IPC-1752A
+              </ExportDeclarationButton>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={handleDownload}
+              >
+                <Download className="h-4 w-4" />
+                Download JSON
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <main className="mx-auto max-w-6xl space-y-6 px-4 py-6 sm:px-6 lg:px-8 lg:py-8">
+        {productIssues.length > 0 && (
+          <div className="rounded-2xl border border-amber-500/30 bg-amber-500/5 p-4">
+            <IssueList issues={productIssues} />
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {declaration.materials.map((entry) => (
+            <MaterialSection
+              key={entry.bomItem.id}
+              entry={entry}
+              issues={issues.filter(
+                (issue) => issue.bomItemId === entry.bomItem.id
+              )}
+            />
+          ))}
+        </div>
+
+        {declaration.totals.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold">Substances in the product</h2>
+            <TotalsTable declaration={declaration} />
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -6,28 +6,39 @@ import {
   Beaker,
   ChevronRight,
   Edit3,
+  FileSpreadsheet,
   FileText,
   FlaskConical,
+  History,
   Layers,
   MoreHorizontal,
   Package,
   Percent,
   Scale,
+  ShieldAlert,
   Workflow,
 } from 'lucide-react'
 
+import { AuditHistory } from '@/app/components/audit-history'
+import { ExportDeclarationButton } from '@/app/components/export-declaration-button'
+import { SvhcReport } from '@/app/components/svhc-report'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
-import {
-  getCachedMaterialById,
-  getCachedProductById,
-  type CachedMaterial,
-  type CachedProductBomItem,
+import { Spinner } from '@/components/ui/spinner'
+import type {
+  CachedMaterial,
+  CachedProductBomItem,
 } from '@/infrastructure/cache/catalog-cache'
 import { cn } from '@/lib/utils'
+import { useAuditHistory } from '@/app/hooks/use-audit-log'
+import { useMaterialDeclaration } from '@/app/hooks/use-material-declaration'
+import { useMaterials } from '@/app/hooks/use-materials'
+import { useProduct } from '@/app/hooks/use-products'
+import { useProductSvhcReport } from '@/app/hooks/use-svhc-screening'
+import { appPaths } from '@/app/router/paths'
 
-type ViewMode = 'bom' | 'substances'
+type ViewMode = 'bom' | 'substances' | 'svhc' | 'history'
 
 interface AggregatedSubstance {
   substanceCode: string
@@ -272,7 +283,7 @@ function EmptyBOM({ productId }: { productId: string }) {
         Add materials to this product's bill of materials to track composition and costs.
       </p>
       <Button asChild variant="accent" className="mt-6 gap-2">
-        <Link to={`/catalog/products/${productId}/bom`}>
+        <Link to={appPaths.productBom(productId)}>
           <Edit3 className="h-4 w-4" />
           Manage BOM
         </Link>
@@ -300,27 +311,27 @@ export function ProductDetailPage() {
   const { productId } = useParams<{ productId: string }>()
   const [viewMode, setViewMode] = useState<ViewMode>('bom')
 
-  const product = useMemo(
-    () => (productId ? getCachedProductById(productId) : null),
-    [productId]
-  )
+  const { data: product, isPending } = useProduct(productId)
+  const { data: materials } = useMaterials()
+  const { data: history = [] } = useAuditHistory('product', productId)
+  const { report: svhcReport } = useProductSvhcReport(product)
+  const { declaration } = useMaterialDeclaration(productId)
 
   const bomItems = product?.bom?.items || []
 
-  const aggregatedSubstances = useMemo(
-    () => aggregateSubstances(bomItems, getCachedMaterialById),
-    [bomItems]
+  const materialsMap = useMemo(
+    () =>
+      new Map<string, CachedMaterial>(
+        (materials ?? []).map((material) => [material.id, material])
+      ),
+    [materials]
   )
 
-  const materialsMap = useMemo(() => {
-    const map = new Map<string, CachedMaterial | null>()
-    for (const item of bomItems) {
-      if (!map.has(item.materialId)) {
-        map.set(item.materialId, getCachedMaterialById(item.materialId))
-      }
-    }
-    return map
-  }, [bomItems])
+  const aggregatedSubstances = useMemo(
+    () =>
+      aggregateSubstances(bomItems, (id) => materialsMap.get(id) ?? null),
+    [bomItems, materialsMap]
+  )
 
   const totalComposition = bomItems.reduce((sum, item) => sum + item.percentage, 0)
   const totalCost = bomItems.reduce(
@@ -328,6 +339,14 @@ export function ProductDetailPage() {
     0
   )
 
+  if (productId && isPending) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Spinner size="lg" className="text-muted-foreground" />
+      </div>
+    )
+  }
+
   if (!product) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -338,7 +357,7 @@ export function ProductDetailPage() {
             This product may have been deleted or doesn't exist.
           </p>
           <Button asChild variant="outline" className="mt-6">
-            <Link to="/catalog">Back to Catalog</Link>
+            <Link to={appPaths.catalog()}>Back to Catalog</Link>
           </Button>
         </div>
       </div>
@@ -367,7 +386,7 @@ export function ProductDetailPage() {
                 type="button"
                 variant="ghost"
                 size="icon"
-                onClick={() => navigate('/catalog')}
+                onClick={() => navigate(appPaths.catalog())}
                 className="mt-1 h-9 w-9 shrink-0 rounded-lg"
               >
                 <ArrowLeft className="h-4 w-4" />
@@ -398,11 +417,25 @@ export function ProductDetailPage() {
 
             <div className="flex items-center gap-2">
               <Button asChild variant="outline" size="sm" className="gap-2">
-                <Link to={`/catalog/products/${productId}/bom`}>
+                <Link to={appPaths.productBom(product.id)}>
                   <Edit3 className="h-3.5 w-3.5" />
                   <span className="hidden sm:inline">Edit BOM</span>
                 </Link>
               </Button>
+              <ExportDeclarationButton
+                declaration={declaration}
+                variant="outline"
+                size="sm"
+                className="gap-2"
+              >
+                <span className="hidden sm:inline">Export declaration</span>
+              </ExportDeclarationButton>
+              <Button asChild variant="outline" size="sm" className="gap-2">
+                <Link to={appPaths.productDeclaration(product.id)}>
+                  <FileSpreadsheet className="h-3.5 w-3.5" />
+                  <span className="hidden sm:inline">Declaration</span>
+                </Link>
+              </Button>
               <Button variant="ghost" size="icon" className="h-9 w-9">
                 <MoreHorizontal className="h-4 w-4" />
               </Button>
@@ -485,11 +518,25 @@ export function ProductDetailPage() {
               label="Bill of Substances"
               count={aggregatedSubstances.length}
             />
+            <TabButton
+              active={viewMode === 'svhc'}
+              onClick={() => setViewMode('svhc')}
+              icon={ShieldAlert}
+              label="REACH SVHC"
+              count={svhcReport?.findings.filter((finding) => finding.exceedsLimit).length ?? 0}
+            />
+            <TabButton
+              active={viewMode === 'history'}
+              onClick={() => setViewMode('history')}
+              icon={History}
+              label="History"
+              count={history.length}
+            />
           </div>
 
           {viewMode === 'bom' && bomItems.length > 0 && (
             <Button asChild variant="ghost" size="sm" className="gap-1.5 text-muted-foreground">
-              <Link to={`/catalog/products/${productId}/bom`}>
+              <Link to={appPaths.productBom(product.id)}>
                 View full editor
                 <ArrowUpRight className="h-3.5 w-3.5" />
               </Link>
@@ -558,6 +605,19 @@ export function ProductDetailPage() {
             )}
           </div>
         )}
+
+        {/* SVHC Screening View */}
+        {viewMode === 'svhc' &&
+          (svhcReport ? (
+            <SvhcReport report={svhcReport} />
+          ) : (
+            <div className="flex justify-center py-16">
+              <Spinner size="lg" className="text-muted-foreground" />
+            </div>
+          ))}
+
+        {/* History View */}
+        {viewMode === 'history' && <AuditHistory entries={history} />}
       </main>
     </div>
   )
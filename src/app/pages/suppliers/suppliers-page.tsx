@@ -1,7 +1,6 @@
 import { useCallback, useEffect, useMemo, useState } from 'react'
 import { toast } from 'sonner'
 import {
-  AlertTriangle,
   Building2,
   Edit3,
   Globe,
@@ -26,16 +25,6 @@ import {
   DialogDescription,
   DialogFooter,
 } from '@/components/ui/dialog'
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -50,15 +39,30 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { DeleteWithReferencesDialog } from '@/app/components/delete-with-references-dialog'
+import { EditConflictDialog } from '@/app/components/edit-conflict-dialog'
+import { SyncStatusBadge } from '@/app/components/sync-status-badge'
 import { WORKSPACES } from '@/app/contexts/workspace-context'
 import {
-  getCachedSuppliers,
-  createCachedSupplier,
-  updateCachedSupplier,
-  deleteCachedSupplier,
+  useDeleteSupplierWithReferences,
+  useSupplierReferences,
+} from '@/app/hooks/use-catalog-integrity'
+import { isTrashEnabled, useRestoreTrashedEntity } from '@/app/hooks/use-trash'
+import {
+  useCreateSupplier,
+  useSuppliers,
+  useUpdateSupplier,
+} from '@/app/hooks/use-suppliers'
+import { appPaths } from '@/app/router/paths'
+import {
   type CachedSupplier,
   type CreateCachedSupplierInput,
+  type UpdateCachedSupplierInput,
+  VersionConflictError,
+  getChangedFields,
+  getConflictingFields,
 } from '@/infrastructure/cache/catalog-cache'
+import type { ReferenceResolution } from '@/infrastructure/integrity/catalog-integrity'
 
 function formatDate(isoString: string): string {
   return new Date(isoString).toLocaleDateString(undefined, {
@@ -79,6 +83,47 @@ interface SupplierFormData {
   linkedWorkspaceId?: string
 }
 
+const EMPTY_SUPPLIER_FORM: SupplierFormData = {
+  name: '',
+  countryOfOrigin: '',
+  address: '',
+  contactEmail: '',
+  contactPhone: '',
+  website: '',
+  notes: '',
+  linkedWorkspaceId: 'none',
+}
+
+function toSupplierFormData(supplier: CachedSupplier): SupplierFormData {
+  return {
+    name: supplier.name,
+    countryOfOrigin: supplier.countryOfOrigin,
+    address: supplier.address || '',
+    contactEmail: supplier.contactEmail || '',
+    contactPhone: supplier.contactPhone || '',
+    website: supplier.website || '',
+    notes: supplier.notes || '',
+    linkedWorkspaceId: supplier.linkedWorkspaceId || 'none',
+  }
+}
+
+/** The form as it is saved: "none" unlinks the workspace. */
+function fromSupplierFormData(formData: SupplierFormData): SupplierFormData {
+  return {
+    ...formData,
+    linkedWorkspaceId:
+      formData.linkedWorkspaceId === 'none'
+        ? undefined
+        : formData.linkedWorkspaceId,
+  }
+}
+
+interface PendingSupplierConflict {
+  base: CachedSupplier
+  updates: UpdateCachedSupplierInput
+  current: CachedSupplier
+}
+
 function SupplierDialog({
   open,
   onOpenChange,
@@ -90,40 +135,12 @@ function SupplierDialog({
   supplier: CachedSupplier | null
   onSave: (data: SupplierFormData) => void
 }) {
-  const [formData, setFormData] = useState<SupplierFormData>({
-    name: '',
-    countryOfOrigin: '',
-    address: '',
-    contactEmail: '',
-    contactPhone: '',
-    website: '',
-    notes: '',
-    linkedWorkspaceId: 'none',
-  })
+  const [formData, setFormData] =
+    useState<SupplierFormData>(EMPTY_SUPPLIER_FORM)
 
   useEffect(() => {
-    if (open && supplier) {
-      setFormData({
-        name: supplier.name,
-        countryOfOrigin: supplier.countryOfOrigin,
-        address: supplier.address || '',
-        contactEmail: supplier.contactEmail || '',
-        contactPhone: supplier.contactPhone || '',
-        website: supplier.website || '',
-        notes: supplier.notes || '',
-        linkedWorkspaceId: supplier.linkedWorkspaceId || 'none',
-      })
-    } else if (open) {
-      setFormData({
-        name: '',
-        countryOfOrigin: '',
-        address: '',
-        contactEmail: '',
-        contactPhone: '',
-        website: '',
-        notes: '',
-        linkedWorkspaceId: 'none',
-      })
+    if (open) {
+      setFormData(supplier ? toSupplierFormData(supplier) : EMPTY_SUPPLIER_FORM)
     }
   }, [open, supplier])
 
@@ -137,12 +154,7 @@ function SupplierDialog({
       return
     }
 
-    const dataToSave = { ...formData }
-    if (dataToSave.linkedWorkspaceId === 'none') {
-      dataToSave.linkedWorkspaceId = undefined
-    }
-
-    onSave(dataToSave)
+    onSave(fromSupplierFormData(formData))
     onOpenChange(false)
   }
 
@@ -342,6 +354,7 @@ function SupplierCard({
           <div className="min-w-0">
             <div className="flex items-center gap-2">
               <h3 className="font-semibold">{supplier.name}</h3>
+              <SyncStatusBadge entityId={supplier.id} />
               {supplier.linkedWorkspaceId && (
                 <Badge
                   variant="outline"
@@ -445,17 +458,20 @@ function SupplierCard({
 }
 
 export function SuppliersPage() {
-  const [suppliers, setSuppliers] = useState<CachedSupplier[]>([])
+  const { data: supplierData } = useSuppliers()
+  const createSupplier = useCreateSupplier()
+  const updateSupplier = useUpdateSupplier()
+  const deleteSupplier = useDeleteSupplierWithReferences()
+  const { mutate: restoreSupplier } = useRestoreTrashedEntity()
   const [searchQuery, setSearchQuery] = useState('')
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editingSupplier, setEditingSupplier] = useState<CachedSupplier | null>(
     null
   )
   const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<PendingSupplierConflict | null>(null)
 
-  useEffect(() => {
-    setSuppliers(getCachedSuppliers())
-  }, [])
+  const suppliers = useMemo(() => supplierData ?? [], [supplierData])
 
   const filteredSuppliers = useMemo(() => {
     if (!searchQuery.trim()) return suppliers
@@ -480,43 +496,117 @@ export function SuppliersPage() {
     setDialogOpen(true)
   }, [])
 
+  /**
+   * Saves `updates` against the version of `base`. When someone else saved
+   * first and also changed one of those fields, the edit is parked in the
+   * conflict dialog instead.
+   */
+  const saveSupplierEdit = useCallback(
+    async (base: CachedSupplier, updates: UpdateCachedSupplierInput) => {
+      const save = (expectedVersion: number) =>
+        updateSupplier.mutateAsync({
+          supplierId: base.id,
+          updates,
+          expectedVersion,
+        })
+
+      try {
+        return await save(base.version)
+      } catch (error) {
+        if (!(error instanceof VersionConflictError)) throw error
+        const current = error.current as CachedSupplier
+        if (getConflictingFields(base, updates, current).length > 0) {
+          setConflict({ base, updates, current })
+          return 'conflict'
+        }
+        return save(current.version)
+      }
+    },
+    [updateSupplier]
+  )
+
   const handleSaveSupplier = useCallback(
-    (data: SupplierFormData) => {
-      if (editingSupplier) {
-        const updated = updateCachedSupplier(editingSupplier.id, data)
-        if (updated) {
-          setSuppliers((prev) =>
-            prev.map((s) => (s.id === updated.id ? updated : s))
+    async (data: SupplierFormData) => {
+      try {
+        if (editingSupplier) {
+          // Only what the form changed, so fields edited elsewhere are kept
+          const updates = getChangedFields(
+            fromSupplierFormData(toSupplierFormData(editingSupplier)),
+            data
           )
-          toast.success('Supplier updated')
+          const updated =
+            Object.keys(updates).length > 0
+              ? await saveSupplierEdit(editingSupplier, updates)
+              : editingSupplier
+          if (updated && updated !== 'conflict') {
+            toast.success('Supplier updated')
+          }
+        } else {
+          await createSupplier.mutateAsync(data as CreateCachedSupplierInput)
+          toast.success('Supplier added')
         }
-      } else {
-        const created = createCachedSupplier(data as CreateCachedSupplierInput)
-        setSuppliers((prev) => [created, ...prev])
-        toast.success('Supplier added')
+      } catch {
+        toast.error('Failed to save supplier')
       }
       setEditingSupplier(null)
     },
-    [editingSupplier]
+    [editingSupplier, createSupplier, saveSupplierEdit]
   )
 
-  const handleDeleteSupplier = useCallback(() => {
-    if (!deleteId) return
+  const handleResolveConflict = useCallback(
+    async (updates: UpdateCachedSupplierInput) => {
+      if (!conflict) return
+      setConflict(null)
+      const updated = await saveSupplierEdit(conflict.current, updates).catch(
+        () => null
+      )
+      if (!updated) {
+        toast.error('Failed to save supplier')
+      } else if (updated !== 'conflict') {
+        toast.success('Supplier updated')
+      }
+    },
+    [conflict, saveSupplierEdit]
+  )
 
-    const deleted = deleteCachedSupplier(deleteId)
-    if (deleted) {
-      setSuppliers((prev) => prev.filter((s) => s.id !== deleteId))
-      toast.success('Supplier deleted')
-    } else {
-      toast.error('Failed to delete supplier')
-    }
-    setDeleteId(null)
-  }, [deleteId])
+  const handleDiscardConflict = useCallback(() => {
+    setConflict(null)
+    toast.info('Your changes were discarded')
+  }, [])
+
+  const handleDeleteSupplier = useCallback(
+    async (resolution: ReferenceResolution | undefined) => {
+      if (!deleteId) return
+
+      const supplierId = deleteId
+      const deleted = await deleteSupplier
+        .mutateAsync({ entityId: supplierId, resolution })
+        .catch(() => false)
+      if (deleted && isTrashEnabled) {
+        toast.success('Supplier moved to trash', {
+          action: {
+            label: 'Undo',
+            onClick: () =>
+              restoreSupplier({ type: 'supplier', entityId: supplierId }),
+          },
+        })
+      } else if (deleted) {
+        toast.success('Supplier deleted')
+      } else {
+        toast.error('Failed to delete supplier')
+      }
+      setDeleteId(null)
+    },
+    [deleteId, deleteSupplier, restoreSupplier]
+  )
 
   const supplierToDelete = useMemo(
     () => suppliers.find((s) => s.id === deleteId),
     [suppliers, deleteId]
   )
+  const supplierReferences = useSupplierReferences(deleteId ?? undefined, {
+    includeTrashed: true,
+  })
 
   return (
     <div className="min-h-screen pb-16">
@@ -634,32 +724,34 @@ export function SuppliersPage() {
         onSave={handleSaveSupplier}
       />
 
+      <EditConflictDialog<CachedSupplier>
+        entityLabel="supplier"
+        conflict={conflict}
+        onResolve={handleResolveConflict}
+        onDiscard={handleDiscardConflict}
+      />
+
       {/* Delete Confirmation */}
-      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5 text-destructive" />
-              Delete Supplier
-            </AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to delete "{supplierToDelete?.name}"? This
-              action cannot be undone. Substances referencing this supplier will
-              keep their current data but won't be linked to this supplier
-              anymore.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleDeleteSupplier}
-              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-            >
-              Delete Supplier
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <DeleteWithReferencesDialog
+        open={!!deleteId}
+        onOpenChange={(open) => !open && setDeleteId(null)}
+        entityLabel="Supplier"
+        entityName={supplierToDelete?.name ?? ''}
+        references={supplierReferences.map(({ material, substanceNames }) => ({
+          id: material.id,
+          name: material.name,
+          detail: material.deletedAt
+            ? `${substanceNames.join(', ')} · in the trash`
+            : substanceNames.join(', '),
+          href: material.deletedAt
+            ? appPaths.trash()
+            : appPaths.component(material.id),
+        }))}
+        referenceLabel="component"
+        cascadeDescription="Keep the substances but unlink this supplier"
+        replacementOptions={suppliers.filter((s) => s.id !== deleteId)}
+        onConfirm={handleDeleteSupplier}
+      />
     </div>
   )
 }
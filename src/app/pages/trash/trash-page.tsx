@@ -0,0 +1,277 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import {
+  AlertTriangle,
+  Boxes,
+  Building2,
+  Layers,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react'
+
+import {
+  isTrashEnabled,
+  useEmptyTrash,
+  usePurgeTrashedEntity,
+  useRestoreTrashedEntity,
+  useTrash,
+} from '@/app/hooks/use-trash'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { env } from '@/config/env'
+import type {
+  TrashedCatalogEntity,
+  TrashedEntityType,
+} from '@/infrastructure/cache/catalog-cache'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const TYPE_LABELS: Record<TrashedEntityType, string> = {
+  product: 'Product',
+  material: 'Component',
+  supplier: 'Supplier',
+}
+
+const TYPE_ICONS: Record<TrashedEntityType, typeof Boxes> = {
+  product: Boxes,
+  material: Layers,
+  supplier: Building2,
+}
+
+function getDaysUntilPurge(deletedAt: string) {
+  const purgeAt =
+    new Date(deletedAt).getTime() + env.trash.retentionDays * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS))
+}
+
+function TrashRow({
+  item,
+  onRestore,
+  onPurge,
+}: {
+  item: TrashedCatalogEntity
+  onRestore: () => void
+  onPurge: () => void
+}) {
+  const Icon = TYPE_ICONS[item.type]
+  const daysLeft = getDaysUntilPurge(item.deletedAt)
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-border/60 bg-card/60 p-4">
+      <div className="flex min-w-0 items-center gap-4">
+        <div className="grid h-10 w-10 shrink-0 place-items-center rounded-xl bg-muted">
+          <Icon className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h3 className="truncate font-semibold">{item.entity.name}</h3>
+            <Badge variant="secondary" className="text-[10px]">
+              {TYPE_LABELS[item.type]}
+            </Badge>
+          </div>
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            Deleted {new Date(item.deletedAt).toLocaleString()} ·{' '}
+            {daysLeft === 0
+              ? 'removed on next start'
+              : `removed in ${daysLeft} day${daysLeft === 1 ? '' : 's'}`}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={onRestore}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          Restore
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1 text-destructive hover:text-destructive"
+          onClick={onPurge}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+          Delete forever
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function TrashPage() {
+  const { data: items = [] } = useTrash()
+  const restoreEntity = useRestoreTrashedEntity()
+  const purgeEntity = usePurgeTrashedEntity()
+  const emptyTrash = useEmptyTrash()
+  const [purgeTarget, setPurgeTarget] = useState<TrashedCatalogEntity | null>(
+    null
+  )
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false)
+
+  const handleRestore = (item: TrashedCatalogEntity) => {
+    restoreEntity.mutate(
+      { type: item.type, entityId: item.entity.id },
+      {
+        onSuccess: () => toast.success(`"${item.entity.name}" restored`),
+        onError: () => toast.error('Failed to restore item'),
+      }
+    )
+  }
+
+  const handlePurge = () => {
+    if (!purgeTarget) return
+    purgeEntity.mutate(
+      { type: purgeTarget.type, entityId: purgeTarget.entity.id },
+      {
+        onSuccess: () => toast.success('Deleted permanently'),
+        onError: () => toast.error('Failed to delete item'),
+      }
+    )
+    setPurgeTarget(null)
+  }
+
+  const handleEmptyTrash = () => {
+    emptyTrash.mutate(undefined, {
+      onSuccess: (count) =>
+        toast.success(`Deleted ${count} item${count === 1 ? '' : 's'}`),
+      onError: () => toast.error('Failed to empty trash'),
+    })
+    setIsEmptyDialogOpen(false)
+  }
+
+  return (
+    <div className="min-h-screen pb-16">
+      {/* Page Header */}
+      <div className="border-b border-border/50 bg-background/60 backdrop-blur-xl">
+        <div className="mx-auto max-w-5xl px-4 py-5 sm:px-6 lg:px-8">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <Badge
+                variant="secondary"
+                className="text-[10px] font-semibold uppercase tracking-wider"
+              >
+                Catalog
+              </Badge>
+              <h1 className="mt-1 text-2xl font-semibold tracking-tight sm:text-3xl">
+                Trash
+              </h1>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Deleted items are kept for {env.trash.retentionDays} days before
+                they are removed for good
+              </p>
+            </div>
+
+            {items.length > 0 && (
+              <Button
+                variant="outline"
+                className="gap-2 text-destructive hover:text-destructive"
+                onClick={() => setIsEmptyDialogOpen(true)}
+              >
+                <Trash2 className="h-4 w-4" />
+                Empty Trash
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Main content */}
+      <main className="mx-auto max-w-5xl px-4 py-6 sm:px-6 lg:px-8 lg:py-8">
+        {!isTrashEnabled && (
+          <div className="mb-4 rounded-2xl border border-amber-500/30 bg-amber-500/10 p-4 text-sm text-amber-700">
+            The catalog is served by the API, where deletes are final. Only
+            items deleted while working from the local cache show up here.
+          </div>
+        )}
+
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-2xl border-2 border-dashed border-border/60 py-16">
+            <Trash2 className="h-12 w-12 text-muted-foreground/40" />
+            <h2 className="mt-4 text-xl font-semibold">Trash is empty</h2>
+            <p className="mt-2 text-muted-foreground">
+              Deleted products, components and suppliers will appear here
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <TrashRow
+                key={`${item.type}:${item.entity.id}`}
+                item={item}
+                onRestore={() => handleRestore(item)}
+                onPurge={() => setPurgeTarget(item)}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Delete Forever Confirmation */}
+      <AlertDialog
+        open={!!purgeTarget}
+        onOpenChange={() => setPurgeTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Delete Forever
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              "{purgeTarget?.entity.name}" will be removed permanently. This
+              action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Empty Trash Confirmation */}
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Empty Trash
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              All {items.length} item{items.length === 1 ? '' : 's'} in the
+              trash will be removed permanently. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEmptyTrash}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Empty Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
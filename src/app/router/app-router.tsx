@@ -1,4 +1,4 @@
-import { Navigate, Route, Routes } from 'react-router-dom'
+import { Route, Routes } from 'react-router-dom'
 
 import { RootLayout } from '@/app/layouts/root-layout'
 import { CatalogPage } from '@/app/pages/catalog/catalog-page'
@@ -8,7 +8,10 @@ import { CreateMaterialPage } from '@/app/pages/materials/create-material'
 import { CreateProductPage } from '@/app/pages/products/create-product'
 import { ProductBuilderPage } from '@/app/pages/products/builder'
 import { ProductDetailPage } from '@/app/pages/products/product-detail'
+import { MaterialDeclarationPage } from '@/app/pages/products/material-declaration-page'
 import { SuppliersPage } from '@/app/pages/suppliers/suppliers-page'
+import { TrashPage } from '@/app/pages/trash/trash-page'
+import { FlowAnalyticsPage } from '@/app/pages/flows/flow-analytics'
 import { FlowPickerPage } from '@/app/pages/flows/flow-picker'
 import { CreateProductV2Page } from '@/app/pages/flows/v2/create-product-v2'
 import { CreateComponentV2Page } from '@/app/pages/flows/v2/create-component-v2'
@@ -22,126 +25,53 @@ import { ApprovalDetailsPage } from '@/app/pages/approvals/approval-details-page
 import { OrdersPage } from '@/app/pages/orders/orders-page'
 import { OrderDetailsPage } from '@/app/pages/orders/order-details-page'
 import { DashboardPage } from '@/app/pages/dashboard/dashboard-page'
+import { SvhcScreeningPage } from '@/app/pages/compliance/svhc-screening-page'
 import { WorkspaceProvider } from '@/app/contexts/workspace-context'
+import { AuthProvider } from '@/app/contexts/auth-context'
+import { FlowRoute, LegacyVariantRedirect } from '@/app/router/flow-route'
+import { RequireAuth } from '@/app/router/require-auth'
+import { FLOW_VARIANT_IDS } from '@/infrastructure/flags/feature-flags'
+
+const CREATE_PRODUCT_PAGES = {
+  v1: CreateProductPage,
+  v2: CreateProductV2Page,
+  v3: CreateProductV3Page,
+  v4: CreateProductV4Page,
+}
+
+const CREATE_COMPONENT_PAGES = {
+  v1: CreateMaterialPage,
+  v2: CreateComponentV2Page,
+  v3: CreateComponentV3Page,
+  v4: CreateComponentV4Page,
+}
 
 function AppRoutes() {
   return (
     <Routes>
-      {/* Redirect root to flows page */}
-      <Route path="/" element={<Navigate to="/flows" replace />} />
-
-      {/* Flow Picker - entry point for comparing variants */}
+      {/* Flow Picker - chooses the creation flow variant */}
       <Route path="flows" element={<FlowPickerPage />} />
+      <Route path="flows/analytics" element={<FlowAnalyticsPage />} />
 
-      {/* V1 - Current flow (Mode Picker) */}
-      <Route path="v1" element={<RootLayout />}>
-        <Route index element={<DashboardPage />} />
-        <Route path="catalog" element={<CatalogPage />} />
-        <Route path="catalog/products/create" element={<CreateProductPage />} />
-        <Route
-          path="catalog/products/builder"
-          element={<ProductBuilderPage />}
-        />
+      {/* Bookmarks from when each variant had its own route tree */}
+      {FLOW_VARIANT_IDS.map((variant) => (
         <Route
-          path="catalog/products/:productId"
-          element={<ProductDetailPage />}
+          key={variant}
+          path={`${variant}/*`}
+          element={<LegacyVariantRedirect variant={variant} />}
         />
-        <Route
-          path="catalog/products/:productId/bom"
-          element={<ManageBOMPage />}
-        />
-        <Route
-          path="catalog/components/create"
-          element={<CreateMaterialPage />}
-        />
-        <Route
-          path="catalog/components/:componentId"
-          element={<ComponentDetailPage />}
-        />
-        <Route path="suppliers" element={<SuppliersPage />} />
-        <Route path="approvals" element={<ApprovalsPage />} />
-        <Route path="approvals/:id" element={<ApprovalDetailsPage />} />
-        <Route path="orders" element={<OrdersPage />} />
-        <Route path="orders/:id" element={<OrderDetailsPage />} />
-      </Route>
-
-      {/* V2 - Single Page flow */}
-      <Route path="v2" element={<RootLayout />}>
-        <Route index element={<DashboardPage />} />
-        <Route path="catalog" element={<CatalogPage />} />
-        <Route
-          path="catalog/products/create"
-          element={<CreateProductV2Page />}
-        />
-        <Route
-          path="catalog/products/builder"
-          element={<ProductBuilderPage />}
-        />
-        <Route
-          path="catalog/products/:productId"
-          element={<ProductDetailPage />}
-        />
-        <Route
-          path="catalog/products/:productId/bom"
-          element={<ManageBOMPage />}
-        />
-        <Route
-          path="catalog/components/create"
-          element={<CreateComponentV2Page />}
-        />
-        <Route
-          path="catalog/components/:componentId"
-          element={<ComponentDetailPage />}
-        />
-        <Route path="suppliers" element={<SuppliersPage />} />
-        <Route path="approvals" element={<ApprovalsPage />} />
-        <Route path="approvals/:id" element={<ApprovalDetailsPage />} />
-        <Route path="orders" element={<OrdersPage />} />
-        <Route path="orders/:id" element={<OrderDetailsPage />} />
-      </Route>
+      ))}
 
-      {/* V3 - Conversational flow */}
-      <Route path="v3" element={<RootLayout />}>
+      <Route element={<RootLayout />}>
         <Route index element={<DashboardPage />} />
         <Route path="catalog" element={<CatalogPage />} />
         <Route
           path="catalog/products/create"
-          element={<CreateProductV3Page />}
-        />
-        <Route
-          path="catalog/products/builder"
-          element={<ProductBuilderPage />}
-        />
-        <Route
-          path="catalog/products/:productId"
-          element={<ProductDetailPage />}
-        />
-        <Route
-          path="catalog/products/:productId/bom"
-          element={<ManageBOMPage />}
+          element={<FlowRoute pages={CREATE_PRODUCT_PAGES} />}
         />
         <Route
-          path="catalog/components/create"
-          element={<CreateComponentV3Page />}
-        />
-        <Route
-          path="catalog/components/:componentId"
-          element={<ComponentDetailPage />}
-        />
-        <Route path="suppliers" element={<SuppliersPage />} />
-        <Route path="approvals" element={<ApprovalsPage />} />
-        <Route path="approvals/:id" element={<ApprovalDetailsPage />} />
-        <Route path="orders" element={<OrdersPage />} />
-        <Route path="orders/:id" element={<OrderDetailsPage />} />
-      </Route>
-
-      {/* V4 - Template flow */}
-      <Route path="v4" element={<RootLayout />}>
-        <Route index element={<DashboardPage />} />
-        <Route path="catalog" element={<CatalogPage />} />
-        <Route
-          path="catalog/products/create"
-          element={<CreateProductV4Page />}
+          path="catalog/products/create/custom"
+          element={<CreateProductPage />}
         />
         <Route
           path="catalog/products/builder"
@@ -156,67 +86,51 @@ function AppRoutes() {
           element={<ManageBOMPage />}
         />
         <Route
-          path="catalog/components/create"
-          element={<CreateComponentV4Page />}
-        />
-        <Route
-          path="catalog/components/:componentId"
-          element={<ComponentDetailPage />}
-        />
-        <Route path="suppliers" element={<SuppliersPage />} />
-        <Route path="approvals" element={<ApprovalsPage />} />
-        <Route path="approvals/:id" element={<ApprovalDetailsPage />} />
-        <Route path="orders" element={<OrdersPage />} />
-        <Route path="orders/:id" element={<OrderDetailsPage />} />
-      </Route>
-
-      {/* Default routes (same as V1) */}
-      <Route element={<RootLayout />}>
-        <Route index element={<DashboardPage />} />
-        <Route path="catalog" element={<CatalogPage />} />
-        <Route path="catalog/products/create" element={<CreateProductPage />} />
-        <Route
-          path="catalog/products/builder"
-          element={<ProductBuilderPage />}
-        />
-        <Route
-          path="catalog/products/:productId"
-          element={<ProductDetailPage />}
-        />
-        <Route
-          path="catalog/products/:productId/bom"
-          element={<ManageBOMPage />}
+          path="catalog/products/:productId/declaration"
+          element={<MaterialDeclarationPage />}
         />
         <Route
           path="catalog/components/create"
-          element={<CreateMaterialPage />}
+          element={<FlowRoute pages={CREATE_COMPONENT_PAGES} />}
         />
         <Route
           path="catalog/components/:componentId"
           element={<ComponentDetailPage />}
         />
         <Route path="suppliers" element={<SuppliersPage />} />
+        <Route path="trash" element={<TrashPage />} />
         <Route path="approvals" element={<ApprovalsPage />} />
         <Route path="approvals/:id" element={<ApprovalDetailsPage />} />
         <Route path="orders" element={<OrdersPage />} />
         <Route path="orders/:id" element={<OrderDetailsPage />} />
+        <Route path="compliance/svhc" element={<SvhcScreeningPage />} />
 
         {/* Legacy routes - redirect to catalog */}
         <Route path="products" element={<CatalogPage />} />
-        <Route path="products/create" element={<CreateProductPage />} />
+        <Route
+          path="products/create"
+          element={<FlowRoute pages={CREATE_PRODUCT_PAGES} />}
+        />
         <Route path="products/:productId/bom" element={<ManageBOMPage />} />
         <Route path="materials" element={<CatalogPage />} />
-        <Route path="materials/create" element={<CreateMaterialPage />} />
+        <Route
+          path="materials/create"
+          element={<FlowRoute pages={CREATE_COMPONENT_PAGES} />}
+        />
       </Route>
     </Routes>
   )
 }
 
 export function AppRouter() {
-  // Auth disabled - go directly to app
+  // Every route requires sign-in once Azure AD B2C is configured
   return (
-    <WorkspaceProvider>
-      <AppRoutes />
-    </WorkspaceProvider>
+    <AuthProvider>
+      <RequireAuth>
+        <WorkspaceProvider>
+          <AppRoutes />
+        </WorkspaceProvider>
+      </RequireAuth>
+    </AuthProvider>
   )
 }
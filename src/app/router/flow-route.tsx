@@ -0,0 +1,41 @@
+import { useEffect, type ComponentType } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+
+import { useFeatureFlags } from '@/app/hooks/use-feature-flags'
+import type { FlowVariant } from '@/infrastructure/analytics/flow-analytics'
+
+import { stripVariantPrefix } from './paths'
+
+/** Renders the page of the creation flow picked by the `creationFlow` flag. */
+export function FlowRoute({
+  pages,
+}: {
+  pages: Record<FlowVariant, ComponentType>
+}) {
+  const { flags } = useFeatureFlags()
+  const Page = pages[flags.creationFlow]
+  return <Page />
+}
+
+/**
+ * Old `/v1`–`/v4` URLs: remembers the variant as the user's choice, then
+ * continues to the same page in the canonical tree.
+ */
+export function LegacyVariantRedirect({ variant }: { variant: FlowVariant }) {
+  const location = useLocation()
+  const navigate = useNavigate()
+  const { setFlag } = useFeatureFlags()
+
+  useEffect(() => {
+    setFlag('user', 'creationFlow', variant)
+    navigate(
+      {
+        pathname: stripVariantPrefix(location.pathname),
+        search: location.search,
+      },
+      { replace: true }
+    )
+  }, [setFlag, variant, navigate, location.pathname, location.search])
+
+  return null
+}
@@ -0,0 +1,35 @@
+/**
+ * Canonical app URLs. There is one route tree for every creation flow
+ * variant: the variant is a feature flag read where the create pages render
+ * (see FlowRoute), so links never carry a `/v1`–`/v4` prefix.
+ */
+export const appPaths = {
+  dashboard: () => '/',
+  catalog: () => '/catalog',
+  productCreate: () => '/catalog/products/create',
+  /** The full wizard, for leaving a variant's shortcut (e.g. templates). */
+  productCreateCustom: () => '/catalog/products/create/custom',
+  productBuilder: () => '/catalog/products/builder',
+  product: (productId: string) => `/catalog/products/${productId}`,
+  productBom: (productId: string) => `/catalog/products/${productId}/bom`,
+  productDeclaration: (productId: string) =>
+    `/catalog/products/${productId}/declaration`,
+  componentCreate: () => '/catalog/components/create',
+  component: (componentId: string) => `/catalog/components/${componentId}`,
+  suppliers: () => '/suppliers',
+  trash: () => '/trash',
+  approvals: () => '/approvals',
+  approval: (approvalId: string) => `/approvals/${approvalId}`,
+  orders: () => '/orders',
+  order: (orderId: string) => `/orders/${orderId}`,
+  flows: () => '/flows',
+  flowAnalytics: () => '/flows/analytics',
+  svhcScreening: () => '/compliance/svhc',
+}
+
+const LEGACY_VARIANT_PREFIX = /^\/(v[1-4])(?=\/|$)/
+
+/** `/v3/catalog?x=1` → `/catalog?x=1`, for old bookmarks. */
+export function stripVariantPrefix(path: string): string {
+  return path.replace(LEGACY_VARIANT_PREFIX, '') || '/'
+}
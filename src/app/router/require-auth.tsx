@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react'
+import { ShieldAlert } from 'lucide-react'
+
+import { useAuth } from '@/app/hooks/use-auth'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+
+/** Renders its children only for signed-in users, redirecting the rest. */
+export function RequireAuth({ children }: { children: React.ReactNode }) {
+  const { isEnabled, isLoading, isAuthenticated, error, signIn } = useAuth()
+  const shouldRedirect = isEnabled && !isLoading && !isAuthenticated && !error
+
+  useEffect(() => {
+    if (shouldRedirect) void signIn()
+  }, [shouldRedirect, signIn])
+
+  if (!isEnabled || isAuthenticated) {
+    return <>{children}</>
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <ShieldAlert className="mx-auto h-12 w-12 text-muted-foreground/40" />
+          <h2 className="mt-4 text-xl font-semibold">Sign-in failed</h2>
+          <p className="mt-2 text-muted-foreground">{error.message}</p>
+          <Button variant="outline" className="mt-6" onClick={() => signIn()}>
+            Try again
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <Spinner size="lg" className="text-muted-foreground" />
+    </div>
+  )
+}
@@ -1,10 +1,12 @@
 import * as React from 'react'
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import type { UseFormReturn } from 'react-hook-form'
 import { FormProvider } from 'react-hook-form'
 import { useNavigate } from 'react-router-dom'
 import { ArrowLeft, ArrowRight, Check, X } from 'lucide-react'
 
+import type { FlowAnalytics } from '@/app/hooks/use-flow-analytics'
+import { appPaths } from '@/app/router/paths'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { Spinner } from '@/components/ui/spinner'
@@ -32,6 +34,8 @@ interface CreationFlowProps {
   hasDraft?: boolean
   onSaveDraft?: () => void
   onDiscardDraft?: () => void
+  /** Steps reached and validation failures; the page reports completion. */
+  analytics?: FlowAnalytics
 }
 
 export function CreationFlow({
@@ -43,11 +47,12 @@ export function CreationFlow({
   onCancel,
   isSubmitting = false,
   submitLabel = 'Create',
-  backPath = '/',
+  backPath = appPaths.dashboard(),
   sidebarPanel,
   hasDraft = false,
   onSaveDraft,
   onDiscardDraft,
+  analytics,
 }: CreationFlowProps) {
   const navigate = useNavigate()
   const [currentStep, setCurrentStep] = useState(0)
@@ -57,6 +62,21 @@ export function CreationFlow({
   const isFirstStep = currentStep === 0
   const isLastStep = currentStep === steps.length - 1
   const progressPercentage = ((currentStep + 1) / steps.length) * 100
+  const currentStepId = steps[currentStep]?.id
+
+  useEffect(() => {
+    if (currentStepId) analytics?.trackStep(currentStepId)
+  }, [analytics, currentStepId])
+
+  const trackInvalidStep = useCallback(
+    (stepId: string) => {
+      analytics?.trackValidationErrors(
+        stepId,
+        Object.keys(form.formState.errors)
+      )
+    },
+    [analytics, form]
+  )
 
   const handleCancel = useCallback(() => {
     if (onCancel) {
@@ -80,6 +100,7 @@ export function CreationFlow({
       try {
         const isValid = await step.validate()
         if (!isValid) {
+          trackInvalidStep(step.id)
           setIsValidating(false)
           return
         }
@@ -99,7 +120,7 @@ export function CreationFlow({
     if (currentStep < steps.length - 1) {
       setCurrentStep(currentStep + 1)
     }
-  }, [currentStep, steps])
+  }, [currentStep, steps, trackInvalidStep])
 
   const handleStepClick = useCallback(
     (index: number) => {
@@ -118,6 +139,7 @@ export function CreationFlow({
       try {
         const isValid = await step.validate()
         if (!isValid) {
+          trackInvalidStep(step.id)
           setIsValidating(false)
           return
         }
@@ -128,8 +150,10 @@ export function CreationFlow({
       setIsValidating(false)
     }
 
-    form.handleSubmit(onSubmit)()
-  }, [currentStep, steps, form, onSubmit])
+    form.handleSubmit(onSubmit, (errors) =>
+      analytics?.trackValidationErrors(step.id, Object.keys(errors))
+    )()
+  }, [currentStep, steps, form, onSubmit, analytics, trackInvalidStep])
 
   const currentStepData = useMemo(() => steps[currentStep], [steps, currentStep])
 
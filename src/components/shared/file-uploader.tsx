@@ -4,6 +4,7 @@ import { Upload, X, FileText, File as FileIcon } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Spinner } from '@/components/ui/spinner'
+import { logger } from '@/lib/logger'
 
 export interface UploadedFile {
   id: string
@@ -82,7 +83,7 @@ export function FileUploader({
             const uploaded = await onUpload(file)
             newFiles.push(uploaded)
           } catch (error) {
-            console.error('Failed to upload file:', error)
+            logger.error('Failed to upload file', error)
           }
         } else {
           newFiles.push({
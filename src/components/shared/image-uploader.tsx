@@ -4,6 +4,7 @@ import { Upload, X, Image as ImageIcon, GripVertical } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { Spinner } from '@/components/ui/spinner'
+import { logger } from '@/lib/logger'
 
 export interface ImageFile {
   id: string
@@ -68,7 +69,7 @@ export function ImageUploader({
             const uploaded = await onUpload(file)
             newImages.push(uploaded)
           } catch (error) {
-            console.error('Failed to upload image:', error)
+            logger.error('Failed to upload image', error)
           }
         } else {
           // Local preview without upload
@@ -1,6 +1,8 @@
 import { Link } from 'react-router-dom'
 import { CheckCircle2, ArrowRight, Workflow, Eye } from 'lucide-react'
 
+import { appPaths } from '@/app/router/paths'
+
 interface PostCreationPromptProps {
   entityType: 'product' | 'component'
   entityName: string
@@ -81,7 +83,7 @@ export function PostCreationPrompt({
           </button>
 
           <Link
-            to="/catalog"
+            to={appPaths.catalog()}
             className="group flex w-full items-center gap-4 rounded-2xl border-2 border-border/60 bg-card/50 p-5 text-left transition-all hover:border-border hover:bg-card"
           >
             <div className="flex-1">
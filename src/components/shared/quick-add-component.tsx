@@ -26,7 +26,9 @@ import {
   FormDescription,
   FormMessage,
 } from '@/components/ui/form'
-import { createCachedMaterial } from '@/infrastructure/cache/catalog-cache'
+import { useCreateMaterial } from '@/app/hooks/use-materials'
+import { appPaths } from '@/app/router/paths'
+import { logger } from '@/lib/logger'
 import { PostCreationPrompt } from './post-creation-prompt'
 
 const quickComponentSchema = z.object({
@@ -68,6 +70,7 @@ interface QuickAddComponentProps {
 export function QuickAddComponent({
   onCancel,
 }: QuickAddComponentProps) {
+  const { mutateAsync: createMaterial } = useCreateMaterial()
   const navigate = useNavigate()
   const [createdComponent, setCreatedComponent] = useState<CreatedComponent | null>(null)
 
@@ -85,7 +88,7 @@ export function QuickAddComponent({
   const handleSubmit = useCallback(
     async (data: QuickComponentFormData) => {
       try {
-        const created = createCachedMaterial({
+        const created = await createMaterial({
           ...data,
           weight: 0,
           length: undefined,
@@ -99,11 +102,11 @@ export function QuickAddComponent({
         toast.success(`"${created.name}" created successfully`)
         setCreatedComponent({ id: created.id, name: created.name })
       } catch (error) {
-        console.error('Failed to create component:', error)
+        logger.error('Failed to create component', error)
         toast.error('Unable to create component. Please try again.')
       }
     },
-    []
+    [createMaterial]
   )
 
   // Show post-creation prompt after component is created
@@ -113,8 +116,8 @@ export function QuickAddComponent({
         entityType="component"
         entityName={createdComponent.name}
         entityId={createdComponent.id}
-        onViewDetails={() => navigate(`/catalog/components/${createdComponent.id}`)}
-        onGoToCatalog={() => navigate('/catalog')}
+        onViewDetails={() => navigate(appPaths.component(createdComponent.id))}
+        onGoToCatalog={() => navigate(appPaths.catalog())}
       />
     )
   }
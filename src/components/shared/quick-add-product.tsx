@@ -24,7 +24,9 @@ import {
   FormControl,
   FormMessage,
 } from '@/components/ui/form'
-import { createCachedProduct } from '@/infrastructure/cache/catalog-cache'
+import { useCreateProduct } from '@/app/hooks/use-products'
+import { appPaths } from '@/app/router/paths'
+import { logger } from '@/lib/logger'
 import { PostCreationPrompt } from './post-creation-prompt'
 
 const quickProductSchema = z.object({
@@ -55,6 +57,7 @@ interface QuickAddProductProps {
 }
 
 export function QuickAddProduct({ onCancel }: QuickAddProductProps) {
+  const { mutateAsync: createProduct } = useCreateProduct()
   const navigate = useNavigate()
   const [createdProduct, setCreatedProduct] = useState<CreatedProduct | null>(null)
 
@@ -77,7 +80,7 @@ export function QuickAddProduct({ onCancel }: QuickAddProductProps) {
   const handleSubmit = useCallback(
     async (data: QuickProductFormData) => {
       try {
-        const created = createCachedProduct({
+        const created = await createProduct({
           ...data,
           sku: '',
           description: '',
@@ -95,11 +98,11 @@ export function QuickAddProduct({ onCancel }: QuickAddProductProps) {
         toast.success(`"${created.name}" created successfully`)
         setCreatedProduct({ id: created.id, name: created.name })
       } catch (error) {
-        console.error('Failed to create product:', error)
+        logger.error('Failed to create product', error)
         toast.error('Unable to create product. Please try again.')
       }
     },
-    []
+    [createProduct]
   )
 
   // Show post-creation prompt after product is created
@@ -109,9 +112,9 @@ export function QuickAddProduct({ onCancel }: QuickAddProductProps) {
         entityType="product"
         entityName={createdProduct.name}
         entityId={createdProduct.id}
-        onAddBom={() => navigate(`/catalog/products/${createdProduct.id}/bom`)}
-        onViewDetails={() => navigate(`/catalog/products/${createdProduct.id}`)}
-        onGoToCatalog={() => navigate('/catalog')}
+        onAddBom={() => navigate(appPaths.productBom(createdProduct.id))}
+        onViewDetails={() => navigate(appPaths.product(createdProduct.id))}
+        onGoToCatalog={() => navigate(appPaths.catalog())}
       />
     )
   }
@@ -0,0 +1,173 @@
+import { useId, useMemo, useState, type KeyboardEvent } from 'react'
+
+import { Input, type InputProps } from '@/components/ui/input'
+import {
+  getCasNumberError,
+  normalizeCasNumber,
+} from '@/infrastructure/substances/cas-number'
+import {
+  findSubstanceByCas,
+  findSubstanceByName,
+  searchSubstances,
+  type SubstanceEntry,
+} from '@/infrastructure/substances/substance-dictionary'
+import { cn } from '@/lib/utils'
+
+interface SubstanceLookupInputProps extends Omit<
+  InputProps,
+  'value' | 'onChange' | 'error'
+> {
+  /** Which half of the pair this input edits. */
+  lookup: 'name' | 'casNumber'
+  value: string
+  onValueChange: (value: string) => void
+  /** Fill in both the name and the CAS number from the dictionary. */
+  onSubstanceSelect: (entry: SubstanceEntry) => void
+  /**
+   * The other field's value. When it is empty and this one exactly matches a
+   * dictionary entry on blur, the entry is selected so the pair completes,
+   * keeping the name as typed (it may be a synonym).
+   */
+  counterpartValue?: string
+  /** `border` only marks an invalid CAS number, for tight table rows. */
+  errorDisplay?: 'message' | 'border'
+}
+
+/**
+ * Name or CAS number field that suggests substances from the bundled
+ * dictionary and flags CAS numbers whose check digit is wrong.
+ */
+export function SubstanceLookupInput({
+  lookup,
+  value,
+  onValueChange,
+  onSubstanceSelect,
+  counterpartValue,
+  errorDisplay = 'message',
+  className,
+  onBlur,
+  onFocus,
+  ...props
+}: SubstanceLookupInputProps) {
+  const listId = useId()
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const suggestions = useMemo(
+    () => (isOpen ? searchSubstances(value) : []),
+    [isOpen, value]
+  )
+  const casError = lookup === 'casNumber' ? getCasNumberError(value) : null
+
+  const select = (entry: SubstanceEntry) => {
+    onSubstanceSelect(entry)
+    setIsOpen(false)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault()
+      const step = event.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex(
+        (index) => (index + step + suggestions.length) % suggestions.length
+      )
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      select(suggestions[Math.min(activeIndex, suggestions.length - 1)])
+    } else if (event.key === 'Escape') {
+      setIsOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative">
+      <Input
+        {...props}
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-invalid={Boolean(casError)}
+        autoComplete="off"
+        value={value}
+        error={Boolean(casError)}
+        title={casError ?? props.title}
+        className={cn(
+          lookup === 'casNumber' && 'font-mono',
+          className,
+          // Callers may override the border; an invalid CAS must still show
+          casError && 'border-destructive hover:border-destructive'
+        )}
+        onChange={(event) => {
+          onValueChange(event.target.value)
+          setActiveIndex(0)
+          setIsOpen(true)
+        }}
+        onFocus={(event) => {
+          setIsOpen(true)
+          onFocus?.(event)
+        }}
+        onBlur={(event) => {
+          setIsOpen(false)
+          if (lookup === 'casNumber') {
+            const normalized = normalizeCasNumber(value)
+            if (normalized !== value) onValueChange(normalized)
+          }
+          if (!counterpartValue?.trim()) {
+            const match =
+              lookup === 'casNumber'
+                ? findSubstanceByCas(value)
+                : findSubstanceByName(value)
+            if (match) {
+              onSubstanceSelect(
+                lookup === 'name' ? { ...match, name: value.trim() } : match
+              )
+            }
+          }
+          onBlur?.(event)
+        }}
+        onKeyDown={handleKeyDown}
+      />
+
+      {suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 top-full z-50 mt-1 max-h-64 w-max min-w-full max-w-sm overflow-y-auto rounded-xl border border-border bg-popover p-1 text-popover-foreground shadow-lg"
+        >
+          {suggestions.map((entry, index) => (
+            <li
+              key={entry.casNumber}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keeps focus in the input so blur does not close the list first
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => select(entry)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'cursor-pointer rounded-lg px-3 py-2 text-sm',
+                index === activeIndex && 'bg-secondary'
+              )}
+            >
+              <div className="font-medium">{entry.name}</div>
+              <div className="font-mono text-xs text-muted-foreground">
+                CAS {entry.casNumber}
+                {entry.ecNumber && ` · EC ${entry.ecNumber}`}
+              </div>
+              {entry.synonyms.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  {entry.synonyms.join(', ')}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {casError && errorDisplay === 'message' && (
+        <p className="mt-1 text-xs text-destructive">{casError}</p>
+      )}
+    </div>
+  )
+}
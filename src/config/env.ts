@@ -1,5 +1,8 @@
 import { z } from 'zod'
 
+import type { FlowVariant } from '@/infrastructure/analytics/flow-analytics'
+import type { LogLevel } from '@/lib/logger'
+
 const envSchema = z.object({
   VITE_AZURE_ADB2C_CLIENT_ID: z.string().min(1, 'Azure AD B2C Client ID is required'),
   VITE_AZURE_ADB2C_AUTHORITY: z.string().min(1, 'Azure AD B2C Authority is required'),
@@ -7,36 +10,118 @@ const envSchema = z.object({
   VITE_AZURE_ADB2C_REDIRECT_URI: z.string().default('/'),
   VITE_AZURE_ADB2C_SCOPE: z.string().default('openid'),
   VITE_API_BASE_URL: z.string().optional(),
+  VITE_TRASH_RETENTION_DAYS: z.coerce.number().int().positive().optional(),
+  VITE_CERTIFICATE_EXPIRY_WINDOW_DAYS: z.coerce.number().int().positive().optional(),
+  VITE_LOG_ENDPOINT: z.string().optional(),
+  VITE_LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+  VITE_DEFAULT_CREATION_FLOW: z.enum(['v1', 'v2', 'v3', 'v4']).optional(),
+  VITE_FEATURE_FLAGS_URL: z.string().optional(),
 })
 
-function validateEnv() {
-  if (import.meta.env.DEV) {
-    const result = envSchema.safeParse(import.meta.env)
-    if (!result.success) {
-      console.warn(
-        'Environment validation warnings:',
-        result.error.flatten().fieldErrors
-      )
-    }
-    return
+type EnvValues = Record<string, unknown>
+
+// Served by server.js / server.cjs / nginx-config-json.sh from process env
+const RUNTIME_CONFIG_URL = '/config.json'
+
+function createEnv(values: EnvValues) {
+  const read = (name: keyof z.infer<typeof envSchema>) =>
+    typeof values[name] === 'string' ? (values[name] as string) : ''
+
+  return {
+    azure: {
+      clientId: read('VITE_AZURE_ADB2C_CLIENT_ID'),
+      authority: read('VITE_AZURE_ADB2C_AUTHORITY'),
+      knownAuthority: read('VITE_AZURE_ADB2C_KNOWN_AUTHORITY'),
+      redirectUri: read('VITE_AZURE_ADB2C_REDIRECT_URI') || '/',
+      scope: read('VITE_AZURE_ADB2C_SCOPE') || 'openid',
+    },
+    api: {
+      baseUrl: read('VITE_API_BASE_URL'),
+    },
+    trash: {
+      // Days a deleted product, material or supplier stays restorable
+      retentionDays: Number(read('VITE_TRASH_RETENTION_DAYS')) || 30,
+    },
+    certificates: {
+      // Days before expiry a certificate is flagged as expiring soon
+      expiryWindowDays: Number(read('VITE_CERTIFICATE_EXPIRY_WINDOW_DAYS')) || 60,
+    },
+    logging: {
+      // Where batched client logs are POSTed; empty keeps them in the browser
+      endpoint: read('VITE_LOG_ENDPOINT'),
+      level: (read('VITE_LOG_LEVEL') || 'info') as LogLevel,
+    },
+    flags: {
+      defaultCreationFlow: (read('VITE_DEFAULT_CREATION_FLOW') || 'v1') as FlowVariant,
+      // Optional JSON of remote overrides; see refreshRemoteFlags()
+      url: read('VITE_FEATURE_FLAGS_URL'),
+    },
+    isDev: import.meta.env.DEV,
+    isProd: import.meta.env.PROD,
   }
+}
+
+/**
+ * Build-time values until loadEnv() resolves. Several modules read it while
+ * they load, so main.tsx imports them only after that.
+ */
+export const env = createEnv(import.meta.env)
+
+export type EnvLoadResult =
+  | { success: true }
+  | {
+      success: false
+      source: 'build' | 'runtime'
+      fieldErrors: Record<string, string[] | undefined>
+    }
+
+/** Non-empty string values from /config.json; anything else is ignored. */
+function pickRuntimeValues(config: unknown): EnvValues {
+  if (!config || typeof config !== 'object') return {}
+  return Object.fromEntries(
+    Object.entries(config).filter(
+      ([name, value]) =>
+        name in envSchema.shape &&
+        typeof value === 'string' &&
+        value !== ''
+    )
+  )
+}
 
-  envSchema.parse(import.meta.env)
+async function fetchRuntimeConfig(): Promise<EnvValues | null> {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' })
+    if (!response.ok) return null
+    return pickRuntimeValues(await response.json())
+  } catch {
+    // Static hosts without the endpoint answer with index.html
+    return null
+  }
 }
 
-validateEnv()
-
-export const env = {
-  azure: {
-    clientId: import.meta.env.VITE_AZURE_ADB2C_CLIENT_ID || '',
-    authority: import.meta.env.VITE_AZURE_ADB2C_AUTHORITY || '',
-    knownAuthority: import.meta.env.VITE_AZURE_ADB2C_KNOWN_AUTHORITY || '',
-    redirectUri: import.meta.env.VITE_AZURE_ADB2C_REDIRECT_URI || '/',
-    scope: import.meta.env.VITE_AZURE_ADB2C_SCOPE || 'openid',
-  },
-  api: {
-    baseUrl: import.meta.env.VITE_API_BASE_URL || '',
-  },
-  isDev: import.meta.env.DEV,
-  isProd: import.meta.env.PROD,
+/**
+ * Overlays the runtime config served at /config.json on the build-time
+ * values and validates the result. Development keeps the old behaviour of
+ * warning only, since the dev server has no runtime config.
+ */
+export async function loadEnv(): Promise<EnvLoadResult> {
+  const runtimeValues = import.meta.env.DEV ? null : await fetchRuntimeConfig()
+  const values = { ...import.meta.env, ...runtimeValues }
+
+  const result = envSchema.safeParse(values)
+  if (!result.success) {
+    const fieldErrors = result.error.flatten().fieldErrors
+    if (import.meta.env.DEV) {
+      console.warn('Environment validation warnings:', fieldErrors)
+    } else {
+      return {
+        success: false,
+        source: runtimeValues ? 'runtime' : 'build',
+        fieldErrors,
+      }
+    }
+  }
+
+  Object.assign(env, createEnv(values))
+  return { success: true }
 }
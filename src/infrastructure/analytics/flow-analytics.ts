@@ -0,0 +1,325 @@
+import { logger } from '@/lib/logger'
+
+export const FLOW_ANALYTICS_STORAGE_KEY = 't4s.user-ui-v2.flow-analytics.v1'
+
+// Oldest sessions are dropped first
+const MAX_SESSIONS = 500
+// Sessions still active after this long lost their tab without a pagehide
+const STALE_SESSION_MS = 2 * 60 * 60 * 1000
+
+export type FlowVariant = 'v1' | 'v2' | 'v3' | 'v4'
+
+export type FlowEntity = 'product' | 'component'
+
+/**
+ * `active` sessions are open in some tab. A session that ends without a
+ * successful create, or whose tab went away without saying so, counts as
+ * `abandoned`.
+ */
+export type FlowSessionOutcome = 'active' | 'completed' | 'abandoned'
+
+export interface FlowValidationError {
+  stepId: string
+  fields: string[]
+  at: string
+}
+
+export interface FlowSession {
+  id: string
+  variant: FlowVariant
+  entity: FlowEntity
+  startedAt: string
+  endedAt?: string
+  outcome: FlowSessionOutcome
+  /** Step ids in the order they were first reached. */
+  stepsReached: string[]
+  lastStepId?: string
+  validationErrors: FlowValidationError[]
+}
+
+type FlowAnalyticsListener = () => void
+
+const listeners = new Set<FlowAnalyticsListener>()
+let snapshot: FlowSession[] | null = null
+let isListening = false
+
+function readSessions(): FlowSession[] {
+  if (snapshot) return snapshot
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(FLOW_ANALYTICS_STORAGE_KEY)
+    const parsed = stored ? (JSON.parse(stored) as unknown) : []
+    snapshot = Array.isArray(parsed) ? (parsed as FlowSession[]) : []
+  } catch (error) {
+    logger.error('Failed to parse flow analytics', error)
+    snapshot = []
+  }
+  return snapshot
+}
+
+function writeSessions(sessions: FlowSession[]) {
+  snapshot = sessions.slice(-MAX_SESSIONS)
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(FLOW_ANALYTICS_STORAGE_KEY, JSON.stringify(snapshot))
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Every tab records into the same key, so writes start from what is stored
+ * now rather than from this tab's copy.
+ */
+function readStoredSessions(): FlowSession[] {
+  snapshot = null
+  return readSessions()
+}
+
+function updateSession(
+  sessionId: string,
+  update: (session: FlowSession) => FlowSession
+) {
+  const sessions = readStoredSessions()
+  if (!sessions.some((session) => session.id === sessionId)) return
+  writeSessions(
+    sessions.map((session) =>
+      session.id === sessionId ? update(session) : session
+    )
+  )
+}
+
+/**
+ * Opens the session, or reopens it when the same id is started again (React
+ * remounts in development), so one visit is never counted twice.
+ */
+export function startFlowSession(
+  sessionId: string,
+  variant: FlowVariant,
+  entity: FlowEntity
+) {
+  const sessions = readStoredSessions()
+  const existing = sessions.find((session) => session.id === sessionId)
+  if (existing) {
+    if (existing.outcome === 'abandoned') {
+      updateSession(sessionId, ({ endedAt: _endedAt, ...session }) => ({
+        ...session,
+        outcome: 'active',
+      }))
+    }
+    return
+  }
+
+  writeSessions([
+    ...sessions,
+    {
+      id: sessionId,
+      variant,
+      entity,
+      startedAt: new Date().toISOString(),
+      outcome: 'active',
+      stepsReached: [],
+      validationErrors: [],
+    },
+  ])
+}
+
+export function recordFlowStep(sessionId: string, stepId: string) {
+  updateSession(sessionId, (session) =>
+    session.lastStepId === stepId
+      ? session
+      : {
+          ...session,
+          lastStepId: stepId,
+          stepsReached: session.stepsReached.includes(stepId)
+            ? session.stepsReached
+            : [...session.stepsReached, stepId],
+        }
+  )
+}
+
+export function recordFlowValidationError(
+  sessionId: string,
+  stepId: string,
+  fields: string[]
+) {
+  updateSession(sessionId, (session) => ({
+    ...session,
+    validationErrors: [
+      ...session.validationErrors,
+      { stepId, fields, at: new Date().toISOString() },
+    ],
+  }))
+}
+
+/** Completed sessions stay completed; ending an active one again is a no-op. */
+export function endFlowSession(
+  sessionId: string,
+  outcome: Exclude<FlowSessionOutcome, 'active'>
+) {
+  updateSession(sessionId, (session) =>
+    session.outcome === 'active'
+      ? { ...session, outcome, endedAt: new Date().toISOString() }
+      : session
+  )
+}
+
+export function getFlowSessions(): FlowSession[] {
+  return readSessions()
+}
+
+export function clearFlowSessions() {
+  writeSessions([])
+}
+
+function startListening() {
+  if (isListening || typeof window === 'undefined') return
+  isListening = true
+
+  // Sessions recorded in other tabs
+  window.addEventListener('storage', (event) => {
+    if (event.key !== FLOW_ANALYTICS_STORAGE_KEY) return
+    snapshot = null
+    listeners.forEach((listener) => listener())
+  })
+}
+
+export function subscribeToFlowSessions(
+  listener: FlowAnalyticsListener
+): () => void {
+  startListening()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export interface FlowStepStats {
+  stepId: string
+  /** Sessions that got at least this far. */
+  reached: number
+  /** Sessions that stopped here without completing. */
+  droppedOff: number
+  validationErrors: number
+}
+
+export interface FlowVariantStats {
+  variant: FlowVariant
+  sessions: number
+  completed: number
+  abandoned: number
+  /** Still open somewhere; left out of the rates. */
+  active: number
+  completionRate: number | null
+  medianTimeToCompleteMs: number | null
+  averageTimeToCompleteMs: number | null
+  validationErrorsPerSession: number | null
+  /** Field names by how often they failed validation, most first. */
+  topInvalidFields: Array<{ field: string; count: number }>
+  steps: FlowStepStats[]
+}
+
+function getOutcome(session: FlowSession, now: number): FlowSessionOutcome {
+  return session.outcome === 'active' &&
+    now - new Date(session.startedAt).getTime() > STALE_SESSION_MS
+    ? 'abandoned'
+    : session.outcome
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle]
+}
+
+/**
+ * Per-variant funnel for one entity. Steps are ordered as users first
+ * reached them, since each variant defines its own.
+ */
+export function summarizeFlowSessions(
+  sessions: FlowSession[],
+  entity: FlowEntity,
+  variants: readonly FlowVariant[]
+): FlowVariantStats[] {
+  const now = Date.now()
+
+  return variants.map((variant) => {
+    const matching = sessions
+      .filter(
+        (session) => session.variant === variant && session.entity === entity
+      )
+      .map((session) => ({ ...session, outcome: getOutcome(session, now) }))
+    const finished = matching.filter((session) => session.outcome !== 'active')
+    const completed = finished.filter(
+      (session) => session.outcome === 'completed'
+    )
+    const durations = completed
+      .filter((session) => session.endedAt)
+      .map(
+        (session) =>
+          new Date(session.endedAt!).getTime() -
+          new Date(session.startedAt).getTime()
+      )
+
+    const stepOrder: string[] = []
+    for (const session of matching) {
+      for (const stepId of session.stepsReached) {
+        if (!stepOrder.includes(stepId)) stepOrder.push(stepId)
+      }
+    }
+
+    const fieldCounts = new Map<string, number>()
+    for (const session of matching) {
+      for (const error of session.validationErrors) {
+        for (const field of error.fields) {
+          fieldCounts.set(field, (fieldCounts.get(field) ?? 0) + 1)
+        }
+      }
+    }
+    const errorCount = matching.reduce(
+      (total, session) => total + session.validationErrors.length,
+      0
+    )
+
+    return {
+      variant,
+      sessions: matching.length,
+      completed: completed.length,
+      abandoned: finished.length - completed.length,
+      active: matching.length - finished.length,
+      completionRate:
+        finished.length > 0 ? completed.length / finished.length : null,
+      medianTimeToCompleteMs: median(durations),
+      averageTimeToCompleteMs:
+        durations.length > 0
+          ? durations.reduce((total, value) => total + value, 0) /
+            durations.length
+          : null,
+      validationErrorsPerSession:
+        matching.length > 0 ? errorCount / matching.length : null,
+      topInvalidFields: [...fieldCounts.entries()]
+        .map(([field, count]) => ({ field, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5),
+      steps: stepOrder.map((stepId) => ({
+        stepId,
+        reached: matching.filter((session) =>
+          session.stepsReached.includes(stepId)
+        ).length,
+        droppedOff: finished.filter(
+          (session) =>
+            session.outcome === 'abandoned' && session.lastStepId === stepId
+        ).length,
+        validationErrors: matching.reduce(
+          (total, session) =>
+            total +
+            session.validationErrors.filter((error) => error.stepId === stepId)
+              .length,
+          0
+        ),
+      })),
+    }
+  })
+}
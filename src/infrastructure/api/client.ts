@@ -1,13 +1,97 @@
-import type { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios'
+import type {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosError,
+  GenericAbortSignal,
+  InternalAxiosRequestConfig,
+} from 'axios'
 import axios from 'axios'
 
 import { env } from '@/config/env'
+import { getAccessToken } from '@/infrastructure/auth/auth-client'
+import { createCorrelationId, logger } from '@/lib/logger'
+import { createApiRequestError, RequestCancelledError } from './errors'
 import type { ApiError } from './types'
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Maximum retry attempts; `false` disables retries for this request. */
+    retry?: number | false
+    /** Attempts made so far, managed by the client. */
+    retryAttempt?: number
+    /** Fixed idempotency key for a POST, e.g. when replaying queued writes. */
+    idempotencyKey?: string
+    /** Entity version the write was based on, sent as `If-Match`. */
+    expectedVersion?: number
+    /** Sent as `X-Correlation-Id` and attached to the request's log records. */
+    correlationId?: string
+  }
+}
+
+const MAX_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 300
+const RETRY_MAX_DELAY_MS = 5000
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+const IF_MATCH_HEADER = 'If-Match'
+const CORRELATION_ID_HEADER = 'X-Correlation-Id'
+
+// PATCH stays excluded because partial updates may not be repeatable; POST
+// is retried only with an idempotency key (see isRetryable)
+const RETRYABLE_METHODS = new Set(['get', 'head', 'options', 'put', 'delete'])
+
 function getWorkspaceId() {
   return sessionStorage.getItem('workspace') || ''
 }
 
+function isRetryable(error: AxiosError, config: InternalAxiosRequestConfig) {
+  if (config.retry === false) return false
+  const method = (config.method ?? 'get').toLowerCase()
+  const isIdempotentPost =
+    method === 'post' && Boolean(config.headers?.[IDEMPOTENCY_KEY_HEADER])
+  if (!RETRYABLE_METHODS.has(method) && !isIdempotentPost) return false
+  if ((config.retryAttempt ?? 0) >= (config.retry ?? MAX_RETRIES)) return false
+
+  // Network failure (no response) or a server-side error
+  return !error.response || error.response.status >= 500
+}
+
+function getRetryDelay(attempt: number) {
+  const exponential = RETRY_BASE_DELAY_MS * 2 ** attempt
+  const jitter = Math.random() * RETRY_BASE_DELAY_MS
+  return Math.min(exponential + jitter, RETRY_MAX_DELAY_MS)
+}
+
+function wait(ms: number, signal?: GenericAbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new RequestCancelledError())
+    }
+    signal?.addEventListener?.('abort', onAbort, { once: true })
+  })
+}
+
+function toApiRequestError(error: AxiosError<ApiError>) {
+  return createApiRequestError(error.response?.data?.message || error.message, {
+    status: error.response?.status,
+    code: error.response?.data?.code ?? error.code,
+    details: error.response?.data?.details,
+    correlationId: error.config?.correlationId,
+  })
+}
+
+function describeRequest(config: InternalAxiosRequestConfig) {
+  return `${(config.method ?? 'get').toUpperCase()} ${config.url ?? ''}`
+}
+
 function createApiClient(): AxiosInstance {
   const instance = axios.create({
     baseURL: env.api.baseUrl,
@@ -26,18 +110,62 @@ function createApiClient(): AxiosInstance {
       config.headers['X-T4S-OWI'] = workspaceId
     }
 
+    const accessToken = await getAccessToken()
+    if (accessToken && config.headers) {
+      config.headers.Authorization = `Bearer ${accessToken}`
+    }
+
+    // Only POSTs whose caller supplied a key may be retried or replayed
+    if (config.idempotencyKey && config.headers) {
+      config.headers[IDEMPOTENCY_KEY_HEADER] = config.idempotencyKey
+    }
+
+    // Set once so every retry of the same request shares the id
+    config.correlationId ??= createCorrelationId()
+    if (config.headers) {
+      config.headers[CORRELATION_ID_HEADER] = config.correlationId
+    }
+
+    // Versions travel as strong ETags
+    if (config.expectedVersion !== undefined && config.headers) {
+      config.headers[IF_MATCH_HEADER] = `"${config.expectedVersion}"`
+    }
+
     return config
   })
 
   instance.interceptors.response.use(
     (response) => response,
     async (error: AxiosError<ApiError>) => {
-      const apiError: ApiError = {
-        message: error.response?.data?.message || error.message,
-        code: error.response?.data?.code,
-        details: error.response?.data?.details,
+      if (axios.isCancel(error)) {
+        return Promise.reject(new RequestCancelledError())
+      }
+
+      const config = error.config
+      if (config && isRetryable(error, config)) {
+        const attempt = config.retryAttempt ?? 0
+        logger.warn(
+          `Retrying ${describeRequest(config)}`,
+          { attempt: attempt + 1, status: error.response?.status },
+          { context: 'Api', correlationId: config.correlationId }
+        )
+        await wait(getRetryDelay(attempt), config.signal)
+        config.retryAttempt = attempt + 1
+        return instance.request(config)
       }
 
+      const apiError = toApiRequestError(error)
+      if (config) {
+        // 4xx answers are often expected (lookups, version checks)
+        const log =
+          apiError.status !== undefined && apiError.status < 500
+            ? logger.warn
+            : logger.error
+        log(`${describeRequest(config)} failed`, apiError, {
+          context: 'Api',
+          correlationId: config.correlationId,
+        })
+      }
       return Promise.reject(apiError)
     }
   )
@@ -54,7 +182,10 @@ export class BaseApi {
     this.baseUrl = baseUrl
   }
 
-  protected async get<T>(path: string, config?: AxiosRequestConfig): Promise<T> {
+  protected async get<T>(
+    path: string,
+    config?: AxiosRequestConfig
+  ): Promise<T> {
     const response = await apiClient.get<T>(`${this.baseUrl}${path}`, config)
     return response.data
   }
@@ -0,0 +1,97 @@
+import type { ApiError } from './types'
+
+interface ApiRequestErrorInit {
+  status?: number
+  code?: string
+  details?: Record<string, unknown>
+  correlationId?: string
+}
+
+/** Base class for every failure surfaced by the API client. */
+export class ApiRequestError extends Error implements ApiError {
+  readonly status?: number
+  readonly code?: string
+  readonly details?: Record<string, unknown>
+  /** Matches the request's `X-Correlation-Id` and its log records. */
+  readonly correlationId?: string
+
+  constructor(message: string, init: ApiRequestErrorInit = {}) {
+    super(message)
+    this.name = 'ApiRequestError'
+    this.status = init.status
+    this.code = init.code
+    this.details = init.details
+    this.correlationId = init.correlationId
+  }
+}
+
+/** 400 or 422: the request body or parameters were rejected. */
+export class ValidationError extends ApiRequestError {
+  constructor(message: string, init: ApiRequestErrorInit = {}) {
+    super(message, init)
+    this.name = 'ValidationError'
+  }
+}
+
+/** 401 or 403: the caller is not signed in or may not perform the action. */
+export class UnauthorizedError extends ApiRequestError {
+  constructor(message: string, init: ApiRequestErrorInit = {}) {
+    super(message, init)
+    this.name = 'UnauthorizedError'
+  }
+}
+
+/** 404: the requested resource does not exist. */
+export class NotFoundError extends ApiRequestError {
+  constructor(message: string, init: ApiRequestErrorInit = {}) {
+    super(message, init)
+    this.name = 'NotFoundError'
+  }
+}
+
+/** 409 or 412: the resource changed or already exists. */
+export class ConflictError extends ApiRequestError {
+  constructor(message: string, init: ApiRequestErrorInit = {}) {
+    super(message, init)
+    this.name = 'ConflictError'
+  }
+}
+
+/** The server could not be reached, after any retries. */
+export class NetworkError extends ApiRequestError {
+  constructor(message: string, init: ApiRequestErrorInit = {}) {
+    super(message, init)
+    this.name = 'NetworkError'
+  }
+}
+
+/** The request was aborted through its AbortSignal. */
+export class RequestCancelledError extends ApiRequestError {
+  constructor(message = 'Request was cancelled') {
+    super(message, { code: 'ERR_CANCELED' })
+    this.name = 'RequestCancelledError'
+  }
+}
+
+export function createApiRequestError(
+  message: string,
+  init: ApiRequestErrorInit
+): ApiRequestError {
+  switch (init.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, init)
+    case 401:
+    case 403:
+      return new UnauthorizedError(message, init)
+    case 404:
+      return new NotFoundError(message, init)
+    case 409:
+    case 412:
+      return new ConflictError(message, init)
+    default:
+      return init.status === undefined
+        ? new NetworkError(message, init)
+        : new ApiRequestError(message, init)
+  }
+}
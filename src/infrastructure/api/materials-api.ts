@@ -0,0 +1,43 @@
+import type {
+  CachedMaterial,
+  CreateCachedMaterialInput,
+  UpdateCachedMaterialInput,
+} from '@/infrastructure/cache/catalog-cache'
+
+import { BaseApi } from './client'
+import type { ListParams, PaginatedResponse, RequestOptions } from './types'
+
+export class MaterialsApi extends BaseApi {
+  constructor() {
+    super('/materials')
+  }
+
+  list(params?: ListParams, options?: RequestOptions) {
+    return this.get<PaginatedResponse<CachedMaterial>>('', {
+      params,
+      ...options,
+    })
+  }
+
+  getById(materialId: string, options?: RequestOptions) {
+    return this.get<CachedMaterial>(`/${materialId}`, options)
+  }
+
+  create(input: CreateCachedMaterialInput, options?: RequestOptions) {
+    return this.post<CachedMaterial>('', input, options)
+  }
+
+  update(
+    materialId: string,
+    updates: UpdateCachedMaterialInput,
+    options?: RequestOptions
+  ) {
+    return this.patch<CachedMaterial>(`/${materialId}`, updates, options)
+  }
+
+  remove(materialId: string, options?: RequestOptions) {
+    return this.delete<void>(`/${materialId}`, options)
+  }
+}
+
+export const materialsApi = new MaterialsApi()
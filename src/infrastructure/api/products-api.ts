@@ -0,0 +1,52 @@
+import type {
+  CachedProduct,
+  CachedProductBomItem,
+  CreateCachedProductInput,
+  UpdateCachedProductInput,
+} from '@/infrastructure/cache/catalog-cache'
+
+import { BaseApi } from './client'
+import type { ListParams, PaginatedResponse, RequestOptions } from './types'
+
+export class ProductsApi extends BaseApi {
+  constructor() {
+    super('/products')
+  }
+
+  list(params?: ListParams, options?: RequestOptions) {
+    return this.get<PaginatedResponse<CachedProduct>>('', {
+      params,
+      ...options,
+    })
+  }
+
+  getById(productId: string, options?: RequestOptions) {
+    return this.get<CachedProduct>(`/${productId}`, options)
+  }
+
+  create(input: CreateCachedProductInput, options?: RequestOptions) {
+    return this.post<CachedProduct>('', input, options)
+  }
+
+  update(
+    productId: string,
+    updates: UpdateCachedProductInput,
+    options?: RequestOptions
+  ) {
+    return this.patch<CachedProduct>(`/${productId}`, updates, options)
+  }
+
+  saveBom(
+    productId: string,
+    items: CachedProductBomItem[],
+    options?: RequestOptions
+  ) {
+    return this.put<CachedProduct>(`/${productId}/bom`, { items }, options)
+  }
+
+  remove(productId: string, options?: RequestOptions) {
+    return this.delete<void>(`/${productId}`, options)
+  }
+}
+
+export const productsApi = new ProductsApi()
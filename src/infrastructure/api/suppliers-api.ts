@@ -0,0 +1,43 @@
+import type {
+  CachedSupplier,
+  CreateCachedSupplierInput,
+  UpdateCachedSupplierInput,
+} from '@/infrastructure/cache/catalog-cache'
+
+import { BaseApi } from './client'
+import type { ListParams, PaginatedResponse, RequestOptions } from './types'
+
+export class SuppliersApi extends BaseApi {
+  constructor() {
+    super('/suppliers')
+  }
+
+  list(params?: ListParams, options?: RequestOptions) {
+    return this.get<PaginatedResponse<CachedSupplier>>('', {
+      params,
+      ...options,
+    })
+  }
+
+  getById(supplierId: string, options?: RequestOptions) {
+    return this.get<CachedSupplier>(`/${supplierId}`, options)
+  }
+
+  create(input: CreateCachedSupplierInput, options?: RequestOptions) {
+    return this.post<CachedSupplier>('', input, options)
+  }
+
+  update(
+    supplierId: string,
+    updates: UpdateCachedSupplierInput,
+    options?: RequestOptions
+  ) {
+    return this.patch<CachedSupplier>(`/${supplierId}`, updates, options)
+  }
+
+  remove(supplierId: string, options?: RequestOptions) {
+    return this.delete<void>(`/${supplierId}`, options)
+  }
+}
+
+export const suppliersApi = new SuppliersApi()
@@ -21,6 +21,24 @@ export interface PaginatedResponse<T> {
 
 export interface ApiError {
   message: string
+  status?: number
   code?: string
   details?: Record<string, unknown>
 }
+
+export interface ListParams {
+  page?: number
+  limit?: number
+  search?: string
+  workspaceId?: string
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  /** Reused across attempts so the server can drop duplicate creates. */
+  idempotencyKey?: string
+  /** Sent as `If-Match`; the server rejects the write with 412 if stale. */
+  expectedVersion?: number
+  /** Sent as `X-Correlation-Id`; one is generated when omitted. */
+  correlationId?: string
+}
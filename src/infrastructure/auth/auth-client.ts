@@ -0,0 +1,135 @@
+import {
+  UserManager,
+  WebStorageStateStore,
+  type User,
+  type UserManagerSettings,
+} from 'oidc-client-ts'
+
+import { env } from '@/config/env'
+import { logger } from '@/lib/logger'
+
+export type AuthUser = User
+
+export interface SignInState {
+  returnTo: string
+}
+
+// Sign-in is only enforced once a client ID and authority are configured;
+// without them the app keeps running as the local demo.
+export const isAuthEnabled = Boolean(env.azure.clientId && env.azure.authority)
+
+// B2C only issues refresh tokens for offline_access, which is what lets
+// automaticSilentRenew refresh without a hidden iframe.
+function buildScope(configured: string) {
+  const scopes = new Set(['openid', 'offline_access'])
+  configured
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((scope) => scopes.add(scope))
+  return [...scopes].join(' ')
+}
+
+function resolveRedirectUri() {
+  return new URL(env.azure.redirectUri, window.location.origin).toString()
+}
+
+function createSettings(): UserManagerSettings {
+  const redirectUri = resolveRedirectUri()
+
+  return {
+    authority: env.azure.authority,
+    client_id: env.azure.clientId,
+    redirect_uri: redirectUri,
+    silent_redirect_uri: redirectUri,
+    post_logout_redirect_uri: window.location.origin,
+    response_type: 'code',
+    scope: buildScope(env.azure.scope),
+    automaticSilentRenew: true,
+    userStore: new WebStorageStateStore({ store: window.sessionStorage }),
+  }
+}
+
+let userManager: UserManager | null = null
+// The authorization code can only be redeemed once, even when React runs the
+// effect that handles the callback twice
+let pendingSignIn: Promise<string> | null = null
+// Requests and the auth context may notice an expired token at the same time
+let pendingRenewal: Promise<AuthUser | null> | null = null
+
+export function getUserManager(): UserManager {
+  if (!userManager) {
+    userManager = new UserManager(createSettings())
+    userManager.events.addSilentRenewError((error) => {
+      logger.warn('Silent token renewal failed', error, { context: 'Auth' })
+    })
+  }
+  return userManager
+}
+
+/** True when the current URL is an authorization response (code or error). */
+export function isAuthCallback(location: Location = window.location) {
+  const params = new URLSearchParams(location.search)
+  return (params.has('code') || params.has('error')) && params.has('state')
+}
+
+export function getCurrentUser(): Promise<AuthUser | null> {
+  if (!isAuthEnabled) return Promise.resolve(null)
+  return getUserManager().getUser()
+}
+
+export function signIn(returnTo: string): Promise<void> {
+  const state: SignInState = { returnTo }
+  return getUserManager().signinRedirect({ state })
+}
+
+/** Completes a redirect sign-in and returns the path the user started from. */
+export function completeSignIn(): Promise<string> {
+  pendingSignIn ??= getUserManager()
+    .signinRedirectCallback()
+    .then((user) => (user.state as SignInState | undefined)?.returnTo || '/')
+  return pendingSignIn
+}
+
+export function completeSilentSignIn(): Promise<void> {
+  return getUserManager().signinSilentCallback()
+}
+
+/**
+ * Renews an expired session silently with the refresh token. Resolves to
+ * null when that fails, so the user has to sign in again.
+ */
+export function renewSession(): Promise<AuthUser | null> {
+  pendingRenewal ??= getUserManager()
+    .signinSilent()
+    .catch((error: unknown) => {
+      logger.warn('Session renewal failed', error, { context: 'Auth' })
+      return null
+    })
+    .finally(() => {
+      pendingRenewal = null
+    })
+  return pendingRenewal
+}
+
+export async function signOut(): Promise<void> {
+  const manager = getUserManager()
+  const user = await manager.getUser()
+  await manager.removeUser()
+  await manager.signoutRedirect({ id_token_hint: user?.id_token })
+}
+
+/**
+ * Returns a valid access token, renewing it silently when it has expired.
+ * Resolves to null when auth is disabled or the session cannot be renewed.
+ */
+export async function getAccessToken(): Promise<string | null> {
+  if (!isAuthEnabled) return null
+
+  const manager = getUserManager()
+  const user = await manager.getUser()
+  if (!user) return null
+  if (!user.expired) return user.access_token
+
+  const renewed = await renewSession()
+  return renewed?.access_token ?? null
+}
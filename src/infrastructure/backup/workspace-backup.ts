@@ -0,0 +1,515 @@
+import { z } from 'zod'
+
+import {
+  APPROVALS_STORAGE_KEY,
+  getCachedApprovals,
+  saveCachedApprovals,
+  type CachedApprovalRequest,
+} from '@/infrastructure/cache/approvals-cache'
+import {
+  CATALOG_STORAGE_KEY,
+  MATERIAL_CREATION_DRAFT_KEY,
+  PRODUCT_BUILDER_DRAFT_STORAGE_KEY,
+  PRODUCT_CREATION_DRAFT_KEY,
+  clearCachedDraft,
+  getCachedDraft,
+  getCatalogSnapshot,
+  replaceCatalogCache,
+  setCachedDraft,
+  type CachedMaterial,
+  type CachedProduct,
+  type CachedSupplier,
+  type CatalogCache,
+} from '@/infrastructure/cache/catalog-cache'
+import {
+  attachAttachments,
+  detachAttachments,
+} from '@/infrastructure/cache/catalog-database'
+import {
+  getStoreLatestVersion,
+  upgradeStoreValue,
+} from '@/infrastructure/cache/migration-registry'
+import {
+  ORDERS_STORAGE_KEY,
+  getCachedOrders,
+  saveCachedOrders,
+  type CachedOrder,
+} from '@/infrastructure/cache/orders-cache'
+import {
+  getStoredActiveWorkspaceId,
+  setStoredActiveWorkspaceId,
+} from '@/infrastructure/cache/workspace-cache'
+
+export const BACKUP_FORMAT = 't4s.user-ui-v2.backup'
+export const BACKUP_VERSION = 1
+
+const FORM_DRAFT_KEYS = [
+  PRODUCT_CREATION_DRAFT_KEY,
+  MATERIAL_CREATION_DRAFT_KEY,
+]
+
+const catalogEntitySchema = z
+  .object({
+    id: z.string().min(1),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough()
+
+const productSchema = catalogEntitySchema.extend({
+  name: z.string(),
+  photos: z.array(z.object({ id: z.string() }).passthrough()).default([]),
+})
+
+const materialSchema = catalogEntitySchema.extend({
+  name: z.string(),
+  photos: z.array(z.object({ id: z.string() }).passthrough()).default([]),
+  certificates: z.array(z.object({ id: z.string() }).passthrough()).default([]),
+  substances: z.array(z.object({ id: z.string() }).passthrough()).default([]),
+})
+
+const supplierSchema = catalogEntitySchema.extend({
+  name: z.string(),
+})
+
+const orderSchema = z
+  .object({
+    id: z.string().min(1),
+    orderNumber: z.string(),
+    type: z.enum(['PO', 'SO']),
+    workspaceId: z.string(),
+    items: z.array(z.object({ id: z.string() }).passthrough()),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough()
+
+const approvalSchema = z
+  .object({
+    id: z.string().min(1),
+    status: z.enum(['PENDING', 'APPROVED', 'REJECTED']),
+    requesterId: z.string(),
+    approverId: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+  })
+  .passthrough()
+
+const attachmentSchema = z.object({
+  id: z.string().min(1),
+  entityId: z.string().min(1),
+  dataUrl: z.string().startsWith('data:'),
+})
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1).max(BACKUP_VERSION),
+  exportedAt: z.string(),
+  schemaVersions: z.record(z.number()),
+  data: z.object({
+    products: z.array(productSchema),
+    materials: z.array(materialSchema),
+    suppliers: z.array(supplierSchema),
+    orders: z.array(orderSchema),
+    approvals: z.array(approvalSchema),
+    builderDraft: z.unknown().optional(),
+    formDrafts: z.record(z.unknown()).default({}),
+    activeWorkspaceId: z.string().nullable().optional(),
+  }),
+  attachments: z.array(attachmentSchema).default([]),
+})
+
+export interface BackupAttachment {
+  id: string
+  entityId: string
+  dataUrl: string
+}
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: string
+  schemaVersions: Record<string, number>
+  data: {
+    products: CachedProduct[]
+    materials: CachedMaterial[]
+    suppliers: CachedSupplier[]
+    orders: CachedOrder[]
+    approvals: CachedApprovalRequest[]
+    builderDraft?: unknown
+    formDrafts: Record<string, unknown>
+    activeWorkspaceId?: string | null
+  }
+  attachments: BackupAttachment[]
+}
+
+export type BackupCollection =
+  | 'products'
+  | 'materials'
+  | 'suppliers'
+  | 'orders'
+  | 'approvals'
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface BackupConflict {
+  collection: BackupCollection
+  id: string
+  label: string
+  localUpdatedAt: string
+  backupUpdatedAt: string
+  // What a merge does with the record: the newer copy wins
+  resolution: 'keep-local' | 'use-backup'
+}
+
+export interface BackupSummary {
+  exportedAt: string
+  counts: Record<BackupCollection, number>
+  attachments: number
+  conflicts: BackupConflict[]
+}
+
+export class BackupValidationError extends Error {
+  readonly issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'BackupValidationError'
+    this.issues = issues
+  }
+}
+
+interface TimestampedRecord {
+  id: string
+  createdAt: string
+  updatedAt: string
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, payload] = dataUrl.split(',', 2)
+  const type = header.match(/^data:([^;,]+)/)?.[1] ?? ''
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(payload)], { type })
+  }
+
+  const binary = atob(payload)
+  const bytes = new Uint8Array(binary.length)
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index)
+  }
+  return new Blob([bytes], { type })
+}
+
+function getEntityLabel(record: Record<string, unknown>): string {
+  const label = record.name ?? record.orderNumber ?? record.productName
+  return typeof label === 'string' && label ? label : String(record.id)
+}
+
+export async function createWorkspaceBackup(): Promise<WorkspaceBackup> {
+  const catalog = getCatalogSnapshot()
+  const attachments: BackupAttachment[] = []
+
+  const detachAll = async <T extends CachedProduct | CachedMaterial>(
+    entities: T[]
+  ): Promise<T[]> => {
+    const detachedEntities: T[] = []
+    for (const entity of entities) {
+      const detached = detachAttachments(entity)
+      detachedEntities.push(detached.entity)
+      for (const attachment of detached.attachments) {
+        attachments.push({
+          id: attachment.id,
+          entityId: attachment.entityId,
+          dataUrl: await blobToDataUrl(attachment.blob),
+        })
+      }
+    }
+    return detachedEntities
+  }
+
+  const formDrafts: Record<string, unknown> = {}
+  for (const draftKey of FORM_DRAFT_KEYS) {
+    const draft = getCachedDraft<unknown>(draftKey)
+    if (draft) formDrafts[draftKey] = draft
+  }
+
+  const builderDraft = localStorage.getItem(PRODUCT_BUILDER_DRAFT_STORAGE_KEY)
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    schemaVersions: {
+      [CATALOG_STORAGE_KEY]: getStoreLatestVersion(CATALOG_STORAGE_KEY),
+      [ORDERS_STORAGE_KEY]: getStoreLatestVersion(ORDERS_STORAGE_KEY),
+      [APPROVALS_STORAGE_KEY]: getStoreLatestVersion(APPROVALS_STORAGE_KEY),
+      [PRODUCT_BUILDER_DRAFT_STORAGE_KEY]: getStoreLatestVersion(
+        PRODUCT_BUILDER_DRAFT_STORAGE_KEY
+      ),
+    },
+    data: {
+      products: await detachAll(catalog.products),
+      materials: await detachAll(catalog.materials),
+      suppliers: catalog.suppliers,
+      orders: getCachedOrders(),
+      approvals: getCachedApprovals(),
+      builderDraft: builderDraft ? JSON.parse(builderDraft) : undefined,
+      formDrafts,
+      activeWorkspaceId: getStoredActiveWorkspaceId(),
+    },
+    attachments,
+  }
+}
+
+export function getBackupFileName(backup: WorkspaceBackup): string {
+  return `t4s-backup-${backup.exportedAt.slice(0, 10)}.json`
+}
+
+/**
+ * Brings data written by an older app version up to the current store
+ * schemas, using the same upgrades that run on localStorage at start-up.
+ */
+function upgradeBackupData(raw: Record<string, unknown>) {
+  const data = (raw.data ?? {}) as Record<string, unknown>
+  const versions = (raw.schemaVersions ?? {}) as Record<string, number>
+
+  const upgrade = (key: string, value: unknown) => {
+    const fromVersion = versions[key] ?? 0
+    if (fromVersion > getStoreLatestVersion(key)) {
+      throw new BackupValidationError(
+        'This backup was created by a newer version of the app'
+      )
+    }
+    return upgradeStoreValue(key, value, fromVersion)
+  }
+
+  const catalog = upgrade(CATALOG_STORAGE_KEY, {
+    products: data.products ?? [],
+    materials: data.materials ?? [],
+    suppliers: data.suppliers ?? [],
+  }) as Record<string, unknown>
+
+  return {
+    ...raw,
+    data: {
+      ...data,
+      ...catalog,
+      orders: upgrade(ORDERS_STORAGE_KEY, data.orders ?? []),
+      approvals: upgrade(APPROVALS_STORAGE_KEY, data.approvals ?? []),
+      builderDraft:
+        data.builderDraft === undefined
+          ? undefined
+          : upgrade(PRODUCT_BUILDER_DRAFT_STORAGE_KEY, data.builderDraft),
+    },
+  }
+}
+
+export function parseWorkspaceBackup(json: string): WorkspaceBackup {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new BackupValidationError('The file is not valid JSON')
+  }
+
+  const header = z
+    .object({ format: z.literal(BACKUP_FORMAT) })
+    .passthrough()
+    .safeParse(raw)
+  if (!header.success) {
+    throw new BackupValidationError('The file is not a T4S workspace backup')
+  }
+
+  let upgraded: unknown
+  try {
+    upgraded = upgradeBackupData(header.data)
+  } catch (error) {
+    if (error instanceof BackupValidationError) throw error
+    throw new BackupValidationError(
+      `The backup could not be upgraded: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  const result = backupSchema.safeParse(upgraded)
+  if (!result.success) {
+    throw new BackupValidationError(
+      'The backup file is invalid',
+      result.error.issues.map(
+        (issue) => `${issue.path.join('.') || 'backup'}: ${issue.message}`
+      )
+    )
+  }
+
+  // The schema checks the fields restore relies on and passes the rest through
+  return result.data as unknown as WorkspaceBackup
+}
+
+function findConflicts(
+  collection: BackupCollection,
+  local: TimestampedRecord[],
+  incoming: TimestampedRecord[]
+): BackupConflict[] {
+  const localById = new Map(local.map((record) => [record.id, record]))
+  const conflicts: BackupConflict[] = []
+
+  for (const record of incoming) {
+    const existing = localById.get(record.id)
+    if (!existing) continue
+    if (JSON.stringify(existing) === JSON.stringify(record)) continue
+
+    conflicts.push({
+      collection,
+      id: record.id,
+      label: getEntityLabel(record as unknown as Record<string, unknown>),
+      localUpdatedAt: existing.updatedAt,
+      backupUpdatedAt: record.updatedAt,
+      resolution:
+        record.updatedAt > existing.updatedAt ? 'use-backup' : 'keep-local',
+    })
+  }
+
+  return conflicts
+}
+
+function getLocalCollections(): Record<BackupCollection, TimestampedRecord[]> {
+  const catalog = getCatalogSnapshot()
+  return {
+    products: catalog.products.map((item) => detachAttachments(item).entity),
+    materials: catalog.materials.map((item) => detachAttachments(item).entity),
+    suppliers: catalog.suppliers,
+    orders: getCachedOrders(),
+    approvals: getCachedApprovals(),
+  }
+}
+
+export function summarizeWorkspaceBackup(
+  backup: WorkspaceBackup
+): BackupSummary {
+  const local = getLocalCollections()
+  const collections: BackupCollection[] = [
+    'products',
+    'materials',
+    'suppliers',
+    'orders',
+    'approvals',
+  ]
+
+  return {
+    exportedAt: backup.exportedAt,
+    counts: {
+      products: backup.data.products.length,
+      materials: backup.data.materials.length,
+      suppliers: backup.data.suppliers.length,
+      orders: backup.data.orders.length,
+      approvals: backup.data.approvals.length,
+    },
+    attachments: backup.attachments.length,
+    conflicts: collections.flatMap((collection) =>
+      findConflicts(collection, local[collection], backup.data[collection])
+    ),
+  }
+}
+
+function mergeRecords<T extends TimestampedRecord>(
+  local: T[],
+  incoming: T[]
+): T[] {
+  const merged = new Map(local.map((record) => [record.id, record]))
+  for (const record of incoming) {
+    const existing = merged.get(record.id)
+    if (!existing || record.updatedAt > existing.updatedAt) {
+      merged.set(record.id, record)
+    }
+  }
+  return [...merged.values()].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  )
+}
+
+/**
+ * Applies a validated backup. `replace` discards the current data; `merge`
+ * keeps it and lets the more recently updated copy of each record win.
+ */
+export function restoreWorkspaceBackup(
+  backup: WorkspaceBackup,
+  mode: RestoreMode
+): BackupSummary {
+  const summary = summarizeWorkspaceBackup(backup)
+
+  const blobs = new Map(
+    backup.attachments.map((attachment) => [
+      attachment.id,
+      dataUrlToBlob(attachment.dataUrl),
+    ])
+  )
+  const incoming: CatalogCache = {
+    products: backup.data.products.map((product) =>
+      attachAttachments(product, blobs)
+    ),
+    materials: backup.data.materials.map((material) =>
+      attachAttachments(material, blobs)
+    ),
+    suppliers: backup.data.suppliers,
+  }
+  const incomingOrders = backup.data.orders
+  const incomingApprovals = backup.data.approvals
+
+  if (mode === 'replace') {
+    replaceCatalogCache(incoming)
+    saveCachedOrders(incomingOrders)
+    saveCachedApprovals(incomingApprovals)
+
+    for (const draftKey of FORM_DRAFT_KEYS) {
+      const draft = backup.data.formDrafts[draftKey]
+      if (draft) setCachedDraft(draftKey, draft)
+      else clearCachedDraft(draftKey)
+    }
+    if (backup.data.builderDraft) {
+      localStorage.setItem(
+        PRODUCT_BUILDER_DRAFT_STORAGE_KEY,
+        JSON.stringify(backup.data.builderDraft)
+      )
+    } else {
+      localStorage.removeItem(PRODUCT_BUILDER_DRAFT_STORAGE_KEY)
+    }
+    if (backup.data.activeWorkspaceId) {
+      setStoredActiveWorkspaceId(backup.data.activeWorkspaceId)
+    }
+    return summary
+  }
+
+  const catalog = getCatalogSnapshot()
+  replaceCatalogCache({
+    products: mergeRecords(catalog.products, incoming.products),
+    materials: mergeRecords(catalog.materials, incoming.materials),
+    suppliers: mergeRecords(catalog.suppliers, incoming.suppliers),
+  })
+  saveCachedOrders(mergeRecords(getCachedOrders(), incomingOrders))
+  saveCachedApprovals(mergeRecords(getCachedApprovals(), incomingApprovals))
+
+  // Drafts are only filled in where this browser has none of its own
+  for (const draftKey of FORM_DRAFT_KEYS) {
+    const draft = backup.data.formDrafts[draftKey]
+    if (draft && !getCachedDraft(draftKey)) setCachedDraft(draftKey, draft)
+  }
+  if (
+    backup.data.builderDraft &&
+    !localStorage.getItem(PRODUCT_BUILDER_DRAFT_STORAGE_KEY)
+  ) {
+    localStorage.setItem(
+      PRODUCT_BUILDER_DRAFT_STORAGE_KEY,
+      JSON.stringify(backup.data.builderDraft)
+    )
+  }
+
+  return summary
+}
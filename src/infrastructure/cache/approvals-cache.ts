@@ -0,0 +1,173 @@
+import { logger } from '@/lib/logger'
+
+import { publishLocalChange, registerStorageKey } from './change-bus'
+
+export const APPROVALS_STORAGE_KEY = 't4s-demo-approvals'
+
+registerStorageKey(APPROVALS_STORAGE_KEY, ['approvals'])
+
+export type CachedApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED'
+
+export interface CachedApprovalRequest {
+  id: string
+  productId?: string
+  productName: string
+  sku: string
+  requesterName: string
+  requesterId: string // Manufacturer workspace that submitted the product
+  approverId: string // Brand workspace asked to approve it
+  soId?: string
+  poItemId?: string
+  status: CachedApprovalStatus
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateCachedApprovalInput = Omit<
+  CachedApprovalRequest,
+  'id' | 'status' | 'createdAt' | 'updatedAt'
+>
+
+export type ApprovalWorkspaceRole = 'requester' | 'approver'
+
+// Decisions are final: a rejected product is resubmitted as a new request.
+const ALLOWED_TRANSITIONS: Record<
+  CachedApprovalStatus,
+  CachedApprovalStatus[]
+> = {
+  PENDING: ['APPROVED', 'REJECTED'],
+  APPROVED: [],
+  REJECTED: [],
+}
+
+export class ApprovalTransitionError extends Error {
+  readonly from: CachedApprovalStatus
+  readonly to: CachedApprovalStatus
+
+  constructor(from: CachedApprovalStatus, to: CachedApprovalStatus) {
+    super(`Cannot move an approval request from ${from} to ${to}`)
+    this.name = 'ApprovalTransitionError'
+    this.from = from
+    this.to = to
+  }
+}
+
+export class DuplicateApprovalError extends Error {
+  readonly existing: CachedApprovalRequest
+
+  constructor(existing: CachedApprovalRequest) {
+    super(
+      'An active approval request already exists for this Sales Order and Purchase Item'
+    )
+    this.name = 'DuplicateApprovalError'
+    this.existing = existing
+  }
+}
+
+export function canTransitionApproval(
+  from: CachedApprovalStatus,
+  to: CachedApprovalStatus
+): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to)
+}
+
+export function getCachedApprovals(): CachedApprovalRequest[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(APPROVALS_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as CachedApprovalRequest[]) : []
+  } catch (error) {
+    logger.error('Failed to parse cached approvals', error)
+    return []
+  }
+}
+
+export function saveCachedApprovals(approvals: CachedApprovalRequest[]) {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(APPROVALS_STORAGE_KEY, JSON.stringify(approvals))
+  publishLocalChange(['approvals'])
+}
+
+export function getCachedApprovalById(
+  approvalId: string
+): CachedApprovalRequest | null {
+  return (
+    getCachedApprovals().find((approval) => approval.id === approvalId) ?? null
+  )
+}
+
+export function getCachedApprovalsForWorkspace(
+  workspaceId: string,
+  role: ApprovalWorkspaceRole
+): CachedApprovalRequest[] {
+  return getCachedApprovals().filter((approval) =>
+    role === 'approver'
+      ? approval.approverId === workspaceId
+      : approval.requesterId === workspaceId
+  )
+}
+
+/** Returns the pending or approved request for a sales order line, if any. */
+export function findActiveApproval(
+  soId: string,
+  poItemId: string
+): CachedApprovalRequest | null {
+  return (
+    getCachedApprovals().find(
+      (approval) =>
+        approval.soId === soId &&
+        approval.poItemId === poItemId &&
+        approval.status !== 'REJECTED'
+    ) ?? null
+  )
+}
+
+export function createCachedApproval(
+  input: CreateCachedApprovalInput
+): CachedApprovalRequest {
+  if (input.soId && input.poItemId) {
+    const existing = findActiveApproval(input.soId, input.poItemId)
+    if (existing) throw new DuplicateApprovalError(existing)
+  }
+
+  const now = new Date().toISOString()
+  const approval: CachedApprovalRequest = {
+    ...input,
+    id: crypto.randomUUID(),
+    status: 'PENDING',
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  saveCachedApprovals([approval, ...getCachedApprovals()])
+
+  return approval
+}
+
+export function transitionCachedApproval(
+  approvalId: string,
+  status: CachedApprovalStatus
+): CachedApprovalRequest | null {
+  const approvals = getCachedApprovals()
+  const approvalIndex = approvals.findIndex(
+    (approval) => approval.id === approvalId
+  )
+  if (approvalIndex === -1) return null
+
+  const current = approvals[approvalIndex]
+  if (!canTransitionApproval(current.status, status)) {
+    throw new ApprovalTransitionError(current.status, status)
+  }
+
+  const nextApproval: CachedApprovalRequest = {
+    ...current,
+    status,
+    updatedAt: new Date().toISOString(),
+  }
+
+  approvals[approvalIndex] = nextApproval
+  saveCachedApprovals(approvals)
+
+  return nextApproval
+}
@@ -0,0 +1,219 @@
+import { logger } from '@/lib/logger'
+
+import { publishLocalChange, registerStorageKey } from './change-bus'
+import { getStoredActiveWorkspaceId } from './workspace-cache'
+
+export const AUDIT_LOG_STORAGE_KEY = 't4s.user-ui-v2.audit.v1'
+
+// Oldest entries are dropped first so the log cannot outgrow localStorage.
+const MAX_AUDIT_ENTRIES = 1000
+
+// Timestamps and version counters change on every write, and blobs and object
+// URLs only live as long as the page, so none of them say anything about what
+// the user changed.
+const IGNORED_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'version',
+  'file',
+  'url',
+])
+
+registerStorageKey(AUDIT_LOG_STORAGE_KEY, ['audit'])
+
+export type AuditEntityType = 'product' | 'material' | 'supplier' | 'order'
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge'
+
+export interface AuditFieldChange {
+  /** Dotted path; list items are addressed by name, e.g. `substances[Cotton].percentage`. */
+  field: string
+  before?: unknown
+  after?: unknown
+}
+
+export interface AuditEntry {
+  id: string
+  entityType: AuditEntityType
+  entityId: string
+  entityName: string
+  action: AuditAction
+  workspaceId?: string
+  changes: AuditFieldChange[]
+  timestamp: string
+}
+
+interface RecordAuditEntryInput<T extends { id: string }> {
+  entityType: AuditEntityType
+  entityName: string
+  /** Defaults to create, update or delete depending on before and after. */
+  action?: AuditAction
+  /** `null` for a create. */
+  before: T | null
+  /** `null` for a delete. */
+  after: T | null
+}
+
+type Identifiable = Record<string, unknown> & { id: string }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Blob)
+  )
+}
+
+function isIdentifiableList(value: unknown): value is Identifiable[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => isPlainObject(item) && typeof item.id === 'string')
+  )
+}
+
+function describeListItem(item: Identifiable): string {
+  const label =
+    item.name ?? item.substanceName ?? item.materialName ?? item.number
+  return typeof label === 'string' && label ? label : item.id
+}
+
+function joinPath(path: string, key: string) {
+  return path ? `${path}.${key}` : key
+}
+
+function diffValues(
+  before: unknown,
+  after: unknown,
+  path: string,
+  changes: AuditFieldChange[]
+) {
+  if (isPlainObject(before) || isPlainObject(after)) {
+    const previous = isPlainObject(before) ? before : {}
+    const next = isPlainObject(after) ? after : {}
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)])
+    for (const key of keys) {
+      if (IGNORED_FIELDS.has(key)) continue
+      diffValues(previous[key], next[key], joinPath(path, key), changes)
+    }
+    return
+  }
+
+  // Lists of entities (BOM items, substances, photos) are matched by id so a
+  // reorder is not reported and each change points at the item it touched.
+  if (isIdentifiableList(before) || isIdentifiableList(after)) {
+    const previous = isIdentifiableList(before) ? before : []
+    const next = isIdentifiableList(after) ? after : []
+    const previousById = new Map(previous.map((item) => [item.id, item]))
+    const nextById = new Map(next.map((item) => [item.id, item]))
+    const ids = new Set([...previousById.keys(), ...nextById.keys()])
+
+    for (const id of ids) {
+      const previousItem = previousById.get(id)
+      const nextItem = nextById.get(id)
+      const label = describeListItem((nextItem ?? previousItem)!)
+      diffValues(previousItem, nextItem, `${path}[${label}]`, changes)
+    }
+    return
+  }
+
+  if (Array.isArray(before) || Array.isArray(after)) {
+    if (JSON.stringify(before ?? []) !== JSON.stringify(after ?? [])) {
+      changes.push({ field: path, before, after })
+    }
+    return
+  }
+
+  if (before instanceof Blob || after instanceof Blob) return
+  if (!Object.is(before, after)) {
+    changes.push({ field: path, before, after })
+  }
+}
+
+/** Field-level differences between two versions of an entity. */
+export function diffEntities(before: unknown, after: unknown) {
+  const changes: AuditFieldChange[] = []
+  diffValues(before ?? {}, after ?? {}, '', changes)
+  return changes
+}
+
+function readAuditLog(): AuditEntry[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(AUDIT_LOG_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as AuditEntry[]) : []
+  } catch (error) {
+    logger.error('Failed to parse audit log', error)
+    return []
+  }
+}
+
+/**
+ * Never throws: the change it describes has already been saved, so a full
+ * localStorage must not turn that save into a failure. On a quota error the
+ * older half of the log is dropped and the write retried once.
+ */
+function writeAuditLog(entries: AuditEntry[]) {
+  if (typeof window === 'undefined') return
+
+  let kept = entries.slice(-MAX_AUDIT_ENTRIES)
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      localStorage.setItem(AUDIT_LOG_STORAGE_KEY, JSON.stringify(kept))
+      publishLocalChange(['audit'])
+      return
+    } catch (error) {
+      logger.error('Failed to write audit log', error, {
+        context: 'AuditLog',
+      })
+      kept = kept.slice(Math.ceil(kept.length / 2))
+    }
+  }
+}
+
+/**
+ * Records a create (`before` is null), update or delete (`after` is null)
+ * against the active workspace, unless `action` says otherwise. Updates that
+ * change nothing are skipped.
+ */
+export function recordAuditEntry<T extends { id: string }>({
+  entityType,
+  entityName,
+  action: explicitAction,
+  before,
+  after,
+}: RecordAuditEntryInput<T>): AuditEntry | null {
+  const entity = after ?? before
+  if (!entity) return null
+
+  const action: AuditAction =
+    explicitAction ?? (!before ? 'create' : !after ? 'delete' : 'update')
+  const changes = diffEntities(before, after)
+  if (action === 'update' && changes.length === 0) return null
+
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    entityType,
+    entityId: entity.id,
+    entityName,
+    action,
+    workspaceId: getStoredActiveWorkspaceId() ?? undefined,
+    changes,
+    timestamp: new Date().toISOString(),
+  }
+  writeAuditLog([...readAuditLog(), entry])
+  return entry
+}
+
+/** History of one entity, newest first. */
+export function getAuditEntries(
+  entityType: AuditEntityType,
+  entityId: string
+): AuditEntry[] {
+  return readAuditLog()
+    .filter(
+      (entry) => entry.entityType === entityType && entry.entityId === entityId
+    )
+    .reverse()
+}
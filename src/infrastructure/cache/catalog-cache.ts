@@ -1,8 +1,35 @@
-const CATALOG_STORAGE_KEY = 't4s.user-ui-v2.catalog.v1'
+import { logger } from '@/lib/logger'
+
+import { recordAuditEntry } from './audit-log'
+import {
+  clearCatalogDatabase,
+  loadCatalogFromDatabase,
+  saveCatalogToDatabase,
+} from './catalog-database'
+import {
+  CATALOG_COLLECTIONS,
+  type CacheCollection,
+  broadcastChange,
+  publishLocalChange,
+  registerRemoteChangeHandler,
+  registerStorageKey,
+} from './change-bus'
+import { isIndexedDbAvailable } from './indexed-db'
+import {
+  getStoreLatestVersion,
+  hasStoreBackup,
+  parkExternalStoreBackup,
+  registerExternalStoreBackup,
+  upgradeStoreValue,
+} from './migration-registry'
+
+export const CATALOG_STORAGE_KEY = 't4s.user-ui-v2.catalog.v1'
 const DRAFT_STORAGE_PREFIX = 't4s.user-ui-v2.draft.'
 
 export const PRODUCT_CREATION_DRAFT_KEY = 'product-creation'
 export const MATERIAL_CREATION_DRAFT_KEY = 'material-creation'
+export const PRODUCT_BUILDER_DRAFT_STORAGE_KEY = 'product-builder-draft-v1'
+export const PRODUCT_BUILDER_HISTORY_STORAGE_KEY = `${PRODUCT_BUILDER_DRAFT_STORAGE_KEY}.history`
 
 export interface CachedSupplier {
   id: string
@@ -16,6 +43,10 @@ export interface CachedSupplier {
   linkedWorkspaceId?: string
   createdAt: string
   updatedAt: string
+  /** Incremented on every write; see VersionConflictError. */
+  version: number
+  /** Set while the supplier is in the trash. */
+  deletedAt?: string
 }
 
 export interface CachedImage {
@@ -24,6 +55,7 @@ export interface CachedImage {
   name?: string
   size?: number
   contentType?: string
+  file?: Blob
 }
 
 export interface CachedUploadedFile {
@@ -32,6 +64,7 @@ export interface CachedUploadedFile {
   size: number
   type: string
   url?: string
+  file?: Blob
 }
 
 export interface CachedMaterialCertificate {
@@ -98,6 +131,10 @@ export interface CachedMaterial {
   workspaceId?: string
   createdAt: string
   updatedAt: string
+  /** Incremented on every write; see VersionConflictError. */
+  version: number
+  /** Set while the material is in the trash. */
+  deletedAt?: string
 }
 
 export interface CachedProductBomItem {
@@ -137,9 +174,13 @@ export interface CachedProduct {
   workspaceId?: string
   createdAt: string
   updatedAt: string
+  /** Incremented on every write; see VersionConflictError. */
+  version: number
+  /** Set while the product is in the trash. */
+  deletedAt?: string
 }
 
-interface CatalogCache {
+export interface CatalogCache {
   products: CachedProduct[]
   materials: CachedMaterial[]
   suppliers: CachedSupplier[]
@@ -147,20 +188,85 @@ interface CatalogCache {
 
 export type CreateCachedProductInput = Omit<
   CachedProduct,
-  'id' | 'createdAt' | 'updatedAt' | 'bom'
+  'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt' | 'bom'
 >
 export type CreateCachedMaterialInput = Omit<
   CachedMaterial,
-  'id' | 'createdAt' | 'updatedAt'
+  'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt'
 >
 export type CreateCachedSupplierInput = Omit<
   CachedSupplier,
-  'id' | 'createdAt' | 'updatedAt'
+  'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt'
 >
 export type UpdateCachedSupplierInput = Partial<
-  Omit<CachedSupplier, 'id' | 'createdAt' | 'updatedAt'>
+  Omit<
+    CachedSupplier,
+    'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt'
+  >
 >
 
+type VersionedEntity = CachedProduct | CachedMaterial | CachedSupplier
+
+/**
+ * A write was made against an older version of the entity than the one
+ * stored; `current` is the stored version it lost against.
+ */
+export class VersionConflictError<
+  T extends { id: string; version: number } = VersionedEntity,
+> extends Error {
+  readonly current: T
+
+  constructor(current: T) {
+    super('Changed by someone else since you opened it')
+    this.name = 'VersionConflictError'
+    this.current = current
+  }
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return (
+    JSON.stringify(sanitizeForStorage(a)) ===
+    JSON.stringify(sanitizeForStorage(b))
+  )
+}
+
+/** The fields of `values` that differ from `base`: what an edit changed. */
+export function getChangedFields<T extends object>(
+  base: T,
+  values: T
+): Partial<T> {
+  return Object.fromEntries(
+    (Object.keys(values) as Array<keyof T & string>)
+      .filter((field) => !isSameValue(values[field], base[field]))
+      .map((field) => [field, values[field]])
+  ) as Partial<T>
+}
+
+/**
+ * Fields of a stale update that someone else also changed since `base`, to
+ * a different value. A field only one side changed is not a conflict.
+ */
+export function getConflictingFields<T extends object>(
+  base: T,
+  updates: Partial<T>,
+  current: T
+): Array<keyof T & string> {
+  return (Object.keys(updates) as Array<keyof T & string>).filter(
+    (field) =>
+      !isSameValue(base[field], current[field]) &&
+      !isSameValue(updates[field], current[field])
+  )
+}
+
+function assertVersion(
+  entity: VersionedEntity,
+  expectedVersion: number | undefined
+) {
+  if (expectedVersion !== undefined && entity.version !== expectedVersion) {
+    throw new VersionConflictError(entity)
+  }
+}
+
 function getDefaultCatalogCache(): CatalogCache {
   return {
     products: [],
@@ -175,15 +281,18 @@ function safeParse<T>(value: string | null): T | null {
   try {
     return JSON.parse(value) as T
   } catch (error) {
-    console.error('Failed to parse cached value:', error)
+    logger.error('Failed to parse cached value', error)
     return null
   }
 }
 
-function sanitizeForStorage<T>(value: T): T {
+function sanitizeForStorage<T>(
+  value: T,
+  options: { keepBinary?: boolean } = {}
+): T {
   const visit = (input: unknown): unknown => {
     if (input === null || input === undefined) return input
-    if (input instanceof File || input instanceof Blob) return undefined
+    if (input instanceof Blob) return options.keepBinary ? input : undefined
 
     if (Array.isArray(input)) {
       return input
@@ -208,16 +317,13 @@ function sanitizeForStorage<T>(value: T): T {
   return visit(value) as T
 }
 
-function readCatalogCache(): CatalogCache {
-  if (typeof window === 'undefined') {
-    return getDefaultCatalogCache()
-  }
-
-  const parsed = safeParse<CatalogCache>(
-    localStorage.getItem(CATALOG_STORAGE_KEY)
-  )
-  if (!parsed) return getDefaultCatalogCache()
+// Entities keep their File/Blob attachments while in memory; only the
+// localStorage fallback has to drop them.
+function toCacheValue<T>(value: T): T {
+  return sanitizeForStorage(value, { keepBinary: true })
+}
 
+function normalizeCatalogCache(parsed: Partial<CatalogCache>): CatalogCache {
   const materials = Array.isArray(parsed.materials)
     ? parsed.materials.map((material) => {
         const safeMaterial = material as Partial<CachedMaterial>
@@ -253,27 +359,178 @@ function readCatalogCache(): CatalogCache {
   }
 }
 
-function writeCatalogCache(cache: CatalogCache) {
+function readLocalCatalogCache(): CatalogCache {
+  const parsed = safeParse<CatalogCache>(
+    localStorage.getItem(CATALOG_STORAGE_KEY)
+  )
+  return parsed ? normalizeCatalogCache(parsed) : getDefaultCatalogCache()
+}
+
+// Populated by hydrateCatalogCache() once IndexedDB is available. Until then
+// (or when IndexedDB cannot be opened) the cache reads localStorage directly.
+let databaseCatalog: CatalogCache | null = null
+let pendingDatabaseWrite: Promise<void> = Promise.resolve()
+
+function readCatalogCache(): CatalogCache {
+  if (typeof window === 'undefined') {
+    return getDefaultCatalogCache()
+  }
+
+  if (databaseCatalog) {
+    return {
+      products: [...databaseCatalog.products],
+      materials: [...databaseCatalog.materials],
+      suppliers: [...databaseCatalog.suppliers],
+    }
+  }
+
+  return readLocalCatalogCache()
+}
+
+function writeCatalogCache(
+  cache: CatalogCache,
+  changed: CacheCollection | CacheCollection[]
+) {
+  const collections = Array.isArray(changed) ? changed : [changed]
+
   if (typeof window === 'undefined') return
 
+  if (databaseCatalog) {
+    const previous = databaseCatalog
+    databaseCatalog = cache
+    publishLocalChange(collections)
+    pendingDatabaseWrite = pendingDatabaseWrite
+      .then(() =>
+        saveCatalogToDatabase(
+          previous,
+          cache,
+          getStoreLatestVersion(CATALOG_STORAGE_KEY)
+        )
+      )
+      .then(() => broadcastChange(collections))
+      .catch((error) => {
+        logger.error('Failed to persist catalog to IndexedDB', error, {
+          context: 'CatalogCache',
+        })
+      })
+    return
+  }
+
   localStorage.setItem(
     CATALOG_STORAGE_KEY,
     JSON.stringify(sanitizeForStorage(cache))
   )
+  publishLocalChange(collections)
+}
+
+registerStorageKey(CATALOG_STORAGE_KEY, CATALOG_COLLECTIONS)
+registerExternalStoreBackup(CATALOG_STORAGE_KEY, clearCatalogDatabase)
+
+// Another tab committed a catalog change to IndexedDB: refresh the in-memory
+// copy before the change bus notifies this tab's subscribers.
+registerRemoteChangeHandler(async (collections) => {
+  if (!databaseCatalog) return
+  if (!collections.some((item) => CATALOG_COLLECTIONS.includes(item))) return
+
+  await pendingDatabaseWrite
+  const stored = await loadCatalogFromDatabase()
+  if (stored) databaseCatalog = stored.catalog
+})
+
+/**
+ * Moves the catalog into IndexedDB and loads it into memory so the getters
+ * below can stay synchronous. Must be awaited before the app renders; any
+ * catalog still in localStorage is migrated on the first run.
+ *
+ * A catalog that fails to upgrade is left in IndexedDB as a backup for
+ * StorageRecoveryDialog, and the app runs on localStorage until the user
+ * restores or discards it.
+ */
+export async function hydrateCatalogCache() {
+  if (!isIndexedDbAvailable()) return
+
+  if (hasStoreBackup(CATALOG_STORAGE_KEY)) {
+    logger.warn(
+      'Catalog upgrade failed earlier, using localStorage until the backup is restored or discarded',
+      undefined,
+      { context: 'CatalogCache' }
+    )
+    return
+  }
+
+  try {
+    const latestVersion = getStoreLatestVersion(CATALOG_STORAGE_KEY)
+    const stored = await loadCatalogFromDatabase()
+
+    if (stored) {
+      let catalog = stored.catalog
+      if (stored.version < latestVersion) {
+        try {
+          catalog = normalizeCatalogCache(
+            upgradeStoreValue(
+              CATALOG_STORAGE_KEY,
+              stored.catalog,
+              stored.version
+            ) as CatalogCache
+          )
+        } catch (error) {
+          parkExternalStoreBackup(CATALOG_STORAGE_KEY, stored.version, error)
+          return
+        }
+        await saveCatalogToDatabase(null, catalog, latestVersion)
+      }
+      databaseCatalog = catalog
+      return
+    }
+
+    const legacyCatalog = readLocalCatalogCache()
+    await saveCatalogToDatabase(null, legacyCatalog, latestVersion)
+    localStorage.removeItem(CATALOG_STORAGE_KEY)
+    databaseCatalog = legacyCatalog
+    logger.info('Moved catalog from localStorage to IndexedDB', undefined, {
+      context: 'CatalogCache',
+    })
+  } catch (error) {
+    logger.error('IndexedDB unavailable, using localStorage', error, {
+      context: 'CatalogCache',
+    })
+  }
+}
+
+/** Resolves once every queued IndexedDB write has been committed. */
+export function flushCatalogWrites(): Promise<void> {
+  return pendingDatabaseWrite
+}
+
+export function getCatalogSnapshot(): CatalogCache {
+  return readCatalogCache()
+}
+
+/** Swaps the whole catalog at once, e.g. when restoring a backup. */
+export function replaceCatalogCache(catalog: CatalogCache) {
+  writeCatalogCache(
+    {
+      products: [...catalog.products],
+      materials: [...catalog.materials],
+      suppliers: [...catalog.suppliers],
+    },
+    CATALOG_COLLECTIONS
+  )
 }
 
 export function getCachedProducts(): CachedProduct[] {
-  return readCatalogCache().products
+  return readCatalogCache().products.filter((entity) => !entity.deletedAt)
 }
 
 export function getCachedMaterials(): CachedMaterial[] {
-  return readCatalogCache().materials
+  return readCatalogCache().materials.filter((entity) => !entity.deletedAt)
 }
 
 export function getCachedProductById(productId: string): CachedProduct | null {
   return (
-    readCatalogCache().products.find((product) => product.id === productId) ??
-    null
+    readCatalogCache().products.find(
+      (product) => product.id === productId && !product.deletedAt
+    ) ?? null
   )
 }
 
@@ -282,7 +539,7 @@ export function getCachedMaterialById(
 ): CachedMaterial | null {
   return (
     readCatalogCache().materials.find(
-      (material) => material.id === materialId
+      (material) => material.id === materialId && !material.deletedAt
     ) ?? null
   )
 }
@@ -294,14 +551,21 @@ export function createCachedProduct(
   const now = new Date().toISOString()
 
   const product: CachedProduct = {
-    ...sanitizeForStorage(input),
+    ...toCacheValue(input),
     id: crypto.randomUUID(),
     createdAt: now,
     updatedAt: now,
+    version: 1,
   }
 
   cache.products = [product, ...cache.products]
-  writeCatalogCache(cache)
+  writeCatalogCache(cache, 'products')
+  recordAuditEntry({
+    entityType: 'product',
+    entityName: product.name,
+    before: null,
+    after: product,
+  })
 
   return product
 }
@@ -313,100 +577,253 @@ export function createCachedMaterial(
   const now = new Date().toISOString()
 
   const material: CachedMaterial = {
-    ...sanitizeForStorage(input),
+    ...toCacheValue(input),
     id: crypto.randomUUID(),
     createdAt: now,
     updatedAt: now,
+    version: 1,
   }
 
   cache.materials = [material, ...cache.materials]
-  writeCatalogCache(cache)
+  writeCatalogCache(cache, 'materials')
+  recordAuditEntry({
+    entityType: 'material',
+    entityName: material.name,
+    before: null,
+    after: material,
+  })
 
   return material
 }
 
 export function saveProductBomToCache(
   productId: string,
-  bomItems: CachedProductBomItem[]
+  bomItems: CachedProductBomItem[],
+  expectedVersion?: number
 ): CachedProduct | null {
   const cache = readCatalogCache()
   const productIndex = cache.products.findIndex(
-    (product) => product.id === productId
+    (product) => product.id === productId && !product.deletedAt
   )
   if (productIndex === -1) return null
+  assertVersion(cache.products[productIndex], expectedVersion)
 
   const now = new Date().toISOString()
   const nextProduct: CachedProduct = {
     ...cache.products[productIndex],
     bom: {
-      items: sanitizeForStorage(bomItems),
+      items: toCacheValue(bomItems),
       updatedAt: now,
     },
     updatedAt: now,
+    version: cache.products[productIndex].version + 1,
+  }
+
+  const previousProduct = cache.products[productIndex]
+  cache.products[productIndex] = nextProduct
+  writeCatalogCache(cache, 'products')
+  recordAuditEntry({
+    entityType: 'product',
+    entityName: nextProduct.name,
+    before: previousProduct,
+    after: nextProduct,
+  })
+
+  return nextProduct
+}
+
+export type UpdateCachedProductInput = Partial<
+  Omit<
+    CachedProduct,
+    'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt' | 'bom'
+  >
+>
+
+export function updateCachedProduct(
+  productId: string,
+  updates: UpdateCachedProductInput,
+  expectedVersion?: number
+): CachedProduct | null {
+  const cache = readCatalogCache()
+  const productIndex = cache.products.findIndex(
+    (product) => product.id === productId && !product.deletedAt
+  )
+  if (productIndex === -1) return null
+  assertVersion(cache.products[productIndex], expectedVersion)
+
+  const now = new Date().toISOString()
+  const nextProduct: CachedProduct = {
+    ...cache.products[productIndex],
+    ...toCacheValue(updates),
+    id: productId,
+    createdAt: cache.products[productIndex].createdAt,
+    updatedAt: now,
+    version: cache.products[productIndex].version + 1,
   }
 
+  const previousProduct = cache.products[productIndex]
   cache.products[productIndex] = nextProduct
-  writeCatalogCache(cache)
+  writeCatalogCache(cache, 'products')
+  recordAuditEntry({
+    entityType: 'product',
+    entityName: nextProduct.name,
+    before: previousProduct,
+    after: nextProduct,
+  })
 
   return nextProduct
 }
 
 export type UpdateCachedMaterialInput = Partial<
-  Omit<CachedMaterial, 'id' | 'createdAt' | 'updatedAt'>
+  Omit<
+    CachedMaterial,
+    'id' | 'createdAt' | 'updatedAt' | 'version' | 'deletedAt'
+  >
 >
 
 export function updateCachedMaterial(
   materialId: string,
-  updates: UpdateCachedMaterialInput
+  updates: UpdateCachedMaterialInput,
+  expectedVersion?: number
 ): CachedMaterial | null {
   const cache = readCatalogCache()
   const materialIndex = cache.materials.findIndex(
-    (material) => material.id === materialId
+    (material) => material.id === materialId && !material.deletedAt
   )
   if (materialIndex === -1) return null
+  assertVersion(cache.materials[materialIndex], expectedVersion)
 
   const now = new Date().toISOString()
   const nextMaterial: CachedMaterial = {
     ...cache.materials[materialIndex],
-    ...sanitizeForStorage(updates),
+    ...toCacheValue(updates),
     id: materialId,
     createdAt: cache.materials[materialIndex].createdAt,
     updatedAt: now,
+    version: cache.materials[materialIndex].version + 1,
   }
 
+  const previousMaterial = cache.materials[materialIndex]
   cache.materials[materialIndex] = nextMaterial
-  writeCatalogCache(cache)
+  writeCatalogCache(cache, 'materials')
+  recordAuditEntry({
+    entityType: 'material',
+    entityName: nextMaterial.name,
+    before: previousMaterial,
+    after: nextMaterial,
+  })
 
   return nextMaterial
 }
 
+/** Moves the material to the trash; see restoreTrashedEntity(). */
 export function deleteCachedMaterial(materialId: string): boolean {
   const cache = readCatalogCache()
   const materialIndex = cache.materials.findIndex(
-    (material) => material.id === materialId
+    (material) => material.id === materialId && !material.deletedAt
   )
   if (materialIndex === -1) return false
 
-  cache.materials.splice(materialIndex, 1)
-  writeCatalogCache(cache)
+  const deletedMaterial = cache.materials[materialIndex]
+  cache.materials[materialIndex] = {
+    ...deletedMaterial,
+    version: deletedMaterial.version + 1,
+    deletedAt: new Date().toISOString(),
+  }
+  writeCatalogCache(cache, 'materials')
+  recordAuditEntry({
+    entityType: 'material',
+    entityName: deletedMaterial.name,
+    before: deletedMaterial,
+    after: null,
+  })
 
   return true
 }
 
+/**
+ * Moves the material to the trash after rewriting the BOM of every product
+ * that lists it, trashed products included so restoring one cannot bring the
+ * row back. Everything goes out in one write; nothing changes on failure.
+ */
+export function deleteCachedMaterialWithReferences(
+  materialId: string,
+  resolveItems: (items: CachedProductBomItem[]) => CachedProductBomItem[]
+): boolean {
+  const cache = readCatalogCache()
+  const materialIndex = cache.materials.findIndex(
+    (material) => material.id === materialId && !material.deletedAt
+  )
+  if (materialIndex === -1) return false
+
+  const now = new Date().toISOString()
+  const rewritten: Array<{ before: CachedProduct; after: CachedProduct }> = []
+  cache.products = cache.products.map((product) => {
+    const items = product.bom?.items ?? []
+    if (!items.some((item) => item.materialId === materialId)) return product
+
+    const nextProduct: CachedProduct = {
+      ...product,
+      bom: { items: resolveItems(items), updatedAt: now },
+      updatedAt: now,
+      version: product.version + 1,
+    }
+    rewritten.push({ before: product, after: nextProduct })
+    return nextProduct
+  })
+
+  const deletedMaterial = cache.materials[materialIndex]
+  cache.materials[materialIndex] = {
+    ...deletedMaterial,
+    version: deletedMaterial.version + 1,
+    deletedAt: now,
+  }
+  writeCatalogCache(cache, ['products', 'materials'])
+
+  for (const { before, after } of rewritten) {
+    recordAuditEntry({
+      entityType: 'product',
+      entityName: after.name,
+      before,
+      after,
+    })
+  }
+  recordAuditEntry({
+    entityType: 'material',
+    entityName: deletedMaterial.name,
+    before: deletedMaterial,
+    after: null,
+  })
+
+  return true
+}
+
+/** Moves the product to the trash; see restoreTrashedEntity(). */
 export function deleteCachedProduct(productId: string): boolean {
   const cache = readCatalogCache()
   const productIndex = cache.products.findIndex(
-    (product) => product.id === productId
+    (product) => product.id === productId && !product.deletedAt
   )
   if (productIndex === -1) return false
 
-  cache.products.splice(productIndex, 1)
-  writeCatalogCache(cache)
+  const deletedProduct = cache.products[productIndex]
+  cache.products[productIndex] = {
+    ...deletedProduct,
+    version: deletedProduct.version + 1,
+    deletedAt: new Date().toISOString(),
+  }
+  writeCatalogCache(cache, 'products')
+  recordAuditEntry({
+    entityType: 'product',
+    entityName: deletedProduct.name,
+    before: deletedProduct,
+    after: null,
+  })
 
   return true
 }
 
-function buildDraftStorageKey(draftKey: string): string {
+export function buildDraftStorageKey(draftKey: string): string {
   return `${DRAFT_STORAGE_PREFIX}${draftKey}`
 }
 
@@ -430,7 +847,7 @@ export function clearCachedDraft(draftKey: string) {
 
 // Supplier CRUD operations
 export function getCachedSuppliers(): CachedSupplier[] {
-  return readCatalogCache().suppliers
+  return readCatalogCache().suppliers.filter((entity) => !entity.deletedAt)
 }
 
 export function getCachedSupplierById(
@@ -438,7 +855,7 @@ export function getCachedSupplierById(
 ): CachedSupplier | null {
   return (
     readCatalogCache().suppliers.find(
-      (supplier) => supplier.id === supplierId
+      (supplier) => supplier.id === supplierId && !supplier.deletedAt
     ) ?? null
   )
 }
@@ -450,52 +867,261 @@ export function createCachedSupplier(
   const now = new Date().toISOString()
 
   const supplier: CachedSupplier = {
-    ...sanitizeForStorage(input),
+    ...toCacheValue(input),
     id: crypto.randomUUID(),
     createdAt: now,
     updatedAt: now,
+    version: 1,
   }
 
   cache.suppliers = [supplier, ...cache.suppliers]
-  writeCatalogCache(cache)
+  writeCatalogCache(cache, 'suppliers')
+  recordAuditEntry({
+    entityType: 'supplier',
+    entityName: supplier.name,
+    before: null,
+    after: supplier,
+  })
 
   return supplier
 }
 
 export function updateCachedSupplier(
   supplierId: string,
-  updates: UpdateCachedSupplierInput
+  updates: UpdateCachedSupplierInput,
+  expectedVersion?: number
 ): CachedSupplier | null {
   const cache = readCatalogCache()
   const supplierIndex = cache.suppliers.findIndex(
-    (supplier) => supplier.id === supplierId
+    (supplier) => supplier.id === supplierId && !supplier.deletedAt
   )
   if (supplierIndex === -1) return null
+  assertVersion(cache.suppliers[supplierIndex], expectedVersion)
 
   const now = new Date().toISOString()
   const nextSupplier: CachedSupplier = {
     ...cache.suppliers[supplierIndex],
-    ...sanitizeForStorage(updates),
+    ...toCacheValue(updates),
     id: supplierId,
     createdAt: cache.suppliers[supplierIndex].createdAt,
     updatedAt: now,
+    version: cache.suppliers[supplierIndex].version + 1,
   }
 
+  const previousSupplier = cache.suppliers[supplierIndex]
   cache.suppliers[supplierIndex] = nextSupplier
-  writeCatalogCache(cache)
+  writeCatalogCache(cache, 'suppliers')
+  recordAuditEntry({
+    entityType: 'supplier',
+    entityName: nextSupplier.name,
+    before: previousSupplier,
+    after: nextSupplier,
+  })
 
   return nextSupplier
 }
 
+/** Moves the supplier to the trash; see restoreTrashedEntity(). */
 export function deleteCachedSupplier(supplierId: string): boolean {
   const cache = readCatalogCache()
   const supplierIndex = cache.suppliers.findIndex(
-    (supplier) => supplier.id === supplierId
+    (supplier) => supplier.id === supplierId && !supplier.deletedAt
+  )
+  if (supplierIndex === -1) return false
+
+  const deletedSupplier = cache.suppliers[supplierIndex]
+  cache.suppliers[supplierIndex] = {
+    ...deletedSupplier,
+    version: deletedSupplier.version + 1,
+    deletedAt: new Date().toISOString(),
+  }
+  writeCatalogCache(cache, 'suppliers')
+  recordAuditEntry({
+    entityType: 'supplier',
+    entityName: deletedSupplier.name,
+    before: deletedSupplier,
+    after: null,
+  })
+
+  return true
+}
+
+/**
+ * Moves the supplier to the trash after rewriting the substances of every
+ * material linked to it, trashed materials included. Everything goes out in
+ * one write; nothing changes on failure.
+ */
+export function deleteCachedSupplierWithReferences(
+  supplierId: string,
+  resolveSubstances: (
+    substances: CachedMaterialSubstance[]
+  ) => CachedMaterialSubstance[]
+): boolean {
+  const cache = readCatalogCache()
+  const supplierIndex = cache.suppliers.findIndex(
+    (supplier) => supplier.id === supplierId && !supplier.deletedAt
   )
   if (supplierIndex === -1) return false
 
-  cache.suppliers.splice(supplierIndex, 1)
-  writeCatalogCache(cache)
+  const now = new Date().toISOString()
+  const isLinked = (entry: { supplierId: string }) =>
+    entry.supplierId === supplierId
+  const rewritten: Array<{ before: CachedMaterial; after: CachedMaterial }> = []
+  cache.materials = cache.materials.map((material) => {
+    const isReferenced = material.substances.some(
+      (substance) =>
+        isLinked(substance) || substance.subCompositions.some(isLinked)
+    )
+    if (!isReferenced) return material
+
+    const nextMaterial: CachedMaterial = {
+      ...material,
+      substances: resolveSubstances(material.substances),
+      updatedAt: now,
+      version: material.version + 1,
+    }
+    rewritten.push({ before: material, after: nextMaterial })
+    return nextMaterial
+  })
+
+  const deletedSupplier = cache.suppliers[supplierIndex]
+  cache.suppliers[supplierIndex] = {
+    ...deletedSupplier,
+    version: deletedSupplier.version + 1,
+    deletedAt: now,
+  }
+  writeCatalogCache(cache, ['materials', 'suppliers'])
+
+  for (const { before, after } of rewritten) {
+    recordAuditEntry({
+      entityType: 'material',
+      entityName: after.name,
+      before,
+      after,
+    })
+  }
+  recordAuditEntry({
+    entityType: 'supplier',
+    entityName: deletedSupplier.name,
+    before: deletedSupplier,
+    after: null,
+  })
 
   return true
 }
+
+// Trash
+
+const TRASH_COLLECTIONS = {
+  product: 'products',
+  material: 'materials',
+  supplier: 'suppliers',
+} as const
+
+export type TrashedEntityType = keyof typeof TRASH_COLLECTIONS
+
+export type TrashedCatalogEntity =
+  | { type: 'product'; entity: CachedProduct; deletedAt: string }
+  | { type: 'material'; entity: CachedMaterial; deletedAt: string }
+  | { type: 'supplier'; entity: CachedSupplier; deletedAt: string }
+
+type TrashableEntity = CachedProduct | CachedMaterial | CachedSupplier
+
+function getTrashCollection(cache: CatalogCache, type: TrashedEntityType) {
+  return cache[TRASH_COLLECTIONS[type]] as TrashableEntity[]
+}
+
+/** Everything in the trash, most recently deleted first. */
+export function getTrashedCatalogEntities(): TrashedCatalogEntity[] {
+  const cache = readCatalogCache()
+  const trashed = (Object.keys(TRASH_COLLECTIONS) as TrashedEntityType[])
+    .flatMap((type) =>
+      getTrashCollection(cache, type)
+        .filter((entity) => entity.deletedAt)
+        .map((entity) => ({ type, entity, deletedAt: entity.deletedAt! }))
+    )
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+
+  return trashed as TrashedCatalogEntity[]
+}
+
+export function restoreTrashedEntity(
+  type: TrashedEntityType,
+  entityId: string
+): boolean {
+  const cache = readCatalogCache()
+  const entities = getTrashCollection(cache, type)
+  const index = entities.findIndex(
+    (entity) => entity.id === entityId && entity.deletedAt
+  )
+  if (index === -1) return false
+
+  const trashed = entities[index]
+  entities[index] = {
+    ...trashed,
+    deletedAt: undefined,
+    updatedAt: new Date().toISOString(),
+    version: trashed.version + 1,
+  }
+  writeCatalogCache(cache, TRASH_COLLECTIONS[type])
+  recordAuditEntry({
+    entityType: type,
+    entityName: trashed.name,
+    action: 'restore',
+    before: null,
+    after: entities[index],
+  })
+
+  return true
+}
+
+function purgeEntities(
+  shouldPurge: (item: TrashedCatalogEntity) => boolean
+): number {
+  const purged = getTrashedCatalogEntities().filter(shouldPurge)
+  if (purged.length === 0) return 0
+
+  const isPurged = (type: TrashedEntityType, entityId: string) =>
+    purged.some((item) => item.type === type && item.entity.id === entityId)
+  const cache = readCatalogCache()
+  writeCatalogCache(
+    {
+      products: cache.products.filter((item) => !isPurged('product', item.id)),
+      materials: cache.materials.filter(
+        (item) => !isPurged('material', item.id)
+      ),
+      suppliers: cache.suppliers.filter(
+        (item) => !isPurged('supplier', item.id)
+      ),
+    },
+    [...new Set(purged.map((item) => TRASH_COLLECTIONS[item.type]))]
+  )
+
+  for (const { type, entity } of purged) {
+    recordAuditEntry({
+      entityType: type,
+      entityName: entity.name,
+      action: 'purge',
+      before: entity,
+      after: null,
+    })
+  }
+  return purged.length
+}
+
+/** Deletes a trashed entity for good. */
+export function purgeTrashedEntity(
+  type: TrashedEntityType,
+  entityId: string
+): boolean {
+  return (
+    purgeEntities((item) => item.type === type && item.entity.id === entityId) >
+    0
+  )
+}
+
+/** Empties the trash, or only what was deleted before `deletedBefore`. */
+export function purgeTrash(deletedBefore?: Date): number {
+  const cutoff = deletedBefore?.toISOString()
+  return purgeEntities((item) => !cutoff || item.deletedAt < cutoff)
+}
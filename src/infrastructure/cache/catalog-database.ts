@@ -0,0 +1,270 @@
+import type {
+  CachedMaterial,
+  CachedProduct,
+  CachedSupplier,
+  CatalogCache,
+} from './catalog-cache'
+import {
+  ATTACHMENTS_OBJECT_STORE,
+  MATERIALS_OBJECT_STORE,
+  META_OBJECT_STORE,
+  PRODUCTS_OBJECT_STORE,
+  SUPPLIERS_OBJECT_STORE,
+  getAllRecords,
+  getRecord,
+  openDatabase,
+  transactionToPromise,
+} from './indexed-db'
+
+const CATALOG_META_KEY = 'catalog'
+
+interface CatalogMeta {
+  key: typeof CATALOG_META_KEY
+  version: number
+  updatedAt: string
+}
+
+export interface StoredAttachment {
+  id: string
+  entityId: string
+  blob: Blob
+}
+
+type CatalogEntity = CachedProduct | CachedMaterial | CachedSupplier
+
+const COLLECTIONS = [
+  ['products', PRODUCTS_OBJECT_STORE],
+  ['materials', MATERIALS_OBJECT_STORE],
+  ['suppliers', SUPPLIERS_OBJECT_STORE],
+] as const
+
+function isAttachmentNode(
+  value: Record<string, unknown>
+): value is Record<string, unknown> & { id: string; file: Blob } {
+  return typeof value.id === 'string' && value.file instanceof Blob
+}
+
+/**
+ * Splits an entity into its JSON-safe shape and the binary files hanging off
+ * its photos and documents. Object URLs only live as long as the page, so
+ * they are dropped and rebuilt from the stored blob on load.
+ */
+export function detachAttachments<T extends CatalogEntity>(
+  entity: T
+): { entity: T; attachments: StoredAttachment[] } {
+  const attachments: StoredAttachment[] = []
+
+  const visit = (input: unknown): unknown => {
+    if (input === null || input === undefined) return input
+    if (input instanceof Blob) return undefined
+    if (Array.isArray(input)) {
+      return input.map(visit).filter((item) => item !== undefined)
+    }
+    if (typeof input === 'object') {
+      const node = input as Record<string, unknown>
+      const output: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(node)) {
+        const visited = visit(value)
+        if (visited !== undefined) output[key] = visited
+      }
+      if (isAttachmentNode(node)) {
+        attachments.push({ id: node.id, entityId: entity.id, blob: node.file })
+        if (typeof output.url === 'string' && output.url.startsWith('blob:')) {
+          output.url = ''
+        }
+      }
+      return output
+    }
+    return input
+  }
+
+  return { entity: visit(entity) as T, attachments }
+}
+
+// One object URL per attachment for the whole page, so reloading the catalog
+// (on hydrate or another tab's change) does not leak a new URL every time
+const attachmentUrls = new Map<string, string>()
+
+function getAttachmentUrl(attachmentId: string, blob: Blob) {
+  let url = attachmentUrls.get(attachmentId)
+  if (!url) {
+    url = URL.createObjectURL(blob)
+    attachmentUrls.set(attachmentId, url)
+  }
+  return url
+}
+
+function revokeAttachmentUrl(attachmentId: string) {
+  const url = attachmentUrls.get(attachmentId)
+  if (!url) return
+  URL.revokeObjectURL(url)
+  attachmentUrls.delete(attachmentId)
+}
+
+export function attachAttachments<T extends CatalogEntity>(
+  entity: T,
+  blobs: Map<string, Blob>
+): T {
+  const visit = (input: unknown): unknown => {
+    if (Array.isArray(input)) return input.map(visit)
+    if (input === null || typeof input !== 'object') return input
+
+    const node = input as Record<string, unknown>
+    const output: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(node)) {
+      output[key] = visit(value)
+    }
+
+    const blob = typeof node.id === 'string' ? blobs.get(node.id) : undefined
+    if (blob) {
+      output.file = blob
+      if (!output.url) output.url = getAttachmentUrl(node.id as string, blob)
+    }
+    return output
+  }
+
+  return visit(entity) as T
+}
+
+function collectAttachments(
+  entity: CatalogEntity | undefined
+): Map<string, Blob> {
+  if (!entity) return new Map()
+  return new Map(
+    detachAttachments(entity).attachments.map((item) => [item.id, item.blob])
+  )
+}
+
+export async function loadCatalogFromDatabase(): Promise<{
+  catalog: CatalogCache
+  version: number
+} | null> {
+  const meta = await getRecord<CatalogMeta>(META_OBJECT_STORE, CATALOG_META_KEY)
+  if (!meta) return null
+
+  const [products, materials, suppliers, attachments] = await Promise.all([
+    getAllRecords<CachedProduct>(PRODUCTS_OBJECT_STORE),
+    getAllRecords<CachedMaterial>(MATERIALS_OBJECT_STORE),
+    getAllRecords<CachedSupplier>(SUPPLIERS_OBJECT_STORE),
+    getAllRecords<StoredAttachment>(ATTACHMENTS_OBJECT_STORE),
+  ])
+
+  const blobs = new Map(attachments.map((item) => [item.id, item.blob]))
+  // Removed or replaced by another tab since the last load
+  for (const attachmentId of [...attachmentUrls.keys()]) {
+    if (!blobs.has(attachmentId)) revokeAttachmentUrl(attachmentId)
+  }
+  const byNewest = <T extends CatalogEntity>(a: T, b: T) =>
+    b.createdAt.localeCompare(a.createdAt)
+
+  return {
+    version: meta.version,
+    catalog: {
+      products: products
+        .map((item) => attachAttachments(item, blobs))
+        .sort(byNewest),
+      materials: materials
+        .map((item) => attachAttachments(item, blobs))
+        .sort(byNewest),
+      suppliers: suppliers
+        .map((item) => attachAttachments(item, blobs))
+        .sort(byNewest),
+    },
+  }
+}
+
+/**
+ * Writes the difference between two catalog snapshots. Entities are compared
+ * by reference, which holds because every cache write replaces the entity it
+ * touches and keeps the others as they are.
+ */
+export async function saveCatalogToDatabase(
+  previous: CatalogCache | null,
+  next: CatalogCache,
+  version: number
+) {
+  const database = await openDatabase()
+  const transaction = database.transaction(
+    [
+      PRODUCTS_OBJECT_STORE,
+      MATERIALS_OBJECT_STORE,
+      SUPPLIERS_OBJECT_STORE,
+      ATTACHMENTS_OBJECT_STORE,
+      META_OBJECT_STORE,
+    ],
+    'readwrite'
+  )
+  const attachmentStore = transaction.objectStore(ATTACHMENTS_OBJECT_STORE)
+
+  for (const [collection, storeName] of COLLECTIONS) {
+    const store = transaction.objectStore(storeName)
+    const previousEntities = new Map<string, CatalogEntity>(
+      (previous?.[collection] ?? []).map((entity) => [entity.id, entity])
+    )
+
+    for (const entity of next[collection] as CatalogEntity[]) {
+      const previousEntity = previousEntities.get(entity.id)
+      previousEntities.delete(entity.id)
+      if (previousEntity === entity) continue
+
+      const detached = detachAttachments(entity)
+      store.put(detached.entity)
+
+      const previousAttachments = collectAttachments(previousEntity)
+      for (const attachment of detached.attachments) {
+        attachmentStore.put(attachment)
+        const previousBlob = previousAttachments.get(attachment.id)
+        previousAttachments.delete(attachment.id)
+        if (previousBlob && previousBlob !== attachment.blob) {
+          revokeAttachmentUrl(attachment.id)
+        }
+      }
+      for (const staleId of previousAttachments.keys()) {
+        attachmentStore.delete(staleId)
+        revokeAttachmentUrl(staleId)
+      }
+    }
+
+    for (const removed of previousEntities.values()) {
+      store.delete(removed.id)
+      for (const staleId of collectAttachments(removed).keys()) {
+        attachmentStore.delete(staleId)
+        revokeAttachmentUrl(staleId)
+      }
+    }
+  }
+
+  const meta: CatalogMeta = {
+    key: CATALOG_META_KEY,
+    version,
+    updatedAt: new Date().toISOString(),
+  }
+  transaction.objectStore(META_OBJECT_STORE).put(meta)
+
+  await transactionToPromise(transaction)
+}
+
+/** Deletes the stored catalog, e.g. when a failed upgrade is discarded. */
+export async function clearCatalogDatabase() {
+  const database = await openDatabase()
+  const transaction = database.transaction(
+    [
+      PRODUCTS_OBJECT_STORE,
+      MATERIALS_OBJECT_STORE,
+      SUPPLIERS_OBJECT_STORE,
+      ATTACHMENTS_OBJECT_STORE,
+      META_OBJECT_STORE,
+    ],
+    'readwrite'
+  )
+  for (const [, storeName] of COLLECTIONS) {
+    transaction.objectStore(storeName).clear()
+  }
+  transaction.objectStore(ATTACHMENTS_OBJECT_STORE).clear()
+  transaction.objectStore(META_OBJECT_STORE).delete(CATALOG_META_KEY)
+
+  await transactionToPromise(transaction)
+  for (const attachmentId of [...attachmentUrls.keys()]) {
+    revokeAttachmentUrl(attachmentId)
+  }
+}
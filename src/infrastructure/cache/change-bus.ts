@@ -0,0 +1,129 @@
+import { logger } from '@/lib/logger'
+
+const CHANNEL_NAME = 't4s.user-ui-v2.changes'
+
+export type CacheCollection =
+  | 'products'
+  | 'materials'
+  | 'suppliers'
+  | 'orders'
+  | 'approvals'
+  | 'audit'
+
+export const CATALOG_COLLECTIONS: CacheCollection[] = [
+  'products',
+  'materials',
+  'suppliers',
+]
+
+type ChangeListener = (collections: CacheCollection[]) => void
+type RemoteChangeHandler = (collections: CacheCollection[]) => Promise<void>
+
+interface ChangeMessage {
+  collections: CacheCollection[]
+}
+
+const listeners = new Set<ChangeListener>()
+const storageKeyCollections = new Map<string, CacheCollection[]>()
+const remoteChangeHandlers: RemoteChangeHandler[] = []
+const collectionVersions = new Map<CacheCollection, number>()
+
+let channel: BroadcastChannel | null = null
+let isListening = false
+
+function dispatch(collections: CacheCollection[]) {
+  for (const collection of collections) {
+    collectionVersions.set(
+      collection,
+      (collectionVersions.get(collection) ?? 0) + 1
+    )
+  }
+  for (const listener of listeners) {
+    listener(collections)
+  }
+}
+
+async function handleRemoteChange(collections: CacheCollection[]) {
+  try {
+    // Let in-memory stores reload first so listeners read the new data.
+    for (const handler of remoteChangeHandlers) {
+      await handler(collections)
+    }
+  } catch (error) {
+    logger.error('Failed to reload after remote change', error, {
+      context: 'ChangeBus',
+    })
+  }
+  dispatch(collections)
+}
+
+function startListening() {
+  if (isListening || typeof window === 'undefined') return
+  isListening = true
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+      void handleRemoteChange(event.data.collections)
+    }
+  }
+
+  // Catches writes from other tabs that bypass the channel, e.g. stores that
+  // still write localStorage directly.
+  window.addEventListener('storage', (event) => {
+    if (!event.key) return
+    const collections = storageKeyCollections.get(event.key)
+    if (collections) void handleRemoteChange(collections)
+  })
+}
+
+export function registerStorageKey(
+  key: string,
+  collections: CacheCollection[]
+) {
+  storageKeyCollections.set(key, collections)
+}
+
+export function registerRemoteChangeHandler(handler: RemoteChangeHandler) {
+  remoteChangeHandlers.push(handler)
+}
+
+/** Notifies listeners in this tab only. */
+export function publishLocalChange(collections: CacheCollection[]) {
+  dispatch(collections)
+}
+
+/** Tells other tabs to reload; call once the change has been persisted. */
+export function broadcastChange(collections: CacheCollection[]) {
+  startListening()
+  const message: ChangeMessage = { collections }
+  channel?.postMessage(message)
+}
+
+export function notifyCollectionsChanged(collections: CacheCollection[]) {
+  publishLocalChange(collections)
+  broadcastChange(collections)
+}
+
+export function subscribeToCollections(
+  collections: CacheCollection[],
+  listener: () => void
+): () => void {
+  startListening()
+  const handler: ChangeListener = (changed) => {
+    if (changed.some((collection) => collections.includes(collection))) {
+      listener()
+    }
+  }
+  listeners.add(handler)
+  return () => {
+    listeners.delete(handler)
+  }
+}
+
+export function getCollectionsVersion(collections: CacheCollection[]): number {
+  return collections.reduce(
+    (total, collection) => total + (collectionVersions.get(collection) ?? 0),
+    0
+  )
+}
@@ -0,0 +1,91 @@
+const DATABASE_NAME = 't4s.user-ui-v2'
+const DATABASE_VERSION = 1
+
+export const PRODUCTS_OBJECT_STORE = 'products'
+export const MATERIALS_OBJECT_STORE = 'materials'
+export const SUPPLIERS_OBJECT_STORE = 'suppliers'
+export const ATTACHMENTS_OBJECT_STORE = 'attachments'
+export const META_OBJECT_STORE = 'meta'
+
+export type ObjectStoreName =
+  | typeof PRODUCTS_OBJECT_STORE
+  | typeof MATERIALS_OBJECT_STORE
+  | typeof SUPPLIERS_OBJECT_STORE
+  | typeof ATTACHMENTS_OBJECT_STORE
+  | typeof META_OBJECT_STORE
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof indexedDB !== 'undefined'
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionToPromise(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+
+    request.onupgradeneeded = () => {
+      const database = request.result
+      for (const name of [
+        PRODUCTS_OBJECT_STORE,
+        MATERIALS_OBJECT_STORE,
+        SUPPLIERS_OBJECT_STORE,
+        ATTACHMENTS_OBJECT_STORE,
+      ]) {
+        if (!database.objectStoreNames.contains(name)) {
+          database.createObjectStore(name, { keyPath: 'id' })
+        }
+      }
+      if (!database.objectStoreNames.contains(META_OBJECT_STORE)) {
+        database.createObjectStore(META_OBJECT_STORE, { keyPath: 'key' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+    request.onblocked = () =>
+      reject(new Error('IndexedDB upgrade blocked by another tab'))
+  }).catch((error) => {
+    databasePromise = null
+    throw error
+  })
+
+  return databasePromise
+}
+
+export async function getAllRecords<T>(
+  storeName: ObjectStoreName
+): Promise<T[]> {
+  const database = await openDatabase()
+  const transaction = database.transaction(storeName, 'readonly')
+  return requestToPromise(
+    transaction.objectStore(storeName).getAll() as IDBRequest<T[]>
+  )
+}
+
+export async function getRecord<T>(
+  storeName: ObjectStoreName,
+  key: IDBValidKey
+): Promise<T | undefined> {
+  const database = await openDatabase()
+  const transaction = database.transaction(storeName, 'readonly')
+  return requestToPromise(
+    transaction.objectStore(storeName).get(key) as IDBRequest<T | undefined>
+  )
+}
@@ -0,0 +1,318 @@
+import { logger } from '@/lib/logger'
+
+const SCHEMA_VERSIONS_STORAGE_KEY = 't4s.user-ui-v2.schema-versions'
+const BACKUP_STORAGE_SUFFIX = '.backup'
+
+export interface StoreMigration {
+  version: number
+  description: string
+  up: (data: unknown) => unknown
+}
+
+export interface StoreDefinition {
+  key: string
+  migrations: StoreMigration[]
+}
+
+interface StoreBackup {
+  version: number
+  /** Absent when the data stayed where its store keeps it, e.g. IndexedDB. */
+  raw?: string
+  failedAt: string
+  failedVersion?: number
+  message?: string
+}
+
+/** Data parked by a failed upgrade, waiting to be restored or discarded. */
+export interface StoreBackupInfo {
+  key: string
+  fromVersion: number
+  failedVersion?: number
+  failedAt: string
+  message?: string
+}
+
+const registry = new Map<string, StoreDefinition>()
+const externalBackupDiscarders = new Map<string, () => Promise<void>>()
+
+function readSchemaVersions(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(SCHEMA_VERSIONS_STORAGE_KEY)
+    return stored ? (JSON.parse(stored) as Record<string, number>) : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeSchemaVersion(key: string, version: number) {
+  const versions = readSchemaVersions()
+  versions[key] = version
+  localStorage.setItem(SCHEMA_VERSIONS_STORAGE_KEY, JSON.stringify(versions))
+}
+
+function getLatestVersion(definition: StoreDefinition): number {
+  return definition.migrations.reduce(
+    (latest, migration) => Math.max(latest, migration.version),
+    0
+  )
+}
+
+export function buildBackupStorageKey(key: string): string {
+  return `${key}${BACKUP_STORAGE_SUFFIX}`
+}
+
+export function registerStore(definition: StoreDefinition) {
+  const versions = new Set<number>()
+  for (const migration of definition.migrations) {
+    if (migration.version < 1 || versions.has(migration.version)) {
+      throw new Error(
+        `Invalid migration version ${migration.version} for store "${definition.key}"`
+      )
+    }
+    versions.add(migration.version)
+  }
+
+  registry.set(definition.key, {
+    ...definition,
+    migrations: [...definition.migrations].sort(
+      (a, b) => a.version - b.version
+    ),
+  })
+}
+
+export function getStoreSchemaVersion(key: string): number {
+  return readSchemaVersions()[key] ?? 0
+}
+
+export function getStoreLatestVersion(key: string): number {
+  const definition = registry.get(key)
+  return definition ? getLatestVersion(definition) : 0
+}
+
+export class StoreMigrationError extends Error {
+  readonly failedVersion: number
+
+  constructor(message: string, failedVersion: number) {
+    super(message)
+    this.name = 'StoreMigrationError'
+    this.failedVersion = failedVersion
+  }
+}
+
+/**
+ * Runs the registered upgrades for `key` on an already parsed value. Used for
+ * localStorage stores below and for stores that live outside localStorage.
+ */
+export function upgradeStoreValue(
+  key: string,
+  data: unknown,
+  fromVersion: number
+): unknown {
+  const definition = registry.get(key)
+  if (!definition) return data
+
+  let upgraded = data
+  for (const migration of definition.migrations) {
+    if (migration.version <= fromVersion) continue
+    try {
+      upgraded = migration.up(upgraded)
+    } catch (error) {
+      throw new StoreMigrationError(
+        error instanceof Error ? error.message : String(error),
+        migration.version
+      )
+    }
+  }
+  return upgraded
+}
+
+function migrateStore(definition: StoreDefinition) {
+  const latestVersion = getLatestVersion(definition)
+  const raw = localStorage.getItem(definition.key)
+
+  // Nothing stored yet: the first write will already use the latest shape.
+  if (raw === null) {
+    writeSchemaVersion(definition.key, latestVersion)
+    return
+  }
+
+  const currentVersion = getStoreSchemaVersion(definition.key)
+  if (currentVersion >= latestVersion) return
+
+  let data: unknown
+  try {
+    data = upgradeStoreValue(definition.key, JSON.parse(raw), currentVersion)
+  } catch (error) {
+    const backup: StoreBackup = {
+      version: currentVersion,
+      raw,
+      failedAt: new Date().toISOString(),
+      failedVersion:
+        error instanceof StoreMigrationError
+          ? error.failedVersion
+          : currentVersion,
+      message: error instanceof Error ? error.message : String(error),
+    }
+
+    // Park the unreadable data so the app starts from an empty store instead
+    // of parsing it into the wrong shape.
+    localStorage.setItem(
+      buildBackupStorageKey(definition.key),
+      JSON.stringify(backup)
+    )
+    localStorage.removeItem(definition.key)
+    writeSchemaVersion(definition.key, latestVersion)
+
+    logger.error(
+      'Storage migration failed',
+      {
+        key: definition.key,
+        fromVersion: currentVersion,
+        failedVersion: backup.failedVersion,
+        message: backup.message,
+      },
+      { context: 'StorageMigrations' }
+    )
+    return
+  }
+
+  localStorage.setItem(definition.key, JSON.stringify(data))
+  writeSchemaVersion(definition.key, latestVersion)
+  logger.info(
+    `Migrated "${definition.key}" from v${currentVersion} to v${latestVersion}`,
+    undefined,
+    { context: 'StorageMigrations' }
+  )
+}
+
+export function runRegisteredMigrations() {
+  if (typeof window === 'undefined') return
+
+  for (const definition of registry.values()) {
+    migrateStore(definition)
+  }
+}
+
+/**
+ * For stores kept outside localStorage: `discard` deletes the data a failed
+ * upgrade left in place, once the user gives it up.
+ */
+export function registerExternalStoreBackup(
+  key: string,
+  discard: () => Promise<void>
+) {
+  externalBackupDiscarders.set(key, discard)
+}
+
+/**
+ * Records a failed upgrade of a store kept outside localStorage. Its data
+ * stays where it is, untouched, and is listed with the other backups; the
+ * store should not read or write it while the backup is pending.
+ */
+export function parkExternalStoreBackup(
+  key: string,
+  version: number,
+  error: unknown
+) {
+  const backup: StoreBackup = {
+    version,
+    failedAt: new Date().toISOString(),
+    failedVersion:
+      error instanceof StoreMigrationError ? error.failedVersion : version,
+    message: error instanceof Error ? error.message : String(error),
+  }
+  localStorage.setItem(buildBackupStorageKey(key), JSON.stringify(backup))
+
+  logger.error(
+    'Storage migration failed',
+    {
+      key,
+      fromVersion: version,
+      failedVersion: backup.failedVersion,
+      message: backup.message,
+    },
+    { context: 'StorageMigrations' }
+  )
+}
+
+export function hasStoreBackup(key: string): boolean {
+  return readStoreBackup(key) !== null
+}
+
+function readStoreBackup(key: string): StoreBackup | null {
+  try {
+    const stored = localStorage.getItem(buildBackupStorageKey(key))
+    return stored ? (JSON.parse(stored) as StoreBackup) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Registered stores whose upgrade failed, in this or an earlier session. The
+ * backups stay until restored or discarded.
+ */
+export function listStoreBackups(): StoreBackupInfo[] {
+  if (typeof window === 'undefined') return []
+
+  return [...registry.keys()].flatMap((key) => {
+    const backup = readStoreBackup(key)
+    if (!backup) return []
+    return [
+      {
+        key,
+        fromVersion: backup.version,
+        failedVersion: backup.failedVersion,
+        failedAt: backup.failedAt,
+        message: backup.message,
+      },
+    ]
+  })
+}
+
+/**
+ * Puts the data parked by a failed upgrade back in place and rewinds the
+ * schema version so the migrations are retried on the next load.
+ */
+export function restoreStoreBackup(key: string): boolean {
+  if (typeof window === 'undefined') return false
+
+  const backup = readStoreBackup(key)
+  if (!backup) return false
+
+  try {
+    if (backup.raw === undefined) {
+      // The data never moved; drop what the app saved since so the store
+      // reads it again
+      localStorage.removeItem(key)
+    } else {
+      localStorage.setItem(key, backup.raw)
+      writeSchemaVersion(key, backup.version)
+    }
+    localStorage.removeItem(buildBackupStorageKey(key))
+    return true
+  } catch (error) {
+    logger.error('Failed to restore storage backup', error, {
+      context: 'StorageMigrations',
+    })
+    return false
+  }
+}
+
+export async function discardStoreBackup(key: string): Promise<boolean> {
+  if (typeof window === 'undefined') return false
+
+  const backup = readStoreBackup(key)
+  if (backup && backup.raw === undefined) {
+    try {
+      await externalBackupDiscarders.get(key)?.()
+    } catch (error) {
+      logger.error('Failed to discard storage backup', error, {
+        context: 'StorageMigrations',
+      })
+      return false
+    }
+  }
+  localStorage.removeItem(buildBackupStorageKey(key))
+  return true
+}
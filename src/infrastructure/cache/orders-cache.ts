@@ -1,4 +1,9 @@
-const ORDERS_STORAGE_KEY = 't4s-demo-orders-v2'
+import { recordAuditEntry } from './audit-log'
+import { publishLocalChange, registerStorageKey } from './change-bus'
+
+export const ORDERS_STORAGE_KEY = 't4s-demo-orders-v2'
+
+registerStorageKey(ORDERS_STORAGE_KEY, ['orders'])
 
 export interface CachedOrderItem {
   id: string
@@ -42,9 +47,41 @@ export function getCachedOrders(): CachedOrder[] {
   return JSON.parse(stored)
 }
 
+// Orders are saved as a whole list, so the audit entries come from comparing
+// it with what was stored before.
+function recordOrderChanges(previous: CachedOrder[], next: CachedOrder[]) {
+  const previousById = new Map(previous.map((order) => [order.id, order]))
+  const nextIds = new Set(next.map((order) => order.id))
+
+  for (const order of next) {
+    recordAuditEntry({
+      entityType: 'order',
+      entityName: order.orderNumber,
+      before: previousById.get(order.id) ?? null,
+      after: order,
+    })
+  }
+  for (const order of previous) {
+    if (nextIds.has(order.id)) continue
+    recordAuditEntry({
+      entityType: 'order',
+      entityName: order.orderNumber,
+      before: order,
+      after: null,
+    })
+  }
+}
+
 export function saveCachedOrders(orders: CachedOrder[]) {
   if (typeof window === 'undefined') return
+  const previous = getCachedOrders()
   localStorage.setItem(ORDERS_STORAGE_KEY, JSON.stringify(orders))
+  recordOrderChanges(previous, orders)
+  publishLocalChange(['orders'])
+}
+
+export function addCachedOrders(newOrders: CachedOrder[]) {
+  saveCachedOrders([...getCachedOrders(), ...newOrders])
 }
 
 export function linkProductToOrderItem(
@@ -0,0 +1,162 @@
+import { APPROVALS_STORAGE_KEY } from './approvals-cache'
+import {
+  CATALOG_STORAGE_KEY,
+  MATERIAL_CREATION_DRAFT_KEY,
+  PRODUCT_BUILDER_DRAFT_STORAGE_KEY,
+  PRODUCT_CREATION_DRAFT_KEY,
+  buildDraftStorageKey,
+} from './catalog-cache'
+import { registerStore, runRegisteredMigrations } from './migration-registry'
+import { ORDERS_STORAGE_KEY } from './orders-cache'
+
+type JsonRecord = Record<string, unknown>
+
+function asRecord(value: unknown): JsonRecord {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Expected a JSON object')
+  }
+  return value as JsonRecord
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : []
+}
+
+function asRecordArray(value: unknown): JsonRecord[] {
+  return asArray(value).filter(
+    (item): item is JsonRecord =>
+      item !== null && typeof item === 'object' && !Array.isArray(item)
+  )
+}
+
+registerStore({
+  key: CATALOG_STORAGE_KEY,
+  migrations: [
+    {
+      version: 1,
+      description: 'Ensure catalog collections and substance sub-compositions',
+      up: (data) => {
+        const catalog = asRecord(data)
+        return {
+          ...catalog,
+          products: asRecordArray(catalog.products),
+          suppliers: asRecordArray(catalog.suppliers),
+          materials: asRecordArray(catalog.materials).map((material) => ({
+            ...material,
+            photos: asArray(material.photos),
+            certificates: asArray(material.certificates),
+            substances: asRecordArray(material.substances).map((substance) => ({
+              ...substance,
+              subCompositions: asArray(substance.subCompositions),
+              documents: asArray(substance.documents),
+            })),
+          })),
+        }
+      },
+    },
+    {
+      version: 2,
+      description: 'Start version counters for optimistic concurrency',
+      up: (data) => {
+        const catalog = asRecord(data)
+        const withVersion = (entity: JsonRecord) => ({
+          ...entity,
+          version: entity.version ?? 1,
+        })
+        return {
+          ...catalog,
+          products: asRecordArray(catalog.products).map(withVersion),
+          materials: asRecordArray(catalog.materials).map(withVersion),
+          suppliers: asRecordArray(catalog.suppliers).map(withVersion),
+        }
+      },
+    },
+  ],
+})
+
+registerStore({
+  key: ORDERS_STORAGE_KEY,
+  migrations: [
+    {
+      version: 1,
+      description: 'Default order item link status',
+      up: (data) =>
+        asRecordArray(data).map((order) => ({
+          ...order,
+          items: asRecordArray(order.items).map((item) => ({
+            ...item,
+            status: item.status ?? (item.productId ? 'LINKED' : 'PENDING'),
+          })),
+        })),
+    },
+  ],
+})
+
+registerStore({
+  key: APPROVALS_STORAGE_KEY,
+  migrations: [
+    {
+      version: 1,
+      description: 'Default approval request status',
+      up: (data) =>
+        asRecordArray(data).map((approval) => ({
+          ...approval,
+          status: approval.status ?? 'PENDING',
+        })),
+    },
+    {
+      version: 2,
+      description: 'Track when an approval request last changed',
+      up: (data) =>
+        asRecordArray(data).map((approval) => ({
+          ...approval,
+          updatedAt: approval.updatedAt ?? approval.createdAt,
+        })),
+    },
+  ],
+})
+
+registerStore({
+  key: PRODUCT_BUILDER_DRAFT_STORAGE_KEY,
+  migrations: [
+    {
+      version: 1,
+      description: 'Ensure builder components and substances are arrays',
+      up: (data) => {
+        const draft = asRecord(data)
+        return {
+          ...draft,
+          components: asRecordArray(draft.components).map((component) => ({
+            ...component,
+            substances: asRecordArray(component.substances).map(
+              (substance) => ({
+                ...substance,
+                casNumber: substance.casNumber ?? '',
+              })
+            ),
+          })),
+        }
+      },
+    },
+  ],
+})
+
+for (const draftKey of [
+  PRODUCT_CREATION_DRAFT_KEY,
+  MATERIAL_CREATION_DRAFT_KEY,
+]) {
+  registerStore({
+    key: buildDraftStorageKey(draftKey),
+    migrations: [
+      {
+        version: 1,
+        description: 'Baseline form draft',
+        up: (data) => asRecord(data),
+      },
+    ],
+  })
+}
+
+export function runStoreMigrations() {
+  runRegisteredMigrations()
+}
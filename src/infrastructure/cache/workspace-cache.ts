@@ -0,0 +1,11 @@
+export const ACTIVE_WORKSPACE_STORAGE_KEY = 't4s-demo-active-workspace'
+
+export function getStoredActiveWorkspaceId(): string | null {
+  if (typeof window === 'undefined') return null
+  return localStorage.getItem(ACTIVE_WORKSPACE_STORAGE_KEY)
+}
+
+export function setStoredActiveWorkspaceId(workspaceId: string) {
+  if (typeof window === 'undefined') return
+  localStorage.setItem(ACTIVE_WORKSPACE_STORAGE_KEY, workspaceId)
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+import {
+  makeBomItem,
+  makeCertificate,
+  makeMaterial,
+  makeProduct,
+} from '@/test/catalog-fixtures'
+
+import {
+  findCertificateAlerts,
+  getCertificateExpiry,
+} from './certificate-expiry'
+
+// Local noon, so the day is the same in every time zone under test
+const NOW = new Date(2026, 5, 15, 12)
+const options = { now: NOW, windowDays: 30 }
+
+function expiryOf(expiryDate: string, now = NOW) {
+  return getCertificateExpiry({ expiryDate }, { ...options, now })
+}
+
+describe('getCertificateExpiry', () => {
+  it('is valid outside the window', () => {
+    expect(expiryOf('2026-07-16')).toEqual({
+      status: 'valid',
+      daysRemaining: 31,
+    })
+  })
+
+  it('is expiring on the last day of the window', () => {
+    expect(expiryOf('2026-07-15')).toEqual({
+      status: 'expiring',
+      daysRemaining: 30,
+    })
+  })
+
+  it('is expiring, not expired, on the expiry date itself', () => {
+    expect(expiryOf('2026-06-15')).toEqual({
+      status: 'expiring',
+      daysRemaining: 0,
+    })
+  })
+
+  it('is expired the day after', () => {
+    expect(expiryOf('2026-06-14')).toEqual({
+      status: 'expired',
+      daysRemaining: -1,
+    })
+  })
+
+  it('counts whole days regardless of the time of day', () => {
+    expect(expiryOf('2026-06-16', new Date(2026, 5, 15, 23, 59))).toEqual({
+      status: 'expiring',
+      daysRemaining: 1,
+    })
+    expect(expiryOf('2026-06-15', new Date(2026, 5, 15, 0, 0))).toEqual({
+      status: 'expiring',
+      daysRemaining: 0,
+    })
+  })
+
+  it('reads full timestamps by their local date', () => {
+    expect(
+      expiryOf(new Date(2026, 5, 20, 18, 30).toISOString()).daysRemaining
+    ).toBe(5)
+  })
+
+  it('is unknown without a readable date', () => {
+    expect(expiryOf('')).toEqual({ status: 'unknown', daysRemaining: null })
+    expect(expiryOf('   ')).toEqual({ status: 'unknown', daysRemaining: null })
+    expect(expiryOf('next year')).toEqual({
+      status: 'unknown',
+      daysRemaining: null,
+    })
+  })
+
+  it('uses the configured window by default', () => {
+    // VITE_CERTIFICATE_EXPIRY_WINDOW_DAYS is unset in tests: 60 days
+    expect(
+      getCertificateExpiry({ expiryDate: '2026-08-14' }, { now: NOW }).status
+    ).toBe('expiring')
+    expect(
+      getCertificateExpiry({ expiryDate: '2026-08-15' }, { now: NOW }).status
+    ).toBe('valid')
+  })
+
+  describe.each(['Pacific/Auckland', 'America/Los_Angeles', 'UTC'])(
+    'in %s',
+    (timeZone) => {
+      const originalTimeZone = process.env.TZ
+
+      beforeEach(() => {
+        process.env.TZ = timeZone
+      })
+
+      afterEach(() => {
+        process.env.TZ = originalTimeZone
+      })
+
+      it('reads date-only values as local calendar days', () => {
+        const now = new Date(2026, 5, 15, 12)
+
+        expect(expiryOf('2026-06-15', now)).toEqual({
+          status: 'expiring',
+          daysRemaining: 0,
+        })
+        expect(expiryOf('2026-06-14', now).status).toBe('expired')
+      })
+
+      it('is not thrown off by a daylight saving change in the window', () => {
+        const now = new Date(2026, 2, 1, 12)
+
+        expect(expiryOf('2026-05-01', now).daysRemaining).toBe(61)
+      })
+    }
+  )
+})
+
+describe('findCertificateAlerts', () => {
+  const expired = makeCertificate({ id: 'expired', expiryDate: '2026-06-01' })
+  const expiring = makeCertificate({ id: 'expiring', expiryDate: '2026-06-20' })
+  const valid = makeCertificate({ id: 'valid', expiryDate: '2027-01-01' })
+  const undated = makeCertificate({ id: 'undated', expiryDate: '' })
+
+  const fabric = makeMaterial({
+    id: 'fabric',
+    name: 'Fabric',
+    certificates: [expiring, valid],
+  })
+  const glue = makeMaterial({
+    id: 'glue',
+    name: 'Glue',
+    certificates: [expired, undated],
+  })
+  const wood = makeMaterial({ id: 'wood', name: 'Wood', certificates: [valid] })
+
+  const sofa = makeProduct([makeBomItem(fabric), makeBomItem(glue)], {
+    id: 'sofa',
+  })
+  const chair = makeProduct([makeBomItem(wood), makeBomItem(glue)], {
+    id: 'chair',
+  })
+  const table = makeProduct([makeBomItem(wood)], { id: 'table' })
+
+  it('lists expired and expiring certificates, soonest first', () => {
+    const alerts = findCertificateAlerts(
+      [fabric, glue, wood],
+      [sofa, chair, table],
+      options
+    )
+
+    expect(
+      alerts.map(({ certificate, material, expiry }) => [
+        material.id,
+        certificate.id,
+        expiry.daysRemaining,
+      ])
+    ).toEqual([
+      ['glue', 'expired', -14],
+      ['fabric', 'expiring', 5],
+    ])
+  })
+
+  it('names the products whose BOM uses the material', () => {
+    const alerts = findCertificateAlerts(
+      [fabric, glue, wood],
+      [sofa, chair, table],
+      options
+    )
+    const affected = Object.fromEntries(
+      alerts.map(({ material, affectedProducts }) => [
+        material.id,
+        affectedProducts.map((product) => product.id),
+      ])
+    )
+
+    expect(affected).toEqual({ glue: ['sofa', 'chair'], fabric: ['sofa'] })
+  })
+
+  it('has no affected products for a material outside every BOM', () => {
+    const [alert] = findCertificateAlerts([glue], [table], options)
+
+    expect(alert.affectedProducts).toEqual([])
+  })
+
+  it('is empty when every certificate is valid or undated', () => {
+    expect(
+      findCertificateAlerts(
+        [wood, makeMaterial({ certificates: [undated] })],
+        [table],
+        options
+      )
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,111 @@
+import { env } from '@/config/env'
+import type {
+  CachedMaterial,
+  CachedMaterialCertificate,
+  CachedProduct,
+} from '@/infrastructure/cache/catalog-cache'
+import { findMaterialReferences } from '@/infrastructure/integrity/catalog-integrity'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** `unknown` covers certificates saved without a readable expiry date. */
+export type CertificateStatus = 'valid' | 'expiring' | 'expired' | 'unknown'
+
+export interface CertificateExpiry {
+  status: CertificateStatus
+  /** Whole days until the expiry date; negative once it has passed. */
+  daysRemaining: number | null
+}
+
+export interface ExpiryOptions {
+  now?: Date
+  /** Days before expiry a certificate counts as expiring soon. */
+  windowDays?: number
+}
+
+/** A certificate that has expired or is about to, with what it affects. */
+export interface CertificateAlert {
+  certificate: CachedMaterialCertificate
+  material: CachedMaterial
+  expiry: CertificateExpiry
+  /** Products whose BOM lists the material. */
+  affectedProducts: CachedProduct[]
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Date inputs store `YYYY-MM-DD`, which Date would read as UTC midnight
+function parseExpiryDate(value: string): Date | null {
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim())
+  if (dateOnly) {
+    return new Date(
+      Number(dateOnly[1]),
+      Number(dateOnly[2]) - 1,
+      Number(dateOnly[3])
+    )
+  }
+  const parsed = new Date(value)
+  return Number.isNaN(parsed.getTime()) ? null : startOfDay(parsed)
+}
+
+/**
+ * A certificate is valid through its expiry date and expiring soon within
+ * `windowDays` of it (VITE_CERTIFICATE_EXPIRY_WINDOW_DAYS by default).
+ */
+export function getCertificateExpiry(
+  certificate: Pick<CachedMaterialCertificate, 'expiryDate'>,
+  {
+    now = new Date(),
+    windowDays = env.certificates.expiryWindowDays,
+  }: ExpiryOptions = {}
+): CertificateExpiry {
+  const expiresOn = certificate.expiryDate
+    ? parseExpiryDate(certificate.expiryDate)
+    : null
+  if (!expiresOn) return { status: 'unknown', daysRemaining: null }
+
+  const daysRemaining = Math.round(
+    (expiresOn.getTime() - startOfDay(now).getTime()) / DAY_MS
+  )
+  return {
+    status:
+      daysRemaining < 0
+        ? 'expired'
+        : daysRemaining <= windowDays
+          ? 'expiring'
+          : 'valid',
+    daysRemaining,
+  }
+}
+
+/** Expired and expiring certificates across the catalog, soonest first. */
+export function findCertificateAlerts(
+  materials: CachedMaterial[],
+  products: CachedProduct[],
+  options: ExpiryOptions = {}
+): CertificateAlert[] {
+  const alerts: CertificateAlert[] = []
+
+  for (const material of materials) {
+    const certificates = material.certificates.flatMap((certificate) => {
+      const expiry = getCertificateExpiry(certificate, options)
+      return expiry.status === 'expired' || expiry.status === 'expiring'
+        ? [{ certificate, expiry }]
+        : []
+    })
+    if (certificates.length === 0) continue
+
+    const affectedProducts = findMaterialReferences(products, material.id).map(
+      (reference) => reference.product
+    )
+    for (const { certificate, expiry } of certificates) {
+      alerts.push({ certificate, material, expiry, affectedProducts })
+    }
+  }
+
+  return alerts.sort(
+    (a, b) => (a.expiry.daysRemaining ?? 0) - (b.expiry.daysRemaining ?? 0)
+  )
+}
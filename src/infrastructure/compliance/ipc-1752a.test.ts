@@ -0,0 +1,385 @@
+import { describe, expect, it } from 'vitest'
+
+import type { CachedSupplier } from '@/infrastructure/cache/catalog-cache'
+import {
+  makeBomItem,
+  makeMaterial,
+  makeProduct,
+  makeSubComposition,
+  makeSubstance,
+  materialLookup,
+} from '@/test/catalog-fixtures'
+
+import {
+  getIpc1752FileName,
+  IPC_1752A_NAMESPACE,
+  Ipc1752Error,
+  parseIpc1752Xml,
+  toCachedMaterialInput,
+  toIpc1752Xml,
+} from './ipc-1752a'
+import { buildMaterialDeclaration } from './material-declaration'
+
+const RESPONSE_DATE = '2026-03-01T12:00:00.000Z'
+
+const housing = makeMaterial({
+  id: 'housing',
+  name: 'Housing <ABS>',
+  weight: 40,
+  substances: [
+    makeSubstance({
+      id: 'abs',
+      substanceName: 'ABS',
+      substanceCode: '9003-56-9',
+      percentage: 98,
+    }),
+    makeSubstance({
+      id: 'additives',
+      substanceName: 'Additives',
+      substanceCode: '',
+      percentage: 2,
+      subCompositions: [
+        makeSubComposition({
+          id: 'dehp',
+          substanceName: 'DEHP',
+          substanceCode: '117-81-7',
+          percentage: 50,
+        }),
+      ],
+    }),
+  ],
+})
+
+const pin = makeMaterial({
+  id: 'pin',
+  name: 'Pin',
+  weight: 0.5,
+  substances: [
+    makeSubstance({
+      id: 'copper',
+      substanceName: 'Copper',
+      substanceCode: '7440508',
+      percentage: 100,
+    }),
+  ],
+})
+
+const product = makeProduct(
+  [makeBomItem(housing), makeBomItem(pin, { quantity: 4 })],
+  { name: 'Plug & socket', sku: 'PLG-01' }
+)
+
+function exportProduct(target = product) {
+  return toIpc1752Xml(
+    buildMaterialDeclaration(target, materialLookup([housing, pin])),
+    { supplierName: 'Acme "Parts"', responseDate: RESPONSE_DATE }
+  )
+}
+
+function parseXml(text: string) {
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+function childNames(element: Element) {
+  return [...element.children].map((child) => child.localName)
+}
+
+describe('toIpc1752Xml', () => {
+  it('writes well-formed XML in the IPC-1752A 2.0 namespace', () => {
+    const xml = exportProduct()
+    const document = parseXml(xml)
+
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n')).toBe(
+      true
+    )
+    expect(document.getElementsByTagName('parsererror')).toHaveLength(0)
+    expect(document.documentElement.localName).toBe('MainDeclaration')
+    expect(document.documentElement.namespaceURI).toBe(IPC_1752A_NAMESPACE)
+    expect(document.documentElement.getAttribute('version')).toBe('2.0')
+  })
+
+  it('nests business, product and material info as class D requires', () => {
+    const root = parseXml(exportProduct()).documentElement
+    const [businessInfo, productNode, materialInfo] = [...root.children]
+
+    expect(childNames(root)).toEqual([
+      'BusinessInfo',
+      'Product',
+      'MaterialInfo',
+    ])
+    expect(childNames(businessInfo)).toEqual(['Response', 'Supplier'])
+    expect(childNames(productNode)).toEqual(['ProductID'])
+    expect(childNames(productNode.children[0])).toEqual(['Amount'])
+    expect(childNames(materialInfo)).toEqual(['HomogeneousMaterialList'])
+
+    for (const material of root.getElementsByTagName('HomogeneousMaterial')) {
+      const [first, ...rest] = childNames(material)
+      expect(first).toBe('Amount')
+      expect(new Set(rest)).toEqual(new Set(['Substance']))
+    }
+    for (const substance of root.getElementsByTagName('Substance')) {
+      expect(childNames(substance).at(-1)).toBe('Amount')
+    }
+  })
+
+  it('fills in the required attributes', () => {
+    const root = parseXml(exportProduct()).documentElement
+    const attribute = (tag: string, name: string) =>
+      root.getElementsByTagName(tag)[0].getAttribute(name)
+
+    expect(attribute('Response', 'responseDate')).toBe(RESPONSE_DATE)
+    expect(attribute('Supplier', 'company-name')).toBe('Acme "Parts"')
+    expect(attribute('ProductID', 'itemNumber')).toBe('PLG-01')
+    expect(attribute('ProductID', 'itemName')).toBe('Plug & socket')
+    expect(attribute('ProductID', 'version')).toBe('1')
+    expect(attribute('ProductID', 'effectiveDate')).toBe(RESPONSE_DATE)
+
+    for (const amount of root.getElementsByTagName('Amount')) {
+      expect(amount.getAttribute('UOM')).toBe('g')
+      expect(Number.isFinite(Number(amount.getAttribute('value')))).toBe(true)
+    }
+  })
+
+  it('declares version 1 for a product that has not synced yet', () => {
+    const offline = { ...product, version: undefined as unknown as number }
+    const root = parseXml(exportProduct(offline)).documentElement
+
+    expect(
+      root.getElementsByTagName('ProductID')[0].getAttribute('version')
+    ).toBe('1')
+  })
+
+  it('declares each sub-composition in place of its parent substance', () => {
+    const root = parseXml(exportProduct()).documentElement
+    const [housingNode] = root.getElementsByTagName('HomogeneousMaterial')
+
+    expect(
+      [...housingNode.getElementsByTagName('Substance')].map((node) => [
+        node.getAttribute('name'),
+        node.getElementsByTagName('SubstanceID')[0]?.getAttribute('identity'),
+        node.getElementsByTagName('Amount')[0].getAttribute('value'),
+      ])
+    ).toEqual([
+      ['ABS', '9003-56-9', '39.2'],
+      ['Additives', undefined, '0.4'],
+      ['DEHP', '117-81-7', '0.4'],
+    ])
+  })
+
+  it('refuses to export while a BOM material has no weight or is gone', () => {
+    const unweighed = { ...pin, weight: 0 }
+    const target = makeProduct([
+      makeBomItem(unweighed),
+      makeBomItem({ id: 'gone', name: 'Gone' }),
+    ])
+    const declaration = buildMaterialDeclaration(
+      target,
+      materialLookup([unweighed])
+    )
+
+    let error: unknown
+    try {
+      toIpc1752Xml(declaration, { supplierName: 'Acme' })
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(Ipc1752Error)
+    expect((error as Ipc1752Error).issues).toEqual([
+      'Pin: no weight',
+      'Gone: no longer in the catalog',
+    ])
+  })
+})
+
+describe('parseIpc1752Xml', () => {
+  it('reads back what toIpc1752Xml wrote', () => {
+    const declaration = parseIpc1752Xml(exportProduct())
+
+    expect(declaration).toEqual({
+      itemNumber: 'PLG-01',
+      itemName: 'Plug & socket',
+      supplierName: 'Acme "Parts"',
+      productMass: 42,
+      materials: [
+        {
+          name: 'Housing <ABS>',
+          mass: 40,
+          substances: [
+            { name: 'ABS', casNumber: '9003-56-9', mass: 39.2 },
+            { name: 'Additives', casNumber: '', mass: 0.4 },
+            { name: 'DEHP', casNumber: '117-81-7', mass: 0.4 },
+          ],
+        },
+        {
+          name: 'Pin',
+          mass: 2,
+          substances: [{ name: 'Copper', casNumber: '7440-50-8', mass: 2 }],
+        },
+      ],
+    })
+  })
+
+  it('converts amounts to grams and accepts other namespaces', () => {
+    const declaration = parseIpc1752Xml(`<?xml version="1.0"?>
+      <MainDeclaration xmlns="http://webstds.ipc.org/175x/1.1">
+        <BusinessInfo><Supplier company-name=" Acme "/></BusinessInfo>
+        <Product>
+          <ProductID itemNumber="P-1" itemName="Part">
+            <Amount value="0.002" UOM="kg"/>
+          </ProductID>
+        </Product>
+        <HomogeneousMaterial name="Solder">
+          <Amount value="1500" UOM="mg"/>
+          <Substance name="Tin">
+            <SubstanceID identity="7440315" authority="cas"/>
+            <Amount value="1450000" UOM="µg"/>
+          </Substance>
+          <Substance name="Silver">
+            <SubstanceID identity="7440-22-4" authority="CAS"/>
+          </Substance>
+        </HomogeneousMaterial>
+      </MainDeclaration>`)
+
+    expect(declaration.supplierName).toBe('Acme')
+    expect(declaration.productMass).toBe(2)
+    expect(declaration.materials).toEqual([
+      {
+        name: 'Solder',
+        mass: 1.5,
+        substances: [
+          { name: 'Tin', casNumber: '7440-31-5', mass: 1.45 },
+          { name: 'Silver', casNumber: '7440-22-4', mass: null },
+        ],
+      },
+    ])
+  })
+
+  it('rejects files that are not IPC-1752A declarations', () => {
+    expect(() => parseIpc1752Xml('<MainDeclaration>')).toThrow(
+      'The file is not valid XML'
+    )
+    expect(() => parseIpc1752Xml('<Invoice/>')).toThrow(
+      'The file is not an IPC-1752A declaration'
+    )
+  })
+
+  it('lists every unreadable amount and a missing material list', () => {
+    let error: unknown
+    try {
+      parseIpc1752Xml(`<MainDeclaration>
+        <Product><ProductID><Amount value="heavy" UOM="g"/></ProductID></Product>
+      </MainDeclaration>`)
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(Ipc1752Error)
+    expect((error as Ipc1752Error).issues).toEqual([
+      'Product: unreadable amount "heavy g"',
+      'The declaration lists no homogeneous materials',
+    ])
+  })
+})
+
+describe('toCachedMaterialInput', () => {
+  const supplier: CachedSupplier = {
+    id: 'acme',
+    name: 'Acme Parts',
+  } as CachedSupplier
+
+  it('turns an exported declaration back into a component', () => {
+    const { input, warnings } = toCachedMaterialInput(
+      parseIpc1752Xml(exportProduct()),
+      { supplier, workspaceId: 'workspace', fallbackName: 'Imported' }
+    )
+
+    expect(input).toMatchObject({
+      name: 'Plug & socket',
+      description: 'Part PLG-01 declared by Acme Parts (IPC-1752A import)',
+      weight: 42,
+      workspaceId: 'workspace',
+    })
+    expect(
+      input.substances.map(
+        ({ substanceName, substanceCode, projectedWeight, percentage }) => [
+          substanceName,
+          substanceCode,
+          projectedWeight,
+          percentage,
+        ]
+      )
+    ).toEqual([
+      ['ABS', '9003-56-9', 39.2, 93.333333],
+      ['Additives', '', 0.4, 0.952381],
+      ['DEHP', '117-81-7', 0.4, 0.952381],
+      ['Copper', '7440-50-8', 2, 4.761905],
+    ])
+    expect(input.substances.every((row) => row.supplierId === 'acme')).toBe(
+      true
+    )
+    expect(warnings).toEqual([
+      'Additives in Housing <ABS> has no valid CAS number',
+    ])
+  })
+
+  it('sums substances that occur in several materials and skips those without an amount', () => {
+    const { input, warnings } = toCachedMaterialInput(
+      {
+        itemNumber: '',
+        itemName: '',
+        supplierName: 'Acme',
+        productMass: 10,
+        materials: [
+          {
+            name: 'A',
+            mass: 4,
+            substances: [
+              { name: 'Copper', casNumber: '7440-50-8', mass: 4 },
+              { name: 'Silver', casNumber: '7440-22-4', mass: null },
+            ],
+          },
+          {
+            name: 'B',
+            mass: 4,
+            substances: [{ name: 'Copper', casNumber: '7440-50-8', mass: 4 }],
+          },
+        ],
+      },
+      { fallbackName: 'part.xml' }
+    )
+
+    expect(input.name).toBe('part.xml')
+    expect(input.substances).toHaveLength(1)
+    expect(input.substances[0]).toMatchObject({
+      projectedWeight: 8,
+      percentage: 80,
+      supplierName: 'Acme',
+    })
+    expect(warnings).toEqual([
+      '1 substance has no amount and was skipped',
+      'The homogeneous materials weigh 8 g, but the product is declared at 10 g',
+    ])
+  })
+
+  it('needs a product mass', () => {
+    expect(() =>
+      toCachedMaterialInput(
+        {
+          itemNumber: '',
+          itemName: '',
+          supplierName: '',
+          productMass: null,
+          materials: [{ name: 'A', mass: null, substances: [] }],
+        },
+        { fallbackName: 'part.xml' }
+      )
+    ).toThrow(Ipc1752Error)
+  })
+})
+
+describe('getIpc1752FileName', () => {
+  it('names the file after the SKU', () => {
+    expect(getIpc1752FileName(product)).toBe('ipc-1752a-PLG-01.xml')
+  })
+})
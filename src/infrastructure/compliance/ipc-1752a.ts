@@ -0,0 +1,383 @@
+import type {
+  CachedMaterialSubstance,
+  CachedProduct,
+  CachedSupplier,
+  CreateCachedMaterialInput,
+} from '@/infrastructure/cache/catalog-cache'
+import {
+  isValidCasNumber,
+  normalizeCasNumber,
+} from '@/infrastructure/substances/cas-number'
+
+import {
+  listLeafSubstances,
+  type MaterialDeclaration,
+} from './material-declaration'
+
+export const IPC_1752A_NAMESPACE = 'http://webstds.ipc.org/175x/2.0'
+export const IPC_1752A_VERSION = '2.0'
+
+// Grams per unit accepted in `Amount/@UOM`
+const MASS_UNITS: Record<string, number> = {
+  kg: 1000,
+  g: 1,
+  mg: 0.001,
+  ug: 0.000001,
+  µg: 0.000001,
+}
+
+export class Ipc1752Error extends Error {
+  readonly issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'Ipc1752Error'
+    this.issues = issues
+  }
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function element(
+  name: string,
+  attributes: Record<string, string | undefined>,
+  children: string[] = []
+) {
+  const attributeText = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('')
+  if (children.length === 0) return `<${name}${attributeText}/>`
+  const body = children
+    .join('\n')
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n')
+  return `<${name}${attributeText}>\n${body}\n</${name}>`
+}
+
+function amount(grams: number) {
+  return element('Amount', {
+    value: String(Number(grams.toFixed(6))),
+    UOM: 'g',
+  })
+}
+
+/**
+ * Writes the declaration as an IPC-1752A class D (full material
+ * declaration) document, which also answers class C requests: every
+ * homogeneous material with the mass of each substance in it. Sub-
+ * compositions are declared in place of their parent substance. Every BOM
+ * material needs a weight, since the standard requires masses.
+ */
+export function toIpc1752Xml(
+  declaration: MaterialDeclaration,
+  {
+    supplierName,
+    responseDate = new Date().toISOString(),
+  }: { supplierName: string; responseDate?: string }
+): string {
+  const { product, productMass } = declaration
+  const unweighed = declaration.materials.filter((entry) => entry.mass === null)
+  if (unweighed.length > 0 || productMass === null) {
+    throw new Ipc1752Error(
+      'Every BOM material needs a weight before exporting',
+      unweighed.map(
+        (entry) =>
+          `${entry.material?.name ?? entry.bomItem.materialName}: ${
+            entry.material ? 'no weight' : 'no longer in the catalog'
+          }`
+      )
+    )
+  }
+
+  const materials = declaration.materials.map((entry) =>
+    element(
+      'HomogeneousMaterial',
+      { name: entry.material?.name ?? entry.bomItem.materialName },
+      [
+        amount(entry.mass ?? 0),
+        ...listLeafSubstances(entry).map((row) =>
+          element('Substance', { name: row.name || 'Unnamed substance' }, [
+            ...(isValidCasNumber(row.casNumber)
+              ? [
+                  element('SubstanceID', {
+                    identity: normalizeCasNumber(row.casNumber),
+                    authority: 'CAS',
+                  }),
+                ]
+              : []),
+            amount(row.mass ?? 0),
+          ])
+        ),
+      ]
+    )
+  )
+
+  const document = element(
+    'MainDeclaration',
+    {
+      xmlns: IPC_1752A_NAMESPACE,
+      version: IPC_1752A_VERSION,
+    },
+    [
+      element('BusinessInfo', {}, [
+        element('Response', { responseDate }),
+        element('Supplier', { 'company-name': supplierName }),
+      ]),
+      element('Product', {}, [
+        element(
+          'ProductID',
+          {
+            itemNumber: product.sku || product.upc || product.id,
+            itemName: product.name,
+            // Products created offline have no version until they sync
+            version: String(product.version ?? 1),
+            effectiveDate: responseDate,
+          },
+          [amount(productMass)]
+        ),
+      ]),
+      element('MaterialInfo', {}, [
+        element('HomogeneousMaterialList', {}, materials),
+      ]),
+    ]
+  )
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${document}\n`
+}
+
+export function getIpc1752FileName(product: CachedProduct): string {
+  const reference = (product.sku || product.upc || product.id).replace(
+    /[^\w.-]+/g,
+    '-'
+  )
+  return `ipc-1752a-${reference}.xml`
+}
+
+export interface Ipc1752Substance {
+  name: string
+  casNumber: string
+  /** Grams; null when the file gives no amount. */
+  mass: number | null
+}
+
+export interface Ipc1752HomogeneousMaterial {
+  name: string
+  mass: number | null
+  substances: Ipc1752Substance[]
+}
+
+/** The parts of a supplier's IPC-1752A file that the catalog can hold. */
+export interface Ipc1752Declaration {
+  itemNumber: string
+  itemName: string
+  supplierName: string
+  /** Grams; null when the file gives no product amount. */
+  productMass: number | null
+  materials: Ipc1752HomogeneousMaterial[]
+}
+
+function children(parent: Element, localName: string) {
+  return [...parent.children].filter((child) => child.localName === localName)
+}
+
+function descendants(parent: Element | Document, localName: string) {
+  return [...parent.getElementsByTagNameNS('*', localName)]
+}
+
+function readAmount(parent: Element, issues: string[], label: string) {
+  const node = children(parent, 'Amount')[0]
+  if (!node) return null
+
+  const value = Number(node.getAttribute('value'))
+  const unit = (node.getAttribute('UOM') ?? 'g').trim()
+  const factor = MASS_UNITS[unit] ?? MASS_UNITS[unit.toLowerCase()]
+  if (!Number.isFinite(value) || factor === undefined) {
+    issues.push(
+      `${label}: unreadable amount "${node.getAttribute('value')} ${unit}"`
+    )
+    return null
+  }
+  return value * factor
+}
+
+/**
+ * Reads the product, supplier and homogeneous materials from an IPC-1752A
+ * document. Elements are matched by local name, so 1.x and 2.x files both
+ * load; anything the catalog has no place for is ignored.
+ */
+export function parseIpc1752Xml(text: string): Ipc1752Declaration {
+  const document = new DOMParser().parseFromString(text, 'application/xml')
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Ipc1752Error('The file is not valid XML')
+  }
+
+  const root = document.documentElement
+  if (root.localName !== 'MainDeclaration') {
+    throw new Ipc1752Error('The file is not an IPC-1752A declaration', [
+      `Expected a MainDeclaration root element, found ${root.localName}`,
+    ])
+  }
+
+  const issues: string[] = []
+  const productId = descendants(root, 'ProductID')[0]
+  const supplier = descendants(root, 'Supplier')[0]
+
+  const materials = descendants(root, 'HomogeneousMaterial').map(
+    (node, index): Ipc1752HomogeneousMaterial => {
+      const name = node.getAttribute('name')?.trim() || `Material ${index + 1}`
+      return {
+        name,
+        mass: readAmount(node, issues, name),
+        substances: children(node, 'Substance').map((substance) => {
+          const substanceName = substance.getAttribute('name')?.trim() ?? ''
+          const id = children(substance, 'SubstanceID').find(
+            (entry) => entry.getAttribute('authority')?.toUpperCase() === 'CAS'
+          )
+          return {
+            name: substanceName,
+            casNumber: normalizeCasNumber(id?.getAttribute('identity') ?? ''),
+            mass: readAmount(substance, issues, substanceName || name),
+          }
+        }),
+      }
+    }
+  )
+
+  const productMass = productId
+    ? readAmount(productId, issues, 'Product')
+    : null
+  if (materials.length === 0) {
+    issues.push('The declaration lists no homogeneous materials')
+  }
+  if (issues.length > 0) {
+    throw new Ipc1752Error('The declaration cannot be imported', issues)
+  }
+
+  return {
+    itemNumber: productId?.getAttribute('itemNumber')?.trim() ?? '',
+    itemName: productId?.getAttribute('itemName')?.trim() ?? '',
+    supplierName: supplier?.getAttribute('company-name')?.trim() ?? '',
+    productMass,
+    materials,
+  }
+}
+
+function roundTo6(value: number) {
+  return Number(value.toFixed(6))
+}
+
+/**
+ * Turns a supplier's declaration into a new component. The part is one
+ * article, so its homogeneous materials are merged: substances with the same
+ * CAS number are summed, and percentages are of the part's weight.
+ */
+export function toCachedMaterialInput(
+  declaration: Ipc1752Declaration,
+  {
+    workspaceId,
+    supplier,
+    fallbackName,
+  }: {
+    workspaceId?: string
+    /** The catalog supplier to link substances to, when one matches. */
+    supplier?: CachedSupplier
+    fallbackName: string
+  }
+): { input: CreateCachedMaterialInput; warnings: string[] } {
+  const warnings: string[] = []
+  const materialsMass = declaration.materials.reduce<number | null>(
+    (sum, material) =>
+      sum === null || material.mass === null ? null : sum + material.mass,
+    0
+  )
+  const weight = declaration.productMass ?? materialsMass
+  if (!weight) {
+    throw new Ipc1752Error('The declaration gives no product mass', [
+      'Add an Amount to the ProductID or to every HomogeneousMaterial',
+    ])
+  }
+
+  const supplierName = supplier?.name ?? declaration.supplierName
+  const substances = new Map<string, CachedMaterialSubstance>()
+  let undeclaredCount = 0
+
+  for (const material of declaration.materials) {
+    for (const substance of material.substances) {
+      if (substance.mass === null) {
+        undeclaredCount += 1
+        continue
+      }
+      if (!isValidCasNumber(substance.casNumber)) {
+        warnings.push(
+          `${substance.name || 'A substance'} in ${material.name} has no valid CAS number`
+        )
+      }
+
+      const key = isValidCasNumber(substance.casNumber)
+        ? substance.casNumber
+        : substance.name.toLowerCase()
+      const existing = substances.get(key)
+      const mass = (existing?.projectedWeight ?? 0) + substance.mass
+      substances.set(key, {
+        id: existing?.id ?? crypto.randomUUID(),
+        inputType: 'chemical',
+        substanceName: existing?.substanceName ?? substance.name,
+        substanceCode: substance.casNumber,
+        percentage: roundTo6((mass / weight) * 100),
+        projectedWeight: roundTo6(mass),
+        subCompositions: [],
+        supplierId: supplier?.id ?? '',
+        supplierName,
+        documents: [],
+      })
+    }
+  }
+
+  if (undeclaredCount > 0) {
+    warnings.push(
+      `${undeclaredCount} substance${undeclaredCount === 1 ? ' has' : 's have'} no amount and ${undeclaredCount === 1 ? 'was' : 'were'} skipped`
+    )
+  }
+  if (
+    declaration.productMass !== null &&
+    materialsMass !== null &&
+    Math.abs(declaration.productMass - materialsMass) >
+      declaration.productMass * 0.01
+  ) {
+    warnings.push(
+      `The homogeneous materials weigh ${roundTo6(materialsMass)} g, but the product is declared at ${roundTo6(declaration.productMass)} g`
+    )
+  }
+
+  const name = declaration.itemName || declaration.itemNumber || fallbackName
+  return {
+    input: {
+      name,
+      description: [
+        declaration.itemNumber && `Part ${declaration.itemNumber}`,
+        supplierName && `declared by ${supplierName}`,
+        '(IPC-1752A import)',
+      ]
+        .filter(Boolean)
+        .join(' '),
+      unitOfMeasurement: 'piece',
+      unitCost: 0,
+      unitCostCurrency: 'USD',
+      weight: roundTo6(weight),
+      photos: [],
+      certificates: [],
+      substances: [...substances.values()],
+      workspaceId,
+    },
+    warnings,
+  }
+}
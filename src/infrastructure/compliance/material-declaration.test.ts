@@ -0,0 +1,357 @@
+import { describe, expect, it } from 'vitest'
+
+import type { CachedMaterial } from '@/infrastructure/cache/catalog-cache'
+import {
+  makeBomItem,
+  makeMaterial,
+  makeProduct,
+  makeSubComposition,
+  makeSubstance,
+  materialLookup,
+} from '@/test/catalog-fixtures'
+
+import {
+  buildMaterialDeclaration,
+  getMaterialDeclarationFileName,
+  listLeafSubstances,
+  toMaterialDeclarationDocument,
+} from './material-declaration'
+
+/** Fills in projectedWeight from the percentages, as the component form does. */
+function withProjectedWeights(material: CachedMaterial): CachedMaterial {
+  return {
+    ...material,
+    substances: material.substances.map((substance) => {
+      const weight = (material.weight * substance.percentage) / 100
+      return {
+        ...substance,
+        projectedWeight: weight,
+        subCompositions: substance.subCompositions.map((subComposition) => ({
+          ...subComposition,
+          projectedWeight: (weight * subComposition.percentage) / 100,
+        })),
+      }
+    }),
+  }
+}
+
+const cushion = withProjectedWeights(
+  makeMaterial({
+    id: 'cushion',
+    name: 'Cushion',
+    weight: 400,
+    substances: [
+      makeSubstance({
+        id: 'foam',
+        substanceName: 'Polyurethane',
+        substanceCode: '9009-54-5',
+        percentage: 75,
+      }),
+      makeSubstance({
+        id: 'cover',
+        substanceName: 'Cover',
+        substanceCode: '',
+        percentage: 25,
+        subCompositions: [
+          makeSubComposition({
+            id: 'cover-pet',
+            substanceName: 'Polyester',
+            substanceCode: '25038-59-9',
+            percentage: 60,
+          }),
+        ],
+      }),
+    ],
+  })
+)
+
+const legs = withProjectedWeights(
+  makeMaterial({
+    id: 'legs',
+    name: 'Legs',
+    weight: 150,
+    substances: [
+      makeSubstance({
+        id: 'legs-pu',
+        substanceName: 'Polyurethane foam',
+        substanceCode: '9009545',
+        percentage: 20,
+      }),
+      makeSubstance({
+        id: 'legs-steel',
+        substanceName: 'Iron',
+        substanceCode: '7439-89-6',
+        percentage: 80,
+      }),
+    ],
+  })
+)
+
+function declare(
+  materials: CachedMaterial[],
+  bomItems = materials.map((material) => makeBomItem(material)),
+  productWeight?: number
+) {
+  return buildMaterialDeclaration(
+    makeProduct(bomItems, { weight: productWeight }),
+    materialLookup(materials)
+  )
+}
+
+describe('listLeafSubstances', () => {
+  it('replaces a substance by its sub-compositions and the share they leave', () => {
+    const [material] = declare([cushion]).materials
+
+    const leaves = listLeafSubstances(material).map(
+      ({ id, concentrationInMaterial, mass }) => ({
+        id,
+        concentrationInMaterial,
+        mass,
+      })
+    )
+
+    expect(leaves).toEqual([
+      { id: 'foam', concentrationInMaterial: 0.75, mass: 300 },
+      {
+        id: 'cover',
+        concentrationInMaterial: expect.closeTo(0.1) as number,
+        mass: expect.closeTo(40) as number,
+      },
+      {
+        id: 'cover-pet',
+        concentrationInMaterial: expect.closeTo(0.15) as number,
+        mass: expect.closeTo(60) as number,
+      },
+    ])
+  })
+
+  it('drops a substance its sub-compositions cover completely', () => {
+    const coated = makeMaterial({
+      substances: [
+        makeSubstance({
+          id: 'blend',
+          substanceCode: '',
+          subCompositions: [
+            makeSubComposition({ id: 'a', percentage: 70 }),
+            makeSubComposition({ id: 'b', percentage: 40 }),
+          ],
+        }),
+      ],
+    })
+    const [material] = declare([coated]).materials
+
+    expect(listLeafSubstances(material).map((row) => row.id)).toEqual([
+      'a',
+      'b',
+    ])
+  })
+
+  it('keeps masses unknown for a material without a weight', () => {
+    const [material] = declare([{ ...cushion, weight: 0 }]).materials
+
+    const leaves = listLeafSubstances(material)
+
+    expect(leaves.map((row) => row.mass)).toEqual([null, null, null])
+    expect(leaves.map((row) => row.shareOfProduct)).toEqual([null, null, null])
+  })
+})
+
+describe('buildMaterialDeclaration', () => {
+  it('weighs materials and substances against the product', () => {
+    const declaration = declare([cushion, legs], undefined, 550)
+
+    expect(declaration.productMass).toBe(550)
+    expect(declaration.materials.map((entry) => entry.shareOfProduct)).toEqual([
+      400 / 550,
+      150 / 550,
+    ])
+    expect(declaration.materials[0].substances[0]).toMatchObject({
+      level: 'substance',
+      name: 'Polyurethane',
+      percentage: 75,
+      mass: 300,
+      shareOfProduct: 300 / 550,
+    })
+    expect(declaration.materials[0].substances[2].level).toBe('sub-composition')
+  })
+
+  it('sums a substance across materials by its normalized CAS number', () => {
+    const { totals } = declare([cushion, legs])
+
+    expect(totals[0]).toEqual({
+      name: 'Polyurethane',
+      casNumber: '9009-54-5',
+      mass: 330,
+      shareOfProduct: 330 / 550,
+      materialCount: 2,
+    })
+  })
+
+  it('sorts the totals by mass and keys substances without a CAS number by name', () => {
+    const { totals } = declare([cushion, legs])
+
+    expect(totals.map((total) => [total.name, total.mass])).toEqual([
+      ['Polyurethane', 330],
+      ['Iron', 120],
+      ['Polyester', expect.closeTo(60)],
+      ['Cover', expect.closeTo(40)],
+    ])
+  })
+
+  it('counts a material once when a substance repeats in it', () => {
+    const doubled = makeMaterial({
+      substances: [
+        makeSubstance({ id: 'a', percentage: 50 }),
+        makeSubstance({ id: 'b', substanceCode: '7732185', percentage: 50 }),
+      ],
+    })
+
+    const { totals } = declare([doubled])
+
+    expect(totals).toHaveLength(1)
+    expect(totals[0]).toMatchObject({ mass: 10, materialCount: 1 })
+  })
+
+  it('leaves totals unknown when a material has no weight', () => {
+    const { productMass, totals } = declare([cushion, { ...legs, weight: 0 }])
+
+    expect(productMass).toBeNull()
+    expect(totals.find((total) => total.name === 'Polyurethane')).toMatchObject(
+      { mass: null, shareOfProduct: null, materialCount: 2 }
+    )
+  })
+
+  it('raises nothing about consistent weights and shares', () => {
+    const bomItems = [
+      makeBomItem(cushion, { percentage: 72.7 }),
+      makeBomItem(legs, { percentage: 27.3 }),
+    ]
+
+    // Only the cover, which is declared by its parts, lacks a CAS number
+    expect(declare([cushion, legs], bomItems, 550).issues).toEqual([
+      {
+        kind: 'missing',
+        message: 'Cover has no CAS number',
+        bomItemId: 'bom-cushion',
+        substanceId: 'cover',
+      },
+    ])
+  })
+
+  it('lists missing data where it occurs', () => {
+    const partial = makeMaterial({
+      id: 'partial',
+      name: 'Partial',
+      weight: 0,
+      substances: [
+        makeSubstance({
+          substanceName: 'Dye',
+          substanceCode: '',
+          percentage: 80,
+        }),
+      ],
+    })
+    const gone = makeBomItem({ id: 'gone', name: 'Gone' })
+
+    const { issues } = declare([partial], [makeBomItem(partial), gone])
+
+    expect(issues).toEqual([
+      {
+        kind: 'missing',
+        message: 'No weight, so substance masses cannot be computed',
+        bomItemId: 'bom-partial',
+      },
+      {
+        kind: 'missing',
+        message: '20% of the material is undeclared',
+        bomItemId: 'bom-partial',
+      },
+      {
+        kind: 'missing',
+        message: 'Dye has no CAS number',
+        bomItemId: 'bom-partial',
+        substanceId: 'substance',
+      },
+      {
+        kind: 'missing',
+        message: 'Gone is no longer in the catalog',
+        bomItemId: 'bom-gone',
+      },
+    ])
+  })
+
+  it('lists contradictions in the data', () => {
+    const inconsistent = makeMaterial({
+      id: 'inconsistent',
+      weight: 100,
+      substances: [
+        makeSubstance({
+          id: 'typo',
+          substanceName: 'Water',
+          substanceCode: '7732-18-4',
+          percentage: 110,
+          projectedWeight: 110,
+        }),
+        makeSubstance({
+          id: 'stale',
+          substanceName: 'Lead',
+          substanceCode: '7439-92-1',
+          percentage: 1,
+          projectedWeight: 5,
+        }),
+      ],
+    })
+
+    const messages = declare(
+      [inconsistent],
+      [makeBomItem(inconsistent, { percentage: 50 })],
+      200
+    ).issues.map((issue) => `${issue.kind}: ${issue.message}`)
+
+    expect(messages).toEqual([
+      'inconsistent: BOM percentages add up to 50%',
+      'inconsistent: The product weighs 200 g, but its materials add up to 100 g',
+      'inconsistent: The BOM lists 50%, but its weight is 100% of the product',
+      'inconsistent: Substances add up to 111%',
+      'inconsistent: Water has an invalid CAS number (7732-18-4)',
+      'inconsistent: Lead is stored as 5 g, but its percentage gives 1 g',
+    ])
+  })
+})
+
+describe('toMaterialDeclarationDocument', () => {
+  it('keeps the declaration without the catalog records', () => {
+    const declaration = declare([cushion])
+
+    const document = toMaterialDeclarationDocument(
+      declaration,
+      '2026-02-01T00:00:00.000Z'
+    )
+
+    expect(document.generatedAt).toBe('2026-02-01T00:00:00.000Z')
+    expect(document.product).toEqual({
+      id: 'product',
+      name: 'Product',
+      sku: undefined,
+      upc: '012345678905',
+      mass: 400,
+    })
+    expect(document.materials[0]).not.toHaveProperty('material')
+    expect(document.materials[0]).toMatchObject({
+      materialId: 'cushion',
+      name: 'Cushion',
+      mass: 400,
+    })
+  })
+})
+
+describe('getMaterialDeclarationFileName', () => {
+  it('names the file after the SKU, then the UPC', () => {
+    expect(
+      getMaterialDeclarationFileName(makeProduct(undefined, { sku: 'CH/01 A' }))
+    ).toBe('material-declaration-CH-01-A.json')
+    expect(getMaterialDeclarationFileName(makeProduct(undefined))).toBe(
+      'material-declaration-012345678905.json'
+    )
+  })
+})
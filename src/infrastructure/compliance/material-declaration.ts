@@ -0,0 +1,434 @@
+import type {
+  CachedMaterial,
+  CachedProduct,
+  CachedProductBomItem,
+} from '@/infrastructure/cache/catalog-cache'
+import {
+  isValidCasNumber,
+  normalizeCasNumber,
+} from '@/infrastructure/substances/cas-number'
+
+import {
+  rollUpProductSubstances,
+  type RolledUpMaterial,
+  type RolledUpSubstance,
+} from './substance-rollup'
+
+// Percentages are entered by hand, so sums within half a point count as 100
+const PERCENTAGE_TOLERANCE = 0.5
+// BOM percentages may be rounded to whole numbers
+const BOM_SHARE_TOLERANCE = 1
+// Relative difference allowed between a stored and a computed weight
+const WEIGHT_TOLERANCE = 0.01
+// Relative difference allowed between the product weight and its materials
+const PRODUCT_WEIGHT_TOLERANCE = 0.05
+
+/**
+ * `missing` data leaves part of the declaration blank; `inconsistent` data
+ * contradicts itself, so one of the figures is wrong.
+ */
+export type DeclarationIssueKind = 'missing' | 'inconsistent'
+
+export interface DeclarationIssue {
+  kind: DeclarationIssueKind
+  message: string
+  /** The BOM row it concerns; unset for product-level issues. */
+  bomItemId?: string
+  /** The substance or sub-composition it concerns. */
+  substanceId?: string
+}
+
+export interface DeclarationSubstanceRow {
+  id: string
+  level: 'substance' | 'sub-composition'
+  name: string
+  casNumber: string
+  /** As entered: of the material, or of the parent for a sub-composition. */
+  percentage: number
+  /** Share of the material's mass, 0–1. */
+  concentrationInMaterial: number
+  /** Grams per product unit; null when the material mass is unknown. */
+  mass: number | null
+  /** Share of the product's mass, 0–1. */
+  shareOfProduct: number | null
+  reachRegistrationNumber?: string
+  supplierName: string
+}
+
+/** A BOM row, treated as one homogeneous material. */
+export interface DeclarationMaterial {
+  bomItem: CachedProductBomItem
+  /** Null when the BOM points at a material that no longer exists. */
+  material: CachedMaterial | null
+  mass: number | null
+  shareOfProduct: number | null
+  substances: DeclarationSubstanceRow[]
+}
+
+/** One substance summed across every material it occurs in. */
+export interface DeclarationSubstanceTotal {
+  name: string
+  casNumber: string
+  mass: number | null
+  shareOfProduct: number | null
+  materialCount: number
+}
+
+export interface MaterialDeclaration {
+  product: CachedProduct
+  /** Grams: the sum of the material masses; null if any is unknown. */
+  productMass: number | null
+  materials: DeclarationMaterial[]
+  totals: DeclarationSubstanceTotal[]
+  issues: DeclarationIssue[]
+}
+
+function formatGrams(grams: number) {
+  return `${Number(grams.toFixed(3))} g`
+}
+
+function formatPercentage(percentage: number) {
+  return `${Number(percentage.toFixed(2))}%`
+}
+
+function sumPercentages(entries: Array<{ percentage: number }>) {
+  return entries.reduce((sum, entry) => sum + entry.percentage, 0)
+}
+
+function isWeightMismatch(stored: number, expected: number) {
+  return (
+    Math.abs(stored - expected) > Math.max(0.001, expected * WEIGHT_TOLERANCE)
+  )
+}
+
+function toShare(mass: number | null, productMass: number | null) {
+  return mass !== null && productMass ? mass / productMass : null
+}
+
+function toRow(
+  substance: RolledUpSubstance,
+  productMass: number | null
+): DeclarationSubstanceRow {
+  return {
+    id: substance.source.id,
+    level: substance.parentSubstanceName ? 'sub-composition' : 'substance',
+    name: substance.substanceName,
+    casNumber: substance.casNumber,
+    percentage: substance.source.percentage,
+    concentrationInMaterial: substance.concentrationInMaterial,
+    mass: substance.mass,
+    shareOfProduct: toShare(substance.mass, productMass),
+    reachRegistrationNumber: substance.source.reachRegistrationNumber,
+    supplierName: substance.source.supplierName,
+  }
+}
+
+function checkMaterial(
+  { bomItem, material }: RolledUpMaterial,
+  issues: DeclarationIssue[]
+) {
+  const report = (
+    kind: DeclarationIssueKind,
+    message: string,
+    substanceId?: string
+  ) => issues.push({ kind, message, bomItemId: bomItem.id, substanceId })
+
+  if (bomItem.quantity <= 0) {
+    report('inconsistent', `BOM quantity is ${bomItem.quantity}`)
+  }
+  if (!(material.weight > 0)) {
+    report('missing', 'No weight, so substance masses cannot be computed')
+  }
+  if (material.substances.length === 0) {
+    report('missing', 'No substances declared')
+    return
+  }
+
+  const total = sumPercentages(material.substances)
+  if (total < 100 - PERCENTAGE_TOLERANCE) {
+    report(
+      'missing',
+      `${formatPercentage(100 - total)} of the material is undeclared`
+    )
+  } else if (total > 100 + PERCENTAGE_TOLERANCE) {
+    report('inconsistent', `Substances add up to ${formatPercentage(total)}`)
+  }
+
+  const checkEntry = (
+    entry: RolledUpSubstance['source'],
+    expectedWeight: number | null
+  ) => {
+    const label = entry.substanceName || 'Unnamed substance'
+    if (!entry.substanceCode.trim()) {
+      report('missing', `${label} has no CAS number`, entry.id)
+    } else if (!isValidCasNumber(entry.substanceCode)) {
+      report(
+        'inconsistent',
+        `${label} has an invalid CAS number (${entry.substanceCode})`,
+        entry.id
+      )
+    }
+    if (entry.percentage <= 0) {
+      report(
+        'inconsistent',
+        `${label} is declared at ${entry.percentage}%`,
+        entry.id
+      )
+    }
+    if (
+      expectedWeight !== null &&
+      isWeightMismatch(entry.projectedWeight, expectedWeight)
+    ) {
+      report(
+        'inconsistent',
+        `${label} is stored as ${formatGrams(entry.projectedWeight)}, but its percentage gives ${formatGrams(expectedWeight)}`,
+        entry.id
+      )
+    }
+  }
+
+  for (const substance of material.substances) {
+    const expectedWeight =
+      material.weight > 0
+        ? (material.weight * substance.percentage) / 100
+        : null
+    checkEntry(substance, expectedWeight)
+
+    const subTotal = sumPercentages(substance.subCompositions)
+    if (subTotal > 100 + PERCENTAGE_TOLERANCE) {
+      report(
+        'inconsistent',
+        `${substance.substanceName}'s sub-compositions add up to ${formatPercentage(subTotal)}`,
+        substance.id
+      )
+    }
+    for (const subComposition of substance.subCompositions) {
+      checkEntry(
+        subComposition,
+        expectedWeight === null
+          ? null
+          : (expectedWeight * subComposition.percentage) / 100
+      )
+    }
+  }
+}
+
+function checkProduct(
+  product: CachedProduct,
+  materials: RolledUpMaterial[],
+  productMass: number | null,
+  issues: DeclarationIssue[]
+) {
+  const bomItems = product.bom?.items ?? []
+  if (bomItems.length === 0) {
+    issues.push({
+      kind: 'missing',
+      message: 'The product has no bill of materials',
+    })
+    return
+  }
+
+  const bomTotal = sumPercentages(bomItems)
+  if (bomTotal > 0 && Math.abs(bomTotal - 100) > PERCENTAGE_TOLERANCE) {
+    issues.push({
+      kind: 'inconsistent',
+      message: `BOM percentages add up to ${formatPercentage(bomTotal)}`,
+    })
+  }
+
+  if (productMass === null) return
+
+  if (
+    product.weight &&
+    Math.abs(product.weight - productMass) >
+      product.weight * PRODUCT_WEIGHT_TOLERANCE
+  ) {
+    issues.push({
+      kind: 'inconsistent',
+      message: `The product weighs ${formatGrams(product.weight)}, but its materials add up to ${formatGrams(productMass)}`,
+    })
+  }
+
+  if (bomTotal === 0) return
+  for (const { bomItem, mass } of materials) {
+    const share = ((mass ?? 0) / productMass) * 100
+    if (Math.abs(bomItem.percentage - share) > BOM_SHARE_TOLERANCE) {
+      issues.push({
+        kind: 'inconsistent',
+        message: `The BOM lists ${formatPercentage(bomItem.percentage)}, but its weight is ${formatPercentage(share)} of the product`,
+        bomItemId: bomItem.id,
+      })
+    }
+  }
+}
+
+/**
+ * The substances that make up a material, each counted once: a substance
+ * with sub-compositions is replaced by them plus whatever share they leave.
+ */
+export function listLeafSubstances(
+  material: DeclarationMaterial
+): DeclarationSubstanceRow[] {
+  const { substances } = material
+  const leaves: DeclarationSubstanceRow[] = []
+
+  substances.forEach((row, index) => {
+    if (row.level === 'sub-composition') {
+      leaves.push(row)
+      return
+    }
+
+    let covered = 0
+    for (
+      let next = index + 1;
+      next < substances.length && substances[next].level === 'sub-composition';
+      next += 1
+    ) {
+      covered += substances[next].percentage
+    }
+    const remainder = 1 - Math.min(covered, 100) / 100
+    leaves.push({
+      ...row,
+      concentrationInMaterial: row.concentrationInMaterial * remainder,
+      mass: row.mass === null ? null : row.mass * remainder,
+      shareOfProduct:
+        row.shareOfProduct === null ? null : row.shareOfProduct * remainder,
+    })
+  })
+
+  return leaves.filter((row) => row.concentrationInMaterial > 0)
+}
+
+function sumSubstances(
+  materials: DeclarationMaterial[],
+  productMass: number | null
+): DeclarationSubstanceTotal[] {
+  const totals = new Map<string, DeclarationSubstanceTotal>()
+
+  for (const material of materials) {
+    const seen = new Set<string>()
+    for (const row of listLeafSubstances(material)) {
+      const key = isValidCasNumber(row.casNumber)
+        ? normalizeCasNumber(row.casNumber)
+        : row.name.trim().toLowerCase()
+      const total = totals.get(key) ?? {
+        name: row.name,
+        casNumber: row.casNumber,
+        mass: 0,
+        shareOfProduct: null,
+        materialCount: 0,
+      }
+      total.mass =
+        total.mass === null || row.mass === null ? null : total.mass + row.mass
+      if (!seen.has(key)) total.materialCount += 1
+      seen.add(key)
+      totals.set(key, total)
+    }
+  }
+
+  return [...totals.values()]
+    .map((total) => ({
+      ...total,
+      shareOfProduct: toShare(total.mass, productMass),
+    }))
+    .sort((a, b) => (b.mass ?? 0) - (a.mass ?? 0))
+}
+
+/**
+ * Explodes a product into its full material declaration: BOM item →
+ * material → substance → sub-composition, with each substance's mass and
+ * share of the product, and the gaps and contradictions in the data.
+ */
+export function buildMaterialDeclaration(
+  product: CachedProduct,
+  getMaterial: (id: string) => CachedMaterial | null | undefined
+): MaterialDeclaration {
+  const rollup = rollUpProductSubstances(product, getMaterial)
+  const productMass = rollup.articleMass
+  const issues: DeclarationIssue[] = []
+
+  checkProduct(product, rollup.materials, productMass, issues)
+
+  const materials = (product.bom?.items ?? []).map(
+    (bomItem): DeclarationMaterial => {
+      const rolledUp = rollup.materials.find(
+        (entry) => entry.bomItem === bomItem
+      )
+      if (!rolledUp) {
+        issues.push({
+          kind: 'missing',
+          message: `${bomItem.materialName} is no longer in the catalog`,
+          bomItemId: bomItem.id,
+        })
+        return {
+          bomItem,
+          material: null,
+          mass: null,
+          shareOfProduct: null,
+          substances: [],
+        }
+      }
+
+      checkMaterial(rolledUp, issues)
+      return {
+        bomItem,
+        material: rolledUp.material,
+        mass: rolledUp.mass,
+        shareOfProduct: toShare(rolledUp.mass, productMass),
+        substances: rollup.substances
+          .filter((substance) => substance.material === rolledUp)
+          .map((substance) => toRow(substance, productMass)),
+      }
+    }
+  )
+
+  return {
+    product,
+    productMass,
+    materials,
+    totals: sumSubstances(materials, productMass),
+    issues,
+  }
+}
+
+/**
+ * The declaration as a plain JSON document for customers, without the
+ * catalog records' photos, documents and bookkeeping fields.
+ */
+export function toMaterialDeclarationDocument(
+  declaration: MaterialDeclaration,
+  generatedAt = new Date().toISOString()
+) {
+  const { product } = declaration
+  return {
+    generatedAt,
+    product: {
+      id: product.id,
+      name: product.name,
+      sku: product.sku,
+      upc: product.upc,
+      mass: declaration.productMass,
+    },
+    materials: declaration.materials.map(
+      ({ bomItem, material, mass, shareOfProduct, substances }) => ({
+        bomItemId: bomItem.id,
+        materialId: bomItem.materialId,
+        name: material?.name ?? bomItem.materialName,
+        quantity: bomItem.quantity,
+        mass,
+        shareOfProduct,
+        substances,
+      })
+    ),
+    totals: declaration.totals,
+    issues: declaration.issues,
+  }
+}
+
+export function getMaterialDeclarationFileName(product: CachedProduct): string {
+  const reference = (product.sku || product.upc || product.id).replace(
+    /[^\w.-]+/g,
+    '-'
+  )
+  return `material-declaration-${reference}.json`
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  makeBomItem,
+  makeMaterial,
+  makeProduct,
+  makeSubComposition,
+  makeSubstance,
+  materialLookup,
+} from '@/test/catalog-fixtures'
+
+import { rollUpProductSubstances } from './substance-rollup'
+
+const frame = makeMaterial({
+  id: 'frame',
+  name: 'Frame',
+  weight: 200,
+  substances: [
+    makeSubstance({
+      id: 'steel',
+      substanceName: 'Iron',
+      substanceCode: '7439-89-6',
+      percentage: 90,
+    }),
+    makeSubstance({
+      id: 'coating',
+      substanceName: 'Coating',
+      substanceCode: '',
+      percentage: 10,
+      subCompositions: [
+        makeSubComposition({
+          id: 'dehp',
+          substanceName: 'DEHP',
+          substanceCode: '117-81-7',
+          percentage: 20,
+        }),
+      ],
+    }),
+  ],
+})
+
+const screw = makeMaterial({
+  id: 'screw',
+  name: 'Screw',
+  weight: 5,
+  substances: [makeSubstance({ id: 'zinc', substanceName: 'Zinc' })],
+})
+
+describe('rollUpProductSubstances', () => {
+  it('weighs each material by its unit weight times the BOM quantity', () => {
+    const product = makeProduct([
+      makeBomItem(frame),
+      makeBomItem(screw, { quantity: 4 }),
+    ])
+
+    const rollup = rollUpProductSubstances(
+      product,
+      materialLookup([frame, screw])
+    )
+
+    expect(rollup.materials.map((entry) => entry.mass)).toEqual([200, 20])
+    expect(rollup.articleMass).toBe(220)
+    expect(rollup.missingItems).toEqual([])
+  })
+
+  it('gives substances and sub-compositions their share of the material', () => {
+    const product = makeProduct([makeBomItem(frame)])
+
+    const { substances } = rollUpProductSubstances(
+      product,
+      materialLookup([frame])
+    )
+
+    expect(
+      substances.map(({ substanceName, concentrationInMaterial, mass }) => ({
+        substanceName,
+        concentrationInMaterial,
+        mass,
+      }))
+    ).toEqual([
+      { substanceName: 'Iron', concentrationInMaterial: 0.9, mass: 180 },
+      { substanceName: 'Coating', concentrationInMaterial: 0.1, mass: 20 },
+      {
+        substanceName: 'DEHP',
+        concentrationInMaterial: expect.closeTo(0.02) as number,
+        mass: expect.closeTo(4) as number,
+      },
+    ])
+    expect(substances[2].parentSubstanceName).toBe('Coating')
+    expect(substances[2].casNumber).toBe('117-81-7')
+  })
+
+  it('leaves masses unknown for a material without a weight', () => {
+    const unweighed = makeMaterial({ ...screw, weight: 0 })
+    const product = makeProduct([makeBomItem(frame), makeBomItem(unweighed)])
+
+    const rollup = rollUpProductSubstances(
+      product,
+      materialLookup([frame, unweighed])
+    )
+
+    expect(rollup.materials[1].mass).toBeNull()
+    expect(rollup.substances.at(-1)?.mass).toBeNull()
+    expect(rollup.substances.at(-1)?.concentrationInMaterial).toBe(1)
+    expect(rollup.articleMass).toBeNull()
+  })
+
+  it('reports BOM rows whose material is gone and leaves the total unknown', () => {
+    const product = makeProduct([makeBomItem(frame), makeBomItem(screw)])
+
+    const rollup = rollUpProductSubstances(product, materialLookup([frame]))
+
+    expect(rollup.materials).toHaveLength(1)
+    expect(rollup.missingItems.map((item) => item.materialId)).toEqual([
+      'screw',
+    ])
+    expect(rollup.articleMass).toBeNull()
+  })
+
+  it('has no article mass without a BOM', () => {
+    const rollup = rollUpProductSubstances(
+      makeProduct(undefined),
+      materialLookup([])
+    )
+
+    expect(rollup).toEqual({
+      materials: [],
+      substances: [],
+      articleMass: null,
+      missingItems: [],
+    })
+  })
+})
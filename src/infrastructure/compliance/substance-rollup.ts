@@ -0,0 +1,109 @@
+import type {
+  CachedMaterial,
+  CachedMaterialSubComposition,
+  CachedMaterialSubstance,
+  CachedProduct,
+  CachedProductBomItem,
+} from '@/infrastructure/cache/catalog-cache'
+
+/** One BOM row with the mass it contributes to a single product unit. */
+export interface RolledUpMaterial {
+  bomItem: CachedProductBomItem
+  material: CachedMaterial
+  /** Grams: material weight × BOM quantity; null when the weight is unset. */
+  mass: number | null
+}
+
+/** A substance or sub-composition as it occurs in one BOM material. */
+export interface RolledUpSubstance {
+  material: RolledUpMaterial
+  /** The record as entered on the component. */
+  source: CachedMaterialSubstance | CachedMaterialSubComposition
+  substanceName: string
+  casNumber: string
+  /** Set for sub-compositions: the substance they are part of. */
+  parentSubstanceName?: string
+  /** Share of the material's mass, 0–1. */
+  concentrationInMaterial: number
+  /** Grams in one product unit; null when the material mass is unknown. */
+  mass: number | null
+}
+
+export interface SubstanceRollup {
+  materials: RolledUpMaterial[]
+  substances: RolledUpSubstance[]
+  /** Grams; null unless every BOM material has a weight. */
+  articleMass: number | null
+  /** BOM rows whose material is no longer in the catalog. */
+  missingItems: CachedProductBomItem[]
+}
+
+function toMass(materialMass: number | null, concentration: number) {
+  return materialMass === null ? null : materialMass * concentration
+}
+
+/**
+ * Walks a product's BOM down to substance level. Material mass is its unit
+ * weight times the BOM quantity; a substance's share of the material comes
+ * from its percentage, and a sub-composition's from its percentage of the
+ * parent substance, as entered on the component form.
+ */
+export function rollUpProductSubstances(
+  product: CachedProduct,
+  getMaterial: (id: string) => CachedMaterial | null | undefined
+): SubstanceRollup {
+  const materials: RolledUpMaterial[] = []
+  const substances: RolledUpSubstance[] = []
+  const missingItems: CachedProductBomItem[] = []
+
+  for (const bomItem of product.bom?.items ?? []) {
+    const material = getMaterial(bomItem.materialId)
+    if (!material) {
+      missingItems.push(bomItem)
+      continue
+    }
+
+    const rolledUp: RolledUpMaterial = {
+      bomItem,
+      material,
+      mass: material.weight > 0 ? material.weight * bomItem.quantity : null,
+    }
+    materials.push(rolledUp)
+
+    for (const substance of material.substances) {
+      const concentration = substance.percentage / 100
+      substances.push({
+        material: rolledUp,
+        source: substance,
+        substanceName: substance.substanceName,
+        casNumber: substance.substanceCode,
+        concentrationInMaterial: concentration,
+        mass: toMass(rolledUp.mass, concentration),
+      })
+
+      for (const subComposition of substance.subCompositions) {
+        const subConcentration =
+          concentration * (subComposition.percentage / 100)
+        substances.push({
+          material: rolledUp,
+          source: subComposition,
+          substanceName: subComposition.substanceName,
+          casNumber: subComposition.substanceCode,
+          parentSubstanceName: substance.substanceName,
+          concentrationInMaterial: subConcentration,
+          mass: toMass(rolledUp.mass, subConcentration),
+        })
+      }
+    }
+  }
+
+  // A deleted material's mass is unknown too, so the total would be short
+  const articleMass =
+    materials.length > 0 &&
+    missingItems.length === 0 &&
+    materials.every((entry) => entry.mass !== null)
+      ? materials.reduce((sum, entry) => sum + (entry.mass ?? 0), 0)
+      : null
+
+  return { materials, substances, articleMass, missingItems }
+}
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest'
+
+import type { SvhcList } from '@/infrastructure/substances/svhc-list'
+import {
+  makeBomItem,
+  makeMaterial,
+  makeProduct,
+  makeSubComposition,
+  makeSubstance,
+  materialLookup,
+} from '@/test/catalog-fixtures'
+
+import {
+  screenCatalogForSvhc,
+  screenProductForSvhc,
+  SVHC_CONCENTRATION_LIMIT,
+} from './svhc-screening'
+
+const list: SvhcList = {
+  version: 'Test list',
+  source: 'imported',
+  entries: [
+    { name: 'DEHP', casNumber: '117-81-7' },
+    // No CAS number: only matches through the dictionary's EC number
+    { name: 'Lead', ecNumber: '231-100-4' },
+  ],
+}
+
+function plastic(dehpPercentage: number, weight = 100) {
+  return makeMaterial({
+    id: 'plastic',
+    name: 'Plastic',
+    weight,
+    substances: [
+      makeSubstance({
+        id: 'pvc',
+        substanceName: 'Polyvinyl chloride',
+        substanceCode: '9002-86-2',
+        percentage: 100 - dehpPercentage,
+      }),
+      makeSubstance({
+        id: 'dehp',
+        substanceName: 'DEHP',
+        substanceCode: '117-81-7',
+        percentage: dehpPercentage,
+      }),
+    ],
+  })
+}
+
+const wood = makeMaterial({
+  id: 'wood',
+  name: 'Wood',
+  weight: 10_000,
+  substances: [
+    makeSubstance({
+      id: 'cellulose',
+      substanceName: 'Cellulose',
+      substanceCode: '9004-34-6',
+    }),
+  ],
+})
+
+function screen(materials: ReturnType<typeof makeMaterial>[]) {
+  const product = makeProduct(
+    materials.map((material) => makeBomItem(material))
+  )
+  return screenProductForSvhc(product, materialLookup(materials), list)
+}
+
+describe('screenProductForSvhc', () => {
+  it('is clear when no listed substance is present', () => {
+    const report = screen([wood])
+
+    expect(report.status).toBe('clear')
+    expect(report.findings).toEqual([])
+    expect(report.gaps).toEqual([])
+    expect(report.listVersion).toBe('Test list')
+  })
+
+  it('flags a substance above 0.1% of the product', () => {
+    const report = screen([plastic(1)])
+
+    expect(report.status).toBe('flagged')
+    expect(report.findings).toHaveLength(1)
+    expect(report.findings[0]).toMatchObject({
+      entry: { name: 'DEHP' },
+      mass: 1,
+      concentrationInProduct: 0.01,
+      exceedsLimit: true,
+    })
+  })
+
+  it('flags a substance above 0.1% of one material even when diluted in the product', () => {
+    // 0.5 g DEHP in 10.1 kg is below the limit for the product
+    const report = screen([plastic(0.5), wood])
+    const [finding] = report.findings
+
+    expect(finding.concentrationInProduct).toBeLessThan(
+      SVHC_CONCENTRATION_LIMIT
+    )
+    expect(finding.occurrences[0].exceedsLimit).toBe(true)
+    expect(finding.exceedsLimit).toBe(true)
+    expect(report.status).toBe('flagged')
+  })
+
+  it('does not flag a listed substance at or below the limit', () => {
+    const report = screen([plastic(0.1)])
+
+    expect(report.findings[0].exceedsLimit).toBe(false)
+    expect(report.status).toBe('clear')
+  })
+
+  it('matches by EC number when the list entry has no CAS number', () => {
+    const solder = makeMaterial({
+      id: 'solder',
+      name: 'Solder',
+      substances: [
+        makeSubstance({
+          id: 'lead',
+          substanceName: 'Lead',
+          substanceCode: '7439-92-1',
+        }),
+      ],
+    })
+
+    expect(screen([solder]).findings[0].entry.name).toBe('Lead')
+  })
+
+  it('finds listed substances inside sub-compositions', () => {
+    const coated = makeMaterial({
+      id: 'coated',
+      name: 'Coated panel',
+      substances: [
+        makeSubstance({
+          id: 'coating',
+          substanceName: 'Coating',
+          substanceCode: '',
+          percentage: 100,
+          subCompositions: [
+            makeSubComposition({
+              substanceName: 'DEHP',
+              substanceCode: '117-81-7',
+              percentage: 5,
+            }),
+          ],
+        }),
+      ],
+    })
+
+    const report = screen([coated])
+
+    expect(
+      report.findings[0].occurrences[0].substance.parentSubstanceName
+    ).toBe('Coating')
+    expect(report.status).toBe('flagged')
+  })
+
+  it('is incomplete without a bill of materials', () => {
+    const report = screenProductForSvhc(
+      makeProduct(undefined),
+      materialLookup([]),
+      list
+    )
+
+    expect(report.status).toBe('incomplete')
+    expect(report.gaps).toEqual(['The product has no bill of materials'])
+  })
+
+  it('is incomplete when a BOM material is gone', () => {
+    const product = makeProduct([makeBomItem(wood), makeBomItem(plastic(0))])
+    const report = screenProductForSvhc(product, materialLookup([wood]), list)
+
+    expect(report.status).toBe('incomplete')
+    expect(report.articleMass).toBeNull()
+    expect(report.gaps).toContain('1 BOM material no longer in the catalog')
+  })
+
+  it('is incomplete when a material declares no substances', () => {
+    const report = screen([wood, makeMaterial({ id: 'empty', name: 'Empty' })])
+
+    expect(report.status).toBe('incomplete')
+    expect(report.gaps).toEqual(['1 material with no substances declared'])
+  })
+
+  it('is incomplete when a substance has no usable CAS number', () => {
+    const unknown = makeMaterial({
+      id: 'unknown',
+      name: 'Unknown',
+      substances: [
+        makeSubstance({ substanceName: 'Secret blend', substanceCode: '123' }),
+      ],
+    })
+
+    const report = screen([unknown])
+
+    expect(report.status).toBe('incomplete')
+    expect(report.gaps).toEqual(['1 substance without a valid CAS number'])
+  })
+
+  it('identifies a substance by its dictionary name when the CAS number is missing', () => {
+    const unnamed = makeMaterial({
+      id: 'unnamed',
+      name: 'Unnamed',
+      substances: [makeSubstance({ substanceName: 'DEHP', substanceCode: '' })],
+    })
+
+    const report = screen([unnamed])
+
+    expect(report.findings[0].entry.name).toBe('DEHP')
+    expect(report.status).toBe('flagged')
+  })
+
+  it('stays clear but notes missing weights, since they only hide product-level shares', () => {
+    const report = screen([plastic(0.05, 0)])
+
+    expect(report.status).toBe('clear')
+    expect(report.findings[0]).toMatchObject({
+      mass: null,
+      concentrationInProduct: null,
+      exceedsLimit: false,
+    })
+    expect(report.gaps).toEqual([
+      '1 material without a weight, so product-level concentrations are unknown',
+    ])
+  })
+
+  it('puts a finding above the limit before the incomplete status', () => {
+    const report = screen([plastic(5), makeMaterial({ id: 'empty' })])
+
+    expect(report.status).toBe('flagged')
+    expect(report.gaps).toHaveLength(1)
+  })
+})
+
+describe('screenCatalogForSvhc', () => {
+  it('screens every product against the shared materials', () => {
+    const reports = screenCatalogForSvhc(
+      [
+        makeProduct([makeBomItem(wood)], { id: 'table' }),
+        makeProduct([makeBomItem(plastic(1))], { id: 'chair' }),
+      ],
+      [wood, plastic(1)],
+      list
+    )
+
+    expect(reports.map((report) => [report.product.id, report.status])).toEqual(
+      [
+        ['table', 'clear'],
+        ['chair', 'flagged'],
+      ]
+    )
+  })
+})
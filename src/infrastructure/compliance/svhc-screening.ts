@@ -0,0 +1,175 @@
+import type {
+  CachedMaterial,
+  CachedProduct,
+} from '@/infrastructure/cache/catalog-cache'
+import { isValidCasNumber } from '@/infrastructure/substances/cas-number'
+import {
+  findSubstanceByCas,
+  findSubstanceByName,
+} from '@/infrastructure/substances/substance-dictionary'
+import {
+  findSvhcEntry,
+  type SvhcEntry,
+  type SvhcList,
+} from '@/infrastructure/substances/svhc-list'
+
+import {
+  rollUpProductSubstances,
+  type RolledUpSubstance,
+} from './substance-rollup'
+
+/** REACH Article 33 / 7(2): 0.1% weight by weight of the article. */
+export const SVHC_CONCENTRATION_LIMIT = 0.001
+
+export interface SvhcOccurrence {
+  substance: RolledUpSubstance
+  /** Above the limit in this material, which is an article in its own right. */
+  exceedsLimit: boolean
+}
+
+/** One Candidate List substance found somewhere in a product's BOM. */
+export interface SvhcFinding {
+  entry: SvhcEntry
+  occurrences: SvhcOccurrence[]
+  /** Grams per product unit; null when a material weight is missing. */
+  mass: number | null
+  /** Share of the whole product, 0–1; null when its mass is unknown. */
+  concentrationInProduct: number | null
+  exceedsLimit: boolean
+}
+
+/**
+ * `incomplete` means the data cannot rule out an SVHC: the BOM is empty, a
+ * material is gone or declares no substances, or a substance has no usable
+ * CAS number. A finding above the limit is `flagged` regardless.
+ */
+export type SvhcScreeningStatus = 'clear' | 'flagged' | 'incomplete'
+
+export interface SvhcScreeningReport {
+  product: CachedProduct
+  status: SvhcScreeningStatus
+  findings: SvhcFinding[]
+  /** Grams; null unless every BOM material has a weight. */
+  articleMass: number | null
+  /** Why the screening is incomplete or concentrations are missing. */
+  gaps: string[]
+  listVersion: string
+}
+
+function resolveSvhcEntry(list: SvhcList, substance: RolledUpSubstance) {
+  const casNumber = isValidCasNumber(substance.casNumber)
+    ? substance.casNumber
+    : findSubstanceByName(substance.substanceName)?.casNumber
+  if (!casNumber) return { entry: undefined, isIdentified: false }
+
+  return {
+    entry: findSvhcEntry(list, {
+      casNumber,
+      ecNumber: findSubstanceByCas(casNumber)?.ecNumber,
+    }),
+    isIdentified: true,
+  }
+}
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Screens one product against the Candidate List. Each material is treated
+ * as an article (CJEU C-106/14, "once an article, always an article"), so a
+ * substance is flagged above 0.1% of the whole product or of any material.
+ */
+export function screenProductForSvhc(
+  product: CachedProduct,
+  getMaterial: (id: string) => CachedMaterial | null | undefined,
+  list: SvhcList
+): SvhcScreeningReport {
+  const rollup = rollUpProductSubstances(product, getMaterial)
+  const findings = new Map<SvhcEntry, SvhcOccurrence[]>()
+  let unidentifiedCount = 0
+
+  for (const substance of rollup.substances) {
+    const { entry, isIdentified } = resolveSvhcEntry(list, substance)
+    if (!isIdentified) unidentifiedCount += 1
+    if (!entry) continue
+
+    const occurrences = findings.get(entry) ?? []
+    occurrences.push({
+      substance,
+      exceedsLimit:
+        substance.concentrationInMaterial > SVHC_CONCENTRATION_LIMIT,
+    })
+    findings.set(entry, occurrences)
+  }
+
+  const results = [...findings].map(([entry, occurrences]): SvhcFinding => {
+    const mass = occurrences.every(({ substance }) => substance.mass !== null)
+      ? occurrences.reduce((sum, { substance }) => sum + substance.mass!, 0)
+      : null
+    const concentrationInProduct =
+      mass !== null && rollup.articleMass ? mass / rollup.articleMass : null
+
+    return {
+      entry,
+      occurrences,
+      mass,
+      concentrationInProduct,
+      exceedsLimit:
+        occurrences.some((occurrence) => occurrence.exceedsLimit) ||
+        (concentrationInProduct ?? 0) > SVHC_CONCENTRATION_LIMIT,
+    }
+  })
+  results.sort(
+    (a, b) =>
+      Number(b.exceedsLimit) - Number(a.exceedsLimit) ||
+      (b.concentrationInProduct ?? 0) - (a.concentrationInProduct ?? 0)
+  )
+
+  const undeclared = rollup.materials.filter(
+    ({ material }) => material.substances.length === 0
+  )
+  const unweighed = rollup.materials.filter((entry) => entry.mass === null)
+  const gaps = [
+    !product.bom?.items.length && 'The product has no bill of materials',
+    rollup.missingItems.length > 0 &&
+      `${pluralize(rollup.missingItems.length, 'BOM material')} no longer in the catalog`,
+    undeclared.length > 0 &&
+      `${pluralize(undeclared.length, 'material')} with no substances declared`,
+    unidentifiedCount > 0 &&
+      `${pluralize(unidentifiedCount, 'substance')} without a valid CAS number`,
+  ].filter((gap): gap is string => Boolean(gap))
+  const isIncomplete = gaps.length > 0
+  if (unweighed.length > 0) {
+    gaps.push(
+      `${pluralize(unweighed.length, 'material')} without a weight, so product-level concentrations are unknown`
+    )
+  }
+
+  return {
+    product,
+    status: results.some((finding) => finding.exceedsLimit)
+      ? 'flagged'
+      : isIncomplete
+        ? 'incomplete'
+        : 'clear',
+    findings: results,
+    articleMass: rollup.articleMass,
+    gaps,
+    listVersion: list.version,
+  }
+}
+
+/** Screens every product in the catalog; see screenProductForSvhc(). */
+export function screenCatalogForSvhc(
+  products: CachedProduct[],
+  materials: CachedMaterial[],
+  list: SvhcList
+): SvhcScreeningReport[] {
+  const materialsById = new Map(
+    materials.map((material) => [material.id, material])
+  )
+  return products.map((product) =>
+    screenProductForSvhc(product, (id) => materialsById.get(id), list)
+  )
+}
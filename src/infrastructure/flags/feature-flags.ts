@@ -0,0 +1,181 @@
+import { z } from 'zod'
+
+import { env } from '@/config/env'
+import type { FlowVariant } from '@/infrastructure/analytics/flow-analytics'
+import { logger } from '@/lib/logger'
+
+export const FEATURE_FLAGS_STORAGE_KEY = 't4s.user-ui-v2.feature-flags.v1'
+
+export const FLOW_VARIANT_IDS = ['v1', 'v2', 'v3', 'v4'] as const
+
+export interface FeatureFlags {
+  /** Which product and component creation experience the catalog uses. */
+  creationFlow: FlowVariant
+}
+
+export type FlagScope = 'workspace' | 'user'
+
+const flagsSchema = z
+  .object({ creationFlow: z.enum(FLOW_VARIANT_IDS) })
+  .partial()
+
+const overridesSchema = z.object({
+  defaults: flagsSchema.optional(),
+  workspaces: z.record(flagsSchema).optional(),
+  users: z.record(flagsSchema).optional(),
+})
+
+type PartialFlags = z.infer<typeof flagsSchema>
+type FlagOverrides = z.infer<typeof overridesSchema>
+
+export interface FeatureFlagState {
+  /** Chosen in the app for a workspace or a user. */
+  local: FlagOverrides
+  /** Last response from VITE_FEATURE_FLAGS_URL, kept for offline starts. */
+  remote: FlagOverrides
+}
+
+export interface FlagContext {
+  workspaceId: string
+  userId: string
+}
+
+type FeatureFlagListener = () => void
+
+const DEFAULT_FLAGS: FeatureFlags = {
+  creationFlow: env.flags.defaultCreationFlow,
+}
+
+const EMPTY_STATE: FeatureFlagState = { local: {}, remote: {} }
+
+const listeners = new Set<FeatureFlagListener>()
+let snapshot: FeatureFlagState | null = null
+
+function readState(): FeatureFlagState {
+  if (snapshot) return snapshot
+  if (typeof window === 'undefined') return EMPTY_STATE
+
+  try {
+    const stored = localStorage.getItem(FEATURE_FLAGS_STORAGE_KEY)
+    const parsed = stored
+      ? (JSON.parse(stored) as Partial<FeatureFlagState>)
+      : {}
+    snapshot = {
+      local: overridesSchema.catch({}).parse(parsed.local ?? {}),
+      remote: overridesSchema.catch({}).parse(parsed.remote ?? {}),
+    }
+  } catch (error) {
+    logger.error('Failed to parse feature flags', error)
+    snapshot = EMPTY_STATE
+  }
+  return snapshot
+}
+
+function writeState(state: FeatureFlagState) {
+  snapshot = state
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(FEATURE_FLAGS_STORAGE_KEY, JSON.stringify(state))
+  }
+  listeners.forEach((listener) => listener())
+}
+
+function scopedFlags(
+  overrides: FlagOverrides,
+  { workspaceId, userId }: FlagContext
+): PartialFlags[] {
+  return [
+    overrides.defaults ?? {},
+    overrides.workspaces?.[workspaceId] ?? {},
+    overrides.users?.[userId] ?? {},
+  ]
+}
+
+/**
+ * Flags for one user in one workspace. Later sources win: built-in defaults,
+ * then local workspace and user choices, then the remote defaults, workspace
+ * and user overrides, so operators can pin a variant for everyone.
+ */
+export function resolveFeatureFlags(
+  context: FlagContext,
+  { local, remote }: FeatureFlagState = readState()
+): FeatureFlags {
+  return Object.assign(
+    { ...DEFAULT_FLAGS },
+    ...scopedFlags(local, context),
+    ...scopedFlags(remote, context)
+  )
+}
+
+/** Where the winning value of `flag` came from, for display. */
+export function getFlagSource(
+  flag: keyof FeatureFlags,
+  context: FlagContext,
+  { local, remote }: FeatureFlagState = readState()
+): 'default' | `local-${FlagScope}` | 'remote' {
+  if (scopedFlags(remote, context).some((flags) => flags[flag] !== undefined)) {
+    return 'remote'
+  }
+  if (local.users?.[context.userId]?.[flag] !== undefined) return 'local-user'
+  if (local.workspaces?.[context.workspaceId]?.[flag] !== undefined) {
+    return 'local-workspace'
+  }
+  return 'default'
+}
+
+/** Stores a local choice; `undefined` removes it so the next source applies. */
+export function setLocalFlag<K extends keyof FeatureFlags>(
+  scope: FlagScope,
+  scopeId: string,
+  flag: K,
+  value: FeatureFlags[K] | undefined
+) {
+  const state = readState()
+  const collection = scope === 'workspace' ? 'workspaces' : 'users'
+  const current = { ...(state.local[collection]?.[scopeId] ?? {}) }
+  if (value === undefined) {
+    delete current[flag]
+  } else {
+    current[flag] = value
+  }
+
+  writeState({
+    ...state,
+    local: {
+      ...state.local,
+      [collection]: { ...state.local[collection], [scopeId]: current },
+    },
+  })
+}
+
+/**
+ * Fetches overrides from VITE_FEATURE_FLAGS_URL, shaped like
+ * `{ defaults?, workspaces?: { [id]: flags }, users?: { [id]: flags } }`.
+ * Failures keep the last good response.
+ */
+export async function refreshRemoteFlags(): Promise<void> {
+  if (!env.flags.url) return
+
+  try {
+    const response = await fetch(env.flags.url, { cache: 'no-store' })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const remote = overridesSchema.parse(await response.json())
+    writeState({ ...readState(), remote })
+  } catch (error) {
+    logger.warn('Failed to load remote feature flags', error, {
+      context: 'FeatureFlags',
+    })
+  }
+}
+
+export function getFeatureFlagState(): FeatureFlagState {
+  return readState()
+}
+
+export function subscribeToFeatureFlags(
+  listener: FeatureFlagListener
+): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
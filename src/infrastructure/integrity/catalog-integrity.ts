@@ -0,0 +1,238 @@
+import type {
+  CachedMaterial,
+  CachedMaterialSubstance,
+  CachedProduct,
+  CachedProductBomItem,
+  CachedSupplier,
+  CatalogCache,
+} from '@/infrastructure/cache/catalog-cache'
+
+/** A product whose bill of materials still lists the material. */
+export interface MaterialReference {
+  product: CachedProduct
+  items: CachedProductBomItem[]
+}
+
+/** A material whose substances or sub-compositions name the supplier. */
+export interface SupplierReference {
+  material: CachedMaterial
+  /** Substance and sub-composition names, for display. */
+  substanceNames: string[]
+}
+
+/**
+ * What to do with the references before the entity is deleted: drop them
+ * (BOM rows are removed, supplier links cleared) or point them at another
+ * entity of the same kind.
+ */
+export type ReferenceResolution =
+  | { mode: 'cascade' }
+  | { mode: 'reassign'; targetId: string }
+
+export class ReferencedEntityError extends Error {
+  readonly referenceCount: number
+
+  constructor(referenceCount: number) {
+    super(
+      `Still referenced by ${referenceCount} record(s); choose how to resolve them first`
+    )
+    this.name = 'ReferencedEntityError'
+    this.referenceCount = referenceCount
+  }
+}
+
+export type IntegrityIssue =
+  | {
+      kind: 'missing-material'
+      product: CachedProduct
+      item: CachedProductBomItem
+    }
+  | {
+      kind: 'stale-material-name'
+      product: CachedProduct
+      item: CachedProductBomItem
+      material: CachedMaterial
+    }
+  | {
+      kind: 'missing-supplier'
+      material: CachedMaterial
+      substanceName: string
+      supplierId: string
+      supplierName: string
+    }
+
+export function findMaterialReferences(
+  products: CachedProduct[],
+  materialId: string
+): MaterialReference[] {
+  return products.flatMap((product) => {
+    const items = (product.bom?.items ?? []).filter(
+      (item) => item.materialId === materialId
+    )
+    return items.length > 0 ? [{ product, items }] : []
+  })
+}
+
+export function findSupplierReferences(
+  materials: CachedMaterial[],
+  supplierId: string
+): SupplierReference[] {
+  return materials.flatMap((material) => {
+    const substanceNames = material.substances.flatMap((substance) => [
+      ...(substance.supplierId === supplierId ? [substance.substanceName] : []),
+      ...substance.subCompositions
+        .filter((sub) => sub.supplierId === supplierId)
+        .map((sub) => sub.substanceName),
+    ])
+    return substanceNames.length > 0 ? [{ material, substanceNames }] : []
+  })
+}
+
+/** BOM items with the material removed, or pointed at `replacement`. */
+export function resolveBomItems(
+  items: CachedProductBomItem[],
+  materialId: string,
+  replacement: CachedMaterial | null
+): CachedProductBomItem[] {
+  if (!replacement) {
+    return items.filter((item) => item.materialId !== materialId)
+  }
+
+  return items.map((item) =>
+    item.materialId === materialId
+      ? {
+          ...item,
+          materialId: replacement.id,
+          materialName: replacement.name,
+          unitOfMeasurement: replacement.unitOfMeasurement,
+          unitCost: replacement.unitCost,
+          unitCostCurrency: replacement.unitCostCurrency,
+        }
+      : item
+  )
+}
+
+/** Substances with the supplier unlinked, or linked to `replacement`. */
+export function resolveSupplierLinks(
+  substances: CachedMaterialSubstance[],
+  supplierId: string,
+  replacement: CachedSupplier | null
+): CachedMaterialSubstance[] {
+  const relink = <T extends { supplierId: string; supplierName: string }>(
+    entry: T
+  ): T =>
+    entry.supplierId === supplierId
+      ? {
+          ...entry,
+          supplierId: replacement?.id ?? '',
+          supplierName: replacement?.name ?? '',
+        }
+      : entry
+
+  return substances.map((substance) =>
+    relink({
+      ...substance,
+      subCompositions: substance.subCompositions.map(relink),
+    })
+  )
+}
+
+/**
+ * Dangling references already in the catalog: BOM rows whose material is
+ * gone or was renamed, and substances linked to a supplier that no longer
+ * exists. Trashed entities count as gone.
+ */
+export function findIntegrityIssues(catalog: CatalogCache): IntegrityIssue[] {
+  const materialsById = new Map(
+    catalog.materials
+      .filter((material) => !material.deletedAt)
+      .map((material) => [material.id, material])
+  )
+  const supplierIds = new Set(
+    catalog.suppliers
+      .filter((supplier) => !supplier.deletedAt)
+      .map((supplier) => supplier.id)
+  )
+  const issues: IntegrityIssue[] = []
+
+  for (const product of catalog.products) {
+    if (product.deletedAt) continue
+    for (const item of product.bom?.items ?? []) {
+      const material = materialsById.get(item.materialId)
+      if (!material) {
+        issues.push({ kind: 'missing-material', product, item })
+      } else if (material.name !== item.materialName) {
+        issues.push({ kind: 'stale-material-name', product, item, material })
+      }
+    }
+  }
+
+  for (const material of materialsById.values()) {
+    for (const substance of material.substances) {
+      for (const entry of [substance, ...substance.subCompositions]) {
+        if (!entry.supplierId || supplierIds.has(entry.supplierId)) continue
+        issues.push({
+          kind: 'missing-supplier',
+          material,
+          substanceName: entry.substanceName,
+          supplierId: entry.supplierId,
+          supplierName: entry.supplierName,
+        })
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * The catalog with every issue from findIntegrityIssues() repaired: orphan
+ * BOM rows are dropped, renamed materials copied into their rows again and
+ * dangling supplier links cleared. Only the entities that changed are returned.
+ */
+export function repairIntegrityIssues(issues: IntegrityIssue[]): {
+  products: Array<{ product: CachedProduct; items: CachedProductBomItem[] }>
+  materials: Array<{
+    material: CachedMaterial
+    substances: CachedMaterialSubstance[]
+  }>
+} {
+  const products = new Map<string, CachedProduct>()
+  const bomItems = new Map<string, CachedProductBomItem[]>()
+  const materials = new Map<string, CachedMaterial>()
+  const substances = new Map<string, CachedMaterialSubstance[]>()
+
+  for (const issue of issues) {
+    if (issue.kind === 'missing-supplier') {
+      const current =
+        substances.get(issue.material.id) ?? issue.material.substances
+      materials.set(issue.material.id, issue.material)
+      substances.set(
+        issue.material.id,
+        resolveSupplierLinks(current, issue.supplierId, null)
+      )
+      continue
+    }
+
+    const current =
+      bomItems.get(issue.product.id) ?? issue.product.bom?.items ?? []
+    products.set(issue.product.id, issue.product)
+    bomItems.set(
+      issue.product.id,
+      issue.kind === 'missing-material'
+        ? resolveBomItems(current, issue.item.materialId, null)
+        : resolveBomItems(current, issue.item.materialId, issue.material)
+    )
+  }
+
+  return {
+    products: [...products.values()].map((product) => ({
+      product,
+      items: bomItems.get(product.id)!,
+    })),
+    materials: [...materials.values()].map((material) => ({
+      material,
+      substances: substances.get(material.id)!,
+    })),
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  isLevelEnabled,
+  type LogLevel,
+  type LogRecord,
+  type LogSink,
+} from '@/lib/logger'
+
+interface HttpLogSinkOptions {
+  endpoint: string
+  /** Records below this level are not sent. */
+  level: LogLevel
+  /** Records per request; a full batch is sent straight away. */
+  batchSize?: number
+  flushIntervalMs?: number
+}
+
+const DEFAULT_BATCH_SIZE = 20
+const DEFAULT_FLUSH_INTERVAL_MS = 5000
+// Kept while the endpoint is unreachable; the oldest records go first
+const MAX_PENDING_RECORDS = 200
+// Browsers reject keepalive bodies over 64 KB, and server.js caps batches
+// at the same size
+const MAX_BATCH_BYTES = 60_000
+// Larger records are shortened so one of them always fits in a batch
+const MAX_RECORD_BYTES = 8_000
+const PREVIEW_LENGTH = 2_000
+
+const encoder = new TextEncoder()
+
+function byteLength(value: string) {
+  return encoder.encode(value).length
+}
+
+function shrinkRecord(record: LogRecord): LogRecord {
+  if (byteLength(JSON.stringify(record)) <= MAX_RECORD_BYTES) return record
+  return {
+    ...record,
+    message: record.message.slice(0, PREVIEW_LENGTH),
+    data: {
+      truncated: true,
+      preview: JSON.stringify(record.data ?? null).slice(0, PREVIEW_LENGTH),
+    },
+  }
+}
+
+/** The oldest records that fit in one request. */
+function takeBatch(records: LogRecord[], batchSize: number) {
+  const batch: LogRecord[] = []
+  let bytes = byteLength(JSON.stringify({ records: [] }))
+  for (const record of records.slice(0, batchSize)) {
+    // Plus the separating comma
+    bytes += byteLength(JSON.stringify(record)) + 1
+    if (batch.length > 0 && bytes > MAX_BATCH_BYTES) break
+    batch.push(record)
+  }
+  return batch
+}
+
+// The server will refuse the same batch again, so it is dropped rather than
+// left to block every later record; timeouts and rate limits are retried
+function isRejected(status: number) {
+  return status >= 400 && status < 500 && status !== 408 && status !== 429
+}
+
+/**
+ * Ships records to `endpoint` as `POST { records: LogRecord[] }`. Uses
+ * `fetch` rather than apiClient so a failing request cannot log itself into
+ * a loop, and `keepalive` so the last batch survives closing the tab.
+ */
+export function createHttpLogSink({
+  endpoint,
+  level,
+  batchSize = DEFAULT_BATCH_SIZE,
+  flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+}: HttpLogSinkOptions): LogSink & { dispose: () => void } {
+  let pending: LogRecord[] = []
+  let isSending = false
+
+  const send = async () => {
+    if (isSending || pending.length === 0) return
+    const batch = takeBatch(pending, batchSize)
+    isSending = true
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ records: batch }),
+        keepalive: true,
+      })
+      if (!response.ok && !isRejected(response.status)) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      const sent = new Set(batch.map((record) => record.id))
+      pending = pending.filter((record) => !sent.has(record.id))
+    } catch {
+      // Left in `pending` for the next interval
+      return
+    } finally {
+      isSending = false
+    }
+    if (pending.length >= batchSize) void send()
+  }
+
+  const timer = setInterval(() => void send(), flushIntervalMs)
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') void send()
+  }
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+
+  return {
+    write(record) {
+      if (!isLevelEnabled(record.level, level)) return
+      pending = [
+        ...pending.slice(-(MAX_PENDING_RECORDS - 1)),
+        shrinkRecord(record),
+      ]
+      if (pending.length >= batchSize) void send()
+    },
+    flush() {
+      void send()
+    },
+    dispose() {
+      clearInterval(timer)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      void send()
+    },
+  }
+}
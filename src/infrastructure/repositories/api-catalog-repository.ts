@@ -0,0 +1,125 @@
+import { materialsApi } from '@/infrastructure/api/materials-api'
+import { productsApi } from '@/infrastructure/api/products-api'
+import { suppliersApi } from '@/infrastructure/api/suppliers-api'
+import { ConflictError, NotFoundError } from '@/infrastructure/api/errors'
+import type {
+  ListParams,
+  PaginatedResponse,
+  RequestOptions,
+} from '@/infrastructure/api/types'
+import { VersionConflictError } from '@/infrastructure/cache/catalog-cache'
+
+import type { CatalogRepository } from './catalog-repository'
+
+const PAGE_SIZE = 100
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof NotFoundError
+}
+
+async function orNull<T>(request: Promise<T>): Promise<T | null> {
+  try {
+    return await request
+  } catch (error) {
+    if (isNotFound(error)) return null
+    throw error
+  }
+}
+
+/**
+ * Sends a write and, when the server rejects its `If-Match` version, reloads
+ * the entity so the conflict can be shown against what is stored now.
+ */
+async function writeVersioned<T extends { id: string; version: number }>(
+  write: (options?: RequestOptions) => Promise<T>,
+  reload: () => Promise<T>,
+  options?: RequestOptions
+): Promise<T | null> {
+  try {
+    return await orNull(write(options))
+  } catch (error) {
+    if (
+      error instanceof ConflictError &&
+      options?.expectedVersion !== undefined
+    ) {
+      throw new VersionConflictError(await reload())
+    }
+    throw error
+  }
+}
+
+async function removeOrFalse(request: Promise<void>): Promise<boolean> {
+  try {
+    await request
+    return true
+  } catch (error) {
+    if (isNotFound(error)) return false
+    throw error
+  }
+}
+
+async function listAll<T>(
+  fetchPage: (params: ListParams) => Promise<PaginatedResponse<T>>
+): Promise<T[]> {
+  const items: T[] = []
+  let page = 1
+
+  while (true) {
+    const response = await fetchPage({ page, limit: PAGE_SIZE })
+    items.push(...response.data)
+    if (page >= response.meta.totalPages || response.data.length === 0) {
+      return items
+    }
+    page += 1
+  }
+}
+
+export function createApiCatalogRepository(): CatalogRepository {
+  return {
+    source: 'api',
+    products: {
+      list: (options) => listAll((params) => productsApi.list(params, options)),
+      getById: (id, options) => orNull(productsApi.getById(id, options)),
+      create: (input, options) => productsApi.create(input, options),
+      update: (id, updates, options) =>
+        writeVersioned(
+          (opts) => productsApi.update(id, updates, opts),
+          () => productsApi.getById(id),
+          options
+        ),
+      saveBom: (productId, items, options) =>
+        writeVersioned(
+          (opts) => productsApi.saveBom(productId, items, opts),
+          () => productsApi.getById(productId),
+          options
+        ),
+      remove: (id) => removeOrFalse(productsApi.remove(id)),
+    },
+    materials: {
+      list: (options) =>
+        listAll((params) => materialsApi.list(params, options)),
+      getById: (id, options) => orNull(materialsApi.getById(id, options)),
+      create: (input, options) => materialsApi.create(input, options),
+      update: (id, updates, options) =>
+        writeVersioned(
+          (opts) => materialsApi.update(id, updates, opts),
+          () => materialsApi.getById(id),
+          options
+        ),
+      remove: (id) => removeOrFalse(materialsApi.remove(id)),
+    },
+    suppliers: {
+      list: (options) =>
+        listAll((params) => suppliersApi.list(params, options)),
+      getById: (id, options) => orNull(suppliersApi.getById(id, options)),
+      create: (input, options) => suppliersApi.create(input, options),
+      update: (id, updates, options) =>
+        writeVersioned(
+          (opts) => suppliersApi.update(id, updates, opts),
+          () => suppliersApi.getById(id),
+          options
+        ),
+      remove: (id) => removeOrFalse(suppliersApi.remove(id)),
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { env } from '@/config/env'
+import type { RequestOptions } from '@/infrastructure/api/types'
+import type {
+  CachedMaterial,
+  CachedProduct,
+  CachedProductBomItem,
+  CachedSupplier,
+  CreateCachedMaterialInput,
+  CreateCachedProductInput,
+  CreateCachedSupplierInput,
+  UpdateCachedMaterialInput,
+  UpdateCachedProductInput,
+  UpdateCachedSupplierInput,
+} from '@/infrastructure/cache/catalog-cache'
+
+import { createApiCatalogRepository } from './api-catalog-repository'
+import { createLocalCatalogRepository } from './local-catalog-repository'
+import { createOfflineCatalogRepository } from './offline-catalog-repository'
+
+// Reads accept an AbortSignal so React Query can cancel superseded requests.
+// Writes given an `expectedVersion` throw VersionConflictError when the
+// entity has moved past it.
+export interface EntityRepository<T, CreateInput, UpdateInput> {
+  list(options?: RequestOptions): Promise<T[]>
+  getById(id: string, options?: RequestOptions): Promise<T | null>
+  create(input: CreateInput, options?: RequestOptions): Promise<T>
+  update(
+    id: string,
+    updates: UpdateInput,
+    options?: RequestOptions
+  ): Promise<T | null>
+  remove(id: string): Promise<boolean>
+}
+
+export interface ProductRepository extends EntityRepository<
+  CachedProduct,
+  CreateCachedProductInput,
+  UpdateCachedProductInput
+> {
+  saveBom(
+    productId: string,
+    items: CachedProductBomItem[],
+    options?: RequestOptions
+  ): Promise<CachedProduct | null>
+}
+
+export type MaterialRepository = EntityRepository<
+  CachedMaterial,
+  CreateCachedMaterialInput,
+  UpdateCachedMaterialInput
+>
+
+export type SupplierRepository = EntityRepository<
+  CachedSupplier,
+  CreateCachedSupplierInput,
+  UpdateCachedSupplierInput
+>
+
+export interface CatalogRepository {
+  source: 'local' | 'api'
+  products: ProductRepository
+  materials: MaterialRepository
+  suppliers: SupplierRepository
+}
+
+// The HTTP backend is used as soon as an API base URL is configured, with
+// writes queued in the outbox while offline; without one the catalog stays in
+// the browser's localStorage cache.
+export const catalogRepository: CatalogRepository = env.api.baseUrl
+  ? createOfflineCatalogRepository(createApiCatalogRepository())
+  : createLocalCatalogRepository()
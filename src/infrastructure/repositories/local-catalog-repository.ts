@@ -0,0 +1,52 @@
+import {
+  createCachedMaterial,
+  createCachedProduct,
+  createCachedSupplier,
+  deleteCachedMaterial,
+  deleteCachedProduct,
+  deleteCachedSupplier,
+  getCachedMaterialById,
+  getCachedMaterials,
+  getCachedProductById,
+  getCachedProducts,
+  getCachedSupplierById,
+  getCachedSuppliers,
+  saveProductBomToCache,
+  updateCachedMaterial,
+  updateCachedProduct,
+  updateCachedSupplier,
+} from '@/infrastructure/cache/catalog-cache'
+
+import type { CatalogRepository } from './catalog-repository'
+
+export function createLocalCatalogRepository(): CatalogRepository {
+  return {
+    source: 'local',
+    products: {
+      list: async () => getCachedProducts(),
+      getById: async (id) => getCachedProductById(id),
+      create: async (input) => createCachedProduct(input),
+      update: async (id, updates, options) =>
+        updateCachedProduct(id, updates, options?.expectedVersion),
+      saveBom: async (productId, items, options) =>
+        saveProductBomToCache(productId, items, options?.expectedVersion),
+      remove: async (id) => deleteCachedProduct(id),
+    },
+    materials: {
+      list: async () => getCachedMaterials(),
+      getById: async (id) => getCachedMaterialById(id),
+      create: async (input) => createCachedMaterial(input),
+      update: async (id, updates, options) =>
+        updateCachedMaterial(id, updates, options?.expectedVersion),
+      remove: async (id) => deleteCachedMaterial(id),
+    },
+    suppliers: {
+      list: async () => getCachedSuppliers(),
+      getById: async (id) => getCachedSupplierById(id),
+      create: async (input) => createCachedSupplier(input),
+      update: async (id, updates, options) =>
+        updateCachedSupplier(id, updates, options?.expectedVersion),
+      remove: async (id) => deleteCachedSupplier(id),
+    },
+  }
+}
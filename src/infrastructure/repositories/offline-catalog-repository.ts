@@ -0,0 +1,248 @@
+import { NetworkError } from '@/infrastructure/api/errors'
+import type { RequestOptions } from '@/infrastructure/api/types'
+import {
+  applyPendingOutboxEntries,
+  createTempEntityId,
+  enqueueOutboxEntry,
+  hasOutboxEntries,
+  isTempEntityId,
+  resolveEntityId,
+  type OutboxCollection,
+} from '@/infrastructure/sync/outbox'
+
+import type { CatalogRepository, EntityRepository } from './catalog-repository'
+
+type SyncedEntity = {
+  id: string
+  name: string
+  updatedAt: string
+  version: number
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine
+}
+
+/**
+ * Keeps the last entities read from the server so reads still work offline
+ * and queued changes know which server version they were made against.
+ */
+function createLastKnownStore<T extends SyncedEntity>() {
+  const entities = new Map<string, T>()
+  let hasLoadedList = false
+
+  return {
+    get hasLoadedList() {
+      return hasLoadedList
+    },
+    list: () => [...entities.values()],
+    get: (id: string) => entities.get(id) ?? null,
+    replaceAll(items: T[]) {
+      entities.clear()
+      items.forEach((item) => entities.set(item.id, item))
+      hasLoadedList = true
+    },
+    set: (item: T) => entities.set(item.id, item),
+    delete: (id: string) => entities.delete(id),
+  }
+}
+
+function createOfflineEntityRepository<
+  T extends SyncedEntity,
+  CreateInput extends { name: string },
+  UpdateInput,
+>(
+  collection: OutboxCollection,
+  remote: EntityRepository<T, CreateInput, UpdateInput>
+) {
+  const lastKnown = createLastKnownStore<T>()
+
+  const findPending = (id: string) =>
+    applyPendingOutboxEntries(collection, lastKnown.list()).find(
+      (item) => item.id === id
+    ) ?? null
+
+  /**
+   * Writes go to the server unless the browser is offline, the request fails
+   * to reach it, or earlier changes to the same entity are still queued;
+   * order matters, so a write never overtakes the queue.
+   */
+  async function writeOrQueue<Result>(
+    entityId: string | null,
+    write: () => Promise<Result>,
+    queue: () => Result
+  ): Promise<Result> {
+    if (isOffline() || (entityId && hasOutboxEntries(entityId))) {
+      return queue()
+    }
+    try {
+      return await write()
+    } catch (error) {
+      if (error instanceof NetworkError) return queue()
+      throw error
+    }
+  }
+
+  const repository: EntityRepository<T, CreateInput, UpdateInput> = {
+    async list(options?: RequestOptions) {
+      if (!isOffline() || !lastKnown.hasLoadedList) {
+        try {
+          lastKnown.replaceAll(await remote.list(options))
+        } catch (error) {
+          if (!(error instanceof NetworkError && lastKnown.hasLoadedList)) {
+            throw error
+          }
+        }
+      }
+      return applyPendingOutboxEntries(collection, lastKnown.list())
+    },
+
+    async getById(id: string, options?: RequestOptions) {
+      const entityId = resolveEntityId(id)
+      if (!isTempEntityId(entityId) && !isOffline()) {
+        try {
+          const entity = await remote.getById(entityId, options)
+          if (entity) lastKnown.set(entity)
+          else lastKnown.delete(entityId)
+        } catch (error) {
+          if (!(error instanceof NetworkError && lastKnown.get(entityId))) {
+            throw error
+          }
+        }
+      }
+      return findPending(entityId)
+    },
+
+    create: (input: CreateInput, options?: RequestOptions) => {
+      // One key for the online attempt and the queued replay: if the server
+      // committed the create but the response was lost, replay is a no-op.
+      const idempotencyKey = options?.idempotencyKey ?? crypto.randomUUID()
+      return writeOrQueue(
+        null,
+        async () => {
+          const created = await remote.create(input, {
+            ...options,
+            idempotencyKey,
+          })
+          lastKnown.set(created)
+          return created
+        },
+        () => {
+          const entityId = createTempEntityId()
+          enqueueOutboxEntry({
+            id: idempotencyKey,
+            collection,
+            operation: 'create',
+            entityId,
+            entityName: input.name,
+            payload: input,
+          })
+          return findPending(entityId)!
+        }
+      )
+    },
+
+    update: (id: string, updates: UpdateInput, options?: RequestOptions) => {
+      const entityId = resolveEntityId(id)
+      return writeOrQueue(
+        entityId,
+        async () => {
+          const updated = await remote.update(entityId, updates, options)
+          if (updated) lastKnown.set(updated)
+          return updated
+        },
+        () => {
+          const current = findPending(entityId)
+          if (!current) return null
+          enqueueOutboxEntry({
+            collection,
+            operation: 'update',
+            entityId,
+            entityName: current.name,
+            payload: updates,
+            baseVersion:
+              options?.expectedVersion ?? lastKnown.get(entityId)?.version,
+          })
+          return findPending(entityId)
+        }
+      )
+    },
+
+    remove: (id: string) => {
+      const entityId = resolveEntityId(id)
+      return writeOrQueue(
+        entityId,
+        async () => {
+          const removed = await remote.remove(entityId)
+          lastKnown.delete(entityId)
+          return removed
+        },
+        () => {
+          const current = findPending(entityId)
+          if (!current) return false
+          enqueueOutboxEntry({
+            collection,
+            operation: 'remove',
+            entityId,
+            entityName: current.name,
+            baseVersion: lastKnown.get(entityId)?.version,
+          })
+          return true
+        }
+      )
+    },
+  }
+
+  return { repository, lastKnown, findPending, writeOrQueue }
+}
+
+/**
+ * Wraps the HTTP repository so creates and edits made without a connection
+ * are queued in the outbox and replayed once the backend is reachable.
+ */
+export function createOfflineCatalogRepository(
+  remote: CatalogRepository
+): CatalogRepository {
+  const products = createOfflineEntityRepository('products', remote.products)
+  const materials = createOfflineEntityRepository('materials', remote.materials)
+  const suppliers = createOfflineEntityRepository('suppliers', remote.suppliers)
+
+  return {
+    source: remote.source,
+    products: {
+      ...products.repository,
+      saveBom: (productId, items, options) => {
+        const entityId = resolveEntityId(productId)
+        return products.writeOrQueue(
+          entityId,
+          async () => {
+            const saved = await remote.products.saveBom(
+              entityId,
+              items,
+              options
+            )
+            if (saved) products.lastKnown.set(saved)
+            return saved
+          },
+          () => {
+            const current = products.findPending(entityId)
+            if (!current) return null
+            enqueueOutboxEntry({
+              collection: 'products',
+              operation: 'saveBom',
+              entityId,
+              entityName: current.name,
+              payload: { items },
+              baseVersion:
+                options?.expectedVersion ??
+                products.lastKnown.get(entityId)?.version,
+            })
+            return products.findPending(entityId)
+          }
+        )
+      },
+    },
+    materials: materials.repository,
+    suppliers: suppliers.repository,
+  }
+}
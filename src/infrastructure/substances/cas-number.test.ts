@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getCasNumberError,
+  isValidCasNumber,
+  normalizeCasNumber,
+} from './cas-number'
+
+describe('normalizeCasNumber', () => {
+  it('trims the value', () => {
+    expect(normalizeCasNumber(' 50-00-0 ')).toBe('50-00-0')
+  })
+
+  it('adds the hyphens to bare digits', () => {
+    expect(normalizeCasNumber('50000')).toBe('50-00-0')
+    expect(normalizeCasNumber('7732185')).toBe('7732-18-5')
+    expect(normalizeCasNumber('1234567890')).toBe('1234567-89-0')
+  })
+
+  it('leaves digit runs outside the CAS length alone', () => {
+    expect(normalizeCasNumber('1234')).toBe('1234')
+    expect(normalizeCasNumber('12345678901')).toBe('12345678901')
+  })
+
+  it('returns other input trimmed', () => {
+    expect(normalizeCasNumber(' 50-000 ')).toBe('50-000')
+    expect(normalizeCasNumber('lead')).toBe('lead')
+  })
+})
+
+describe('isValidCasNumber', () => {
+  it.each([
+    ['formaldehyde', '50-00-0'],
+    ['water', '7732-18-5'],
+    ['lead', '7439-92-1'],
+    ['bisphenol A', '80-05-7'],
+    ['cellulose', '9004-34-6'],
+  ])('accepts %s (%s)', (_name, casNumber) => {
+    expect(isValidCasNumber(casNumber)).toBe(true)
+  })
+
+  it('accepts numbers that only need normalizing', () => {
+    expect(isValidCasNumber('7732185')).toBe(true)
+    expect(isValidCasNumber(' 7439-92-1 ')).toBe(true)
+  })
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidCasNumber('50-00-1')).toBe(false)
+    expect(isValidCasNumber('9009-54-6')).toBe(false)
+    expect(isValidCasNumber('7732-18-4')).toBe(false)
+  })
+
+  it('rejects malformed numbers', () => {
+    expect(isValidCasNumber('')).toBe(false)
+    expect(isValidCasNumber('5-00-0')).toBe(false)
+    expect(isValidCasNumber('12345678-90-1')).toBe(false)
+    expect(isValidCasNumber('50-0-0')).toBe(false)
+    expect(isValidCasNumber('50-00-00')).toBe(false)
+    expect(isValidCasNumber('ab-cd-e')).toBe(false)
+  })
+})
+
+describe('getCasNumberError', () => {
+  it('accepts empty and valid values', () => {
+    expect(getCasNumberError(undefined)).toBeNull()
+    expect(getCasNumberError('  ')).toBeNull()
+    expect(getCasNumberError('7732-18-5')).toBeNull()
+  })
+
+  it('explains a malformed number', () => {
+    expect(getCasNumberError('50-000')).toBe('Use the format 1234567-89-0')
+  })
+
+  it('explains a check digit mismatch', () => {
+    expect(getCasNumberError('50-00-1')).toBe(
+      'Check digit does not match; look for a typo'
+    )
+  })
+})
@@ -0,0 +1,42 @@
+// 2–7 digits, 2 digits, 1 check digit
+const CAS_NUMBER_PATTERN = /^(\d{2,7})-(\d{2})-(\d)$/
+
+/**
+ * Trims the value and, when it is only digits, adds the hyphens, so
+ * "50000" and " 50-00-0 " both become "50-00-0". Anything else is returned
+ * trimmed for isValidCasNumber() to reject.
+ */
+export function normalizeCasNumber(value: string): string {
+  const trimmed = value.trim()
+  if (/^\d{5,10}$/.test(trimmed)) {
+    return `${trimmed.slice(0, -3)}-${trimmed.slice(-3, -1)}-${trimmed.slice(-1)}`
+  }
+  return trimmed
+}
+
+/**
+ * CAS Registry Numbers end in a check digit: the other digits, weighted
+ * 1, 2, 3… from the right, summed modulo 10.
+ */
+export function isValidCasNumber(value: string): boolean {
+  const match = CAS_NUMBER_PATTERN.exec(normalizeCasNumber(value))
+  if (!match) return false
+
+  const digits = `${match[1]}${match[2]}`
+  const checksum = [...digits]
+    .reverse()
+    .reduce((sum, digit, index) => sum + Number(digit) * (index + 1), 0)
+  return checksum % 10 === Number(match[3])
+}
+
+/** A message for a CAS field, or null when it is empty or valid. */
+export function getCasNumberError(value: string | undefined): string | null {
+  if (!value?.trim()) return null
+  if (!CAS_NUMBER_PATTERN.test(normalizeCasNumber(value))) {
+    return 'Use the format 1234567-89-0'
+  }
+  if (!isValidCasNumber(value)) {
+    return 'Check digit does not match; look for a typo'
+  }
+  return null
+}
@@ -0,0 +1,471 @@
+import { normalizeCasNumber } from './cas-number'
+
+export interface SubstanceEntry {
+  name: string
+  casNumber: string
+  /** EC (EINECS/ELINCS) number; polymers usually have none. */
+  ecNumber?: string
+  synonyms: string[]
+}
+
+/**
+ * Substances that come up most in consumer product declarations, bundled so
+ * lookups work offline. Every CAS and EC number here passes its check digit.
+ */
+export const SUBSTANCE_DICTIONARY: readonly SubstanceEntry[] = [
+  {
+    name: 'Water',
+    casNumber: '7732-18-5',
+    ecNumber: '231-791-2',
+    synonyms: ['Aqua'],
+  },
+  {
+    name: 'Formaldehyde',
+    casNumber: '50-00-0',
+    ecNumber: '200-001-8',
+    synonyms: ['Methanal', 'Formalin'],
+  },
+  { name: 'Polyurethane', casNumber: '9009-54-5', synonyms: ['PU', 'PUR'] },
+  {
+    name: 'Polyethylene',
+    casNumber: '9002-88-4',
+    synonyms: ['PE', 'HDPE', 'LDPE'],
+  },
+  { name: 'Polypropylene', casNumber: '9003-07-0', synonyms: ['PP'] },
+  {
+    name: 'Polyethylene terephthalate',
+    casNumber: '25038-59-9',
+    synonyms: ['PET', 'Polyester'],
+  },
+  { name: 'Polyvinyl chloride', casNumber: '9002-86-2', synonyms: ['PVC'] },
+  { name: 'Polystyrene', casNumber: '9003-53-6', synonyms: ['PS'] },
+  {
+    name: 'Polyamide 6',
+    casNumber: '25038-54-4',
+    synonyms: ['Nylon 6', 'PA6'],
+  },
+  { name: 'Polycarbonate', casNumber: '25037-45-0', synonyms: ['PC'] },
+  {
+    name: 'Acrylonitrile butadiene styrene',
+    casNumber: '9003-56-9',
+    synonyms: ['ABS'],
+  },
+  {
+    name: 'Styrene-butadiene rubber',
+    casNumber: '9003-55-8',
+    synonyms: ['SBR', 'Synthetic rubber'],
+  },
+  {
+    name: 'Natural rubber',
+    casNumber: '9006-04-6',
+    synonyms: ['Polyisoprene', 'Latex'],
+  },
+  { name: 'Elastane', casNumber: '25038-36-2', synonyms: ['Spandex', 'Lycra'] },
+  {
+    name: 'Cellulose',
+    casNumber: '9004-34-6',
+    ecNumber: '232-674-9',
+    synonyms: ['Cotton', 'Wood pulp'],
+  },
+  {
+    name: 'Collagen',
+    casNumber: '9007-34-5',
+    ecNumber: '232-697-4',
+    synonyms: ['Leather'],
+  },
+  {
+    name: 'Silicon dioxide',
+    casNumber: '7631-86-9',
+    ecNumber: '231-545-4',
+    synonyms: ['Silica', 'Quartz'],
+  },
+  {
+    name: 'Titanium dioxide',
+    casNumber: '13463-67-7',
+    ecNumber: '236-675-5',
+    synonyms: ['TiO2'],
+  },
+  {
+    name: 'Iron',
+    casNumber: '7439-89-6',
+    ecNumber: '231-096-4',
+    synonyms: ['Fe', 'Steel'],
+  },
+  {
+    name: 'Aluminium',
+    casNumber: '7429-90-5',
+    ecNumber: '231-072-3',
+    synonyms: ['Aluminum', 'Al'],
+  },
+  {
+    name: 'Copper',
+    casNumber: '7440-50-8',
+    ecNumber: '231-159-6',
+    synonyms: ['Cu'],
+  },
+  {
+    name: 'Zinc',
+    casNumber: '7440-66-6',
+    ecNumber: '231-175-3',
+    synonyms: ['Zn', 'Zinc alloy'],
+  },
+  {
+    name: 'Nickel',
+    casNumber: '7440-02-0',
+    ecNumber: '231-111-4',
+    synonyms: ['Ni'],
+  },
+  {
+    name: 'Chromium',
+    casNumber: '7440-47-3',
+    ecNumber: '231-157-5',
+    synonyms: ['Cr'],
+  },
+  {
+    name: 'Cobalt',
+    casNumber: '7440-48-4',
+    ecNumber: '231-158-0',
+    synonyms: ['Co'],
+  },
+  {
+    name: 'Tin',
+    casNumber: '7440-31-5',
+    ecNumber: '231-141-8',
+    synonyms: ['Sn'],
+  },
+  {
+    name: 'Silver',
+    casNumber: '7440-22-4',
+    ecNumber: '231-131-3',
+    synonyms: ['Ag'],
+  },
+  {
+    name: 'Gold',
+    casNumber: '7440-57-5',
+    ecNumber: '231-165-9',
+    synonyms: ['Au'],
+  },
+  {
+    name: 'Magnesium',
+    casNumber: '7439-95-4',
+    ecNumber: '231-104-6',
+    synonyms: ['Mg'],
+  },
+  {
+    name: 'Lead',
+    casNumber: '7439-92-1',
+    ecNumber: '231-100-4',
+    synonyms: ['Pb'],
+  },
+  {
+    name: 'Cadmium',
+    casNumber: '7440-43-9',
+    ecNumber: '231-152-8',
+    synonyms: ['Cd'],
+  },
+  {
+    name: 'Mercury',
+    casNumber: '7439-97-6',
+    ecNumber: '231-106-7',
+    synonyms: ['Hg'],
+  },
+  {
+    name: 'Carbon black',
+    casNumber: '1333-86-4',
+    ecNumber: '215-609-9',
+    synonyms: [],
+  },
+  {
+    name: 'Graphite',
+    casNumber: '7782-42-5',
+    ecNumber: '231-955-3',
+    synonyms: [],
+  },
+  {
+    name: 'Calcium carbonate',
+    casNumber: '471-34-1',
+    ecNumber: '207-439-9',
+    synonyms: ['Chalk', 'Limestone'],
+  },
+  {
+    name: 'Talc',
+    casNumber: '14807-96-6',
+    ecNumber: '238-877-9',
+    synonyms: [],
+  },
+  {
+    name: 'Kaolin',
+    casNumber: '1332-58-7',
+    ecNumber: '310-194-1',
+    synonyms: ['China clay'],
+  },
+  {
+    name: 'Glass fibre',
+    casNumber: '65997-17-3',
+    ecNumber: '266-046-0',
+    synonyms: ['Glass fiber', 'Fiberglass'],
+  },
+  {
+    name: 'Sodium chloride',
+    casNumber: '7647-14-5',
+    ecNumber: '231-598-3',
+    synonyms: ['Salt'],
+  },
+  {
+    name: 'Sodium hydroxide',
+    casNumber: '1310-73-2',
+    ecNumber: '215-185-5',
+    synonyms: ['Caustic soda'],
+  },
+  {
+    name: 'Zinc oxide',
+    casNumber: '1314-13-2',
+    ecNumber: '215-222-5',
+    synonyms: [],
+  },
+  {
+    name: 'Antimony trioxide',
+    casNumber: '1309-64-4',
+    ecNumber: '215-175-0',
+    synonyms: [],
+  },
+  {
+    name: 'Boric acid',
+    casNumber: '10043-35-3',
+    ecNumber: '233-139-2',
+    synonyms: [],
+  },
+  {
+    name: 'Chromium trioxide',
+    casNumber: '1333-82-0',
+    ecNumber: '215-607-8',
+    synonyms: ['Chromic acid'],
+  },
+  {
+    name: 'Nickel sulfate',
+    casNumber: '7786-81-4',
+    ecNumber: '232-104-9',
+    synonyms: ['Nickel sulphate'],
+  },
+  {
+    name: 'Lead chromate',
+    casNumber: '7758-97-6',
+    ecNumber: '231-846-0',
+    synonyms: [],
+  },
+  {
+    name: 'Ethanol',
+    casNumber: '64-17-5',
+    ecNumber: '200-578-6',
+    synonyms: ['Ethyl alcohol'],
+  },
+  {
+    name: 'Methanol',
+    casNumber: '67-56-1',
+    ecNumber: '200-659-6',
+    synonyms: ['Methyl alcohol'],
+  },
+  {
+    name: 'Propan-2-ol',
+    casNumber: '67-63-0',
+    ecNumber: '200-661-7',
+    synonyms: ['Isopropanol', 'Isopropyl alcohol', 'IPA'],
+  },
+  {
+    name: 'Acetone',
+    casNumber: '67-64-1',
+    ecNumber: '200-662-2',
+    synonyms: ['Propanone'],
+  },
+  {
+    name: 'Toluene',
+    casNumber: '108-88-3',
+    ecNumber: '203-625-9',
+    synonyms: ['Methylbenzene'],
+  },
+  {
+    name: 'Benzene',
+    casNumber: '71-43-2',
+    ecNumber: '200-753-7',
+    synonyms: [],
+  },
+  {
+    name: 'Styrene',
+    casNumber: '100-42-5',
+    ecNumber: '202-851-5',
+    synonyms: ['Vinylbenzene'],
+  },
+  {
+    name: 'Vinyl chloride',
+    casNumber: '75-01-4',
+    ecNumber: '200-831-0',
+    synonyms: ['Chloroethene'],
+  },
+  {
+    name: 'Ethylene glycol',
+    casNumber: '107-21-1',
+    ecNumber: '203-473-3',
+    synonyms: ['Ethane-1,2-diol'],
+  },
+  {
+    name: 'Glycerol',
+    casNumber: '56-81-5',
+    ecNumber: '200-289-5',
+    synonyms: ['Glycerin'],
+  },
+  {
+    name: 'Citric acid',
+    casNumber: '77-92-9',
+    ecNumber: '201-069-1',
+    synonyms: [],
+  },
+  {
+    name: 'Stearic acid',
+    casNumber: '57-11-4',
+    ecNumber: '200-313-4',
+    synonyms: ['Octadecanoic acid'],
+  },
+  {
+    name: 'Paraffin wax',
+    casNumber: '8002-74-2',
+    ecNumber: '232-315-6',
+    synonyms: [],
+  },
+  {
+    name: 'N,N-Dimethylformamide',
+    casNumber: '68-12-2',
+    ecNumber: '200-679-5',
+    synonyms: ['DMF'],
+  },
+  {
+    name: 'Bisphenol A',
+    casNumber: '80-05-7',
+    ecNumber: '201-245-8',
+    synonyms: ['BPA'],
+  },
+  {
+    name: 'Bis(2-ethylhexyl) phthalate',
+    casNumber: '117-81-7',
+    ecNumber: '204-211-0',
+    synonyms: ['DEHP'],
+  },
+  {
+    name: 'Dibutyl phthalate',
+    casNumber: '84-74-2',
+    ecNumber: '201-557-4',
+    synonyms: ['DBP'],
+  },
+  {
+    name: 'Benzyl butyl phthalate',
+    casNumber: '85-68-7',
+    ecNumber: '201-622-7',
+    synonyms: ['BBP'],
+  },
+  {
+    name: 'Diisobutyl phthalate',
+    casNumber: '84-69-5',
+    ecNumber: '201-553-2',
+    synonyms: ['DIBP'],
+  },
+  {
+    name: 'Diisononyl phthalate',
+    casNumber: '28553-12-0',
+    ecNumber: '249-079-5',
+    synonyms: ['DINP'],
+  },
+  {
+    name: 'Triphenyl phosphate',
+    casNumber: '115-86-6',
+    ecNumber: '204-112-2',
+    synonyms: ['TPP'],
+  },
+  {
+    name: 'Tris(2-chloroethyl) phosphate',
+    casNumber: '115-96-8',
+    ecNumber: '204-118-5',
+    synonyms: ['TCEP'],
+  },
+  {
+    name: 'Hexabromocyclododecane',
+    casNumber: '25637-99-4',
+    ecNumber: '247-148-4',
+    synonyms: ['HBCDD'],
+  },
+  {
+    name: 'Decabromodiphenyl ether',
+    casNumber: '1163-19-5',
+    ecNumber: '214-604-9',
+    synonyms: ['DecaBDE'],
+  },
+  {
+    name: 'Perfluorooctanoic acid',
+    casNumber: '335-67-1',
+    ecNumber: '206-397-9',
+    synonyms: ['PFOA'],
+  },
+  {
+    name: 'Alkanes, C10-13, chloro',
+    casNumber: '85535-84-8',
+    ecNumber: '287-476-5',
+    synonyms: ['Short-chain chlorinated paraffins', 'SCCP'],
+  },
+  {
+    name: '4-Nonylphenol, branched',
+    casNumber: '84852-15-3',
+    ecNumber: '284-325-5',
+    synonyms: ['Nonylphenol'],
+  },
+]
+
+function normalizeName(value: string) {
+  return value.trim().toLowerCase()
+}
+
+function getNames(entry: SubstanceEntry) {
+  return [entry.name, ...entry.synonyms].map(normalizeName)
+}
+
+export function findSubstanceByCas(
+  casNumber: string
+): SubstanceEntry | undefined {
+  const normalized = normalizeCasNumber(casNumber)
+  return SUBSTANCE_DICTIONARY.find((entry) => entry.casNumber === normalized)
+}
+
+/** Exact match on the name or a synonym, ignoring case. */
+export function findSubstanceByName(name: string): SubstanceEntry | undefined {
+  const normalized = normalizeName(name)
+  if (!normalized) return undefined
+  return SUBSTANCE_DICTIONARY.find((entry) =>
+    getNames(entry).includes(normalized)
+  )
+}
+
+/**
+ * Entries whose name, a synonym, or CAS/EC number contains the query. Names
+ * that start with it come first.
+ */
+export function searchSubstances(query: string, limit = 8): SubstanceEntry[] {
+  const normalized = normalizeName(query)
+  if (!normalized) return []
+
+  const scored = SUBSTANCE_DICTIONARY.flatMap((entry) => {
+    const names = getNames(entry)
+    if (names.some((name) => name.startsWith(normalized))) {
+      return [{ entry, score: 0 }]
+    }
+    if (
+      names.some((name) => name.includes(normalized)) ||
+      entry.casNumber.startsWith(normalized) ||
+      entry.ecNumber?.startsWith(normalized)
+    ) {
+      return [{ entry, score: 1 }]
+    }
+    return []
+  })
+
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ entry }) => entry)
+}
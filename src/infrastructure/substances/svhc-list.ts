@@ -0,0 +1,574 @@
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+
+import { normalizeCasNumber } from './cas-number'
+
+export const SVHC_LIST_STORAGE_KEY = 't4s.user-ui-v2.svhc-list.v1'
+
+export interface SvhcEntry {
+  name: string
+  casNumber?: string
+  ecNumber?: string
+  /** Article 57 grounds, as worded on the Candidate List. */
+  reason?: string
+  dateOfInclusion?: string
+}
+
+export interface SvhcList {
+  /** Free text shown with every report, e.g. the ECHA update it came from. */
+  version: string
+  source: 'bundled' | 'imported'
+  importedAt?: string
+  entries: SvhcEntry[]
+}
+
+/**
+ * An excerpt of the REACH Candidate List covering substances common in
+ * consumer articles. Import the full list from ECHA to screen completely.
+ */
+export const BUNDLED_SVHC_LIST: SvhcList = {
+  version: 'Bundled excerpt',
+  source: 'bundled',
+  entries: [
+    {
+      name: 'Bis(2-ethylhexyl) phthalate (DEHP)',
+      casNumber: '117-81-7',
+      ecNumber: '204-211-0',
+      reason:
+        'Toxic for reproduction (Article 57c); endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Dibutyl phthalate (DBP)',
+      casNumber: '84-74-2',
+      ecNumber: '201-557-4',
+      reason:
+        'Toxic for reproduction (Article 57c); endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Benzyl butyl phthalate (BBP)',
+      casNumber: '85-68-7',
+      ecNumber: '201-622-7',
+      reason:
+        'Toxic for reproduction (Article 57c); endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Diisobutyl phthalate (DIBP)',
+      casNumber: '84-69-5',
+      ecNumber: '201-553-2',
+      reason:
+        'Toxic for reproduction (Article 57c); endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Dicyclohexyl phthalate (DCHP)',
+      casNumber: '84-61-7',
+      ecNumber: '201-545-9',
+      reason:
+        'Toxic for reproduction (Article 57c); endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Bisphenol A',
+      casNumber: '80-05-7',
+      ecNumber: '201-245-8',
+      reason:
+        'Toxic for reproduction (Article 57c); endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Hexabromocyclododecane (HBCDD)',
+      casNumber: '25637-99-4',
+      ecNumber: '247-148-4',
+      reason: 'PBT (Article 57d)',
+    },
+    {
+      name: 'Alkanes, C10-13, chloro (SCCP)',
+      casNumber: '85535-84-8',
+      ecNumber: '287-476-5',
+      reason: 'PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: 'Medium-chain chlorinated paraffins (MCCP)',
+      casNumber: '85535-85-9',
+      ecNumber: '287-477-0',
+      reason: 'PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: 'Bis(decabromophenyl) ether (DecaBDE)',
+      casNumber: '1163-19-5',
+      ecNumber: '214-604-9',
+      reason: 'PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: 'Dechlorane Plus',
+      casNumber: '13560-89-9',
+      ecNumber: '236-948-9',
+      reason: 'vPvB (Article 57e)',
+    },
+    {
+      name: 'Anthracene',
+      casNumber: '120-12-7',
+      ecNumber: '204-371-1',
+      reason: 'PBT (Article 57d)',
+    },
+    {
+      name: 'Benzo[a]pyrene',
+      casNumber: '50-32-8',
+      ecNumber: '200-028-5',
+      reason:
+        'Carcinogenic (Article 57a); mutagenic (Article 57b); toxic for reproduction (Article 57c); PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: 'Perfluorooctanoic acid (PFOA)',
+      casNumber: '335-67-1',
+      ecNumber: '206-397-9',
+      reason: 'Toxic for reproduction (Article 57c); PBT (Article 57d)',
+    },
+    {
+      name: 'Perfluorohexane-1-sulphonic acid (PFHxS)',
+      casNumber: '355-46-4',
+      ecNumber: '206-587-1',
+      reason: 'vPvB (Article 57e)',
+    },
+    {
+      name: 'Octamethylcyclotetrasiloxane (D4)',
+      casNumber: '556-67-2',
+      ecNumber: '209-136-7',
+      reason: 'PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: 'Decamethylcyclopentasiloxane (D5)',
+      casNumber: '541-02-6',
+      ecNumber: '208-764-9',
+      reason: 'PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: 'Dodecamethylcyclohexasiloxane (D6)',
+      casNumber: '540-97-6',
+      ecNumber: '208-762-8',
+      reason: 'PBT (Article 57d); vPvB (Article 57e)',
+    },
+    {
+      name: '4-Nonylphenol, branched and linear',
+      casNumber: '84852-15-3',
+      ecNumber: '284-325-5',
+      reason: 'Endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: '4-tert-Octylphenol',
+      casNumber: '140-66-9',
+      ecNumber: '205-426-2',
+      reason: 'Endocrine disrupting properties (Article 57f)',
+    },
+    {
+      name: 'Tris(2-chloroethyl) phosphate (TCEP)',
+      casNumber: '115-96-8',
+      ecNumber: '204-118-5',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'N,N-Dimethylformamide (DMF)',
+      casNumber: '68-12-2',
+      ecNumber: '200-679-5',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'N,N-Dimethylacetamide (DMAC)',
+      casNumber: '127-19-5',
+      ecNumber: '204-826-4',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Bis(2-methoxyethyl) ether (diglyme)',
+      casNumber: '111-96-6',
+      ecNumber: '203-924-4',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: '2-Methoxyethanol',
+      casNumber: '109-86-4',
+      ecNumber: '203-713-7',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: '1,2-Dichloroethane',
+      casNumber: '107-06-2',
+      ecNumber: '203-458-1',
+      reason: 'Carcinogenic (Article 57a)',
+    },
+    {
+      name: 'Trichloroethylene',
+      casNumber: '79-01-6',
+      ecNumber: '201-167-4',
+      reason: 'Carcinogenic (Article 57a)',
+    },
+    {
+      name: 'Acrylamide',
+      casNumber: '79-06-1',
+      ecNumber: '201-173-7',
+      reason: 'Carcinogenic (Article 57a); mutagenic (Article 57b)',
+    },
+    {
+      name: "4,4'-Diaminodiphenylmethane (MDA)",
+      casNumber: '101-77-9',
+      ecNumber: '202-974-4',
+      reason: 'Carcinogenic (Article 57a)',
+    },
+    {
+      name: '1,4-Dioxane',
+      casNumber: '123-91-1',
+      ecNumber: '204-661-8',
+      reason: 'Equivalent level of concern (Article 57f)',
+    },
+    {
+      name: 'Hydrazine',
+      casNumber: '302-01-2',
+      ecNumber: '206-114-9',
+      reason: 'Carcinogenic (Article 57a)',
+    },
+    {
+      name: 'Boric acid',
+      casNumber: '10043-35-3',
+      ecNumber: '233-139-2',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Chromium trioxide',
+      casNumber: '1333-82-0',
+      ecNumber: '215-607-8',
+      reason: 'Carcinogenic (Article 57a); mutagenic (Article 57b)',
+    },
+    {
+      name: 'Sodium dichromate',
+      casNumber: '10588-01-9',
+      ecNumber: '234-190-3',
+      reason:
+        'Carcinogenic (Article 57a); mutagenic (Article 57b); toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Lead chromate',
+      casNumber: '7758-97-6',
+      ecNumber: '231-846-0',
+      reason:
+        'Carcinogenic (Article 57a); toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Lead',
+      casNumber: '7439-92-1',
+      ecNumber: '231-100-4',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Lead monoxide',
+      casNumber: '1317-36-8',
+      ecNumber: '215-267-0',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Cadmium',
+      casNumber: '7440-43-9',
+      ecNumber: '231-152-8',
+      reason:
+        'Carcinogenic (Article 57a); equivalent level of concern (Article 57f)',
+    },
+    {
+      name: 'Cadmium oxide',
+      casNumber: '1306-19-0',
+      ecNumber: '215-146-2',
+      reason:
+        'Carcinogenic (Article 57a); equivalent level of concern (Article 57f)',
+    },
+    {
+      name: 'Cobalt dichloride',
+      casNumber: '7646-79-9',
+      ecNumber: '231-589-4',
+      reason:
+        'Carcinogenic (Article 57a); toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Cobalt(II) sulphate',
+      casNumber: '10124-43-3',
+      ecNumber: '233-334-2',
+      reason:
+        'Carcinogenic (Article 57a); toxic for reproduction (Article 57c)',
+    },
+    {
+      name: 'Diarsenic trioxide',
+      casNumber: '1327-53-3',
+      ecNumber: '215-481-4',
+      reason: 'Carcinogenic (Article 57a)',
+    },
+    {
+      name: 'Diarsenic pentaoxide',
+      casNumber: '1303-28-2',
+      ecNumber: '215-116-9',
+      reason: 'Carcinogenic (Article 57a)',
+    },
+    {
+      name: 'Bis(tributyltin) oxide (TBTO)',
+      casNumber: '56-35-9',
+      ecNumber: '200-268-0',
+      reason: 'PBT (Article 57d)',
+    },
+    {
+      name: 'Dibutyltin dichloride (DBTC)',
+      casNumber: '683-18-1',
+      ecNumber: '211-670-0',
+      reason: 'Toxic for reproduction (Article 57c)',
+    },
+    {
+      name: '5-tert-Butyl-2,4,6-trinitro-m-xylene (musk xylene)',
+      casNumber: '81-15-2',
+      ecNumber: '201-329-4',
+      reason: 'vPvB (Article 57e)',
+    },
+    {
+      name: 'Terphenyl, hydrogenated',
+      casNumber: '61788-32-7',
+      ecNumber: '262-967-7',
+      reason: 'vPvB (Article 57e)',
+    },
+  ],
+}
+
+export class SvhcListValidationError extends Error {
+  readonly issues: string[]
+
+  constructor(message: string, issues: string[] = []) {
+    super(message)
+    this.name = 'SvhcListValidationError'
+    this.issues = issues
+  }
+}
+
+const entrySchema = z
+  .object({
+    name: z.string().min(1),
+    casNumber: z.string().optional(),
+    ecNumber: z.string().optional(),
+    reason: z.string().optional(),
+    dateOfInclusion: z.string().optional(),
+  })
+  .refine((entry) => entry.casNumber || entry.ecNumber, {
+    message: 'Needs a CAS or EC number',
+  })
+
+const listFileSchema = z.union([
+  z.array(entrySchema),
+  z.object({ version: z.string().optional(), entries: z.array(entrySchema) }),
+])
+
+const storedListSchema = z.object({
+  version: z.string(),
+  source: z.literal('imported'),
+  importedAt: z.string(),
+  entries: z.array(entrySchema),
+})
+
+type SvhcListListener = () => void
+
+const listeners = new Set<SvhcListListener>()
+let snapshot: SvhcList | null = null
+
+function readList(): SvhcList {
+  if (snapshot) return snapshot
+  if (typeof window === 'undefined') return BUNDLED_SVHC_LIST
+
+  try {
+    const stored = localStorage.getItem(SVHC_LIST_STORAGE_KEY)
+    const parsed = stored
+      ? storedListSchema.safeParse(JSON.parse(stored))
+      : null
+    snapshot = parsed?.success ? parsed.data : BUNDLED_SVHC_LIST
+  } catch (error) {
+    logger.error('Failed to parse SVHC list', error)
+    snapshot = BUNDLED_SVHC_LIST
+  }
+  return snapshot
+}
+
+function writeList(list: SvhcList | null) {
+  snapshot = list ?? BUNDLED_SVHC_LIST
+  if (typeof window !== 'undefined') {
+    if (list) {
+      localStorage.setItem(SVHC_LIST_STORAGE_KEY, JSON.stringify(list))
+    } else {
+      localStorage.removeItem(SVHC_LIST_STORAGE_KEY)
+    }
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/** Splits one CSV line, honouring double-quoted fields. */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let quoted = false
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        current += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+const CSV_COLUMNS: Array<[keyof SvhcEntry, RegExp]> = [
+  ['casNumber', /\bcas\b/i],
+  ['ecNumber', /\bec\b/i],
+  ['reason', /reason/i],
+  ['dateOfInclusion', /date/i],
+  ['name', /name/i],
+]
+
+/**
+ * Reads the CSV export of the Candidate List from the ECHA website: the first
+ * row with a CAS column is the header, and entries without a CAS or EC number
+ * (substance groups) are skipped since they cannot be matched.
+ */
+function parseSvhcCsv(text: string): SvhcEntry[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim())
+  // Spreadsheets in some locales export with semicolons
+  const headerLine = lines.find((line) => /\bcas\b/i.test(line)) ?? ''
+  const count = (char: string) => headerLine.split(char).length
+  const delimiter = count(';') > count(',') ? ';' : ','
+  const rows = lines.map((line) => splitCsvLine(line, delimiter))
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => /\bcas\b/i.test(cell))
+  )
+  if (headerIndex === -1) {
+    throw new SvhcListValidationError('The file has no CAS number column')
+  }
+
+  const columns = new Map<keyof SvhcEntry, number>()
+  rows[headerIndex].forEach((cell, index) => {
+    const match = CSV_COLUMNS.find(
+      ([key, pattern]) => !columns.has(key) && pattern.test(cell)
+    )
+    if (match) columns.set(match[0], index)
+  })
+
+  const read = (row: string[], key: keyof SvhcEntry) => {
+    const index = columns.get(key)
+    const value = index === undefined ? '' : (row[index] ?? '')
+    return value && value !== '-' ? value : undefined
+  }
+
+  return rows.slice(headerIndex + 1).flatMap((row) => {
+    const casNumber = read(row, 'casNumber')
+    const ecNumber = read(row, 'ecNumber')
+    if (!casNumber && !ecNumber) return []
+    return [
+      {
+        name: read(row, 'name') ?? casNumber ?? ecNumber ?? '',
+        casNumber,
+        ecNumber,
+        reason: read(row, 'reason'),
+        dateOfInclusion: read(row, 'dateOfInclusion'),
+      },
+    ]
+  })
+}
+
+/**
+ * Parses a Candidate List file: the ECHA CSV export, or JSON shaped as
+ * `{ version?, entries: SvhcEntry[] }` or a bare array of entries.
+ */
+export function parseSvhcList(text: string, fileName: string): SvhcList {
+  const importedAt = new Date().toISOString()
+  const trimmed = text.trim()
+
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    const entries = parseSvhcCsv(trimmed)
+    if (entries.length === 0) {
+      throw new SvhcListValidationError('The file has no SVHC entries')
+    }
+    return { version: fileName, source: 'imported', importedAt, entries }
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(trimmed)
+  } catch {
+    throw new SvhcListValidationError('The file is not valid JSON')
+  }
+
+  const result = listFileSchema.safeParse(raw)
+  if (!result.success) {
+    throw new SvhcListValidationError(
+      'The SVHC list is invalid',
+      result.error.issues.map(
+        (issue) => `${issue.path.join('.') || 'list'}: ${issue.message}`
+      )
+    )
+  }
+
+  const entries = Array.isArray(result.data) ? result.data : result.data.entries
+  const version = Array.isArray(result.data)
+    ? fileName
+    : (result.data.version ?? fileName)
+  return { version, source: 'imported', importedAt, entries }
+}
+
+/** Replaces the bundled list until resetSvhcList() is called. */
+export function importSvhcList(list: SvhcList) {
+  writeList(list)
+}
+
+export function resetSvhcList() {
+  writeList(null)
+}
+
+export function getSvhcList(): SvhcList {
+  return readList()
+}
+
+export function subscribeToSvhcList(listener: SvhcListListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+const indexes = new WeakMap<SvhcList, Map<string, SvhcEntry>>()
+
+function getIndex(list: SvhcList) {
+  let index = indexes.get(list)
+  if (!index) {
+    index = new Map()
+    for (const entry of list.entries) {
+      if (entry.casNumber) {
+        index.set(`cas:${normalizeCasNumber(entry.casNumber)}`, entry)
+      }
+      if (entry.ecNumber) index.set(`ec:${entry.ecNumber.trim()}`, entry)
+    }
+    indexes.set(list, index)
+  }
+  return index
+}
+
+/** The Candidate List entry for a substance, matched by CAS then EC number. */
+export function findSvhcEntry(
+  list: SvhcList,
+  { casNumber, ecNumber }: { casNumber?: string; ecNumber?: string }
+): SvhcEntry | undefined {
+  const index = getIndex(list)
+  return (
+    (casNumber && index.get(`cas:${normalizeCasNumber(casNumber)}`)) ||
+    (ecNumber && index.get(`ec:${ecNumber.trim()}`)) ||
+    undefined
+  )
+}
@@ -0,0 +1,191 @@
+import {
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  UnauthorizedError,
+} from '@/infrastructure/api/errors'
+import { materialsApi } from '@/infrastructure/api/materials-api'
+import { productsApi } from '@/infrastructure/api/products-api'
+import { suppliersApi } from '@/infrastructure/api/suppliers-api'
+import type { RequestOptions } from '@/infrastructure/api/types'
+import type { CachedProductBomItem } from '@/infrastructure/cache/catalog-cache'
+import { publishLocalChange } from '@/infrastructure/cache/change-bus'
+import { logger } from '@/lib/logger'
+
+import {
+  completeOutboxEntry,
+  getOutboxEntries,
+  markOutboxEntry,
+  remapOutboxEntityId,
+  type OutboxCollection,
+  type OutboxEntry,
+} from './outbox'
+
+const REPLAY_LOCK_NAME = 't4s.user-ui-v2.outbox-replay'
+const REPLAY_INTERVAL_MS = 30 * 1000
+
+interface ReplayableApi {
+  create(
+    input: never,
+    options?: RequestOptions
+  ): Promise<{ id: string; version: number }>
+  update(
+    id: string,
+    updates: never,
+    options?: RequestOptions
+  ): Promise<{ version: number }>
+  remove(id: string, options?: RequestOptions): Promise<void>
+}
+
+const apis: Record<OutboxCollection, ReplayableApi> = {
+  products: productsApi,
+  materials: materialsApi,
+  suppliers: suppliersApi,
+}
+
+/**
+ * Sends one entry and returns the entity's new `version`, if any. Writes carry
+ * the version they were made against as `If-Match`, so the server rejects them
+ * (409/412, a ConflictError) if the entity changed in the meantime.
+ */
+async function replayEntry(entry: OutboxEntry): Promise<number | undefined> {
+  const api = apis[entry.collection]
+  const options: RequestOptions = {
+    expectedVersion: entry.force ? undefined : entry.baseVersion,
+  }
+
+  switch (entry.operation) {
+    case 'create': {
+      // The entry id doubles as the idempotency key, so a create whose
+      // response was lost is not duplicated on the next attempt.
+      const created = await api.create(entry.payload as never, {
+        idempotencyKey: entry.id,
+      })
+      remapOutboxEntityId(entry.entityId, created.id)
+      return created.version
+    }
+    case 'update': {
+      const updated = await api.update(
+        entry.entityId,
+        entry.payload as never,
+        options
+      )
+      return updated.version
+    }
+    case 'saveBom': {
+      const { items } = entry.payload as { items: CachedProductBomItem[] }
+      const saved = await productsApi.saveBom(entry.entityId, items, options)
+      return saved.version
+    }
+    case 'remove':
+      try {
+        await api.remove(entry.entityId, options)
+      } catch (error) {
+        // Already gone is what the user asked for.
+        if (!(error instanceof NotFoundError)) throw error
+      }
+      return undefined
+  }
+}
+
+function describeFailure(error: unknown): {
+  status: 'conflict' | 'failed'
+  message: string
+} {
+  if (error instanceof ConflictError) {
+    return {
+      status: 'conflict',
+      message: 'Changed by someone else since you edited it offline',
+    }
+  }
+  if (error instanceof NotFoundError) {
+    return { status: 'conflict', message: 'Deleted by someone else' }
+  }
+  return {
+    status: 'failed',
+    message: error instanceof Error ? error.message : 'Unknown error',
+  }
+}
+
+async function replayPendingEntries() {
+  // Entries behind a conflicted or failed one for the same entity wait for
+  // the user to resolve it, so changes never apply out of order.
+  const blockedEntityIds = new Set(
+    getOutboxEntries()
+      .filter((entry) => entry.status !== 'pending')
+      .map((entry) => entry.entityId)
+  )
+
+  const queue = getOutboxEntries().filter((entry) => entry.status === 'pending')
+  for (const queued of queue) {
+    // Earlier replays may have remapped the entity id of this entry.
+    const entry = getOutboxEntries().find((item) => item.id === queued.id)
+    if (!entry || blockedEntityIds.has(entry.entityId)) continue
+
+    try {
+      const version = await replayEntry(entry)
+      completeOutboxEntry(entry.id, version)
+      publishLocalChange([entry.collection])
+    } catch (error) {
+      if (error instanceof NetworkError || error instanceof UnauthorizedError) {
+        // Still offline or signed out: keep everything queued for later.
+        return
+      }
+      const { status, message } = describeFailure(error)
+      logger.warn('Queued change could not be replayed', error, {
+        context: 'Outbox',
+      })
+      markOutboxEntry(entry.id, status, message)
+      blockedEntityIds.add(entry.entityId)
+      publishLocalChange([entry.collection])
+    }
+  }
+}
+
+let replayPromise: Promise<void> | null = null
+
+async function replayWithLock() {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(REPLAY_LOCK_NAME, replayPendingEntries)
+  } else {
+    await replayPendingEntries()
+  }
+}
+
+/**
+ * Sends queued changes in the order they were made. Tabs share one outbox,
+ * so a Web Lock keeps two of them from replaying the same entries.
+ */
+export function replayOutbox(): Promise<void> {
+  if (getOutboxEntries().every((entry) => entry.status !== 'pending')) {
+    return Promise.resolve()
+  }
+
+  replayPromise ??= replayWithLock()
+    .catch((error) => {
+      logger.error('Outbox replay failed', error, { context: 'Outbox' })
+    })
+    .finally(() => {
+      replayPromise = null
+    })
+
+  return replayPromise
+}
+
+/** Replays on start-up, when the browser comes back online and periodically. */
+export function startOutboxSync(): () => void {
+  const handleOnline = () => {
+    void replayOutbox()
+  }
+  const interval = window.setInterval(() => {
+    if (navigator.onLine) void replayOutbox()
+  }, REPLAY_INTERVAL_MS)
+
+  window.addEventListener('online', handleOnline)
+  void replayOutbox()
+
+  return () => {
+    window.clearInterval(interval)
+    window.removeEventListener('online', handleOnline)
+  }
+}
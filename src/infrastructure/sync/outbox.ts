@@ -0,0 +1,343 @@
+import {
+  CATALOG_COLLECTIONS,
+  publishLocalChange,
+  type CacheCollection,
+} from '@/infrastructure/cache/change-bus'
+import { logger } from '@/lib/logger'
+
+export const OUTBOX_STORAGE_KEY = 't4s.user-ui-v2.outbox.v1'
+const TEMP_ID_PREFIX = 'pending-'
+
+// Server ids of replayed creates are remembered so links to the temporary id
+// (e.g. a product page opened while offline) keep resolving afterwards.
+const MAX_RESOLVED_IDS = 200
+
+export type OutboxCollection = Extract<
+  CacheCollection,
+  'products' | 'materials' | 'suppliers'
+>
+
+export type OutboxOperation = 'create' | 'update' | 'saveBom' | 'remove'
+
+/**
+ * `pending` entries wait for replay. `conflict` entries hit a server-side
+ * change and `failed` ones were rejected; both wait for the user to retry or
+ * discard them, and hold back later entries for the same entity.
+ */
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed'
+
+export interface OutboxEntry {
+  id: string
+  collection: OutboxCollection
+  operation: OutboxOperation
+  entityId: string
+  entityName?: string
+  payload?: unknown
+  /**
+   * Server `version` the change was made against, sent as `If-Match` on
+   * replay; unset when chained.
+   */
+  baseVersion?: number
+  /** Replay without checking for server-side changes ("keep mine"). */
+  force?: boolean
+  status: OutboxEntryStatus
+  error?: string
+  enqueuedAt: string
+}
+
+export type EnqueueOutboxEntryInput = Pick<
+  OutboxEntry,
+  | 'collection'
+  | 'operation'
+  | 'entityId'
+  | 'entityName'
+  | 'payload'
+  | 'baseVersion'
+> & {
+  /** Reuses the idempotency key of a create that may have reached the server. */
+  id?: string
+}
+
+interface OutboxState {
+  entries: OutboxEntry[]
+  resolvedIds: Record<string, string>
+}
+
+type OutboxListener = () => void
+
+const EMPTY_STATE: OutboxState = { entries: [], resolvedIds: {} }
+
+const listeners = new Set<OutboxListener>()
+let snapshot: OutboxState | null = null
+let isListening = false
+
+function readState(): OutboxState {
+  if (snapshot) return snapshot
+  if (typeof window === 'undefined') return EMPTY_STATE
+
+  try {
+    const stored = localStorage.getItem(OUTBOX_STORAGE_KEY)
+    const parsed = stored ? (JSON.parse(stored) as Partial<OutboxState>) : {}
+    snapshot = {
+      entries: Array.isArray(parsed.entries) ? parsed.entries : [],
+      resolvedIds: parsed.resolvedIds ?? {},
+    }
+  } catch (error) {
+    logger.error('Failed to parse outbox', error)
+    snapshot = EMPTY_STATE
+  }
+  return snapshot
+}
+
+function notify() {
+  for (const listener of listeners) {
+    listener()
+  }
+}
+
+function writeState(state: OutboxState) {
+  snapshot = state
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(state))
+  }
+  notify()
+}
+
+function updateEntries(update: (entries: OutboxEntry[]) => OutboxEntry[]) {
+  const state = readState()
+  writeState({ ...state, entries: update(state.entries) })
+}
+
+function startListening() {
+  if (isListening || typeof window === 'undefined') return
+  isListening = true
+
+  // Other tabs enqueue and replay against the same storage key.
+  window.addEventListener('storage', (event) => {
+    if (event.key !== OUTBOX_STORAGE_KEY) return
+    snapshot = null
+    notify()
+    publishLocalChange(CATALOG_COLLECTIONS)
+  })
+}
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  startListening()
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getOutboxEntries(): OutboxEntry[] {
+  return readState().entries
+}
+
+export function hasOutboxEntries(entityId: string): boolean {
+  return readState().entries.some((entry) => entry.entityId === entityId)
+}
+
+export function createTempEntityId(): string {
+  return `${TEMP_ID_PREFIX}${crypto.randomUUID()}`
+}
+
+export function isTempEntityId(entityId: string): boolean {
+  return entityId.startsWith(TEMP_ID_PREFIX)
+}
+
+/** Maps the temporary id of a replayed create to the id the server gave it. */
+export function resolveEntityId(entityId: string): string {
+  return readState().resolvedIds[entityId] ?? entityId
+}
+
+export function enqueueOutboxEntry(
+  input: EnqueueOutboxEntryInput
+): OutboxEntry {
+  const entries = getOutboxEntries()
+  // Only the first queued change of an entity is checked against the server;
+  // later ones build on it and inherit its result during replay.
+  const isChained = entries.some((entry) => entry.entityId === input.entityId)
+
+  const entry: OutboxEntry = {
+    ...input,
+    id: input.id ?? crypto.randomUUID(),
+    baseVersion: isChained ? undefined : input.baseVersion,
+    status: 'pending',
+    enqueuedAt: new Date().toISOString(),
+  }
+  updateEntries((current) => [...current, entry])
+  return entry
+}
+
+/** Drops a replayed entry and hands its result to the next one in line. */
+export function completeOutboxEntry(entryId: string, version?: number) {
+  updateEntries((entries) => {
+    const completed = entries.find((entry) => entry.id === entryId)
+    let hasHandedOff = false
+
+    return entries
+      .filter((entry) => entry.id !== entryId)
+      .map((entry) => {
+        if (
+          hasHandedOff ||
+          !completed ||
+          entry.entityId !== completed.entityId
+        ) {
+          return entry
+        }
+        hasHandedOff = true
+        return { ...entry, baseVersion: version }
+      })
+  })
+}
+
+export function markOutboxEntry(
+  entryId: string,
+  status: Exclude<OutboxEntryStatus, 'pending'>,
+  error: string
+) {
+  updateEntries((entries) =>
+    entries.map((entry) =>
+      entry.id === entryId ? { ...entry, status, error } : entry
+    )
+  )
+}
+
+/**
+ * Queues a conflicted or failed entry again. Only `force` ("keep mine")
+ * overwrites changes made on the server in the meantime.
+ */
+export function retryOutboxEntry(
+  entryId: string,
+  { force = false }: { force?: boolean } = {}
+) {
+  updateEntries((entries) =>
+    entries.map((entry) =>
+      entry.id === entryId
+        ? { ...entry, status: 'pending', error: undefined, force }
+        : entry
+    )
+  )
+}
+
+/**
+ * Removes an entry. Discarding a create also discards the later changes to
+ * that entity, since there is nothing left on the server for them to apply to.
+ */
+export function discardOutboxEntry(entryId: string) {
+  const discarded = getOutboxEntries().find((entry) => entry.id === entryId)
+  if (!discarded) return
+
+  updateEntries((entries) => {
+    if (discarded.operation === 'create') {
+      return entries.filter((entry) => entry.entityId !== discarded.entityId)
+    }
+
+    let hasHandedOff = false
+    return entries
+      .filter((entry) => entry.id !== entryId)
+      .map((entry) => {
+        if (hasHandedOff || entry.entityId !== discarded.entityId) return entry
+        hasHandedOff = true
+        return {
+          ...entry,
+          baseVersion: entry.baseVersion ?? discarded.baseVersion,
+        }
+      })
+  })
+  publishLocalChange([discarded.collection])
+}
+
+function replaceId(value: unknown, fromId: string, toId: string): unknown {
+  if (value === fromId) return toId
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceId(item, fromId, toId))
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        replaceId(item, fromId, toId),
+      ])
+    )
+  }
+  return value
+}
+
+/** Points queued entries, and references inside their payloads, at a new id. */
+export function remapOutboxEntityId(fromId: string, toId: string) {
+  const state = readState()
+  const resolvedEntries = Object.entries({
+    ...state.resolvedIds,
+    [fromId]: toId,
+  }).slice(-MAX_RESOLVED_IDS)
+
+  writeState({
+    entries: state.entries.map((entry) => ({
+      ...entry,
+      entityId: entry.entityId === fromId ? toId : entry.entityId,
+      payload: replaceId(entry.payload, fromId, toId),
+    })),
+    resolvedIds: Object.fromEntries(resolvedEntries),
+  })
+}
+
+type OutboxEntity = { id: string; updatedAt: string } & Record<string, unknown>
+
+function applyEntry<T extends OutboxEntity>(
+  items: T[],
+  entry: OutboxEntry
+): T[] {
+  const changedAt = entry.enqueuedAt
+
+  switch (entry.operation) {
+    case 'create':
+      if (items.some((item) => item.id === entry.entityId)) return items
+      return [
+        {
+          ...(entry.payload as object),
+          id: entry.entityId,
+          createdAt: changedAt,
+          updatedAt: changedAt,
+        } as unknown as T,
+        ...items,
+      ]
+    case 'update':
+      return items.map((item) =>
+        item.id === entry.entityId
+          ? { ...item, ...(entry.payload as object), updatedAt: changedAt }
+          : item
+      )
+    case 'saveBom': {
+      const { items: bomItems } = entry.payload as { items: unknown[] }
+      return items.map((item) =>
+        item.id === entry.entityId
+          ? {
+              ...item,
+              bom: { items: bomItems, updatedAt: changedAt },
+              updatedAt: changedAt,
+            }
+          : item
+      )
+    }
+    case 'remove':
+      return items.filter((item) => item.id !== entry.entityId)
+  }
+}
+
+/**
+ * Lays the changes still waiting in the outbox over entities read from the
+ * server, so the UI shows what the user did while offline.
+ */
+export function applyPendingOutboxEntries<
+  T extends { id: string; updatedAt: string },
+>(collection: OutboxCollection, items: T[]): T[] {
+  return getOutboxEntries()
+    .filter(
+      (entry) => entry.collection === collection && entry.status === 'pending'
+    )
+    .reduce(
+      (current, entry) => applyEntry(current as OutboxEntity[], entry),
+      items as unknown as OutboxEntity[]
+    ) as unknown as T[]
+}
@@ -1,58 +1,186 @@
 const isDev = import.meta.env.DEV
 
-type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
 
-interface LoggerOptions {
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+]
+
+export interface LoggerOptions {
   level?: LogLevel
   context?: string
+  /** Ties together the records (and API requests) of one operation. */
+  correlationId?: string
+}
+
+export interface LogRecord {
+  id: string
+  timestamp: string
+  level: LogLevel
+  message: string
+  context?: string
+  correlationId?: string
+  /** The `data` or `error` argument, reduced to plain JSON. */
+  data?: unknown
+}
+
+/** Receives every record; sinks filter by level themselves. */
+export interface LogSink {
+  write: (record: LogRecord) => void
+  flush?: () => void
+}
+
+type LogListener = () => void
+
+const RING_BUFFER_SIZE = 500
+
+let records: LogRecord[] = []
+const listeners = new Set<LogListener>()
+const sinks = new Set<LogSink>()
+
+export function isLevelEnabled(level: LogLevel, minLevel: LogLevel) {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minLevel)
+}
+
+export function createCorrelationId(): string {
+  return crypto.randomUUID()
+}
+
+function formatMessage(record: LogRecord): string {
+  const prefix = record.context ? `[${record.context}]` : ''
+  const suffix = record.correlationId ? ` (${record.correlationId})` : ''
+  return `${record.timestamp} ${record.level.toUpperCase()} ${prefix} ${record.message}${suffix}`
+}
+
+/** Errors lose their fields in JSON.stringify, so copy them out first. */
+function toSerializable(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return {
+      ...Object.fromEntries(Object.entries(value)),
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+    }
+  }
+  if (value === null || typeof value !== 'object' || depth > 4) {
+    return typeof value === 'bigint' || typeof value === 'function'
+      ? String(value)
+      : value
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toSerializable(item, depth + 1))
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      toSerializable(item, depth + 1),
+    ])
+  )
+}
+
+/** Development prints everything; production only errors, as before. */
+const consoleSink: LogSink = {
+  write(record) {
+    if (!isDev && record.level !== 'error') return
+    const formatted = formatMessage(record)
+    const args =
+      record.data !== undefined ? [formatted, record.data] : [formatted]
+    console[record.level](...args)
+  },
 }
 
-function formatMessage(level: LogLevel, message: string, context?: string): string {
-  const timestamp = new Date().toISOString()
-  const prefix = context ? `[${context}]` : ''
-  return `${timestamp} ${level.toUpperCase()} ${prefix} ${message}`
+sinks.add(consoleSink)
+
+function emit(
+  level: LogLevel,
+  message: string,
+  data: unknown,
+  options?: LoggerOptions
+) {
+  const record: LogRecord = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    level: options?.level ?? level,
+    message,
+    context: options?.context,
+    correlationId: options?.correlationId,
+    data: data === undefined ? undefined : toSerializable(data),
+  }
+
+  records = [...records.slice(-(RING_BUFFER_SIZE - 1)), record]
+  listeners.forEach((listener) => listener())
+
+  for (const sink of sinks) {
+    try {
+      sink.write(record)
+    } catch {
+      // A failing sink must not break the caller or the other sinks
+    }
+  }
 }
 
 export const logger = {
   debug(message: string, data?: unknown, options?: LoggerOptions) {
-    if (isDev) {
-      const formatted = formatMessage('debug', message, options?.context)
-      if (data !== undefined) {
-        console.debug(formatted, data)
-      } else {
-        console.debug(formatted)
-      }
-    }
+    emit('debug', message, data, options)
   },
 
   info(message: string, data?: unknown, options?: LoggerOptions) {
-    if (isDev) {
-      const formatted = formatMessage('info', message, options?.context)
-      if (data !== undefined) {
-        console.info(formatted, data)
-      } else {
-        console.info(formatted)
-      }
-    }
+    emit('info', message, data, options)
   },
 
   warn(message: string, data?: unknown, options?: LoggerOptions) {
-    if (isDev) {
-      const formatted = formatMessage('warn', message, options?.context)
-      if (data !== undefined) {
-        console.warn(formatted, data)
-      } else {
-        console.warn(formatted)
-      }
-    }
+    emit('warn', message, data, options)
   },
 
   error(message: string, error?: unknown, options?: LoggerOptions) {
-    const formatted = formatMessage('error', message, options?.context)
-    if (error !== undefined) {
-      console.error(formatted, error)
-    } else {
-      console.error(formatted)
+    emit('error', message, error, options)
+  },
+
+  /** A logger whose records all carry the given context and correlation id. */
+  scope(defaults: Omit<LoggerOptions, 'level'>) {
+    const merge = (options?: LoggerOptions) => ({ ...defaults, ...options })
+    return {
+      ...defaults,
+      debug: (message: string, data?: unknown, options?: LoggerOptions) =>
+        emit('debug', message, data, merge(options)),
+      info: (message: string, data?: unknown, options?: LoggerOptions) =>
+        emit('info', message, data, merge(options)),
+      warn: (message: string, data?: unknown, options?: LoggerOptions) =>
+        emit('warn', message, data, merge(options)),
+      error: (message: string, error?: unknown, options?: LoggerOptions) =>
+        emit('error', message, error, merge(options)),
     }
   },
 }
+
+export function addLogSink(sink: LogSink): () => void {
+  sinks.add(sink)
+  return () => {
+    sink.flush?.()
+    sinks.delete(sink)
+  }
+}
+
+export function flushLogSinks() {
+  sinks.forEach((sink) => sink.flush?.())
+}
+
+/** The last RING_BUFFER_SIZE records, oldest first. */
+export function getLogRecords(): LogRecord[] {
+  return records
+}
+
+export function clearLogRecords() {
+  records = []
+  listeners.forEach((listener) => listener())
+}
+
+export function subscribeToLogs(listener: LogListener): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -1,11 +1,23 @@
 import { createRoot } from 'react-dom/client'
-import { BrowserRouter } from 'react-router-dom'
 
-import App from './App'
+import { ConfigErrorScreen } from '@/app/components/config-error-screen'
+import { loadEnv } from '@/config/env'
+
 import './index.css'
 
-createRoot(document.getElementById('root')!).render(
-  <BrowserRouter>
-    <App />
-  </BrowserRouter>
-)
+async function bootstrap() {
+  const root = createRoot(document.getElementById('root')!)
+
+  const result = await loadEnv()
+  if (!result.success) {
+    root.render(<ConfigErrorScreen {...result} />)
+    return
+  }
+
+  // The API client, auth and repositories read env as they load, so nothing
+  // that imports them may load before the runtime config is applied
+  const { startApp } = await import('./start-app')
+  await startApp(root)
+}
+
+void bootstrap()
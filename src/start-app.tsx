@@ -0,0 +1,39 @@
+import type { Root } from 'react-dom/client'
+import { BrowserRouter } from 'react-router-dom'
+
+import { env } from '@/config/env'
+import {
+  hydrateCatalogCache,
+  purgeTrash,
+} from '@/infrastructure/cache/catalog-cache'
+import { runStoreMigrations } from '@/infrastructure/cache/store-migrations'
+import { refreshRemoteFlags } from '@/infrastructure/flags/feature-flags'
+import { createHttpLogSink } from '@/infrastructure/logging/http-log-sink'
+import { addLogSink } from '@/lib/logger'
+
+import App from './App'
+
+/** Everything after loadEnv(); imported lazily by main.tsx. */
+export async function startApp(root: Root) {
+  if (env.logging.endpoint) {
+    addLogSink(
+      createHttpLogSink({
+        endpoint: env.logging.endpoint,
+        level: env.logging.level,
+      })
+    )
+  }
+  runStoreMigrations()
+  // Cached overrides apply right away; fresh ones re-render when they arrive
+  void refreshRemoteFlags()
+  await hydrateCatalogCache()
+  purgeTrash(
+    new Date(Date.now() - env.trash.retentionDays * 24 * 60 * 60 * 1000)
+  )
+
+  root.render(
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  )
+}
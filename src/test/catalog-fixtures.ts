@@ -0,0 +1,123 @@
+import type {
+  CachedMaterial,
+  CachedMaterialCertificate,
+  CachedMaterialSubComposition,
+  CachedMaterialSubstance,
+  CachedProduct,
+  CachedProductBomItem,
+} from '@/infrastructure/cache/catalog-cache'
+
+const TIMESTAMP = '2026-01-01T00:00:00.000Z'
+
+export function makeSubComposition(
+  overrides: Partial<CachedMaterialSubComposition> = {}
+): CachedMaterialSubComposition {
+  return {
+    id: 'sub-composition',
+    inputType: 'chemical',
+    substanceName: 'Water',
+    substanceCode: '7732-18-5',
+    percentage: 100,
+    projectedWeight: 0,
+    supplierId: '',
+    supplierName: '',
+    documents: [],
+    ...overrides,
+  }
+}
+
+export function makeSubstance(
+  overrides: Partial<CachedMaterialSubstance> = {}
+): CachedMaterialSubstance {
+  return {
+    id: 'substance',
+    inputType: 'chemical',
+    substanceName: 'Water',
+    substanceCode: '7732-18-5',
+    percentage: 100,
+    projectedWeight: 0,
+    subCompositions: [],
+    supplierId: '',
+    supplierName: '',
+    documents: [],
+    ...overrides,
+  }
+}
+
+export function makeCertificate(
+  overrides: Partial<CachedMaterialCertificate> = {}
+): CachedMaterialCertificate {
+  return {
+    id: 'certificate',
+    type: 'ISO 9001',
+    number: '0001',
+    expiryDate: '2026-12-31',
+    files: [],
+    ...overrides,
+  }
+}
+
+export function makeMaterial(
+  overrides: Partial<CachedMaterial> = {}
+): CachedMaterial {
+  return {
+    id: 'material',
+    name: 'Material',
+    unitOfMeasurement: 'pcs',
+    unitCost: 0,
+    unitCostCurrency: 'EUR',
+    weight: 10,
+    photos: [],
+    certificates: [],
+    substances: [],
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    version: 1,
+    ...overrides,
+  }
+}
+
+export function makeBomItem(
+  material: Pick<CachedMaterial, 'id' | 'name'>,
+  overrides: Partial<CachedProductBomItem> = {}
+): CachedProductBomItem {
+  return {
+    id: `bom-${material.id}`,
+    materialId: material.id,
+    materialName: material.name,
+    unitOfMeasurement: 'pcs',
+    unitCost: 0,
+    unitCostCurrency: 'EUR',
+    quantity: 1,
+    percentage: 0,
+    ...overrides,
+  }
+}
+
+export function makeProduct(
+  bomItems: CachedProductBomItem[] | undefined,
+  overrides: Partial<CachedProduct> = {}
+): CachedProduct {
+  return {
+    id: 'product',
+    name: 'Product',
+    upc: '012345678905',
+    categoryType: 'Furniture',
+    subCategory: 'Chairs',
+    unitOfMeasure: 'pcs',
+    measureValue: 1,
+    isActive: true,
+    photos: [],
+    bom: bomItems && { items: bomItems, updatedAt: TIMESTAMP },
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+    version: 1,
+    ...overrides,
+  }
+}
+
+/** A getMaterial() lookup over the given materials. */
+export function materialLookup(materials: CachedMaterial[]) {
+  const byId = new Map(materials.map((material) => [material.id, material]))
+  return (id: string) => byId.get(id)
+}